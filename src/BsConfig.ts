@@ -1,4 +1,5 @@
 import type { LogLevel } from './Logger';
+import type { FormattingOptions } from './formatter/Formatter';
 
 export interface BsConfig {
     /**
@@ -57,6 +58,17 @@ export interface BsConfig {
      */
     watch?: boolean;
 
+    /**
+     * If true, every brs and bs file in the project will be formatted in place (using the `formatting` options) instead of building the project
+     * @default false
+     */
+    format?: boolean;
+
+    /**
+     * Options used when formatting brs and bs files, both from the command line and from the language server
+     */
+    formatting?: FormattingOptions;
+
     /**
      * If true, after a successful buld, the project will be deployed to the roku specified in host
      */
@@ -104,6 +116,12 @@ export interface BsConfig {
      */
     emitDefinitions?: boolean;
 
+    /**
+     * Remove unreachable code (i.e. statements after a `return`, `throw` or `end` statement) from the transpiled output
+     * @default false
+     */
+    removeUnreachableCode?: boolean;
+
     /**
      * A list of filters used to exclude diagnostics from the output
      */
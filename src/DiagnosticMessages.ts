@@ -635,6 +635,225 @@ export let DiagnosticMessages = {
         message: `Cannot find type with name '${typeName}'`,
         code: 1123,
         severity: DiagnosticSeverity.Error
+    }),
+    keywordMustBeDeclaredAtNamespaceLevel: (keyword: string) => ({
+        message: `${keyword} must be declared at the root level or within a namespace`,
+        code: 1124,
+        severity: DiagnosticSeverity.Error
+    }),
+    enumValueMustBeLiteral: () => ({
+        message: `Enum value must be a string or numeric literal`,
+        code: 1125,
+        severity: DiagnosticSeverity.Error
+    }),
+    enumValueIsRequired: () => ({
+        message: `Enum value is required for members of string enums`,
+        code: 1126,
+        severity: DiagnosticSeverity.Error
+    }),
+    enumValueMustBeType: (expectedType: string) => ({
+        message: `Enum value must be type '${expectedType}'`,
+        code: 1127,
+        severity: DiagnosticSeverity.Error
+    }),
+    duplicateEnumMember: (memberName: string, enumName: string) => ({
+        message: `Duplicate member '${memberName}' in enum '${enumName}'`,
+        code: 1128,
+        severity: DiagnosticSeverity.Error
+    }),
+    unknownEnumValue: (memberName: string, enumName: string) => ({
+        message: `Property '${memberName}' does not exist on enum '${enumName}'`,
+        code: 1129,
+        severity: DiagnosticSeverity.Error
+    }),
+    constValueMustBeLiteral: () => ({
+        message: `Const value must be a literal or an array of literals`,
+        code: 1130,
+        severity: DiagnosticSeverity.Error
+    }),
+    constReassignment: (constName: string) => ({
+        message: `Cannot assign to '${constName}' because it is a constant`,
+        code: 1131,
+        severity: DiagnosticSeverity.Error
+    }),
+    optionalChainingNotAllowedInAssignment: () => ({
+        message: `Optional chaining may not be used on the left-hand side of an assignment`,
+        code: 1132,
+        severity: DiagnosticSeverity.Error
+    }),
+    unknownClassMember: (memberName: string, className: string) => ({
+        message: `Property '${memberName}' does not exist on class '${className}'`,
+        code: 1133,
+        severity: DiagnosticSeverity.Error
+    }),
+    argumentTypeMismatch: (actualTypeString: string, expectedTypeString: string) => ({
+        message: `Argument of type '${actualTypeString}' is not assignable to parameter of type '${expectedTypeString}'`,
+        code: 1134,
+        severity: DiagnosticSeverity.Error
+    }),
+    returnTypeMismatch: (actualTypeString: string, expectedTypeString: string) => ({
+        message: `Type '${actualTypeString}' is not assignable to return type '${expectedTypeString}'`,
+        code: 1135,
+        severity: DiagnosticSeverity.Error
+    }),
+    missingReturnValue: (expectedTypeString: string) => ({
+        message: `Function must return a value of type '${expectedTypeString}'`,
+        code: 1136,
+        severity: DiagnosticSeverity.Error
+    }),
+    notAllCodePathsReturnValue: (expectedTypeString: string) => ({
+        message: `Not all code paths return a value of type '${expectedTypeString}'`,
+        code: 1137,
+        severity: DiagnosticSeverity.Error
+    }),
+    unusedVariable: (name: string) => ({
+        message: `Local variable '${name}' is assigned but its value is never read`,
+        code: 1138,
+        data: {
+            name: name
+        },
+        severity: DiagnosticSeverity.Hint
+    }),
+    unusedParameter: (name: string) => ({
+        message: `Parameter '${name}' is declared but its value is never read`,
+        code: 1139,
+        data: {
+            name: name
+        },
+        severity: DiagnosticSeverity.Hint
+    }),
+    unreachableCode: () => ({
+        message: `Unreachable code detected`,
+        code: 1140,
+        severity: DiagnosticSeverity.Hint
+    }),
+    variableUsedBeforeAssignment: (name: string) => ({
+        message: `Variable '${name}' is used before being assigned`,
+        code: 1141,
+        severity: DiagnosticSeverity.Warning
+    }),
+    interfaceCouldNotBeFound: (interfaceName: string, scopeName: string) => ({
+        message: `Interface '${interfaceName}' could not be found when this file is included in scope '${scopeName}'`,
+        code: 1142,
+        severity: DiagnosticSeverity.Error,
+        data: {
+            interfaceName: interfaceName
+        }
+    }),
+    classMissingInterfaceMember: (className: string, interfaceName: string, memberName: string) => ({
+        message: `Class '${className}' incorrectly implements interface '${interfaceName}'. Member '${memberName}' is missing`,
+        code: 1143,
+        severity: DiagnosticSeverity.Error
+    }),
+    classMemberNotCompatibleWithInterface: (className: string, interfaceName: string, memberName: string, actualType: string, expectedType: string) => ({
+        message: `Class '${className}' incorrectly implements interface '${interfaceName}'. Member '${memberName}' of type '${actualType}' is not compatible with type '${expectedType}'`,
+        code: 1144,
+        severity: DiagnosticSeverity.Error
+    }),
+    classMethodParameterCountMismatchWithInterface: (className: string, interfaceName: string, methodName: string, expectedCount: number) => ({
+        message: `Class '${className}' incorrectly implements interface '${interfaceName}'. Method '${methodName}' must accept ${expectedCount} parameter${expectedCount === 1 ? '' : 's'}`,
+        code: 1145,
+        severity: DiagnosticSeverity.Error
+    }),
+    cannotInstantiateAbstractClass: (className: string) => ({
+        message: `Cannot create an instance of abstract class '${className}'`,
+        code: 1146,
+        severity: DiagnosticSeverity.Error
+    }),
+    abstractMethodInNonAbstractClass: (methodName: string, className: string) => ({
+        message: `Abstract method '${methodName}' can only be declared in an abstract class, but class '${className}' is not abstract`,
+        code: 1147,
+        severity: DiagnosticSeverity.Error
+    }),
+    classMissingAbstractMemberImplementation: (className: string, methodName: string, ancestorClassName: string) => ({
+        message: `Non-abstract class '${className}' does not implement abstract method '${methodName}' from class '${ancestorClassName}'`,
+        code: 1148,
+        severity: DiagnosticSeverity.Error
+    }),
+    staticMemberCannotUseModifier: (modifier: string) => ({
+        message: `Static class members cannot be marked as '${modifier}'`,
+        code: 1149,
+        severity: DiagnosticSeverity.Error
+    }),
+    cannotUseMInStaticMember: (memberName: string) => ({
+        message: `Cannot use 'm' in static member '${memberName}' because static members are not called on a class instance`,
+        code: 1150,
+        severity: DiagnosticSeverity.Error
+    }),
+    accessorParameterCountMismatch: (accessorKind: string, expectedParameterCount: number) => ({
+        message: `A '${accessorKind}' accessor must have exactly ${expectedParameterCount} parameter${expectedParameterCount === 1 ? '' : 's'}`,
+        code: 1151,
+        severity: DiagnosticSeverity.Error
+    }),
+    cannotAssignToGetOnlyProperty: (propertyName: string, className: string) => ({
+        message: `Cannot assign to '${propertyName}' because it is a get-only property of class '${className}'`,
+        code: 1152,
+        severity: DiagnosticSeverity.Error
+    }),
+    typeArgumentCountMismatch: (className: string, expectedCount: number, actualCount: number) => ({
+        message: `Class '${className}' expects ${expectedCount} type argument${expectedCount === 1 ? '' : 's'} but got ${actualCount}`,
+        code: 1153,
+        severity: DiagnosticSeverity.Error
+    }),
+    unknownInterfaceMember: (memberName: string, interfaceName: string) => ({
+        message: `Property '${memberName}' does not exist on interface '${interfaceName}'`,
+        code: 1154,
+        severity: DiagnosticSeverity.Error
+    }),
+    unknownComponentField: (fieldName: string, componentName: string) => ({
+        message: `Field '${fieldName}' does not exist on component '${componentName}'`,
+        code: 1155,
+        severity: DiagnosticSeverity.Error
+    }),
+    componentFieldTypeMismatch: (actualTypeString: string, fieldName: string, fieldTypeString: string) => ({
+        message: `Type '${actualTypeString}' is not assignable to field '${fieldName}' of type '${fieldTypeString}'`,
+        code: 1156,
+        severity: DiagnosticSeverity.Error
+    }),
+    callfuncFunctionNotFound: (functionName: string, componentName: string) => ({
+        message: `Cannot find function '${functionName}' in the interface of component '${componentName}'`,
+        code: 1157,
+        severity: DiagnosticSeverity.Error
+    }),
+    callfuncFunctionNotInInterface: (functionName: string, componentName: string) => ({
+        message: `Function '${functionName}' exists in component '${componentName}' but is not exposed in its <interface>, so it cannot be called with callfunc`,
+        code: 1158,
+        severity: DiagnosticSeverity.Warning
+    }),
+    callbackFunctionHasTooManyParams: (functionName: string, requiredParamCount: number) => ({
+        message: `Callback function '${functionName}' is only passed the field event, but has ${requiredParamCount} required parameters`,
+        code: 1159,
+        severity: DiagnosticSeverity.Error
+    }),
+    xmlUnknownNode: (nodeName: string) => ({
+        message: `Cannot find a component or built-in node named '${nodeName}'`,
+        code: 1160,
+        severity: DiagnosticSeverity.Warning
+    }),
+    unknownBrsComponent: (componentName: string) => ({
+        message: `Cannot find a built-in BrightScript component named '${componentName}'`,
+        code: 1161,
+        severity: DiagnosticSeverity.Warning
+    }),
+    unknownBrsComponentMethod: (methodName: string, componentName: string) => ({
+        message: `Method '${methodName}' does not exist on component '${componentName}'`,
+        code: 1162,
+        severity: DiagnosticSeverity.Warning
+    }),
+    xmlUnknownNodeField: (fieldName: string, nodeName: string) => ({
+        message: `Field '${fieldName}' does not exist on node '${nodeName}'`,
+        code: 1163,
+        severity: DiagnosticSeverity.Warning
+    }),
+    cannotCallAbstractSuperMethod: (methodName: string, className: string) => ({
+        message: `Cannot call abstract method '${methodName}' of class '${className}' through 'super', because it has no implementation`,
+        code: 1164,
+        severity: DiagnosticSeverity.Error
+    }),
+    accessorOnUntypedValue: (propertyName: string, className: string) => ({
+        message: `Property '${propertyName}' has accessors in class '${className}', but the type of this value is unknown, so the accessors will not be called`,
+        code: 1165,
+        severity: DiagnosticSeverity.Warning
     })
 };
 
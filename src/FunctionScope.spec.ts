@@ -2,6 +2,9 @@ import { expect } from 'chai';
 
 import { FunctionScope } from './FunctionScope';
 import { Program } from './Program';
+import type { BrsFile } from './files/BrsFile';
+import type { VariableExpression } from './parser/Expression';
+import { createVisitor, WalkMode } from './astUtils/visitors';
 
 describe('FunctionScope', () => {
     let scope: FunctionScope;
@@ -37,4 +40,130 @@ describe('FunctionScope', () => {
 
         });
     });
+
+    describe('getNarrowedType', () => {
+        /**
+         * Get the narrowed type of the variable in every `print` statement of the first function
+         */
+        function getPrintedTypes(source: string) {
+            const file = program.addOrReplaceFile<BrsFile>('source/main.bs', source);
+            const functionScope = file.functionScopes[0];
+            const types = [] as string[];
+            functionScope.func.body.walk(createVisitor({
+                PrintStatement: (statement) => {
+                    const variable = statement.expressions[0] as VariableExpression;
+                    const declaredType = functionScope.getVariableByName(variable.name.text).type;
+                    types.push(functionScope.getNarrowedType(variable.name.text, variable.range.start, declaredType).toString());
+                }
+            }), {
+                walkMode: WalkMode.visitStatements
+            });
+            return types;
+        }
+
+        it('narrows `invalid` checks', () => {
+            expect(getPrintedTypes(`
+                sub main(name as string | invalid)
+                    if name <> invalid then
+                        print name
+                    else
+                        print name
+                    end if
+                    if invalid = name then
+                        print name
+                    end if
+                    print name
+                end sub
+            `)).to.eql(['string', 'invalid', 'invalid', 'string | invalid']);
+        });
+
+        it('narrows `type()` checks', () => {
+            expect(getPrintedTypes(`
+                sub main(value)
+                    if type(value) = "roString" then
+                        print value
+                    else if type(value) = "Integer" then
+                        print value
+                    else if type(value) <> "roArray" then
+                        print value
+                    else
+                        print value
+                    end if
+                end sub
+            `)).to.eql(['string', 'integer', 'dynamic', 'dynamic[]']);
+        });
+
+        it('narrows `GetInterface()` checks', () => {
+            expect(getPrintedTypes(`
+                sub main(value)
+                    if GetInterface(value, "ifFloat") <> invalid then
+                        print value
+                    end if
+                    if GetInterface(value, "ifString") = invalid then
+                        print value
+                    else
+                        print value
+                    end if
+                end sub
+            `)).to.eql(['float', 'dynamic', 'string']);
+        });
+
+        it('narrows type-checking helper functions', () => {
+            expect(getPrintedTypes(`
+                sub main(value as string | integer)
+                    if isString(value) then
+                        print value
+                    end if
+                    if not bslib_isString(value) then
+                        print value
+                    end if
+                end sub
+            `)).to.eql(['string', 'integer']);
+        });
+
+        it('combines conditions with `and`, `or` and `not`', () => {
+            expect(getPrintedTypes(`
+                sub main(first as string | invalid, second as string | invalid)
+                    if first <> invalid and (second <> invalid) then
+                        print first
+                        print second
+                    end if
+                    if first = invalid or second = invalid then
+                        print first
+                    else
+                        print first
+                        print second
+                    end if
+                    if not (first = invalid) then
+                        print first
+                    end if
+                end sub
+            `)).to.eql(['string', 'string', 'string | invalid', 'string', 'string', 'string']);
+        });
+
+        it('narrows the rest of the block after an `if` that always leaves it', () => {
+            expect(getPrintedTypes(`
+                function main(name as string | invalid) as string
+                    print name
+                    if name = invalid then
+                        return ""
+                    end if
+                    print name
+                    return name
+                end function
+            `)).to.eql(['string | invalid', 'string']);
+        });
+
+        it('stops narrowing when the variable is assigned', () => {
+            expect(getPrintedTypes(`
+                sub main(value)
+                    if type(value) = "roString" then
+                        print value
+                        value = 1
+                        print value
+                    end if
+                end sub
+            `)).to.eql(['string', 'dynamic']);
+        });
+    });
 });
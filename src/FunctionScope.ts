@@ -1,5 +1,76 @@
-import type { LabelDeclaration, VariableDeclaration } from './interfaces';
-import type { FunctionExpression } from './parser/Expression';
+import type { Position, Range } from 'vscode-languageserver';
+import type { LabelDeclaration, TypeNarrowing, VariableDeclaration } from './interfaces';
+import type { Expression, FunctionExpression } from './parser/Expression';
+import type { Block, ForEachStatement, IfStatement, Statement } from './parser/Statement';
+import { TokenKind } from './lexer';
+import { isBinaryExpression, isBlock, isCallExpression, isEndStatement, isGroupingExpression, isLiteralExpression, isReturnStatement, isThrowStatement, isUnaryExpression, isUnionType, isVariableExpression } from './astUtils/reflection';
+import type { BscType } from './types/BscType';
+import { ArrayType } from './types/ArrayType';
+import { BooleanType } from './types/BooleanType';
+import { DoubleType } from './types/DoubleType';
+import { DynamicType } from './types/DynamicType';
+import { FloatType } from './types/FloatType';
+import { FunctionType } from './types/FunctionType';
+import { IntegerType } from './types/IntegerType';
+import { InvalidType } from './types/InvalidType';
+import { LongIntegerType } from './types/LongIntegerType';
+import { StringType } from './types/StringType';
+import { UnionType } from './types/UnionType';
+import { util } from './util';
+
+/**
+ * The types that can be detected at runtime, by the lower case name that `type()` returns for them
+ */
+const runtimeTypes = {
+    string: () => new StringType(),
+    rostring: () => new StringType(),
+    integer: () => new IntegerType(),
+    roint: () => new IntegerType(),
+    rointeger: () => new IntegerType(),
+    float: () => new FloatType(),
+    rofloat: () => new FloatType(),
+    double: () => new DoubleType(),
+    rodouble: () => new DoubleType(),
+    rointrinsicdouble: () => new DoubleType(),
+    longinteger: () => new LongIntegerType(),
+    rolonginteger: () => new LongIntegerType(),
+    boolean: () => new BooleanType(),
+    roboolean: () => new BooleanType(),
+    function: () => new FunctionType(new DynamicType()),
+    rofunction: () => new FunctionType(new DynamicType()),
+    roarray: () => new ArrayType(),
+    invalid: () => new InvalidType(),
+    roinvalid: () => new InvalidType()
+} as Record<string, () => BscType>;
+
+/**
+ * The `type()` name of the type that implements each BrightScript interface (i.e. `GetInterface(x, "ifString")`)
+ */
+const interfaceRuntimeTypes = {
+    ifstring: 'rostring',
+    ifint: 'roint',
+    iffloat: 'rofloat',
+    ifdouble: 'rodouble',
+    iflongint: 'rolonginteger',
+    ifboolean: 'roboolean',
+    iffunction: 'rofunction',
+    ifarray: 'roarray'
+} as Record<string, string>;
+
+/**
+ * The `type()` name of the type checked by each helper function (i.e. `isString(x)` or `bslib_isString(x)`)
+ */
+const helperRuntimeTypes = {
+    isstring: 'rostring',
+    isinteger: 'roint',
+    isfloat: 'rofloat',
+    isdouble: 'rodouble',
+    islonginteger: 'rolonginteger',
+    isboolean: 'roboolean',
+    isfunction: 'rofunction',
+    isarray: 'roarray',
+    isinvalid: 'roinvalid'
+} as Record<string, string>;
 
 //TODO I think this class can be eliminated in favor of moving some of these onto the FunctionExpression AST node
 export class FunctionScope {
@@ -25,6 +96,14 @@ export class FunctionScope {
     public parentScope: FunctionScope;
     public variableDeclarations = [] as VariableDeclaration[];
     public labelStatements = [] as LabelDeclaration[];
+    /**
+     * The narrowed types of variables, in the order of the `if` statements they come from
+     */
+    public typeNarrowings = [] as TypeNarrowing[];
+    /**
+     * The `for each` statements directly in this function, used to find the type of their loop variables
+     */
+    public forEachStatements = [] as ForEachStatement[];
 
     /**
      * Find all variable declarations above the given line index
@@ -51,4 +130,144 @@ export class FunctionScope {
         }
     }
 
+    /**
+     * Get the type of a variable at a position, narrowed by the `if` statements around it.
+     * A narrowing no longer applies once the variable is assigned a new value
+     * @param type the type of the variable without narrowing
+     */
+    public getNarrowedType(name: string, position: Position, type: BscType) {
+        const lowerName = name.toLowerCase();
+        for (const narrowing of this.typeNarrowings) {
+            if (narrowing.name.toLowerCase() !== lowerName || !util.rangeContains(narrowing.range, position)) {
+                continue;
+            }
+            const rangeBeforePosition = util.createRangeFromPositions(narrowing.range.start, position);
+            const isReassigned = this.variableDeclarations.some(x => {
+                return x.name.toLowerCase() === lowerName && util.rangeContains(rangeBeforePosition, x.nameRange.start);
+            });
+            if (!isReassigned) {
+                type = narrowing.type ?? this.excludeType(type, narrowing.excludedType);
+            }
+        }
+        return type;
+    }
+
+    /**
+     * Remove a type from a union type (i.e. `string | invalid` without `invalid` is `string`). Other types can't be narrowed this way
+     */
+    private excludeType(type: BscType, excludedType: BscType) {
+        if (!isUnionType(type)) {
+            return type;
+        }
+        const lowerExcludedTypeName = excludedType.toString().toLowerCase();
+        const types = type.types.filter(x => x.toString().toLowerCase() !== lowerExcludedTypeName);
+        if (types.length === 0) {
+            return type;
+        }
+        return types.length === 1 ? types[0] : new UnionType(types);
+    }
+
+    /**
+     * Add the narrowed types from the condition of an `if` statement: for the `then` branch when the condition is true, for the `else` branch when it is false,
+     * and for the rest of the containing block when the `then` branch always leaves it (i.e. `if x = invalid then return`)
+     * @param parent the statement that contains the `if` statement
+     */
+    public addIfStatementNarrowings(statement: IfStatement, parent: Statement) {
+        this.addNarrowings(statement.condition, true, statement.thenBranch.range);
+        if (statement.elseBranch) {
+            this.addNarrowings(statement.condition, false, statement.elseBranch.range);
+        } else if (isBlock(parent) && this.blockAlwaysExits(statement.thenBranch)) {
+            this.addNarrowings(statement.condition, false, util.createRangeFromPositions(statement.range.end, parent.range.end));
+        }
+    }
+
+    private blockAlwaysExits(block: Block) {
+        const lastStatement = block.statements[block.statements.length - 1];
+        return isReturnStatement(lastStatement) || isThrowStatement(lastStatement) || isEndStatement(lastStatement);
+    }
+
+    /**
+     * Add the narrowed types that are known when the condition has the given value
+     */
+    private addNarrowings(condition: Expression, isTrue: boolean, range: Range) {
+        if (isGroupingExpression(condition)) {
+            this.addNarrowings(condition.expression, isTrue, range);
+
+        } else if (isUnaryExpression(condition) && condition.operator.kind === TokenKind.Not) {
+            this.addNarrowings(condition.right, !isTrue, range);
+
+        } else if (isBinaryExpression(condition) && (condition.operator.kind === TokenKind.And || condition.operator.kind === TokenKind.Or)) {
+            //both sides of `a and b` are true when it is true, and both sides of `a or b` are false when it is false
+            if (isTrue === (condition.operator.kind === TokenKind.And)) {
+                this.addNarrowings(condition.left, isTrue, range);
+                this.addNarrowings(condition.right, isTrue, range);
+            }
+
+        } else if (isBinaryExpression(condition) && (condition.operator.kind === TokenKind.Equal || condition.operator.kind === TokenKind.LessGreater)) {
+            //whether both sides are equal when the condition has the given value
+            const isEqual = isTrue === (condition.operator.kind === TokenKind.Equal);
+            this.addComparisonNarrowing(condition.left, condition.right, isEqual, range);
+            this.addComparisonNarrowing(condition.right, condition.left, isEqual, range);
+
+        } else if (isCallExpression(condition) && isVariableExpression(condition.callee)) {
+            //helper functions like `isString(x)`
+            const variable = condition.args[0];
+            if (isVariableExpression(variable)) {
+                const helperName = condition.callee.name.text.toLowerCase().replace(/^bslib_/, '');
+                this.addRuntimeTypeNarrowing(variable.name.text, helperRuntimeTypes[helperName], isTrue, range);
+            }
+        }
+    }
+
+    /**
+     * Add the narrowed type from comparing an expression to a value:
+     * `x = invalid`, `type(x) = "roString"` and `GetInterface(x, "ifString") = invalid`
+     * @param isEqual whether the expression and the value are equal
+     */
+    private addComparisonNarrowing(expression: Expression, value: Expression, isEqual: boolean, range: Range) {
+        if (!isLiteralExpression(value)) {
+            return;
+        }
+        const isInvalid = value.token.kind === TokenKind.Invalid;
+        if (isVariableExpression(expression) && isInvalid) {
+            this.addRuntimeTypeNarrowing(expression.name.text, 'roinvalid', isEqual, range);
+
+        } else if (isCallExpression(expression) && isVariableExpression(expression.callee)) {
+            const functionName = expression.callee.name.text.toLowerCase();
+            const [variable, interfaceName] = expression.args;
+            if (!isVariableExpression(variable)) {
+                return;
+            }
+            if (functionName === 'type' && value.token.kind === TokenKind.StringLiteral) {
+                this.addRuntimeTypeNarrowing(variable.name.text, this.getStringValue(value.token.text), isEqual, range);
+
+            } else if (functionName === 'getinterface' && isInvalid && isLiteralExpression(interfaceName) && interfaceName.token.kind === TokenKind.StringLiteral) {
+                //the variable has the interface when `GetInterface()` does not return `invalid`
+                this.addRuntimeTypeNarrowing(variable.name.text, interfaceRuntimeTypes[this.getStringValue(interfaceName.token.text)], !isEqual, range);
+            }
+        }
+    }
+
+    /**
+     * Add a narrowing for a variable that is (or is not) of a type detected at runtime
+     * @param runtimeTypeName the lower case `type()` name of the type
+     */
+    private addRuntimeTypeNarrowing(name: string, runtimeTypeName: string, isType: boolean, range: Range) {
+        const getType = runtimeTypes[runtimeTypeName];
+        if (getType) {
+            this.typeNarrowings.push({
+                name: name,
+                range: range,
+                type: isType ? getType() : undefined,
+                excludedType: isType ? undefined : getType()
+            });
+        }
+    }
+
+    /**
+     * Get the lower case value of a string literal, without its quotes
+     */
+    private getStringValue(text: string) {
+        return text.replace(/^"(.*)"$/, '$1').toLowerCase();
+    }
 }
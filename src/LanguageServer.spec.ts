@@ -3,7 +3,7 @@ import * as fsExtra from 'fs-extra';
 import * as glob from 'glob';
 import * as path from 'path';
 import type { DidChangeWatchedFilesParams, DocumentSymbol, Location } from 'vscode-languageserver';
-import { FileChangeType, Range } from 'vscode-languageserver';
+import { FileChangeType, Range, ResponseError, TextEdit } from 'vscode-languageserver';
 import { Deferred } from './deferred';
 import type { Workspace } from './LanguageServer';
 import { LanguageServer } from './LanguageServer';
@@ -47,6 +47,11 @@ describe('LanguageServer', () => {
         onDefinition: () => null,
         onSignatureHelp: () => null,
         onReferences: () => null,
+        onPrepareRename: () => null,
+        onRenameRequest: () => null,
+        onDocumentFormatting: () => null,
+        onDocumentRangeFormatting: () => null,
+        onFoldingRanges: () => null,
         onHover: () => null,
         listen: () => null,
         sendNotification: () => null,
@@ -553,6 +558,112 @@ describe('LanguageServer', () => {
         });
     });
 
+    describe('onRenameRequest', () => {
+        it('renames a function across files', async () => {
+            svr.connection = svr.createConnection();
+            await svr.createWorkspace(s`${rootDir}/TestRokuApp`);
+            program = svr.workspaces[0].builder.program;
+
+            const functionDocument = addScriptFile('buildAwesome', `
+                function buildAwesome()
+                    return 42
+                end function
+            `);
+            const callDocument = addScriptFile('CallComponent', `
+                sub init()
+                    buildAwesome()
+                end sub
+            `);
+            addXmlFile('CallComponent', `<script type="text/brightscript" uri="buildAwesome.brs" />`);
+
+            const range = await svr.onPrepareRename({
+                textDocument: {
+                    uri: functionDocument.uri
+                },
+                position: util.createPosition(1, 32)
+            });
+            expect(range).to.eql(util.createRange(1, 25, 1, 37));
+
+            const edits = await svr.onRenameRequest({
+                textDocument: {
+                    uri: functionDocument.uri
+                },
+                position: util.createPosition(1, 32),
+                newName: 'buildAmazing'
+            });
+            expect(Object.keys(edits.changes).sort()).to.eql([callDocument.uri, functionDocument.uri].sort());
+            expect(edits.changes[callDocument.uri]).to.eql([
+                TextEdit.replace(util.createRange(2, 20, 2, 32), 'buildAmazing')
+            ]);
+        });
+
+        it('returns an error for names that are not valid identifiers', async () => {
+            svr.connection = svr.createConnection();
+            await svr.createWorkspace(s`${rootDir}/TestRokuApp`);
+            program = svr.workspaces[0].builder.program;
+
+            const functionDocument = addScriptFile('buildAwesome', `
+                function buildAwesome()
+                    return 42
+                end function
+            `);
+
+            const result = await svr.onRenameRequest({
+                textDocument: {
+                    uri: functionDocument.uri
+                },
+                position: util.createPosition(1, 32),
+                newName: 'end'
+            });
+            expect(result).to.be.instanceOf(ResponseError);
+            expect(result.message).to.eql(`'end' is not a valid name`);
+        });
+    });
+
+    describe('onDocumentFormatting', () => {
+        it('uses the editor indentation settings', async () => {
+            svr.connection = svr.createConnection();
+            await svr.createWorkspace(s`${rootDir}/TestRokuApp`);
+            program = svr.workspaces[0].builder.program;
+
+            const document = addScriptFile('main', `sub main()\nprint "hello"\nEND SUB`);
+            const edits = await svr.onDocumentFormatting({
+                textDocument: {
+                    uri: document.uri
+                },
+                options: {
+                    tabSize: 2,
+                    insertSpaces: true
+                }
+            });
+            expect(edits).to.eql([
+                TextEdit.replace(util.createRange(1, 0, 1, 13), '  print "hello"'),
+                TextEdit.replace(util.createRange(2, 0, 2, 7), 'end sub')
+            ]);
+        });
+
+        it('only formats lines within the range', async () => {
+            svr.connection = svr.createConnection();
+            await svr.createWorkspace(s`${rootDir}/TestRokuApp`);
+            program = svr.workspaces[0].builder.program;
+
+            const document = addScriptFile('main', `sub main()\nprint "hello"\nEND SUB`);
+            const edits = await svr.onDocumentRangeFormatting({
+                textDocument: {
+                    uri: document.uri
+                },
+                range: util.createRange(2, 0, 2, 7),
+                options: {
+                    tabSize: 4,
+                    insertSpaces: false
+                }
+            });
+            expect(edits).to.eql([
+                TextEdit.replace(util.createRange(2, 0, 2, 7), 'end sub')
+            ]);
+        });
+    });
+
     describe('onDefinition', () => {
         let functionDocument: TextDocument;
         let referenceDocument: TextDocument;
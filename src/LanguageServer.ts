@@ -21,7 +21,14 @@ import type {
     CodeActionParams,
     SemanticTokensOptions,
     SemanticTokens,
-    SemanticTokensParams
+    SemanticTokensParams,
+    RenameParams,
+    PrepareRenameParams,
+    DocumentFormattingParams,
+    DocumentRangeFormattingParams,
+    FormattingOptions as LspFormattingOptions,
+    Range,
+    FoldingRangeParams
 } from 'vscode-languageserver/node';
 import {
     SemanticTokensRequest,
@@ -31,7 +38,9 @@ import {
     ProposedFeatures,
     TextDocuments,
     TextDocumentSyncKind,
-    CodeActionKind
+    CodeActionKind,
+    ResponseError,
+    ErrorCodes
 } from 'vscode-languageserver/node';
 import { URI } from 'vscode-uri';
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -46,6 +55,7 @@ import { KeyedThrottler } from './KeyedThrottler';
 import { DiagnosticCollection } from './DiagnosticCollection';
 import { isBrsFile } from './astUtils/reflection';
 import { encodeSemanticTokens, semanticTokensLegend } from './SemanticTokenUtils';
+import { Formatter } from './formatter/Formatter';
 
 export class LanguageServer {
     private connection = undefined as Connection;
@@ -148,6 +158,16 @@ export class LanguageServer {
 
         this.connection.onReferences(this.onReferences.bind(this));
 
+        this.connection.onPrepareRename(this.onPrepareRename.bind(this));
+
+        this.connection.onRenameRequest(this.onRenameRequest.bind(this));
+
+        this.connection.onDocumentFormatting(this.onDocumentFormatting.bind(this));
+
+        this.connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this));
+
+        this.connection.onFoldingRanges(this.onFoldingRanges.bind(this));
+
         this.connection.onCodeAction(this.onCodeAction.bind(this));
 
         //TODO switch to a more specific connection function call once they actually add it
@@ -211,6 +231,12 @@ export class LanguageServer {
                     full: true
                 } as SemanticTokensOptions,
                 referencesProvider: true,
+                renameProvider: {
+                    prepareProvider: true
+                },
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true,
+                foldingRangeProvider: true,
                 codeActionProvider: {
                     codeActionKinds: [CodeActionKind.Refactor]
                 },
@@ -1075,6 +1101,88 @@ export class LanguageServer {
         return results.filter((r) => r);
     }
 
+    @AddStackToErrorMessage
+    private async onPrepareRename(params: PrepareRenameParams) {
+        await this.waitAllProgramFirstRuns();
+        await this.keyedThrottler.onIdleOnce(util.uriToPath(params.textDocument.uri), true);
+
+        const pathAbsolute = util.uriToPath(params.textDocument.uri);
+        for (const workspace of this.getWorkspaces()) {
+            const range = workspace.builder.program.prepareRename(pathAbsolute, params.position);
+            if (range) {
+                return range;
+            }
+        }
+        return null;
+    }
+
+    @AddStackToErrorMessage
+    private async onRenameRequest(params: RenameParams) {
+        await this.waitAllProgramFirstRuns();
+        await this.keyedThrottler.onIdleOnce(util.uriToPath(params.textDocument.uri), true);
+
+        if (!util.isValidIdentifier(params.newName)) {
+            return new ResponseError<void>(ErrorCodes.InvalidParams, `'${params.newName}' is not a valid name`);
+        }
+
+        const pathAbsolute = util.uriToPath(params.textDocument.uri);
+        //find the first program that can rename this symbol, since every program would produce the same edits for a shared file
+        for (const workspace of this.getWorkspaces()) {
+            const edits = workspace.builder.program.getRenameEdits(pathAbsolute, params.position, params.newName);
+            if (edits) {
+                return edits;
+            }
+        }
+        return null;
+    }
+
+    @AddStackToErrorMessage
+    private async onDocumentFormatting(params: DocumentFormattingParams) {
+        return this.getFormattingEdits(params.textDocument.uri, params.options);
+    }
+
+    @AddStackToErrorMessage
+    private async onDocumentRangeFormatting(params: DocumentRangeFormattingParams) {
+        return this.getFormattingEdits(params.textDocument.uri, params.options, params.range);
+    }
+
+    /**
+     * Get the edits needed to format a brs or bs file, using the `formatting` options from the bsconfig of the first workspace that contains the file.
+     * The editor's indentation settings are only used when the bsconfig doesn't specify them
+     */
+    private async getFormattingEdits(uri: string, options: LspFormattingOptions, range?: Range) {
+        await this.waitAllProgramFirstRuns();
+
+        const pathAbsolute = util.uriToPath(uri);
+        const extension = path.extname(pathAbsolute).toLowerCase();
+        const document = this.documents.get(uri);
+        if (!document || !['.brs', '.bs'].includes(extension)) {
+            return [];
+        }
+        const workspace = this.getWorkspaces().find(x => x.builder.program.hasFile(pathAbsolute));
+        const formatter = new Formatter({
+            indentStyle: options.insertSpaces ? 'spaces' : 'tabs',
+            indentSpaceCount: options.tabSize,
+            ...workspace?.builder.program.options.formatting
+        });
+        return formatter.getEdits(document.getText(), range);
+    }
+
+    @AddStackToErrorMessage
+    private async onFoldingRanges(params: FoldingRangeParams) {
+        await this.waitAllProgramFirstRuns();
+        await this.keyedThrottler.onIdleOnce(util.uriToPath(params.textDocument.uri), true);
+
+        const srcPath = util.uriToPath(params.textDocument.uri);
+        for (const workspace of this.workspaces) {
+            //find the first program that has this file, since every program would produce the same folding ranges for it
+            if (workspace.builder.program.hasFile(srcPath)) {
+                return workspace.builder.program.getFoldingRanges(srcPath);
+            }
+        }
+        return [];
+    }
+
     @AddStackToErrorMessage
     private async onFullSemanticTokens(params: SemanticTokensParams) {
         await this.waitAllProgramFirstRuns();
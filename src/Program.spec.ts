@@ -1135,6 +1135,29 @@ describe('Program', () => {
             ).to.eql(['personAMethodA', 'personAMethodB', 'personAName', 'personCMethodA', 'personCMethodB', 'personCMethodC', 'personCName', 'personName']);
         });
 
+        it('gets the static members of a class and its ancestors after the class name', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                sub main()
+                    Duck.
+                end sub
+                class Bird
+                    static total = 0
+                    static function create()
+                    end function
+                    name = "bird"
+                end class
+                class Duck extends Bird
+                    static function quack()
+                    end function
+                    function fly()
+                    end function
+                end class
+            `);
+            expect(
+                (program.getCompletions(`${rootDir}/source/main.bs`, Position.create(2, 25))).map(x => x.label).sort()
+            ).to.eql(['create', 'quack', 'total']);
+        });
+
     });
 
     it('include non-namespaced classes in the list of general output', () => {
@@ -1867,7 +1890,7 @@ describe('Program', () => {
                 end class
             `);
             let signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 31)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].signature.label).to.equal('Person()');
         });
 
@@ -1902,6 +1925,20 @@ describe('Program', () => {
             expect(signatureHelp[0].signature.label).to.equal('function sayHello(text)');
         });
 
+        it('gets signature help for methods of built-in components', () => {
+            program.addOrReplaceFile('source/main.brs', `
+                sub main()
+                    date = CreateObject("roDateTime")
+                    print date.AsDateString("long-date")
+                end sub
+            `);
+            //date.AsDateString("lo|ng-date")
+            const signatureHelp = program.getSignatureHelp(`${rootDir}/source/main.brs`, Position.create(3, 46));
+            expect(signatureHelp).to.have.length(1);
+            expect(signatureHelp[0].signature.label).to.equal('function AsDateString(format as string) as string');
+            expect(signatureHelp[0].signature.parameters.map(x => x.label)).to.eql(['format']);
+        });
+
         it('gets signature help for namespaced class function', () => {
             program.addOrReplaceFile('source/main.bs', `
                 function main()
@@ -2026,7 +2063,7 @@ describe('Program', () => {
                 end class
             `);
             let signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 34)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].signature.label).to.equal('Person(arg1, arg2)');
         });
 
@@ -2044,7 +2081,7 @@ describe('Program', () => {
                 end class
             `);
             let signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 34)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].signature.label).to.equal('Roger(arg1, arg2)');
         });
 
@@ -2060,11 +2097,11 @@ describe('Program', () => {
                 end class
             `);
             let signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 34)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].index).to.equal(0);
 
             signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 40)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].index).to.equal(1);
         });
 
@@ -2081,7 +2118,7 @@ describe('Program', () => {
                 end namespace
                     `);
             let signatureHelp = (program.getSignatureHelp(`${rootDir}/source/main.bs`, Position.create(2, 47)));
-            expect(program.getDiagnostics()).to.be.empty;
+            expectZeroDiagnostics(program);
             expect(signatureHelp[0].signature.label).to.equal('people.coders.Person(arg1, arg2)');
             expect(signatureHelp[0].index).to.equal(0);
         });
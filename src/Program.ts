@@ -1,8 +1,8 @@
 import * as assert from 'assert';
 import * as fsExtra from 'fs-extra';
 import * as path from 'path';
-import type { CodeAction, CompletionItem, Position, Range, SignatureInformation } from 'vscode-languageserver';
-import { Location, CompletionItemKind } from 'vscode-languageserver';
+import type { CodeAction, CompletionItem, FoldingRange, Position, Range, SignatureInformation, WorkspaceEdit } from 'vscode-languageserver';
+import { Location, CompletionItemKind, TextEdit } from 'vscode-languageserver';
 import type { BsConfig } from './BsConfig';
 import { Scope } from './Scope';
 import { DiagnosticMessages } from './DiagnosticMessages';
@@ -185,6 +185,15 @@ export class Program {
         }
     }
 
+    /**
+     * Get the names of all components in this program
+     */
+    public getComponentNames() {
+        return Object.values(this.components)
+            .map(x => x[0]?.file.componentName?.text)
+            .filter(x => !!x);
+    }
+
     /**
      * Register (or replace) the reference to a component in the component map
      */
@@ -858,6 +867,82 @@ export class Program {
         }
     }
 
+    /**
+     * Get the folding ranges for the specified file
+     */
+    public getFoldingRanges(srcPath: string) {
+        const file = this.getFile(srcPath);
+        if (file) {
+            const result = [] as FoldingRange[];
+            this.plugins.emit('onGetFoldingRanges', {
+                program: this,
+                file: file,
+                foldingRanges: result
+            });
+            return result.sort((a, b) => a.startLine - b.startLine);
+        }
+    }
+
+    /**
+     * Get the locations of every occurrence of the symbol at the given position that would need to change in order to rename it
+     */
+    private getRenameLocations(pathAbsolute: string, position: Position, newName: string) {
+        const locations = [] as Location[];
+        const file = this.getFile(pathAbsolute);
+        if (file) {
+            this.plugins.emit('onGetRenameEdits', {
+                program: this,
+                file: file,
+                position: position,
+                newName: newName,
+                scopes: this.getScopesForFile(file),
+                locations: locations
+            });
+        }
+        //the same location can be found through multiple scopes, so remove the duplicates
+        const keys = new Set<string>();
+        return locations.filter(x => {
+            const key = `${x.uri}:${x.range.start.line}:${x.range.start.character}`;
+            return keys.has(key) ? false : keys.add(key);
+        });
+    }
+
+    /**
+     * Get the range of the symbol at the given position, or undefined if there is nothing there that can be renamed
+     */
+    public prepareRename(pathAbsolute: string, position: Position): Range | undefined {
+        const uri = util.pathToUri(pathAbsolute);
+        return this.getRenameLocations(pathAbsolute, position, undefined).find(x => {
+            return x.uri === uri && util.rangeContains(x.range, position);
+        })?.range;
+    }
+
+    /**
+     * Get the edits needed to rename the symbol at the given position to `newName` everywhere it's used.
+     * Returns undefined if there is nothing at that position that can be renamed, or if `newName` is not a valid identifier
+     */
+    public getRenameEdits(pathAbsolute: string, position: Position, newName: string): WorkspaceEdit | undefined {
+        if (!util.isValidIdentifier(newName)) {
+            return undefined;
+        }
+        const locations = this.getRenameLocations(pathAbsolute, position, newName);
+        if (locations.length === 0) {
+            return undefined;
+        }
+        const changes = {} as Record<string, TextEdit[]>;
+        for (const location of locations) {
+            if (!changes[location.uri]) {
+                changes[location.uri] = [];
+            }
+            changes[location.uri].push(
+                TextEdit.replace(location.range, newName)
+            );
+        }
+        return {
+            changes: changes
+        };
+    }
+
     public getSignatureHelp(filepath: string, position: Position): SignatureInfoObj[] {
         let file: BrsFile = this.getFile(filepath);
         if (!file || !isBrsFile(file)) {
@@ -881,6 +966,13 @@ export class Program {
                 }
             }
         } else if (identifierInfo.statementType === '.') {
+            //methods of built-in components (i.e. `date.Format(`)
+            const brsComponentSigHelp = identifierInfo.dotPart ? file.getBrsComponentSignatureHelp(identifierInfo.name, identifierInfo.dotPart, position) : undefined;
+            if (brsComponentSigHelp) {
+                brsComponentSigHelp.index = identifierInfo.commaCount;
+                return [brsComponentSigHelp];
+            }
+
             //if m class reference.. then
             //only get statements from the class I am in..
             if (functionScope) {
@@ -149,6 +149,25 @@ describe('ProgramBuilder', () => {
             expect(diagnostics.map(x => x.message)).to.eql([]);
             expect(builder.program.getFileByPathAbsolute(s``));
         });
+
+        it('formats files in place instead of building when format is enabled', async () => {
+            sinon.stub(console, 'log').returns(undefined);
+            fsExtra.ensureDirSync(`${rootDir}/testProject/source`);
+            fsExtra.writeFileSync(`${rootDir}/testProject/source/main.brs`, 'sub main()\nprint 1+2\nendsub');
+
+            await builder.run({
+                rootDir: s`${rootDir}/testProject`,
+                stagingFolderPath: stagingFolderPath,
+                format: true,
+                formatting: {
+                    indentSpaceCount: 2
+                }
+            });
+            expect(
+                fsExtra.readFileSync(`${rootDir}/testProject/source/main.brs`).toString()
+            ).to.eql('sub main()\n  print 1 + 2\nend sub');
+            expect(fsExtra.pathExistsSync(stagingFolderPath)).to.be.false;
+        });
     });
 
     it('uses a unique logger for each builder', async () => {
@@ -11,6 +11,8 @@ import { Logger, LogLevel } from './Logger';
 import PluginInterface from './PluginInterface';
 import * as diagnosticUtils from './diagnosticUtils';
 import * as fsExtra from 'fs-extra';
+import { Formatter } from './formatter/Formatter';
+import { isBrsFile } from './astUtils/reflection';
 
 /**
  * A runner class that handles
@@ -122,7 +124,9 @@ export class ProgramBuilder {
         //parse every file in the entire project
         await this.loadAllFilesAST();
 
-        if (this.options.watch) {
+        if (this.options.format) {
+            await this.formatAllFiles();
+        } else if (this.options.watch) {
             this.logger.log('Starting compilation in watch mode...');
             await this.runOnce();
             this.enableWatchMode();
@@ -432,6 +436,26 @@ export class ProgramBuilder {
         }
     }
 
+    /**
+     * Format every brs and bs file in the project, and write the results back to disk
+     */
+    private async formatAllFiles() {
+        await this.logger.time(LogLevel.log, ['Formatting files'], async () => {
+            const formatter = new Formatter(this.options.formatting);
+            let formattedCount = 0;
+            await Promise.all(
+                Object.values(this.program.files).filter(x => isBrsFile(x)).map(async (file) => {
+                    const text = formatter.format(file.fileContents);
+                    if (text !== file.fileContents) {
+                        formattedCount++;
+                        await fsExtra.writeFile(file.pathAbsolute, text);
+                    }
+                })
+            );
+            this.logger.log(`Formatted ${formattedCount} ${formattedCount === 1 ? 'file' : 'files'}`);
+        });
+    }
+
     /**
      * Parse and load the AST for every file in the project
      */
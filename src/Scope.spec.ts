@@ -1,12 +1,12 @@
 import { expect } from 'chai';
 import * as sinonImport from 'sinon';
 import { Position, Range } from 'vscode-languageserver';
-import { standardizePath as s } from './util';
+import { standardizePath as s, util } from './util';
 import { DiagnosticMessages } from './DiagnosticMessages';
 import { Program } from './Program';
 import { ParseMode } from './parser/Parser';
 import PluginInterface from './PluginInterface';
-import { trim } from './testHelpers.spec';
+import { expectZeroDiagnostics, trim, withoutHints } from './testHelpers.spec';
 import { Logger } from './Logger';
 import type { BrsFile } from './files/BrsFile';
 import type { FunctionStatement, NamespaceStatement } from './parser';
@@ -490,6 +490,314 @@ describe('Scope', () => {
             );
         });
 
+        it('detects literal arguments with the wrong type', () => {
+            program.addOrReplaceFile('source/file.brs', `
+                sub setVolume(level as integer)
+                end sub
+                sub b()
+                    setVolume("loud")
+                    setVolume(10)
+                    setVolume(10.5)
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                message: DiagnosticMessages.argumentTypeMismatch('string', 'integer').message,
+                range: Range.create(4, 30, 4, 36)
+            }]);
+        });
+
+        it('detects typed local variable arguments with the wrong type', () => {
+            program.addOrReplaceFile('source/file.brs', `
+                sub setName(name as string)
+                end sub
+                sub b(age as integer, other)
+                    isEnabled = true
+                    setName(isEnabled)
+                    setName(age)
+                    setName(other)
+                    count = 1
+                    count = "one"
+                    setName(count)
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.argumentTypeMismatch('boolean', 'string').message,
+                DiagnosticMessages.argumentTypeMismatch('integer', 'string').message
+            ]);
+        });
+
+        it('detects arguments with the wrong type for global functions', () => {
+            program.addOrReplaceFile('source/file.brs', `
+                sub b()
+                    print UCase(true)
+                    print UCase("hello")
+                    print Abs(1)
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.argumentTypeMismatch('boolean', 'string').message
+            ]);
+        });
+
+        it('allows boxing and invalid for object and class parameters', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                class Person
+                end class
+                sub a(obj as object, owner as Person, callback as function)
+                end sub
+                sub b()
+                    a("text", invalid, sub()
+                    end sub)
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('detects return values with the wrong type', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                function getCount() as integer
+                    return "abc"
+                end function
+                class Person
+                    function getName() as string
+                        age = 10
+                        return age
+                    end function
+                end class
+                sub logMessage() as void
+                    return 1
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                message: DiagnosticMessages.returnTypeMismatch('string', 'integer').message,
+                range: Range.create(2, 27, 2, 32)
+            }, {
+                message: DiagnosticMessages.returnTypeMismatch('integer', 'string').message,
+                range: Range.create(7, 31, 7, 34)
+            }, {
+                message: DiagnosticMessages.returnTypeMismatch('integer', 'void').message,
+                range: Range.create(11, 27, 11, 28)
+            }]);
+        });
+
+        it('detects return statements without a value', () => {
+            program.addOrReplaceFile('source/main.brs', `
+                function getName() as string
+                    if m.name = invalid then
+                        return
+                    end if
+                    return m.name
+                end function
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                message: DiagnosticMessages.missingReturnValue('string').message,
+                range: Range.create(3, 24, 3, 30)
+            }]);
+        });
+
+        it('detects functions that do not return a value on every code path', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                function ifWithoutElse(value) as string
+                    if value then
+                        return "yes"
+                    end if
+                end function
+                function missingElseIfReturn(value) as string
+                    if value = 1 then
+                        return "one"
+                    else if value = 2 then
+                        print "two"
+                    else
+                        return "other"
+                    end if
+                end function
+                function nestedReturn(value) as string
+                    if value then
+                        return "yes"
+                    end if
+                    callback = function() as string
+                        return "inner"
+                    end function
+                end function
+                function stub() as string
+                end function
+                function loopWithExit() as string
+                    while true
+                        if m.done then exit while
+                    end while
+                end function
+            `);
+            program.validate();
+            expect(withoutHints(program.getDiagnostics()).map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                message: DiagnosticMessages.notAllCodePathsReturnValue('string').message,
+                range: Range.create(1, 49, 1, 55)
+            }, {
+                message: DiagnosticMessages.notAllCodePathsReturnValue('string').message,
+                range: Range.create(6, 55, 6, 61)
+            }, {
+                message: DiagnosticMessages.notAllCodePathsReturnValue('string').message,
+                range: Range.create(15, 48, 15, 54)
+            }, {
+                message: DiagnosticMessages.notAllCodePathsReturnValue('string').message,
+                range: Range.create(23, 35, 23, 41)
+            }, {
+                message: DiagnosticMessages.notAllCodePathsReturnValue('string').message,
+                range: Range.create(25, 43, 25, 49)
+            }]);
+        });
+
+        it('allows compatible return values and complete code paths', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                class Animal
+                end class
+                class Dog extends Animal
+                end class
+                function getAnimal(value) as Animal
+                    if value = 1 then
+                        return new Dog()
+                    else if value = 2 then
+                        return invalid
+                    else
+                        throw "unknown animal"
+                    end if
+                end function
+                function getTotal(value as integer) as float
+                    try
+                        return value
+                    catch e
+                        return 1.5
+                    end try
+                end function
+                function getInfo() as object
+                    return "boxed"
+                end function
+                function getAnything()
+                    print "no return needed"
+                end function
+                function waitForName() as string
+                    while true
+                        while m.name = invalid
+                            exit while
+                        end while
+                        if m.name <> invalid then return m.name
+                    end while
+                end function
+                function getDynamic() as dynamic
+                    return
+                end function
+                sub doWork() as void
+                    return
+                end sub
+                sub speak(pet as Dog)
+                    logAnimal(pet)
+                end sub
+                sub logAnimal(item as Animal)
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('does not validate the return statements of unterminated functions', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                function getCount() as integer
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.callableBlockMissingEndKeyword('function').message
+            ]);
+        });
+
+        it('detects local variables that can be read before they are assigned', () => {
+            program.addOrReplaceFile('source/main.brs', `
+                sub main(isEnabled)
+                    print total
+                    total = 1
+                    if isEnabled then
+                        name = "bob"
+                    end if
+                    print name
+                    while total < 10
+                        print count
+                        count = total
+                        total++
+                    end while
+                    print count
+                    while true
+                        if isEnabled then exit while
+                        status = "ok"
+                    end while
+                    print status
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                message: DiagnosticMessages.variableUsedBeforeAssignment('total').message,
+                range: Range.create(2, 26, 2, 31)
+            }, {
+                message: DiagnosticMessages.variableUsedBeforeAssignment('name').message,
+                range: Range.create(7, 26, 7, 30)
+            }, {
+                message: DiagnosticMessages.variableUsedBeforeAssignment('count').message,
+                range: Range.create(9, 30, 9, 35)
+            }, {
+                //the loop body might never run
+                message: DiagnosticMessages.variableUsedBeforeAssignment('count').message,
+                range: Range.create(13, 26, 13, 31)
+            }, {
+                //the loop can be exited before the assignment
+                message: DiagnosticMessages.variableUsedBeforeAssignment('status').message,
+                range: Range.create(18, 26, 18, 32)
+            }]);
+        });
+
+        it('allows reads of definitely assigned variables', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                enum Direction
+                    up = "up"
+                end enum
+                sub main(items, value = 1)
+                    if value > 1 then
+                        name = "big"
+                    else if value > 0 then
+                        name = "small"
+                    else
+                        return
+                    end if
+                    print name
+                    for i = 0 to value
+                        print i
+                    end for
+                    for each item in items
+                        print item
+                    end for
+                    try
+                        result = value / 2
+                    catch e
+                        print e
+                        result = 0
+                    end try
+                    print result
+                    direction = Direction.up
+                    print direction
+                    port = CreateObject("roMessagePort")
+                    while true
+                        msg = wait(0, port)
+                        if type(msg) = "roSGNodeEvent" then exit while
+                    end while
+                    print msg.getData()
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
         it('handles JavaScript reserved names', () => {
             program.addOrReplaceFile('source/file.brs', `
                 sub constructor()
@@ -613,9 +921,11 @@ describe('Scope', () => {
                         end class
 
                         function foo(param as MyClass) as MyClass
+                            return param
                         end function
 
                         function bar(param as MyNamespace.MyClass) as MyNamespace.MyClass
+                            return param
                         end function
 
                     end namespace
@@ -634,6 +944,7 @@ describe('Scope', () => {
                     end namespace
 
                     function foo(param as MyNamespace.MyClass) as MyNamespace.MyClass
+                        return param
                     end function
                 `);
                 program.validate();
@@ -661,6 +972,7 @@ describe('Scope', () => {
             it('finds custom types from other other files', () => {
                 program.addOrReplaceFile({ src: s`${rootDir}/source/main.bs`, dest: s`source/main.bs` }, `
                     function foo(param as MyClass) as MyClass
+                        return param
                     end function
                 `);
                 program.addOrReplaceFile({ src: s`${rootDir}/source/MyClass.bs`, dest: s`source/MyClass.bs` }, `
@@ -675,6 +987,7 @@ describe('Scope', () => {
             it('finds custom types from other other files', () => {
                 program.addOrReplaceFile({ src: s`${rootDir}/source/main.bs`, dest: s`source/main.bs` }, `
                     function foo(param as MyNameSpace.MyClass) as MyNameSpace.MyClass
+                        return param
                     end function
                 `);
                 program.addOrReplaceFile({ src: s`${rootDir}/source/MyNameSpace.bs`, dest: s`source/MyNameSpace.bs` }, `
@@ -760,6 +1073,7 @@ describe('Scope', () => {
                 `);
                 program.addOrReplaceFile(s`components/child.bs`, `
                     function getFoo() as MyClass
+                        return new MyClass()
                     end function
                 `);
 
@@ -769,6 +1083,372 @@ describe('Scope', () => {
 
             });
         });
+
+        describe('unknown class members', () => {
+            it('detects calls to unknown methods on class instances', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Player
+                        sub play()
+                        end sub
+                    end class
+                    class Game
+                        player as Player
+                        sub start()
+                            m.player.play()
+                            m.player.plya()
+                        end sub
+                    end class
+                    sub main()
+                        myPlayer = new Player()
+                        myPlayer.play()
+                        myPlayer.plya()
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                    message: DiagnosticMessages.unknownClassMember('plya', 'Player').message,
+                    range: util.createRange(9, 37, 9, 41)
+                }, {
+                    message: DiagnosticMessages.unknownClassMember('plya', 'Player').message,
+                    range: util.createRange(15, 33, 15, 37)
+                }]);
+            });
+
+            it('infers field types from assignments in class methods', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Player
+                        sub play()
+                        end sub
+                    end class
+                    class Game
+                        player
+                        sub new()
+                            m.player = new Player()
+                        end sub
+                        sub start()
+                            m.player.plya()
+                        end sub
+                    end class
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.unknownClassMember('plya', 'Player').message
+                ]);
+            });
+
+            it('follows function return types', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    namespace Media
+                        class Player
+                            name as string
+                        end class
+                        function createPlayer() as Player
+                            return new Player()
+                        end function
+                        sub main()
+                            print createPlayer().nmae
+                        end sub
+                    end namespace
+                    class Game
+                        function getPlayer() as Media.Player
+                            return Media.createPlayer()
+                        end function
+                        sub start()
+                            player = m.getPlayer()
+                            print player.name
+                            print Media.createPlayer().nmae
+                        end sub
+                    end class
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.unknownClassMember('nmae', 'Media.Player').message,
+                    DiagnosticMessages.unknownClassMember('nmae', 'Media.Player').message
+                ]);
+            });
+
+            it('finds members from parent classes, associative array methods and runtime assignments', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Animal
+                        name as string
+                        sub speak()
+                        end sub
+                    end class
+                    class Duck extends Animal
+                        sub new()
+                            super()
+                            m.sound = "quack"
+                        end sub
+                    end class
+                    sub main()
+                        donald = new Duck()
+                        donald.speak()
+                        print donald.name
+                        print donald.sound
+                        print donald.count()
+                        print donald.keys()
+                    end sub
+                `);
+                program.validate();
+                expectZeroDiagnostics(program);
+            });
+
+            it('skips variables that are not always the same class', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Player
+                    end class
+                    sub main(other)
+                        myPlayer = new Player()
+                        if other <> invalid then
+                            myPlayer = other
+                        end if
+                        print myPlayer.anything
+                    end sub
+                `);
+                program.validate();
+                expectZeroDiagnostics(program);
+            });
+        });
+
+        describe('typed arrays', () => {
+            it('infers the type of `for each` loop variables from typed arrays', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Player
+                        sub play()
+                        end sub
+                    end class
+                    sub main(players as Player[])
+                        for each current in players
+                            current.play()
+                            current.plya()
+                        end for
+                        others = [new Player(), new Player()]
+                        for each other in others
+                            other.plya()
+                        end for
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                    message: DiagnosticMessages.unknownClassMember('plya', 'Player').message,
+                    range: util.createRange(8, 36, 8, 40)
+                }, {
+                    message: DiagnosticMessages.unknownClassMember('plya', 'Player').message,
+                    range: util.createRange(12, 34, 12, 38)
+                }]);
+            });
+
+            it('validates the members of values declared as an interface', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    interface Named
+                        name as string
+                    end interface
+                    interface Person extends Named
+                        friends as Person[]
+                        function greet() as string
+                    end interface
+                    sub main(people as Person[])
+                        for each person in people
+                            print person.name
+                            print person.greet()
+                            print person.nmae
+                            for each friend in person.friends
+                                print friend.frends
+                            end for
+                        end for
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.unknownInterfaceMember('nmae', 'Person').message,
+                    DiagnosticMessages.unknownInterfaceMember('frends', 'Person').message
+                ]);
+            });
+
+            it('validates arguments against typed arrays', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    interface Person
+                        name as string
+                    end interface
+                    sub main()
+                        setScores([1, 2.5])
+                        setScores([])
+                        setScores(["a"])
+                        greet([{ name: "bob" }])
+                    end sub
+                    sub setScores(scores as integer[])
+                        print scores
+                    end sub
+                    sub greet(people as Person[])
+                        print people
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.argumentTypeMismatch('string[]', 'integer[]').message
+                ]);
+            });
+
+            it('flags unknown element types', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    sub main(items as Nope[])
+                        print items
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.functionParameterTypeIsInvalid('items', 'Nope').message
+                ]);
+            });
+        });
+
+        describe('built-in components', () => {
+            it('flags unknown components and methods', () => {
+                program.addOrReplaceFile('source/main.brs', `
+                    sub main()
+                        date = CreateObject("roDateTime")
+                        print date.AsSeconds()
+                        print date.asSecs()
+                        timer = CreateObject("roTimeSpan")
+                        timer.Mark()
+                        other = CreateObject("roDateTim")
+                        other.whatever()
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))).to.eql([{
+                    message: DiagnosticMessages.unknownBrsComponentMethod('asSecs', 'roDateTime').message,
+                    range: util.createRange(4, 35, 4, 41)
+                }, {
+                    message: DiagnosticMessages.unknownBrsComponent('roDateTim').message,
+                    range: util.createRange(7, 45, 7, 56)
+                }]);
+            });
+
+            it('allows any method on components with dynamic members', () => {
+                program.addOrReplaceFile('source/main.brs', `
+                    sub main()
+                        aa = CreateObject("roAssociativeArray")
+                        aa.AddReplace("doThing", invalid)
+                        aa.doThing()
+                    end sub
+                `);
+                program.validate();
+                expectZeroDiagnostics(program);
+            });
+
+            it('validates the argument count of methods', () => {
+                program.addOrReplaceFile('source/main.brs', `
+                    sub main()
+                        items = CreateObject("roArray", 10, true)
+                        items.Push()
+                        items.Push(1)
+                        items.Sort()
+                        items.Sort("r")
+                        items.Sort("r", true)
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.mismatchArgumentCount(1, 0).message,
+                    DiagnosticMessages.mismatchArgumentCount('0-1', 2).message
+                ]);
+            });
+
+            it('knows the microphone, storage info and string components', () => {
+                program.addOrReplaceFile('source/main.brs', `
+                    sub main()
+                        s = CreateObject("roString")
+                        s.SetString("abc")
+                        s.SetString("hello", 1)
+                        microphone = CreateObject("roMicrophone")
+                        print microphone.CanRecord()
+                        storage = CreateObject("roStorageInfo", "tmp:/")
+                        print storage.GetFreeInMegabytes()
+                    end sub
+                `);
+                program.validate();
+                expectZeroDiagnostics(program);
+            });
+
+            it('uses the return types of methods', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    function getYear() as string
+                        date = CreateObject("roDateTime")
+                        return date.GetYear()
+                    end function
+                    sub main()
+                        registry = CreateObject("roRegistry")
+                        sections = registry.GetSectionList()
+                        sections.AddTail("settings")
+                        sections.Psh("settings")
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.returnTypeMismatch('integer', 'string').message,
+                    DiagnosticMessages.unknownBrsComponentMethod('Psh', 'roList').message
+                ]);
+            });
+
+            it('does not change nodes created with `CreateObject("roSGNode")`', () => {
+                program.addOrReplaceFile('source/main.brs', `
+                    sub main()
+                        node = CreateObject("roSGNode", "ContentNode")
+                        node.doesNotExist()
+                        group = CreateObject("roSGNode")
+                        group.doesNotExist()
+                    end sub
+                `);
+                program.validate();
+                expectZeroDiagnostics(program);
+            });
+        });
+
+        describe('type narrowing', () => {
+            it('uses narrowed types for arguments and return values', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    function getLength(value as string | integer | invalid) as string
+                        if value = invalid then
+                            return "none"
+                        end if
+                        if type(value) = "roString" then
+                            takesString(value)
+                            return value
+                        end if
+                        takesString(value)
+                        return value
+                    end function
+                    sub takesString(text as string)
+                        print text
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.returnTypeMismatch('integer', 'string').message,
+                    DiagnosticMessages.argumentTypeMismatch('integer', 'string').message
+                ]);
+            });
+
+            it('validates the members of narrowed class instances', () => {
+                program.addOrReplaceFile('source/main.bs', `
+                    class Player
+                        sub play()
+                        end sub
+                    end class
+                    sub main(current as Player | invalid)
+                        if current <> invalid then
+                            current.play()
+                            current.plya()
+                        end if
+                    end sub
+                `);
+                program.validate();
+                expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                    DiagnosticMessages.unknownClassMember('plya', 'Player').message
+                ]);
+            });
+        });
     });
 
     describe('inheritance', () => {
@@ -4,19 +4,40 @@ import { CompletionItemKind, Location } from 'vscode-languageserver';
 import chalk from 'chalk';
 import type { DiagnosticInfo } from './DiagnosticMessages';
 import { DiagnosticMessages } from './DiagnosticMessages';
-import type { CallableContainer, BsDiagnostic, FileReference, BscFile, CallableContainerMap } from './interfaces';
+import type { CallableContainer, BsDiagnostic, FileReference, BscFile, CallableContainerMap, BuiltInMethod } from './interfaces';
 import type { FileLink, Program } from './Program';
 import { BsClassValidator } from './validators/ClassValidator';
-import type { NamespaceStatement, Statement, NewExpression, FunctionStatement, ClassStatement } from './parser';
+import { BsReturnValidator } from './validators/ReturnValidator';
+import { BsVariableAssignmentValidator } from './validators/VariableAssignmentValidator';
+import type { NamespaceStatement, Statement, NewExpression, FunctionStatement, ClassStatement, EnumStatement, ConstStatement, InterfaceStatement, ClassFieldStatement, Expression, VariableExpression, CallExpression, FunctionExpression, TypeAliasStatement, ForEachStatement } from './parser';
 import { ParseMode } from './parser';
 import { standardizePath as s, util } from './util';
 import { globalCallableMap } from './globalCallables';
+import { globalComponentMap, globalInterfaceMap } from './globalComponents';
 import { Cache } from './Cache';
 import { URI } from 'vscode-uri';
 import { LogLevel } from './Logger';
-import { isBrsFile, isClassStatement, isFunctionStatement, isFunctionType, isXmlFile, isCustomType, isClassMethodStatement } from './astUtils/reflection';
+import type { Identifier } from './lexer';
+import { TokenKind } from './lexer';
+import { isBrsFile, isClassStatement, isFunctionStatement, isFunctionType, isXmlFile, isCustomType, isClassMethodStatement, isEnumStatement, isConstStatement, isVariableExpression, isDottedGetExpression, isNewExpression, isGroupingExpression, isCallExpression, isClassFieldStatement, isLiteralExpression, isGenericType, isUnionType, isArrayType, isArrayLiteralExpression, isAALiteralExpression, isInterfaceType, isInterfaceFieldStatement, isInterfaceMethodStatement, isComponentType, isBrsComponentType, isDynamicType } from './astUtils/reflection';
 import type { BrsFile } from './files/BrsFile';
+import { createVisitor, WalkMode } from './astUtils/visitors';
 import type { DependencyGraph, DependencyChangedEvent } from './DependencyGraph';
+import type { BscType } from './types/BscType';
+import { CustomType } from './types/CustomType';
+import { DynamicType } from './types/DynamicType';
+import { UnionType } from './types/UnionType';
+import { ArrayType } from './types/ArrayType';
+import { ComponentType } from './types/ComponentType';
+import { BrsComponentType } from './types/BrsComponentType';
+
+/**
+ * The methods that every associative array (and therefore every class instance) has
+ */
+const associativeArrayMethodNames = [
+    'addreplace', 'append', 'clear', 'count', 'delete', 'doesexist', 'isempty', 'isnext', 'items',
+    'keys', 'lookup', 'lookupci', 'next', 'reset', 'setmodecasesensitive'
+];
 
 /**
  * A class to keep track of all declarations within a given scope (like source scope, component scope)
@@ -112,6 +133,208 @@ export class Scope {
         });
     }
 
+    /**
+     * Get the enum with the specified name.
+     * @param enumName - The enum name, including the namespace of the enum if possible
+     * @param containingNamespace - The namespace used to resolve relative enum names. (i.e. the namespace around the current statement trying to find an enum)
+     */
+    public getEnum(enumName: string, containingNamespace?: string): EnumStatement {
+        return this.getEnumFileLink(enumName, containingNamespace)?.item;
+    }
+
+    /**
+     * Get an enum and its containing file by the enum name
+     * @param enumName - The enum name, including the namespace of the enum if possible
+     * @param containingNamespace - The namespace used to resolve relative enum names. (i.e. the namespace around the current statement trying to find an enum)
+     */
+    public getEnumFileLink(enumName: string, containingNamespace?: string): FileLink<EnumStatement> {
+        const lowerEnumName = enumName?.toLowerCase();
+        const enumMap = this.getEnumMap();
+
+        let enumeration = enumMap.get(
+            util.getFullyQualifiedClassName(lowerEnumName, containingNamespace?.toLowerCase())
+        );
+        //if we couldn't find the enum by its full namespaced name, look for a global enum with that name
+        if (!enumeration) {
+            enumeration = enumMap.get(lowerEnumName);
+        }
+        return enumeration;
+    }
+
+    /**
+     * A dictionary of all enums in this scope. This includes namespaced enums always with their full name.
+     * The key is stored in lower case
+     */
+    public getEnumMap(): Map<string, FileLink<EnumStatement>> {
+        return this.cache.getOrAdd('enumMap', () => {
+            const map = new Map<string, FileLink<EnumStatement>>();
+            this.enumerateBrsFiles((file) => {
+                for (const [lowerEnumName, enumStatement] of file.parser.references.enumStatementLookup) {
+                    map.set(lowerEnumName, { item: enumStatement, file: file });
+                }
+            });
+            return map;
+        });
+    }
+
+    /**
+     * Get the interface with the specified name.
+     * @param interfaceName - The interface name, including the namespace of the interface if possible
+     * @param containingNamespace - The namespace used to resolve relative interface names. (i.e. the namespace around the current statement trying to find an interface)
+     */
+    public getInterface(interfaceName: string, containingNamespace?: string): InterfaceStatement {
+        return this.getInterfaceFileLink(interfaceName, containingNamespace)?.item;
+    }
+
+    /**
+     * Get an interface and its containing file by the interface name
+     * @param interfaceName - The interface name, including the namespace of the interface if possible
+     * @param containingNamespace - The namespace used to resolve relative interface names. (i.e. the namespace around the current statement trying to find an interface)
+     */
+    public getInterfaceFileLink(interfaceName: string, containingNamespace?: string): FileLink<InterfaceStatement> {
+        const lowerInterfaceName = interfaceName?.toLowerCase();
+        const interfaceMap = this.getInterfaceMap();
+
+        let iface = interfaceMap.get(
+            util.getFullyQualifiedClassName(lowerInterfaceName, containingNamespace?.toLowerCase())
+        );
+        //if we couldn't find the interface by its full namespaced name, look for a global interface with that name
+        if (!iface) {
+            iface = interfaceMap.get(lowerInterfaceName);
+        }
+        return iface;
+    }
+
+    /**
+     * A dictionary of all interfaces in this scope. This includes namespaced interfaces always with their full name.
+     * The key is stored in lower case
+     */
+    public getInterfaceMap(): Map<string, FileLink<InterfaceStatement>> {
+        return this.cache.getOrAdd('interfaceMap', () => {
+            const map = new Map<string, FileLink<InterfaceStatement>>();
+            this.enumerateBrsFiles((file) => {
+                for (const [lowerInterfaceName, interfaceStatement] of file.parser.references.interfaceStatementLookup) {
+                    map.set(lowerInterfaceName, { item: interfaceStatement, file: file });
+                }
+            });
+            return map;
+        });
+    }
+
+    /**
+     * Get the const with the specified name.
+     * @param constName - The const name, including the namespace of the const if possible
+     * @param containingNamespace - The namespace used to resolve relative const names. (i.e. the namespace around the current statement trying to find a const)
+     */
+    public getConst(constName: string, containingNamespace?: string): ConstStatement {
+        return this.getConstFileLink(constName, containingNamespace)?.item;
+    }
+
+    /**
+     * Get a const and its containing file by the const name
+     * @param constName - The const name, including the namespace of the const if possible
+     * @param containingNamespace - The namespace used to resolve relative const names. (i.e. the namespace around the current statement trying to find a const)
+     */
+    public getConstFileLink(constName: string, containingNamespace?: string): FileLink<ConstStatement> {
+        const lowerConstName = constName?.toLowerCase();
+        const constMap = this.getConstMap();
+
+        let constant = constMap.get(
+            util.getFullyQualifiedClassName(lowerConstName, containingNamespace?.toLowerCase())
+        );
+        //if we couldn't find the const by its full namespaced name, look for a global const with that name
+        if (!constant) {
+            constant = constMap.get(lowerConstName);
+        }
+        return constant;
+    }
+
+    /**
+     * A dictionary of all consts in this scope. This includes namespaced consts always with their full name.
+     * The key is stored in lower case
+     */
+    public getConstMap(): Map<string, FileLink<ConstStatement>> {
+        return this.cache.getOrAdd('constMap', () => {
+            const map = new Map<string, FileLink<ConstStatement>>();
+            this.enumerateBrsFiles((file) => {
+                for (const [lowerConstName, constStatement] of file.parser.references.constStatementLookup) {
+                    map.set(lowerConstName, { item: constStatement, file: file });
+                }
+            });
+            return map;
+        });
+    }
+
+    /**
+     * Get the type alias with the specified name.
+     * @param typeAliasName - The type alias name, including the namespace of the type alias if possible
+     * @param containingNamespace - The namespace used to resolve relative type alias names. (i.e. the namespace around the current statement trying to find a type alias)
+     */
+    public getTypeAlias(typeAliasName: string, containingNamespace?: string): TypeAliasStatement {
+        return this.getTypeAliasFileLink(typeAliasName, containingNamespace)?.item;
+    }
+
+    /**
+     * Get a type alias and its containing file by the type alias name
+     * @param typeAliasName - The type alias name, including the namespace of the type alias if possible
+     * @param containingNamespace - The namespace used to resolve relative type alias names. (i.e. the namespace around the current statement trying to find a type alias)
+     */
+    public getTypeAliasFileLink(typeAliasName: string, containingNamespace?: string): FileLink<TypeAliasStatement> {
+        const lowerTypeAliasName = typeAliasName?.toLowerCase();
+        const typeAliasMap = this.getTypeAliasMap();
+
+        let typeAlias = typeAliasMap.get(
+            util.getFullyQualifiedClassName(lowerTypeAliasName, containingNamespace?.toLowerCase())
+        );
+        //if we couldn't find the type alias by its full namespaced name, look for a global type alias with that name
+        if (!typeAlias) {
+            typeAlias = typeAliasMap.get(lowerTypeAliasName);
+        }
+        return typeAlias;
+    }
+
+    /**
+     * A dictionary of all type aliases in this scope. This includes namespaced type aliases always with their full name.
+     * The key is stored in lower case
+     */
+    public getTypeAliasMap(): Map<string, FileLink<TypeAliasStatement>> {
+        return this.cache.getOrAdd('typeAliasMap', () => {
+            const map = new Map<string, FileLink<TypeAliasStatement>>();
+            this.enumerateBrsFiles((file) => {
+                for (const [lowerTypeAliasName, typeAliasStatement] of file.parser.references.typeAliasStatementLookup) {
+                    map.set(lowerTypeAliasName, { item: typeAliasStatement, file: file });
+                }
+            });
+            return map;
+        });
+    }
+
+    /**
+     * Replace references to type aliases (including the types of a union and the element types of an array) with the type they represent.
+     * Circular type aliases (i.e. `type A = B` and `type B = A`) are `DynamicType`
+     * @param containingNamespace - The namespace used to resolve relative type alias names
+     */
+    public resolveTypeAliases(type: BscType, containingNamespace?: string, visited = new Set<TypeAliasStatement>()): BscType {
+        if (isUnionType(type)) {
+            return new UnionType(type.types.map(x => this.resolveTypeAliases(x, containingNamespace, visited)));
+        } else if (isArrayType(type)) {
+            return new ArrayType(...type.innerTypes.map(x => this.resolveTypeAliases(x, containingNamespace, visited)));
+        } else if (isCustomType(type) && type.typeArguments.length === 0) {
+            const typeAlias = this.getTypeAlias(type.name, containingNamespace);
+            if (typeAlias) {
+                if (visited.has(typeAlias)) {
+                    return new DynamicType();
+                }
+                return this.resolveTypeAliases(
+                    typeAlias.getType(),
+                    typeAlias.namespaceName?.getName(ParseMode.BrighterScript),
+                    new Set([...visited, typeAlias])
+                );
+            }
+        }
+        return type;
+    }
+
     /**
      * The list of diagnostics found specifically for this scope. Individual file diagnostics are stored on the files themselves.
      */
@@ -358,6 +581,8 @@ export class Scope {
                         namespaces: {},
                         classStatements: {},
                         functionStatements: {},
+                        enumStatements: {},
+                        constStatements: {},
                         statements: []
                     };
                 }
@@ -368,6 +593,10 @@ export class Scope {
                         ns.classStatements[statement.name.text.toLowerCase()] = statement;
                     } else if (isFunctionStatement(statement) && statement.name) {
                         ns.functionStatements[statement.name.text.toLowerCase()] = statement;
+                    } else if (isEnumStatement(statement) && statement.name) {
+                        ns.enumStatements[statement.name.toLowerCase()] = statement;
+                    } else if (isConstStatement(statement) && statement.name) {
+                        ns.constStatements[statement.name.toLowerCase()] = statement;
                     }
                 }
             }
@@ -456,14 +685,29 @@ export class Scope {
         //enforce a series of checks on the bodies of class methods
         this.validateClasses();
 
+        //make sure functions return values that match their declared return types
+        this.validateReturns();
+
+        //make sure local variables are assigned before they are read
+        this.validateVariableAssignments();
+
         //do many per-file checks
         this.enumerateBrsFiles((file) => {
             this.diagnosticDetectCallsToUnknownFunctions(file, callableContainerMap);
             this.diagnosticDetectFunctionCallsWithWrongParamCount(file, callableContainerMap);
+            this.diagnosticDetectFunctionCallsWithWrongArgumentTypes(file, callableContainerMap);
             this.diagnosticDetectShadowedLocalVars(file, callableContainerMap);
             this.diagnosticDetectFunctionCollisions(file);
             this.detectVariableNamespaceCollisions(file);
             this.diagnosticDetectInvalidFunctionExpressionTypes(file);
+            this.diagnosticDetectInvalidTypeAliasTypes(file);
+            this.diagnosticDetectUnknownEnumMembers(file);
+            this.diagnosticDetectConstReassignment(file);
+            this.diagnosticDetectUnknownClassMembers(file);
+            this.diagnosticDetectGetOnlyPropertyAssignments(file);
+            this.diagnosticDetectUntypedAccessorAccess(file);
+            this.diagnosticDetectInvalidCallfuncs(file);
+            this.diagnosticDetectInvalidBrsComponentUsage(file);
         });
     }
 
@@ -556,11 +800,11 @@ export class Scope {
     */
     private diagnosticDetectInvalidFunctionExpressionTypes(file: BrsFile) {
         for (let func of file.parser.references.functionExpressions) {
-            if (isCustomType(func.returnType) && func.returnTypeToken) {
+            const currentNamespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
+            if (func.returnTypeToken) {
                 // check if this custom type is in our class map
-                const returnTypeName = func.returnType.name;
-                const currentNamespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
-                if (!this.hasClass(returnTypeName, currentNamespaceName)) {
+                const returnTypeName = this.getUnknownTypeName(func.returnType, currentNamespaceName);
+                if (returnTypeName) {
                     this.diagnostics.push({
                         ...DiagnosticMessages.invalidFunctionReturnType(returnTypeName),
                         range: func.returnTypeToken.range,
@@ -570,10 +814,9 @@ export class Scope {
             }
 
             for (let param of func.parameters) {
-                if (isCustomType(param.type) && param.typeToken) {
-                    const paramTypeName = param.type.name;
-                    const currentNamespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
-                    if (!this.hasClass(paramTypeName, currentNamespaceName)) {
+                if (param.typeToken) {
+                    const paramTypeName = this.getUnknownTypeName(param.type, currentNamespaceName);
+                    if (paramTypeName) {
                         this.diagnostics.push({
                             ...DiagnosticMessages.functionParameterTypeIsInvalid(param.name.text, paramTypeName),
                             range: param.typeToken.range,
@@ -586,6 +829,801 @@ export class Scope {
         }
     }
 
+    /**
+     * Find type aliases that reference types which don't exist in this scope
+     */
+    private diagnosticDetectInvalidTypeAliasTypes(file: BrsFile) {
+        for (const typeAlias of file.parser.references.typeAliasStatements) {
+            const namespaceName = typeAlias.namespaceName?.getName(ParseMode.BrighterScript);
+            const typeName = this.getUnknownTypeName(typeAlias.getType(), namespaceName);
+            if (typeName) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.cannotFindType(typeName),
+                    range: typeAlias.valueTypeToken.range,
+                    file: file
+                });
+            }
+        }
+    }
+
+    /**
+     * Get the name of the first custom type (including the types of a union and the element types of an array) that is not a class, interface or type alias in this scope
+     */
+    public getUnknownTypeName(type: BscType, containingNamespace?: string): string | undefined {
+        if (isUnionType(type) || isArrayType(type)) {
+            const innerTypes = isUnionType(type) ? type.types : type.innerTypes;
+            for (const innerType of innerTypes) {
+                const typeName = this.getUnknownTypeName(innerType, containingNamespace);
+                if (typeName) {
+                    return typeName;
+                }
+            }
+        } else if (
+            isCustomType(type) &&
+            !this.hasClass(type.name, containingNamespace) &&
+            !this.getInterface(type.name, containingNamespace) &&
+            !this.getTypeAlias(type.name, containingNamespace)
+        ) {
+            return type.name;
+        }
+    }
+
+    /**
+     * Find references to enum members that don't exist (i.e. `Direction.sideways` when `Direction` has no `sideways` member)
+     */
+    private diagnosticDetectUnknownEnumMembers(file: BrsFile) {
+        //skip this check if there are no enums in this scope
+        if (this.getEnumMap().size === 0) {
+            return;
+        }
+        file.parser.ast.walk(createVisitor({
+            DottedGetExpression: (expression) => {
+                const parts = util.getAllDottedGetParts(expression);
+                if (!parts) {
+                    return;
+                }
+                //local variables and parameters take precedence over non-namespaced enums
+                if (parts.length === 2 && file.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(parts[0].text)) {
+                    return;
+                }
+                const memberName = parts.pop();
+                const enumName = parts.map(x => x.text).join('.');
+                const containingNamespace = file.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript);
+                const enumStatement = this.getEnum(enumName, containingNamespace);
+                if (enumStatement && !enumStatement.getMember(memberName.text)) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.unknownEnumValue(memberName.text, enumStatement.fullName),
+                        range: memberName.range,
+                        file: file
+                    });
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitExpressionsRecursive
+        });
+    }
+
+    /**
+     * Find assignments to consts (i.e. `PI = 3`, `Name.PI = 3` or `PI++`)
+     */
+    private diagnosticDetectConstReassignment(file: BrsFile) {
+        //skip this check if there are no consts in this scope
+        if (this.getConstMap().size === 0) {
+            return;
+        }
+        const addDiagnosticIfConst = (nameParts: Identifier[], namespaceName: string) => {
+            if (!nameParts) {
+                return;
+            }
+            const constStatement = this.getConst(nameParts.map(x => x.text).join('.'), namespaceName);
+            if (constStatement) {
+                const lastPart = nameParts[nameParts.length - 1];
+                this.diagnostics.push({
+                    ...DiagnosticMessages.constReassignment(lastPart.text),
+                    range: lastPart.range,
+                    file: file
+                });
+            }
+        };
+        const getNamespaceName = (statement: Statement) => {
+            return file.getNamespaceStatementForPosition(statement.range.start)?.getName(ParseMode.BrighterScript);
+        };
+
+        file.parser.ast.walk(createVisitor({
+            AssignmentStatement: (statement) => {
+                addDiagnosticIfConst([statement.name], getNamespaceName(statement));
+            },
+            DottedSetStatement: (statement) => {
+                const parts = util.getAllDottedGetParts(statement.obj);
+                addDiagnosticIfConst(parts ? [...parts, statement.name] : undefined, getNamespaceName(statement));
+            },
+            IncrementStatement: (statement) => {
+                if (isVariableExpression(statement.value) || isDottedGetExpression(statement.value)) {
+                    addDiagnosticIfConst(util.getAllDottedGetParts(statement.value), getNamespaceName(statement));
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitStatementsRecursive
+        });
+    }
+
+    /**
+     * Find reads of (and calls to) class members that don't exist anywhere in the class hierarchy (i.e. `m.player.plya()` when `Player` has no `plya` method).
+     * Members of values declared as an interface are checked against the interface and its parent interfaces
+     */
+    private diagnosticDetectUnknownClassMembers(file: BrsFile) {
+        //skip this check if there are no classes or interfaces in this scope
+        if (this.getClassMap().size === 0 && this.getInterfaceMap().size === 0) {
+            return;
+        }
+        //the lower names of the members assigned through `m` in each class's methods
+        const assignedMemberNames = new Map<ClassStatement, Set<string>>();
+        file.parser.ast.walk(createVisitor({
+            DottedGetExpression: (expression) => {
+                const memberName = expression.name?.text;
+                //class instances are associative arrays, so the associative array methods are always available
+                if (!memberName || associativeArrayMethodNames.includes(memberName.toLowerCase())) {
+                    return;
+                }
+                const type = this.getExpressionType(file, expression.obj);
+                const classLink = isCustomType(type) ? this.getClassFileLink(type.name) : undefined;
+                if (
+                    classLink &&
+                    !this.getClassMember(type, memberName) &&
+                    !this.getClassAccessor(type, memberName, 'get') &&
+                    !this.getClassAccessor(type, memberName, 'set') &&
+                    !this.isMemberAssignedInClassHierarchy(classLink, memberName, assignedMemberNames)
+                ) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.unknownClassMember(memberName, classLink.item.getName(ParseMode.BrighterScript)),
+                        range: expression.name.range,
+                        file: file
+                    });
+                }
+                const interfaceStatement = isCustomType(type) && !classLink ? this.getInterface(type.name) : undefined;
+                if (interfaceStatement && !this.getInterfaceMember(type, memberName)) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.unknownInterfaceMember(memberName, interfaceStatement.fullName),
+                        range: expression.name.range,
+                        file: file
+                    });
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitExpressionsRecursive
+        });
+    }
+
+    /**
+     * Find assignments to (and increments of) class properties that have a `get` accessor but no `set` accessor
+     */
+    private diagnosticDetectGetOnlyPropertyAssignments(file: BrsFile) {
+        //skip this check if there are no classes in this scope
+        if (this.getClassMap().size === 0) {
+            return;
+        }
+        const addDiagnosticIfGetOnly = (obj: Expression, name: Identifier) => {
+            const type = this.getExpressionType(file, obj);
+            const getter = this.getClassAccessor(type, name.text, 'get');
+            if (getter && !this.getClassAccessor(type, name.text, 'set')) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.cannotAssignToGetOnlyProperty(name.text, getter.classLink.item.getName(ParseMode.BrighterScript)),
+                    range: name.range,
+                    file: file
+                });
+            }
+        };
+        file.parser.ast.walk(createVisitor({
+            DottedSetStatement: (statement) => {
+                addDiagnosticIfGetOnly(statement.obj, statement.name);
+            },
+            IncrementStatement: (statement) => {
+                if (isDottedGetExpression(statement.value)) {
+                    addDiagnosticIfGetOnly(statement.value.obj, statement.value.name);
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitStatementsRecursive
+        });
+    }
+
+    /**
+     * Find reads and writes of a property with the name of a class accessor on values whose type is unknown (i.e. `m.player.isPlaying` when `m.player` is untyped).
+     * Only properties of known class instances are transpiled to accessor calls, so these would read or write a key that doesn't exist on the instance
+     */
+    private diagnosticDetectUntypedAccessorAccess(file: BrsFile) {
+        //the class that declares each accessor, by lower case property name
+        const accessorClassNames = new Map<string, string>();
+        for (const link of this.getClassMap().values()) {
+            for (const accessor of link.item.accessors) {
+                accessorClassNames.set(accessor.name.text.toLowerCase(), link.item.getName(ParseMode.BrighterScript));
+            }
+        }
+        if (accessorClassNames.size === 0) {
+            return;
+        }
+        const addDiagnosticIfUntyped = (obj: Expression, name: Identifier) => {
+            const className = accessorClassNames.get(name?.text.toLowerCase());
+            if (className && isDynamicType(this.getExpressionType(file, obj))) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.accessorOnUntypedValue(name.text, className),
+                    range: name.range,
+                    file: file
+                });
+            }
+        };
+        file.parser.ast.walk(createVisitor({
+            DottedGetExpression: (expression, parent) => {
+                //method calls are never transpiled to accessor calls
+                if (!isCallExpression(parent) || parent.callee !== expression) {
+                    addDiagnosticIfUntyped(expression.obj, expression.name);
+                }
+            },
+            DottedSetStatement: (statement) => {
+                addDiagnosticIfUntyped(statement.obj, statement.name);
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+
+    /**
+     * Find callfunc calls (i.e. `node@.doThing()` or `node.callFunc("doThing")`) on nodes of a known component where the function
+     * is not declared in the `<interface>` of the component (or its ancestors), or is called with the wrong number of arguments
+     */
+    private diagnosticDetectInvalidCallfuncs(file: BrsFile) {
+        const validateCallfunc = (obj: Expression, functionName: string, argCount: number, range: Range) => {
+            const componentScope = this.getComponentScopeForType(this.getExpressionType(file, obj));
+            if (!componentScope) {
+                return;
+            }
+            const componentName = componentScope.xmlFile.componentName.text;
+            const lowerFunctionName = functionName.toLowerCase();
+            const callable = componentScope.getComponentCallable(functionName);
+            if (!componentScope.getComponentFunctions().has(lowerFunctionName)) {
+                this.diagnostics.push({
+                    ...(callable ? DiagnosticMessages.callfuncFunctionNotInInterface(functionName, componentName) : DiagnosticMessages.callfuncFunctionNotFound(functionName, componentName)),
+                    range: range,
+                    file: file
+                });
+                return;
+            }
+            if (!callable) {
+                return;
+            }
+            const maxParams = callable.params.length;
+            const minParams = callable.params.filter(x => !x.isOptional).length;
+            //callfunc always passes at least one argument (`invalid` when there are none), which functions without parameters ignore
+            if (argCount > Math.max(maxParams, 1) || (argCount < minParams && !(argCount === 0 && minParams === 1))) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.mismatchArgumentCount(minParams === maxParams ? maxParams : `${minParams}-${maxParams}`, argCount),
+                    range: range,
+                    file: file
+                });
+            }
+        };
+        file.parser.ast.walk(createVisitor({
+            CallfuncExpression: (expression) => {
+                validateCallfunc(expression.callee, expression.methodName.text, expression.args.length, expression.methodName.range);
+            },
+            CallExpression: (expression) => {
+                const [nameArg, ...args] = expression.args;
+                if (
+                    isDottedGetExpression(expression.callee) &&
+                    expression.callee.name.text.toLowerCase() === 'callfunc' &&
+                    isLiteralExpression(nameArg) && nameArg.token.kind === TokenKind.StringLiteral
+                ) {
+                    validateCallfunc(expression.callee.obj, nameArg.token.text.replace(/^"(.*)"$/, '$1'), args.length, nameArg.range);
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitExpressionsRecursive
+        });
+    }
+
+    /**
+     * Find `CreateObject()` calls for components that don't exist (i.e. `CreateObject("roDateTim")`), and calls to methods that aren't
+     * declared by the interfaces of a built-in component (i.e. `date.asSecs()` when `date` is a `roDateTime`) or have the wrong number of arguments
+     */
+    private diagnosticDetectInvalidBrsComponentUsage(file: BrsFile) {
+        file.parser.ast.walk(createVisitor({
+            CallExpression: (expression) => {
+                const typeArg = this.getCreateObjectTypeArg(expression);
+                const createdComponentName = typeArg?.token.text.replace(/^"(.*)"$/, '$1');
+                if (typeArg && !globalComponentMap.has(createdComponentName.toLowerCase())) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.unknownBrsComponent(createdComponentName),
+                        range: typeArg.range,
+                        file: file
+                    });
+                    return;
+                }
+                if (!isDottedGetExpression(expression.callee)) {
+                    return;
+                }
+                const type = this.getExpressionType(file, expression.callee.obj);
+                const component = isBrsComponentType(type) ? globalComponentMap.get(type.name.toLowerCase()) : undefined;
+                if (!component) {
+                    return;
+                }
+                const methodName = expression.callee.name.text;
+                //a method can be declared by more than one interface with different parameters (i.e. `ifString.SetString` and `ifStringOps.SetString`)
+                const overloads = this.getBrsComponentMethodOverloads(type, methodName);
+                if (overloads.length === 0) {
+                    if (!component.hasDynamicMembers) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.unknownBrsComponentMethod(methodName, component.name),
+                            range: expression.callee.name.range,
+                            file: file
+                        });
+                    }
+                    return;
+                }
+                const argCount = expression.args.length;
+                //rest arguments accept any number of additional arguments
+                const acceptsArgCount = (method: BuiltInMethod) => {
+                    return argCount >= method.params.filter(x => !x.isOptional && !x.isRestArgument).length &&
+                        (argCount <= method.params.length || method.params.some(x => x.isRestArgument));
+                };
+                if (!overloads.some(acceptsArgCount)) {
+                    const minParams = Math.min(...overloads.map(method => method.params.filter(x => !x.isOptional && !x.isRestArgument).length));
+                    const maxParams = Math.max(...overloads.map(method => method.params.length));
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.mismatchArgumentCount(minParams === maxParams ? maxParams : `${minParams}-${maxParams}`, argCount),
+                        range: expression.callee.name.range,
+                        file: file
+                    });
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitExpressionsRecursive
+        });
+    }
+
+    /**
+     * Determine if a member is assigned through `m` (i.e. `m.name = "bob"`) in the methods of a class or any of its ancestors.
+     * These members are added at runtime, so reading them is allowed even though they aren't declared as fields
+     */
+    private isMemberAssignedInClassHierarchy(classLink: FileLink<ClassStatement>, memberName: string, assignedMemberNames: Map<ClassStatement, Set<string>>) {
+        const lowerMemberName = memberName.toLowerCase();
+        const hierarchy = this.getClassHierarchy(classLink.item.getName(ParseMode.BrighterScript), classLink.item.namespaceName?.getName(ParseMode.BrighterScript));
+        return hierarchy.some(link => {
+            if (!assignedMemberNames.has(link.item)) {
+                const names = new Set<string>();
+                for (const method of [...link.item.methods, ...link.item.accessors]) {
+                    method.func.body?.walk(createVisitor({
+                        DottedSetStatement: (statement) => {
+                            if (isVariableExpression(statement.obj) && statement.obj.name.text.toLowerCase() === 'm') {
+                                names.add(statement.name.text.toLowerCase());
+                            }
+                        }
+                    }), {
+                        walkMode: WalkMode.visitStatements
+                    });
+                }
+                assignedMemberNames.set(link.item, names);
+            }
+            return assignedMemberNames.get(link.item).has(lowerMemberName);
+        });
+    }
+
+    /**
+     * Get the type of an expression. Types are tracked through literals, assignments, class and interface fields, function return types and `for each` loops over typed arrays.
+     * Class instances (and values declared as an interface) are represented by a `CustomType` with the fully-qualified name, and associative array literals by an `InterfaceType` with the type of each member.
+     * Anything that can't be determined is `DynamicType`.
+     * The generic type parameters of class members are replaced with the type arguments of the instance (i.e. `T` is `string` for a `List<string>`)
+     * @param visited the statements currently being evaluated, used to prevent infinite recursion (i.e. `node = node.next`)
+     */
+    public getExpressionType(file: BrsFile, expression: Expression, visited = new Set<Statement>()): BscType {
+        if (isLiteralExpression(expression)) {
+            return expression.type;
+
+        } else if (isArrayLiteralExpression(expression) || isAALiteralExpression(expression)) {
+            return util.getCollectionLiteralType(expression, value => this.getExpressionType(file, value, visited));
+
+        } else if (isNewExpression(expression)) {
+            return this.getClassType(
+                expression.className.getName(ParseMode.BrighterScript),
+                expression.namespaceName?.getName(ParseMode.BrighterScript),
+                expression.typeArguments.map(x => util.tokenToBscType(x, true) ?? new DynamicType())
+            );
+
+        } else if (isGroupingExpression(expression)) {
+            return this.getExpressionType(file, expression.expression, visited);
+
+        } else if (isVariableExpression(expression)) {
+            return this.getVariableType(file, expression, visited);
+
+        } else if (isDottedGetExpression(expression)) {
+            const objType = this.getExpressionType(file, expression.obj, visited);
+            const link = this.getClassMember(objType, expression.name.text);
+            if (isClassFieldStatement(link?.item)) {
+                return this.substituteTypeArguments(this.getClassFieldType(link.item, link.classLink, visited), objType, link.classLink);
+            }
+            const getter = this.getClassAccessor(objType, expression.name.text, 'get');
+            if (getter) {
+                return this.substituteTypeArguments(this.getFunctionReturnType(getter.item.func), objType, getter.classLink);
+            }
+            const interfaceMember = this.getInterfaceMember(objType, expression.name.text);
+            if (isInterfaceFieldStatement(interfaceMember?.item)) {
+                return this.getDeclaredType(interfaceMember.item.type, interfaceMember.interfaceStatement.namespaceName?.getName(ParseMode.BrighterScript));
+            }
+            if (isInterfaceType(objType)) {
+                const lowerName = expression.name.text.toLowerCase();
+                return [...objType.members].find(([name]) => name.toLowerCase() === lowerName)?.[1] ?? new DynamicType();
+            }
+            const componentScope = this.getComponentScopeForType(objType);
+            const field = componentScope?.getComponentFields().get(expression.name.text.toLowerCase());
+            if (field) {
+                return componentScope.getFieldValueType(field);
+            }
+
+        } else if (isCallExpression(expression)) {
+            const componentName = this.getCreatedComponentName(expression);
+            if (componentName) {
+                return new ComponentType(componentName);
+            }
+            const brsComponent = globalComponentMap.get(this.getCreateObjectTypeArg(expression)?.token.text.replace(/^"(.*)"$/, '$1').toLowerCase());
+            if (brsComponent) {
+                return new BrsComponentType(brsComponent.name);
+            }
+            const callee = this.getCalleeFunction(file, expression, visited);
+            if (callee) {
+                return this.substituteTypeArguments(this.getFunctionReturnType(callee.func), callee.objType, callee.classLink);
+            }
+            if (isDottedGetExpression(expression.callee)) {
+                const objType = this.getExpressionType(file, expression.callee.obj, visited);
+                const interfaceMember = this.getInterfaceMember(objType, expression.callee.name.text);
+                if (isInterfaceMethodStatement(interfaceMember?.item) && interfaceMember.item.returnType) {
+                    return this.getDeclaredType(interfaceMember.item.returnType, interfaceMember.interfaceStatement.namespaceName?.getName(ParseMode.BrighterScript));
+                }
+                const method = this.getBrsComponentMethod(objType, expression.callee.name.text);
+                if (method) {
+                    return method.returnType;
+                }
+            }
+        }
+        return new DynamicType();
+    }
+
+    /**
+     * Get the declared return type of a function, or `DynamicType` if the function has no return type
+     */
+    private getFunctionReturnType(func: FunctionExpression): BscType {
+        if (func.returnTypeToken) {
+            return this.getDeclaredType(func.returnType, func.namespaceName?.getName(ParseMode.BrighterScript));
+        }
+        return new DynamicType();
+    }
+
+    /**
+     * Get the type of a type annotation (i.e. `as Person`). Type aliases are resolved, and classes and interfaces get their fully-qualified name
+     */
+    private getDeclaredType(type: BscType, containingNamespace?: string): BscType {
+        const resolvedType = this.resolveTypeAliases(type, containingNamespace);
+        if (isCustomType(resolvedType)) {
+            const interfaceStatement = !this.hasClass(resolvedType.name, containingNamespace) ? this.getInterface(resolvedType.name, containingNamespace) : undefined;
+            if (interfaceStatement) {
+                return new CustomType(interfaceStatement.fullName);
+            }
+            return this.getClassType(resolvedType.name, containingNamespace, resolvedType.typeArguments);
+        } else if (isUnionType(resolvedType)) {
+            return new UnionType(resolvedType.types.map(x => this.getDeclaredType(x, containingNamespace)));
+        } else if (isArrayType(resolvedType)) {
+            return new ArrayType(...resolvedType.innerTypes.map(x => this.getDeclaredType(x, containingNamespace)));
+        }
+        return resolvedType;
+    }
+
+    /**
+     * Get a `CustomType` with the fully-qualified name of the class, or `DynamicType` if the class can't be found
+     * @param typeArguments the types provided for the generic type parameters of the class (i.e. `string` in `List<string>`)
+     */
+    private getClassType(className: string, containingNamespace?: string, typeArguments = [] as BscType[]): BscType {
+        const link = this.getClassFileLink(className, containingNamespace);
+        if (!link) {
+            return new DynamicType();
+        }
+        return new CustomType(
+            link.item.getName(ParseMode.BrighterScript),
+            typeArguments.map(x => (isCustomType(x) ? this.getClassType(x.name, containingNamespace, x.typeArguments) : x))
+        );
+    }
+
+    /**
+     * Replace the generic type parameters in the type of a class member (i.e. `T` in `class Box<T>`) with the type arguments of the instance (i.e. `string` for a `Box<string>`).
+     * Type parameters without a matching type argument (including those of generic functions) are `DynamicType`
+     * @param objType the type of the instance the member is accessed on
+     * @param classLink the class that declares the member
+     */
+    private substituteTypeArguments(type: BscType, objType?: BscType, classLink?: FileLink<ClassStatement>): BscType {
+        if (isGenericType(type)) {
+            let typeArgument: BscType;
+            //members inherited from a generic parent class do not know the type arguments of that parent
+            if (isCustomType(objType) && objType.name.toLowerCase() === classLink?.item.getName(ParseMode.BrighterScript).toLowerCase()) {
+                const index = classLink.item.typeParameters.findIndex(x => x.text.toLowerCase() === type.name.toLowerCase());
+                typeArgument = objType.typeArguments[index];
+            }
+            return typeArgument ?? new DynamicType();
+        } else if (isCustomType(type) && type.typeArguments.length > 0) {
+            return new CustomType(type.name, type.typeArguments.map(x => this.substituteTypeArguments(x, objType, classLink)));
+        } else if (isArrayType(type)) {
+            return new ArrayType(...type.innerTypes.map(x => this.substituteTypeArguments(x, objType, classLink)));
+        } else if (isUnionType(type)) {
+            return new UnionType(type.types.map(x => this.substituteTypeArguments(x, objType, classLink)));
+        }
+        return type;
+    }
+
+    /**
+     * Find a member of a class (or any of its ancestors) by name
+     */
+    private getClassMember(type: BscType, memberName: string) {
+        if (!isCustomType(type) || !memberName) {
+            return undefined;
+        }
+        const lowerMemberName = memberName.toLowerCase();
+        const link = this.getClassFileLink(type.name);
+        for (const classLink of this.getClassHierarchy(type.name, link?.item.namespaceName?.getName(ParseMode.BrighterScript))) {
+            const member = classLink.item.memberMap[lowerMemberName];
+            if (member) {
+                return {
+                    item: member,
+                    classLink: classLink
+                };
+            }
+        }
+    }
+
+    /**
+     * Find a `get` or `set` accessor of a class (or any of its ancestors) by property name
+     */
+    public getClassAccessor(type: BscType, memberName: string, accessorKind: 'get' | 'set') {
+        if (!isCustomType(type) || !memberName) {
+            return undefined;
+        }
+        const lowerMemberName = memberName.toLowerCase();
+        const link = this.getClassFileLink(type.name);
+        for (const classLink of this.getClassHierarchy(type.name, link?.item.namespaceName?.getName(ParseMode.BrighterScript))) {
+            const accessorMap = accessorKind === 'get' ? classLink.item.getterMap : classLink.item.setterMap;
+            const accessor = accessorMap[lowerMemberName];
+            if (accessor) {
+                return {
+                    item: accessor,
+                    classLink: classLink
+                };
+            }
+        }
+    }
+
+    /**
+     * Get the name of the component created by a `CreateObject("roSGNode", "Name")` call
+     */
+    private getCreatedComponentName(expression: CallExpression) {
+        const nameArg = expression.args[1];
+        if (
+            this.getCreateObjectTypeArg(expression)?.token.text.toLowerCase() === '"rosgnode"' &&
+            isLiteralExpression(nameArg) && nameArg.token.kind === TokenKind.StringLiteral
+        ) {
+            return nameArg.token.text.replace(/^"(.*)"$/, '$1');
+        }
+    }
+
+    /**
+     * Get the string literal with the component name of a `CreateObject("roDateTime")` call
+     */
+    private getCreateObjectTypeArg(expression: CallExpression) {
+        const typeArg = expression.args[0];
+        if (
+            isVariableExpression(expression.callee) &&
+            expression.callee.name.text.toLowerCase() === 'createobject' &&
+            isLiteralExpression(typeArg) && typeArg.token.kind === TokenKind.StringLiteral
+        ) {
+            return typeArg;
+        }
+    }
+
+    /**
+     * Get the methods declared by the interfaces of a built-in component. Methods declared by more than one interface are only included once
+     * @param type the type of a value created with `CreateObject()`
+     */
+    public getBrsComponentMethods(type: BscType) {
+        const methods = new Map<string, BuiltInMethod>();
+        const component = isBrsComponentType(type) ? globalComponentMap.get(type.name.toLowerCase()) : undefined;
+        for (const interfaceName of component?.interfaces ?? []) {
+            for (const method of globalInterfaceMap.get(interfaceName.toLowerCase()).methods) {
+                if (!methods.has(method.name.toLowerCase())) {
+                    methods.set(method.name.toLowerCase(), method);
+                }
+            }
+        }
+        return methods;
+    }
+
+    /**
+     * Find every declaration of a method by the interfaces of a built-in component, since interfaces can declare the same method with different parameters
+     */
+    public getBrsComponentMethodOverloads(type: BscType, methodName: string): BuiltInMethod[] {
+        const lowerMethodName = methodName?.toLowerCase();
+        const component = isBrsComponentType(type) ? globalComponentMap.get(type.name.toLowerCase()) : undefined;
+        return (component?.interfaces ?? []).flatMap(interfaceName => {
+            return globalInterfaceMap.get(interfaceName.toLowerCase()).methods.filter(method => method.name.toLowerCase() === lowerMethodName);
+        });
+    }
+
+    /**
+     * Find a method declared by the interfaces of a built-in component by name
+     */
+    public getBrsComponentMethod(type: BscType, methodName: string): BuiltInMethod | undefined {
+        return methodName ? this.getBrsComponentMethods(type).get(methodName.toLowerCase()) : undefined;
+    }
+
+    /**
+     * Get the scope of the component for a node type. Nodes created from built-in node types (or components that don't exist) have no scope
+     */
+    private getComponentScopeForType(type: BscType) {
+        return isComponentType(type) ? this.program.getComponentScope(type.name) : undefined;
+    }
+
+    /**
+     * Find a field or method of an interface (or any of its parent interfaces) by name
+     * @param type the type of a value declared as an interface
+     */
+    public getInterfaceMember(type: BscType, memberName: string) {
+        if (!isCustomType(type) || !memberName) {
+            return undefined;
+        }
+        const lowerMemberName = memberName.toLowerCase();
+        for (const interfaceStatement of this.getInterfaceHierarchy(type.name)) {
+            for (const statement of interfaceStatement.body) {
+                if ((isInterfaceFieldStatement(statement) || isInterfaceMethodStatement(statement)) && statement.tokens.name.text.toLowerCase() === lowerMemberName) {
+                    return {
+                        item: statement,
+                        interfaceStatement: interfaceStatement
+                    };
+                }
+            }
+        }
+    }
+
+    /**
+     * Get an interface followed by all of its parent interfaces
+     */
+    private getInterfaceHierarchy(interfaceName: string) {
+        const items = [] as InterfaceStatement[];
+        let current = this.getInterface(interfaceName);
+        //guard against circular interface inheritance
+        while (current && !items.includes(current)) {
+            items.push(current);
+            const parentInterfaceName = current.parentInterfaceName?.getName(ParseMode.BrighterScript);
+            current = parentInterfaceName ? this.getInterface(parentInterfaceName, current.namespaceName?.getName(ParseMode.BrighterScript)) : undefined;
+        }
+        return items;
+    }
+
+    /**
+     * Get the type of a variable from all of its declarations in the containing function, narrowed by the `if` statements around it.
+     * `m` is the class instance in class methods
+     */
+    private getVariableType(file: BrsFile, expression: VariableExpression, visited: Set<Statement>): BscType {
+        const lowerName = expression.name.text.toLowerCase();
+        const functionScope = file.getFunctionScopeAtPosition(expression.range.start);
+        if (!functionScope) {
+            return new DynamicType();
+        }
+        const func = functionScope.func;
+        const namespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
+
+        if (lowerName === 'm') {
+            const method = func.functionStatement;
+            const classStatement = isClassMethodStatement(method) ? file.parser.references.classStatements.find(x => x.methods.includes(method) || x.accessors.includes(method)) : undefined;
+            return classStatement ? this.getClassType(classStatement.getName(ParseMode.BrighterScript)) : new DynamicType();
+        }
+
+        const types = [] as BscType[];
+        for (const declaration of functionScope.variableDeclarations) {
+            if (declaration.name.toLowerCase() !== lowerName) {
+                continue;
+            }
+            const assignment = file.parser.references.assignmentStatements.find(x => x.name.range === declaration.nameRange);
+            const forEachStatement = functionScope.forEachStatements.find(x => x.item.range === declaration.nameRange);
+            if (isCustomType(declaration.type) || isUnionType(declaration.type) || isArrayType(declaration.type)) {
+                types.push(this.getDeclaredType(declaration.type, namespaceName));
+            } else if (forEachStatement && !visited.has(forEachStatement)) {
+                types.push(this.getForEachItemType(file, forEachStatement, visited));
+            } else if (assignment && !visited.has(assignment)) {
+                visited.add(assignment);
+                types.push(this.getExpressionType(file, assignment.value, visited));
+                visited.delete(assignment);
+            } else {
+                types.push(declaration.type);
+            }
+        }
+        return functionScope.getNarrowedType(expression.name.text, expression.range.start, this.getCommonType(types));
+    }
+
+    /**
+     * Get the type of the loop variable of a `for each` statement, which is the element type of a typed array (i.e. `Player` for a `Player[]`)
+     */
+    private getForEachItemType(file: BrsFile, statement: ForEachStatement, visited: Set<Statement>): BscType {
+        visited.add(statement);
+        const targetType = this.getExpressionType(file, statement.target, visited);
+        visited.delete(statement);
+        return isArrayType(targetType) ? this.getCommonType(targetType.innerTypes) : new DynamicType();
+    }
+
+    /**
+     * Get the type of a class field from its type, its initial value, or the `m.field = ...` assignments in the class methods
+     */
+    private getClassFieldType(field: ClassFieldStatement, classLink: FileLink<ClassStatement>, visited: Set<Statement>): BscType {
+        const namespaceName = classLink.item.namespaceName?.getName(ParseMode.BrighterScript);
+        if (field.type) {
+            return this.getDeclaredType(field.getType(), namespaceName);
+        }
+        if (visited.has(field)) {
+            return new DynamicType();
+        }
+        visited.add(field);
+        const lowerFieldName = field.name.text.toLowerCase();
+        const types = [] as BscType[];
+        if (field.initialValue) {
+            types.push(this.getExpressionType(classLink.file, field.initialValue, visited));
+        } else {
+            for (const method of [...classLink.item.methods, ...classLink.item.accessors]) {
+                method.func.body?.walk(createVisitor({
+                    DottedSetStatement: (statement) => {
+                        if (isVariableExpression(statement.obj) && statement.obj.name.text.toLowerCase() === 'm' && statement.name.text.toLowerCase() === lowerFieldName) {
+                            types.push(this.getExpressionType(classLink.file, statement.value, visited));
+                        }
+                    }
+                }), {
+                    walkMode: WalkMode.visitStatements
+                });
+            }
+        }
+        visited.delete(field);
+        return this.getCommonType(types);
+    }
+
+    /**
+     * Find the function being called, for calls to class methods, global functions and namespaced functions.
+     * For class methods, this includes the type of the instance and the class that declares the method
+     */
+    private getCalleeFunction(file: BrsFile, expression: CallExpression, visited: Set<Statement>): { func: FunctionExpression; objType?: BscType; classLink?: FileLink<ClassStatement> } {
+        const callee = expression.callee;
+        if (isDottedGetExpression(callee)) {
+            const objType = this.getExpressionType(file, callee.obj, visited);
+            const link = this.getClassMember(objType, callee.name.text);
+            if (isClassMethodStatement(link?.item)) {
+                return {
+                    func: link.item.func,
+                    objType: objType,
+                    classLink: link.classLink
+                };
+            }
+        }
+        const parts = util.getAllDottedGetParts(callee);
+        if (parts) {
+            const name = parts.map(x => x.text).join('.');
+            const namespaceName = file.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript);
+            //functions in the same namespace can be called without the namespace prefix
+            const callable = (namespaceName ? this.getCallableByName(`${namespaceName}.${name}`) : undefined) ?? this.getCallableByName(name);
+            const func = callable?.functionStatement?.func;
+            return func ? { func: func } : undefined;
+        }
+    }
+
+    /**
+     * Get the type shared by every one of the types, or `DynamicType` if they are not all the same type
+     */
+    private getCommonType(types: BscType[]): BscType {
+        const first = types[0];
+        if (first && types.every(x => x?.toString().toLowerCase() === first.toString().toLowerCase())) {
+            return first;
+        }
+        return new DynamicType();
+    }
+
     public getNewExpressions() {
         let result = [] as AugmentedNewExpression[];
         this.enumerateBrsFiles((file) => {
@@ -604,6 +1642,18 @@ export class Scope {
         this.diagnostics.push(...validator.diagnostics);
     }
 
+    private validateReturns() {
+        let validator = new BsReturnValidator();
+        validator.validate(this);
+        this.diagnostics.push(...validator.diagnostics);
+    }
+
+    private validateVariableAssignments() {
+        let validator = new BsVariableAssignmentValidator();
+        validator.validate(this);
+        this.diagnostics.push(...validator.diagnostics);
+    }
+
     /**
      * Detect calls to functions with the incorrect number of parameters
      * @param file
@@ -643,6 +1693,35 @@ export class Scope {
         }
     }
 
+    /**
+     * Detect calls where an argument's type can't be passed to the type of its parameter (i.e. passing a string to `sub setVolume(level as integer)`)
+     */
+    private diagnosticDetectFunctionCallsWithWrongArgumentTypes(file: BscFile, callableContainersByLowerName: CallableContainerMap) {
+        for (let expCall of file.functionCalls) {
+            //use the first item from callablesByLowerName, because if there are more, that's a separate error
+            let knownCallable = callableContainersByLowerName.get(expCall.name.toLowerCase())?.[0]?.callable;
+            //calls with the wrong number of arguments are already reported by the argument count check
+            if (!knownCallable || expCall.args.length > knownCallable.params.length || expCall.args.length < knownCallable.params.filter(x => !x.isOptional).length) {
+                continue;
+            }
+            const callableNamespaceName = knownCallable.functionStatement?.namespaceName?.getName(ParseMode.BrighterScript);
+            for (let i = 0; i < expCall.args.length; i++) {
+                const arg = expCall.args[i];
+                const param = knownCallable.params[i];
+                //type aliases are compared by the type they represent
+                const argType = this.resolveTypeAliases(arg.type, expCall.functionScope?.func.namespaceName?.getName(ParseMode.BrighterScript));
+                const paramType = this.resolveTypeAliases(param.type, callableNamespaceName);
+                if (!util.isTypeCompatible(argType, paramType)) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.argumentTypeMismatch(arg.type.toString(), param.type.toString()),
+                        range: arg.range,
+                        file: file
+                    });
+                }
+            }
+        }
+    }
+
     /**
      * Detect local variables (function scope) that have the same name as scope calls
      * @param file
@@ -731,9 +1810,9 @@ export class Scope {
             if (!scope?.getVariableByName(lowerName)) {
                 let callablesWithThisName: CallableContainer[];
 
-                if (expCall.functionScope.func.namespaceName) {
+                if (expCall.functionScope?.func.namespaceName) {
                     // prefer namespaced function
-                    const potentialNamespacedCallable = expCall.functionScope.func.namespaceName.getName(ParseMode.BrightScript).toLowerCase() + '_' + lowerName;
+                    const potentialNamespacedCallable = expCall.functionScope?.func.namespaceName.getName(ParseMode.BrightScript).toLowerCase() + '_' + lowerName;
                     callablesWithThisName = callablesByLowerName.get(potentialNamespacedCallable.toLowerCase());
                 }
                 if (!callablesWithThisName) {
@@ -984,6 +2063,51 @@ export class Scope {
         return results;
     }
 
+    /**
+     * Get completions for the members of a value of the given type: class instances, values declared as an interface, associative array literals, nodes and built-in components
+     */
+    public getMemberCompletions(type: BscType) {
+        let results = new Map<string, CompletionItem>();
+        const addMember = (name: string, kind: CompletionItemKind) => {
+            if (!results.has(name.toLowerCase())) {
+                results.set(name.toLowerCase(), {
+                    label: name,
+                    kind: kind
+                });
+            }
+        };
+        if (isInterfaceType(type)) {
+            for (const [name, memberType] of type.members) {
+                addMember(name, isFunctionType(memberType) ? CompletionItemKind.Method : CompletionItemKind.Field);
+            }
+        } else if (isCustomType(type)) {
+            for (const classLink of this.getClassHierarchy(type.name)) {
+                //accessors are used like fields
+                for (const member of [...classLink.item.fields, ...classLink.item.methods, ...classLink.item.accessors]) {
+                    if (member.name.text.toLowerCase() !== 'new') {
+                        addMember(member.name.text, isClassMethodStatement(member) && !member.accessorKeyword ? CompletionItemKind.Method : CompletionItemKind.Field);
+                    }
+                }
+            }
+            for (const interfaceStatement of this.getInterfaceHierarchy(type.name)) {
+                for (const statement of interfaceStatement.body) {
+                    if (isInterfaceFieldStatement(statement) || isInterfaceMethodStatement(statement)) {
+                        addMember(statement.tokens.name.text, isInterfaceMethodStatement(statement) ? CompletionItemKind.Method : CompletionItemKind.Field);
+                    }
+                }
+            }
+        } else if (isComponentType(type)) {
+            for (const field of this.getComponentScopeForType(type)?.getComponentFields().values() ?? []) {
+                addMember(field.id, CompletionItemKind.Field);
+            }
+        } else if (isBrsComponentType(type)) {
+            for (const method of this.getBrsComponentMethods(type).values()) {
+                addMember(method.name, CompletionItemKind.Method);
+            }
+        }
+        return [...results.values()];
+    }
+
     /**
      * @param className - The name of the class (including namespace if possible)
      * @param callsiteNamespace - the name of the namespace where the call site resides (this is NOT the known namespace of the class).
@@ -1008,6 +2132,8 @@ interface NamespaceContainer {
     statements: Statement[];
     classStatements: Record<string, ClassStatement>;
     functionStatements: Record<string, FunctionStatement>;
+    enumStatements: Record<string, EnumStatement>;
+    constStatements: Record<string, ConstStatement>;
     namespaces: Record<string, NamespaceContainer>;
 }
 
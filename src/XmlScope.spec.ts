@@ -1,9 +1,9 @@
 import { expect } from 'chai';
-import { Position, Range } from 'vscode-languageserver';
+import { DiagnosticSeverity, Position, Range } from 'vscode-languageserver';
 import { DiagnosticMessages } from './DiagnosticMessages';
 import type { XmlFile } from './files/XmlFile';
 import { Program } from './Program';
-import { trim } from './testHelpers.spec';
+import { expectZeroDiagnostics, trim } from './testHelpers.spec';
 import { standardizePath as s, util } from './util';
 let rootDir = s`${process.cwd()}/rootDir`;
 
@@ -90,6 +90,10 @@ describe('XmlScope', () => {
         it('adds an error when an interface function cannot be found', () => {
             program = new Program({ rootDir: rootDir });
 
+            program.addOrReplaceFile('components/parent.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="parent" extends="Group" />
+            `);
             program.addOrReplaceFile('components/child.xml', trim`
                 <?xml version="1.0" encoding="utf-8" ?>
                 <component name="child" extends="parent">
@@ -135,6 +139,10 @@ describe('XmlScope', () => {
         it('adds an error when an interface field is invalid', () => {
             program = new Program({ rootDir: rootDir });
 
+            program.addOrReplaceFile('components/parent.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="parent" extends="Group" />
+            `);
             program.addOrReplaceFile('components/child.xml', trim`
                 <?xml version="1.0" encoding="utf-8" ?>
                 <component name="child" extends="parent">
@@ -187,4 +195,422 @@ describe('XmlScope', () => {
             });
         });
     });
+
+    describe('component fields', () => {
+        function addComponent(name: string, parentName: string, fields: string, script: string) {
+            program.addOrReplaceFile(`components/${name}.xml`, trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="${name}" extends="${parentName}">
+                    <interface>
+                        ${fields}
+                    </interface>
+                    <script uri="${name}.brs" />
+                </component>
+            `);
+            program.addOrReplaceFile(`components/${name}.brs`, script);
+        }
+
+        it('includes the fields of ancestors and known built-in nodes', () => {
+            addComponent('Parent', 'Group', '<field id="title" type="string" />', '');
+            addComponent('Child', 'Parent', '<field id="Count" type="integer" />', '');
+            const scope = program.getComponentScope('Child');
+            expect(
+                [...scope.getComponentFields().keys()]
+            ).to.include.members(['count', 'title', 'visible', 'translation', 'id']);
+            expect(scope.getComponentFields().get('count').type).to.eql('integer');
+        });
+
+        it('flags reads and writes of unknown fields', () => {
+            addComponent('Child', 'Group', '<field id="title" type="string" />', `
+                sub init()
+                    m.top.title = "hello"
+                    m.top.visible = true
+                    m.top.nope = 1
+                    print m.top.tilte
+                    print m.top.getChildCount()
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.unknownComponentField('nope', 'Child').message,
+                DiagnosticMessages.unknownComponentField('tilte', 'Child').message
+            ]);
+            expect(program.getDiagnostics()[0].range).to.eql(util.createRange(4, 26, 4, 30));
+        });
+
+        it('flags assignments of values that do not match the field type', () => {
+            addComponent('Child', 'Group', [
+                '<field id="title" type="string" />',
+                '<field id="count" type="int" />',
+                '<field id="progress" type="float" />',
+                '<field id="content" type="node" />',
+                '<field id="other" alias="label.text" />'
+            ].join(''), `
+                sub init()
+                    m.top.title = 5
+                    m.top.count = 5
+                    m.top.count = "five"
+                    m.top.progress = 0.5
+                    m.top.content = invalid
+                    m.top.other = 5
+                    m.top.visible = "yes"
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.componentFieldTypeMismatch('integer', 'title', 'string').message,
+                DiagnosticMessages.componentFieldTypeMismatch('string', 'count', 'int').message,
+                DiagnosticMessages.componentFieldTypeMismatch('string', 'visible', 'boolean').message
+            ]);
+        });
+
+        it('uses the field types when checking other expressions', () => {
+            addComponent('Child', 'Group', '<field id="title" type="string" />', `
+                function getCount() as integer
+                    return m.top.title
+                end function
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.returnTypeMismatch('string', 'integer').message
+            ]);
+        });
+
+        it('does not flag unknown fields for components that extend other built-in nodes', () => {
+            addComponent('Child', 'ContentNode', '<field id="title" type="string" />', `
+                sub init()
+                    m.top.url = "http://example.com"
+                    m.top.title = 5
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.componentFieldTypeMismatch('integer', 'title', 'string').message
+            ]);
+        });
+
+        it('allows fields that are added at runtime', () => {
+            addComponent('Child', 'Group', '', `
+                sub init()
+                    m.top.addField("title", "string", false)
+                    m.top.addFields({ count: 1, "isLoaded": false })
+                    print m.top.title
+                    print m.top.count
+                    print m.top.isLoaded
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('ignores `m.top` inside of class methods', () => {
+            program.addOrReplaceFile('components/Child.bs', `
+                class Widget
+                    top as object
+                    sub render()
+                        print m.top.nope
+                    end sub
+                end class
+            `);
+            program.addOrReplaceFile('components/Child.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Child" extends="Group">
+                    <script uri="Child.bs" />
+                </component>
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('includes the fields in `m.top.` completions', () => {
+            addComponent('Child', 'Task', '<field id="result" type="assocarray" />', `
+                sub init()
+                    m.top.
+                end sub
+            `);
+            program.validate();
+            const labels = program.getCompletions(s`${rootDir}/components/Child.brs`, Position.create(2, 26)).map(x => x.label);
+            expect(labels).to.include.members(['result', 'functionName', 'control', 'state', 'id']);
+            expect(labels).not.to.include('visible');
+        });
+    });
+
+    describe('callfunc', () => {
+        beforeEach(() => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group">
+                    <interface>
+                        <field id="title" type="string" />
+                        <function name="refresh" />
+                        <function name="setItems" />
+                    </interface>
+                    <script uri="Widget.brs" />
+                </component>
+            `);
+            program.addOrReplaceFile('components/Widget.brs', `
+                sub refresh()
+                end sub
+                sub setItems(items, animate = false)
+                end sub
+                sub hidden()
+                end sub
+            `);
+        });
+
+        it('validates callfunc calls on nodes created from known components', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                sub main()
+                    widget = CreateObject("roSGNode", "Widget")
+                    widget@.refresh()
+                    widget@.setItems([])
+                    widget@.setItems([], true)
+                    widget@.missing()
+                    widget@.hidden()
+                    widget.callFunc("refresh", invalid)
+                    widget.callFunc("nope", invalid)
+                    widget@.refresh(1, 2)
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.callfuncFunctionNotFound('missing', 'Widget').message,
+                DiagnosticMessages.callfuncFunctionNotInInterface('hidden', 'Widget').message,
+                DiagnosticMessages.callfuncFunctionNotFound('nope', 'Widget').message,
+                DiagnosticMessages.mismatchArgumentCount(0, 2).message
+            ]);
+            expect(program.getDiagnostics()[0].range).to.eql(util.createRange(6, 28, 6, 35));
+        });
+
+        it('includes the interface functions of ancestor components', () => {
+            program.addOrReplaceFile('components/Child.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Child" extends="Widget">
+                    <script uri="Child.bs" />
+                </component>
+            `);
+            program.addOrReplaceFile('components/Child.bs', `
+                sub init()
+                    m.top@.refresh()
+                    m.top@.refreh()
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.callfuncFunctionNotFound('refreh', 'Child').message
+            ]);
+        });
+
+        it('does not validate callfunc calls on nodes of unknown types', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                sub main(node)
+                    node@.missing()
+                    CreateObject("roSGNode", "Group").callFunc("missing", invalid)
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('includes the component fields in completions for nodes', () => {
+            program.addOrReplaceFile('source/main.brs', `
+                sub main()
+                    widget = CreateObject("roSGNode", "Widget")
+                    widget.
+                end sub
+            `);
+            program.validate();
+            const labels = program.getCompletions(s`${rootDir}/source/main.brs`, Position.create(3, 27)).map(x => x.label);
+            expect(labels).to.include.members(['title', 'visible']);
+        });
+    });
+
+    describe('callbacks', () => {
+        let xmlFile: XmlFile;
+        beforeEach(() => {
+            xmlFile = program.addOrReplaceFile<XmlFile>('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group">
+                    <interface>
+                        <field id="title" type="string" onChange="onTitleChanged" />
+                        <field id="count" type="integer" onChange="onCountChanged" />
+                    </interface>
+                    <script uri="Widget.brs" />
+                </component>
+            `);
+        });
+
+        it('flags callbacks that do not exist in the component', () => {
+            program.addOrReplaceFile('components/Widget.brs', `
+                sub init()
+                    m.top.observeField("title", "onTitleChanged")
+                    m.top.observeFieldScoped("count", "onCountChnged")
+                    m.top.observeField("count", m.port)
+                end sub
+                sub onTitleChanged()
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.xmlFunctionNotFound('onCountChanged').message,
+                DiagnosticMessages.xmlFunctionNotFound('onCountChnged').message
+            ]);
+            expect(program.getDiagnostics().map(x => x.range)).to.eql([
+                util.createRange(4, 51, 4, 65),
+                util.createRange(3, 54, 3, 69)
+            ]);
+        });
+
+        it('flags callbacks with more than one required parameter', () => {
+            program.addOrReplaceFile('components/Widget.brs', `
+                sub init()
+                    m.top.observeField("title", "onChanged")
+                end sub
+                sub onTitleChanged(event)
+                end sub
+                sub onCountChanged(event, other = invalid)
+                end sub
+                sub onChanged(event, other)
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.callbackFunctionHasTooManyParams('onChanged', 2).message
+            ]);
+        });
+
+        it('finds the definition of `onChange` handlers', () => {
+            const brsFile = program.addOrReplaceFile('components/Widget.brs', `
+                sub onTitleChanged()
+                end sub
+            `);
+            program.validate();
+            //<field id="title" type="string" onChange="onTitle|Changed" />
+            const definition = program.getDefinition(xmlFile.pathAbsolute, Position.create(3, 59));
+            expect(definition).to.eql([{
+                uri: util.pathToUri(brsFile.pathAbsolute),
+                range: util.createRange(1, 16, 2, 23)
+            }]);
+        });
+
+        it('finds the definition of `observeField` callbacks', () => {
+            const brsFile = program.addOrReplaceFile('components/Widget.brs', `
+                sub init()
+                    m.top.observeField("title", "onTitleChanged")
+                end sub
+                sub onTitleChanged()
+                end sub
+            `);
+            program.validate();
+            const definition = program.getDefinition(brsFile.pathAbsolute, Position.create(2, 55));
+            expect(definition).to.eql([{
+                uri: util.pathToUri(brsFile.pathAbsolute),
+                range: util.createRange(4, 16, 5, 23)
+            }]);
+        });
+
+        it('includes callback names in references', async () => {
+            const brsFile = program.addOrReplaceFile('components/Widget.brs', `
+                sub init()
+                    m.top.observeField("title", "onTitleChanged")
+                    onTitleChanged()
+                end sub
+                sub onTitleChanged()
+                end sub
+            `);
+            program.validate();
+            const references = await program.getReferences(brsFile.pathAbsolute, Position.create(5, 24));
+            expect(references.map(x => `${x.uri.endsWith('.xml') ? 'xml' : 'brs'}:${x.range.start.line}:${x.range.start.character}`)).to.have.members([
+                'xml:3:50',
+                'brs:2:48',
+                'brs:3:20'
+            ]);
+        });
+    });
+
+    describe('nodes', () => {
+        it('flags unknown extended nodes', () => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Grop" />
+            `);
+            program.addOrReplaceFile('components/Child.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Child" extends="Widget" />
+            `);
+            program.addOrReplaceFile('components/Lib.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Lib" extends="lib:Widget" />
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.xmlUnknownNode('Grop').message
+            ]);
+            expect(program.getDiagnostics()[0].range).to.eql(util.createRange(1, 34, 1, 38));
+            expect(program.getDiagnostics()[0].severity).to.eql(DiagnosticSeverity.Warning);
+        });
+
+        it('flags unknown child nodes', () => {
+            program.addOrReplaceFile('components/Main.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Main" extends="Scene">
+                    <children>
+                        <Grop id="menu">
+                            <Label text="hello" />
+                        </Grop>
+                        <lib:Widget title="hello" />
+                    </children>
+                </component>
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.xmlUnknownNode('Grop').message
+            ]);
+            expect(program.getDiagnostics()[0].range).to.eql(util.createRange(3, 9, 3, 13));
+        });
+
+        it('flags unknown fields of known nodes', () => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group">
+                    <interface>
+                        <field id="title" type="string" />
+                    </interface>
+                </component>
+            `);
+            program.addOrReplaceFile('components/Main.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Main" extends="Scene">
+                    <children>
+                        <LayoutGroup id="menu" translation="[0, 0]">
+                            <Label tetx="hello" />
+                            <ScrollableText text="hello" scrollbarTrackBitmapUri="pkg:/images/track.png" />
+                        </LayoutGroup>
+                        <Widget title="hello" subtitle="world" />
+                        <ContentNode title="hello" customField="1" />
+                        <StandardMessageDialog title="hello" buttons="[&quot;OK&quot;]" />
+                    </children>
+                </component>
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.xmlUnknownNodeField('tetx', 'Label').message,
+                DiagnosticMessages.xmlUnknownNodeField('subtitle', 'Widget').message
+            ]);
+            expect(program.getDiagnostics()[0].range).to.eql(util.createRange(4, 19, 4, 23));
+            expect(program.getDiagnostics()[0].severity).to.eql(DiagnosticSeverity.Warning);
+        });
+
+        it('uses the fields of built-in nodes for components without `extends`', () => {
+            const xmlFile = program.addOrReplaceFile<XmlFile>('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" />
+            `);
+            program.validate();
+            expect(program.getComponentScope('Widget').getComponentFields().has('translation')).to.be.true;
+            expect(xmlFile.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.xmlComponentMissingExtendsAttribute().message
+            ]);
+        });
+    });
 });
@@ -1,13 +1,60 @@
-import type { Location, Position } from 'vscode-languageserver';
+import type { Location, Position, Range } from 'vscode-languageserver';
 import { Scope } from './Scope';
 import { DiagnosticMessages } from './DiagnosticMessages';
 import type { XmlFile } from './files/XmlFile';
 import type { BscFile, CallableContainerMap, FileReference } from './interfaces';
 import type { Program } from './Program';
 import util from './util';
-import { isXmlFile } from './astUtils/reflection';
-import { SGFieldTypes } from './parser/SGTypes';
-import type { SGTag } from './parser/SGTypes';
+import { isAALiteralExpression, isBrsFile, isCallExpression, isCommentStatement, isDottedGetExpression, isLiteralExpression, isVariableExpression, isXmlFile } from './astUtils/reflection';
+import { createVisitor, WalkMode } from './astUtils/visitors';
+import { SGField, SGFieldTypes } from './parser/SGTypes';
+import type { SGFunction, SGNode, SGTag } from './parser/SGTypes';
+import { globalNodeMap } from './globalNodes';
+import { ParseMode } from './parser/Parser';
+import type { BrsFile } from './files/BrsFile';
+import type { DottedGetExpression, Expression } from './parser/Expression';
+import type { Statement } from './parser/Statement';
+import type { BscType } from './types/BscType';
+import { ArrayType } from './types/ArrayType';
+import { BooleanType } from './types/BooleanType';
+import { ComponentType } from './types/ComponentType';
+import { DoubleType } from './types/DoubleType';
+import { DynamicType } from './types/DynamicType';
+import { FloatType } from './types/FloatType';
+import { IntegerType } from './types/IntegerType';
+import { LongIntegerType } from './types/LongIntegerType';
+import { ObjectType } from './types/ObjectType';
+import { StringType } from './types/StringType';
+
+/**
+ * The type of the values stored in each SceneGraph field type, by the lower case field type. Any other field type (i.e. `color`) is `dynamic`
+ */
+const fieldValueTypes = {
+    integer: () => new IntegerType(),
+    int: () => new IntegerType(),
+    longinteger: () => new LongIntegerType(),
+    float: () => new FloatType(),
+    time: () => new DoubleType(),
+    string: () => new StringType(),
+    str: () => new StringType(),
+    uri: () => new StringType(),
+    boolean: () => new BooleanType(),
+    bool: () => new BooleanType(),
+    node: () => new ObjectType(),
+    assocarray: () => new ObjectType(),
+    vector2d: () => new ObjectType(),
+    rect2d: () => new ObjectType(),
+    array: () => new ArrayType(),
+    roarray: () => new ArrayType(),
+    intarray: () => new ArrayType(new IntegerType()),
+    floatarray: () => new ArrayType(new FloatType()),
+    boolarray: () => new ArrayType(new BooleanType()),
+    stringarray: () => new ArrayType(new StringType()),
+    nodearray: () => new ArrayType(new ObjectType()),
+    timearray: () => new ArrayType(new DoubleType()),
+    vector2darray: () => new ArrayType(new ObjectType()),
+    rect2darray: () => new ArrayType(new ObjectType())
+} as Record<string, () => BscType>;
 
 export class XmlScope extends Scope {
     constructor(
@@ -49,6 +96,342 @@ export class XmlScope extends Scope {
 
         //validate component interface
         this.diagnosticValidateInterface(callableContainerMap);
+
+        //validate reads and writes of `m.top` fields in the component's scripts
+        this.diagnosticValidateComponentFieldAccess();
+
+        //validate the `onChange` and `observeField` callback function names
+        this.diagnosticValidateCallbacks();
+
+        //validate the names of the extended node and of the child nodes (and their fields)
+        this.diagnosticValidateNodes();
+    }
+
+    /**
+     * Find `extends` attributes and child nodes that reference nodes that are neither components nor built-in nodes, and child node attributes that are not fields of the node.
+     * Unknown nodes are only warnings, because they may come from component libraries that are loaded at runtime
+     */
+    private diagnosticValidateNodes() {
+        const { parentComponentName } = this.xmlFile;
+        if (parentComponentName?.text && !this.isKnownNode(parentComponentName.text)) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.xmlUnknownNode(parentComponentName.text),
+                range: parentComponentName.range,
+                file: this.xmlFile
+            });
+        }
+        const validateNode = (node: SGNode) => {
+            const nodeName = node.tag.text;
+            if (!this.isKnownNode(nodeName)) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.xmlUnknownNode(nodeName),
+                    range: node.tag.range,
+                    file: this.xmlFile
+                });
+            } else {
+                const fieldInfo = this.getNodeFieldInfo(nodeName);
+                for (const attribute of fieldInfo?.isComplete ? node.attributes : []) {
+                    if (!fieldInfo.fields.has(attribute.key.text.toLowerCase())) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.xmlUnknownNodeField(attribute.key.text, nodeName),
+                            range: attribute.key.range,
+                            file: this.xmlFile
+                        });
+                    }
+                }
+            }
+            for (const child of node.children ?? []) {
+                validateNode(child);
+            }
+        };
+        for (const node of this.xmlFile.ast.component?.children?.children ?? []) {
+            validateNode(node);
+        }
+    }
+
+    /**
+     * Get the function with the given name from the scripts of this component or its ancestors (global functions are excluded)
+     */
+    public getComponentCallable(name: string) {
+        const lowerName = name.toLowerCase();
+        return this.getAllCallables().find(x => {
+            return x.scope !== this.program.globalScope && x.callable.getName(ParseMode.BrighterScript).toLowerCase() === lowerName;
+        })?.callable;
+    }
+
+    /**
+     * Find `onChange` handlers of interface fields and `observeField` callbacks that don't exist in the component,
+     * or that have more than one required parameter (callbacks are only ever passed the field event)
+     */
+    private diagnosticValidateCallbacks() {
+        const validateCallback = (name: string, range: Range, file: BscFile) => {
+            const callable = this.getComponentCallable(name);
+            if (!callable) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.xmlFunctionNotFound(name),
+                    range: range,
+                    file: file
+                });
+                return;
+            }
+            const requiredParamCount = callable.params.filter(x => !x.isOptional).length;
+            if (requiredParamCount > 1) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.callbackFunctionHasTooManyParams(name, requiredParamCount),
+                    range: range,
+                    file: file
+                });
+            }
+        };
+        for (const field of this.xmlFile.ast.component?.api?.fields ?? []) {
+            if (field.onChange) {
+                validateCallback(field.onChange, field.getAttribute('onChange').value.range, this.xmlFile);
+            }
+        }
+        for (const file of this.getOwnFiles()) {
+            if (!isBrsFile(file)) {
+                continue;
+            }
+            file.parser.ast.walk(createVisitor({
+                CallExpression: (expression) => {
+                    const callbackToken = util.getObserverCallbackToken(expression);
+                    if (callbackToken) {
+                        validateCallback(callbackToken.text.replace(/^"(.*)"$/, '$1'), callbackToken.range, file);
+                    }
+                }
+            }), {
+                walkMode: WalkMode.visitExpressionsRecursive
+            });
+        }
+    }
+
+    /**
+     * Get the fields of this component and all of its ancestors (including the fields of known built-in nodes), keyed by the lower-case field id.
+     * Fields declared by a component take precedence over the fields of the same name in its ancestors
+     */
+    public getComponentFields() {
+        return this.getComponentFieldInfo().fields;
+    }
+
+    /**
+     * Get the interface functions of this component and all of its ancestors, keyed by the lower-case function name
+     */
+    public getComponentFunctions() {
+        return this.cache.getOrAdd('componentFunctions', () => {
+            const functions = new Map<string, SGFunction>();
+            for (const xmlFile of this.getComponentHierarchy().xmlFiles) {
+                for (const func of xmlFile.ast.component?.api?.functions ?? []) {
+                    const lowerName = func.name?.toLowerCase();
+                    if (lowerName && !functions.has(lowerName)) {
+                        functions.set(lowerName, func);
+                    }
+                }
+            }
+            return functions;
+        });
+    }
+
+    /**
+     * Get the xml files of this component and its ancestors (closest first), and the name of the node that the root component extends
+     */
+    private getComponentHierarchy() {
+        return this.cache.getOrAdd('componentHierarchy', () => {
+            const xmlFiles = [] as XmlFile[];
+            let xmlFile = this.xmlFile;
+            let baseNodeName: string;
+            //guard against circular `extends`
+            while (xmlFile && !xmlFiles.includes(xmlFile)) {
+                xmlFiles.push(xmlFile);
+                //components without an `extends` attribute extend `Group`
+                baseNodeName = xmlFile.parentComponentName?.text ?? 'Group';
+                xmlFile = xmlFile.parentComponent;
+            }
+            return {
+                xmlFiles: xmlFiles,
+                //only set when the root component extends a node that isn't a component in this program
+                baseNodeName: xmlFile ? undefined : baseNodeName
+            };
+        });
+    }
+
+    private getComponentFieldInfo() {
+        return this.cache.getOrAdd('componentFieldInfo', () => {
+            const fields = new Map<string, SGField>();
+            const { xmlFiles, baseNodeName } = this.getComponentHierarchy();
+            for (const xmlFile of xmlFiles) {
+                for (const field of xmlFile.ast.component?.api?.fields ?? []) {
+                    const lowerId = field.id?.toLowerCase();
+                    if (lowerId && !fields.has(lowerId)) {
+                        fields.set(lowerId, field);
+                    }
+                }
+            }
+            //the root component extends a built-in node. The field list is only complete if we know all of the fields of that node
+            const builtInNodeFieldInfo = this.getBuiltInNodeFieldInfo(baseNodeName);
+            for (const [lowerId, field] of builtInNodeFieldInfo?.fields ?? []) {
+                if (!fields.has(lowerId)) {
+                    fields.set(lowerId, field);
+                }
+            }
+            return {
+                fields: fields,
+                isComplete: builtInNodeFieldInfo?.isComplete ?? false
+            };
+        });
+    }
+
+    /**
+     * Get the fields of a built-in node and the nodes it extends, keyed by the lower-case field id
+     */
+    private getBuiltInNodeFieldInfo(nodeName: string) {
+        let builtInNode = globalNodeMap.get(nodeName?.toLowerCase());
+        if (!builtInNode) {
+            return undefined;
+        }
+        const fields = new Map<string, SGField>();
+        let isComplete = true;
+        while (builtInNode) {
+            for (const builtInField of builtInNode.fields) {
+                const field = new SGField();
+                field.id = builtInField.name;
+                field.type = builtInField.type;
+                fields.set(builtInField.name.toLowerCase(), field);
+            }
+            isComplete = isComplete && !builtInNode.hasDynamicFields;
+            builtInNode = globalNodeMap.get(builtInNode.extends?.toLowerCase());
+        }
+        return {
+            fields: fields,
+            isComplete: isComplete
+        };
+    }
+
+    /**
+     * Get the fields of a component or built-in node by name (keyed by the lower-case field id), and whether that list of fields is complete.
+     * Components that extend unknown nodes and nodes with dynamic fields (i.e. `ContentNode`) accept other fields too. Unknown nodes return `undefined`
+     */
+    public getNodeFieldInfo(nodeName: string) {
+        const componentScope = this.program.getComponentScope(nodeName);
+        if (componentScope) {
+            return componentScope.getComponentFieldInfo();
+        }
+        return this.getBuiltInNodeFieldInfo(nodeName);
+    }
+
+    /**
+     * Determine if a node name is a component in this program or a built-in node.
+     * Component library components (i.e. `lib:Name`) are loaded at runtime, so they are always considered known
+     */
+    public isKnownNode(nodeName: string) {
+        return nodeName.includes(':') || !!this.program.getComponent(nodeName) || globalNodeMap.has(nodeName.toLowerCase());
+    }
+
+    /**
+     * Get the type of the value stored in a field, based on its declared field type
+     */
+    public getFieldValueType(field: SGField) {
+        return fieldValueTypes[field.type?.toLowerCase()]?.() ?? new DynamicType();
+    }
+
+    /**
+     * Determine if an expression is `m.top`. Inside of class methods `m` is the class instance, so `m.top` is just a class member there
+     */
+    private isComponentTopExpression(file: BrsFile, expression: Expression): expression is DottedGetExpression {
+        return isDottedGetExpression(expression) &&
+            expression.name?.text.toLowerCase() === 'top' &&
+            isVariableExpression(expression.obj) &&
+            expression.obj.name.text.toLowerCase() === 'm' &&
+            !file.parser.references.classStatements.some(x => util.rangeContains(x.range, expression.range.start));
+    }
+
+    /**
+     * Get the type of an expression. `m.top` is the node created from this component
+     */
+    public getExpressionType(file: BrsFile, expression: Expression, visited = new Set<Statement>()): BscType {
+        if (this.xmlFile.componentName?.text && this.isComponentTopExpression(file, expression)) {
+            return new ComponentType(this.xmlFile.componentName.text);
+        }
+        return super.getExpressionType(file, expression, visited);
+    }
+
+    /**
+     * Find reads of `m.top` fields that don't exist on the component, and assignments of values that don't match the type of the field
+     */
+    private diagnosticValidateComponentFieldAccess() {
+        const { fields, isComplete } = this.getComponentFieldInfo();
+        const componentName = this.xmlFile.componentName?.text ?? this.xmlFile.pkgPath;
+        const files = this.getOwnFiles().filter(file => isBrsFile(file)) as BrsFile[];
+
+        //fields can also be added at runtime (i.e. `m.top.addField("title", "string", false)`)
+        const addedFieldNames = new Set<string>();
+        for (const file of files) {
+            file.parser.ast.walk(createVisitor({
+                CallExpression: (expression) => {
+                    if (!isDottedGetExpression(expression.callee) || !this.isComponentTopExpression(file, expression.callee.obj)) {
+                        return;
+                    }
+                    const methodName = expression.callee.name.text.toLowerCase();
+                    const arg = expression.args[0];
+                    if (methodName === 'addfield' && isLiteralExpression(arg)) {
+                        addedFieldNames.add(arg.token.text.replace(/"/g, '').toLowerCase());
+                    } else if (methodName === 'addfields' && isAALiteralExpression(arg)) {
+                        for (const element of arg.elements) {
+                            if (!isCommentStatement(element)) {
+                                addedFieldNames.add(element.keyToken.text.replace(/"/g, '').toLowerCase());
+                            }
+                        }
+                    }
+                }
+            }), {
+                walkMode: WalkMode.visitExpressionsRecursive
+            });
+        }
+        const isKnownField = (name: string) => !isComplete || fields.has(name.toLowerCase()) || addedFieldNames.has(name.toLowerCase());
+
+        for (const file of files) {
+            file.parser.ast.walk(createVisitor({
+                DottedSetStatement: (statement) => {
+                    if (!this.isComponentTopExpression(file, statement.obj)) {
+                        return;
+                    }
+                    const field = fields.get(statement.name.text.toLowerCase());
+                    if (!field) {
+                        if (!isKnownField(statement.name.text)) {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.unknownComponentField(statement.name.text, componentName),
+                                range: statement.name.range,
+                                file: file
+                            });
+                        }
+                        return;
+                    }
+                    const fieldType = this.getFieldValueType(field);
+                    const valueType = this.getExpressionType(file, statement.value);
+                    if (!util.isTypeCompatible(valueType, fieldType)) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.componentFieldTypeMismatch(valueType.toString(), field.id, field.type),
+                            range: statement.value.range,
+                            file: file
+                        });
+                    }
+                },
+                DottedGetExpression: (expression, parent) => {
+                    //calls are node methods (i.e. `m.top.getChildCount()`), not fields
+                    if (isCallExpression(parent) && parent.callee === expression) {
+                        return;
+                    }
+                    if (this.isComponentTopExpression(file, expression.obj) && !isKnownField(expression.name.text)) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.unknownComponentField(expression.name.text, componentName),
+                            range: expression.name.range,
+                            file: file
+                        });
+                    }
+                }
+            }), {
+                walkMode: WalkMode.visitAllRecursive
+            });
+        }
     }
 
     private diagnosticValidateInterface(callableContainerMap: CallableContainerMap) {
@@ -174,6 +557,17 @@ export class XmlScope extends Scope {
                 uri: util.pathToUri(file.parentComponent.pathAbsolute)
             });
         }
+        //if the position is within the `onChange` handler of a field, go to the handler function
+        const onChangeAttribute = isXmlFile(file) && file.ast.component?.api?.fields
+            .map(x => x.getAttribute('onChange'))
+            .find(x => x?.value?.range && util.rangeContains(x.value.range, position));
+        const callable = onChangeAttribute ? this.getComponentCallable(onChangeAttribute.value.text) : undefined;
+        if (callable) {
+            results.push({
+                range: callable.functionStatement.range,
+                uri: util.pathToUri(callable.file.pathAbsolute)
+            });
+        }
         return results;
     }
 }
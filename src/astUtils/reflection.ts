@@ -1,4 +1,4 @@
-import type { Body, AssignmentStatement, Block, ExpressionStatement, CommentStatement, ExitForStatement, ExitWhileStatement, FunctionStatement, IfStatement, IncrementStatement, PrintStatement, GotoStatement, LabelStatement, ReturnStatement, EndStatement, StopStatement, ForStatement, ForEachStatement, WhileStatement, DottedSetStatement, IndexedSetStatement, LibraryStatement, NamespaceStatement, ImportStatement, ClassFieldStatement, ClassMethodStatement, ClassStatement, Statement, InterfaceFieldStatement, InterfaceMethodStatement, InterfaceStatement } from '../parser/Statement';
+import type { Body, AssignmentStatement, Block, ExpressionStatement, CommentStatement, ExitForStatement, ExitWhileStatement, FunctionStatement, IfStatement, IncrementStatement, PrintStatement, GotoStatement, LabelStatement, ReturnStatement, EndStatement, StopStatement, ForStatement, ForEachStatement, WhileStatement, DottedSetStatement, IndexedSetStatement, LibraryStatement, NamespaceStatement, ImportStatement, ClassFieldStatement, ClassMethodStatement, ClassStatement, Statement, InterfaceFieldStatement, InterfaceMethodStatement, InterfaceStatement, EnumStatement, EnumMemberStatement, ConstStatement, TryCatchStatement, ThrowStatement, TypeAliasStatement } from '../parser/Statement';
 import type { LiteralExpression, Expression, BinaryExpression, CallExpression, FunctionExpression, NamespacedVariableNameExpression, DottedGetExpression, XmlAttributeGetExpression, IndexedGetExpression, GroupingExpression, EscapedCharCodeLiteralExpression, ArrayLiteralExpression, AALiteralExpression, UnaryExpression, VariableExpression, SourceLiteralExpression, NewExpression, CallfuncExpression, TemplateStringQuasiExpression, TemplateStringExpression, TaggedTemplateStringExpression, AnnotationExpression, FunctionParameterExpression } from '../parser/Expression';
 import type { BrsFile } from '../files/BrsFile';
 import type { XmlFile } from '../files/XmlFile';
@@ -14,11 +14,16 @@ import { LongIntegerType } from '../types/LongIntegerType';
 import { FloatType } from '../types/FloatType';
 import { DoubleType } from '../types/DoubleType';
 import { CustomType } from '../types/CustomType';
+import { GenericType } from '../types/GenericType';
+import { UnionType } from '../types/UnionType';
 import type { Scope } from '../Scope';
 import type { XmlScope } from '../XmlScope';
 import { DynamicType } from '../types/DynamicType';
 import type { InterfaceType } from '../types/InterfaceType';
 import type { ObjectType } from '../types/ObjectType';
+import type { ArrayType } from '../types/ArrayType';
+import type { ComponentType } from '../types/ComponentType';
+import type { BrsComponentType } from '../types/BrsComponentType';
 
 // File reflection
 
@@ -138,6 +143,24 @@ export function isInterfaceMethodStatement(element: Statement | Expression | und
 export function isInterfaceFieldStatement(element: Statement | Expression | undefined): element is InterfaceFieldStatement {
     return element?.constructor.name === 'InterfaceFieldStatement';
 }
+export function isEnumStatement(element: Statement | Expression | undefined): element is EnumStatement {
+    return element?.constructor.name === 'EnumStatement';
+}
+export function isEnumMemberStatement(element: Statement | Expression | undefined): element is EnumMemberStatement {
+    return element?.constructor.name === 'EnumMemberStatement';
+}
+export function isConstStatement(element: Statement | Expression | undefined): element is ConstStatement {
+    return element?.constructor.name === 'ConstStatement';
+}
+export function isTypeAliasStatement(element: Statement | Expression | undefined): element is TypeAliasStatement {
+    return element?.constructor.name === 'TypeAliasStatement';
+}
+export function isTryCatchStatement(element: Statement | Expression | undefined): element is TryCatchStatement {
+    return element?.constructor.name === 'TryCatchStatement';
+}
+export function isThrowStatement(element: Statement | Expression | undefined): element is ThrowStatement {
+    return element?.constructor.name === 'ThrowStatement';
+}
 
 // Expressions reflection
 /**
@@ -250,6 +273,12 @@ export function isVoidType(e: any): e is VoidType {
 export function isCustomType(e: any): e is CustomType {
     return e?.constructor.name === CustomType.name;
 }
+export function isGenericType(e: any): e is GenericType {
+    return e?.constructor.name === GenericType.name;
+}
+export function isUnionType(e: any): e is UnionType {
+    return e?.constructor.name === UnionType.name;
+}
 export function isDynamicType(e: any): e is DynamicType {
     return e?.constructor.name === DynamicType.name;
 }
@@ -259,6 +288,15 @@ export function isInterfaceType(e: any): e is InterfaceType {
 export function isObjectType(e: any): e is ObjectType {
     return e?.constructor.name === 'ObjectType';
 }
+export function isArrayType(e: any): e is ArrayType {
+    return e?.constructor.name === 'ArrayType';
+}
+export function isComponentType(e: any): e is ComponentType {
+    return e?.constructor.name === 'ComponentType';
+}
+export function isBrsComponentType(e: any): e is BrsComponentType {
+    return e?.constructor.name === 'BrsComponentType';
+}
 
 const numberConstructorNames = [
     IntegerType.name,
@@ -1,5 +1,7 @@
-import type { CompilerPlugin, OnGetCodeActionsEvent, OnGetSemanticTokensEvent } from '../interfaces';
+import type { CompilerPlugin, OnGetCodeActionsEvent, OnGetFoldingRangesEvent, OnGetRenameEditsEvent, OnGetSemanticTokensEvent } from '../interfaces';
 import { CodeActionsProcessor } from './codeActions/CodeActionsProcessor';
+import { FoldingRangesProcessor } from './foldingRanges/FoldingRangesProcessor';
+import { RenameProcessor } from './rename/RenameProcessor';
 import { SemanticTokensProcessor } from './semanticTokens/SemanticTokensProcessor';
 
 export class BscPlugin implements CompilerPlugin {
@@ -12,4 +14,12 @@ export class BscPlugin implements CompilerPlugin {
     public onGetSemanticTokens(event: OnGetSemanticTokensEvent) {
         return new SemanticTokensProcessor(event).process();
     }
+
+    public onGetRenameEdits(event: OnGetRenameEditsEvent) {
+        new RenameProcessor(event).process();
+    }
+
+    public onGetFoldingRanges(event: OnGetFoldingRangesEvent) {
+        new FoldingRangesProcessor(event).process();
+    }
 }
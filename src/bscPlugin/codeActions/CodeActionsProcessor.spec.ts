@@ -225,6 +225,151 @@ describe('CodeActionsProcessor', () => {
                 `import "pkg:/source/Animals.bs"`
             ]);
         });
+
+        it('suggests removing or prefixing unused variables', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main()
+                    name = "bob"
+                    print "hello" : name = "john"
+                end sub
+            `);
+            program.validate();
+            expectCodeActions(() => {
+                program.getCodeActions(
+                    file.pathAbsolute,
+                    //na|me = "bob"
+                    util.createRange(1, 6, 1, 6)
+                );
+            }, [{
+                title: `Remove unused variable 'name'`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '',
+                    type: 'replace',
+                    range: util.createRange(1, 0, 2, 0)
+                }, {
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '',
+                    type: 'replace',
+                    range: util.createRange(2, 20, 2, 33)
+                }]
+            }, {
+                title: `Prefix 'name' with an underscore`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(1, 4)
+                }, {
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(2, 20)
+                }]
+            }]);
+        });
+
+        it('keeps the call when removing unused variables that store its result', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main()
+                    result = doSomething()
+                    print "hello" : result = m.top@.refresh()
+                end sub
+                function doSomething()
+                end function
+            `);
+            program.validate();
+            expectCodeActions(() => {
+                program.getCodeActions(
+                    file.pathAbsolute,
+                    //res|ult = doSomething()
+                    util.createRange(1, 7, 1, 7)
+                );
+            }, [{
+                title: `Remove unused variable 'result'`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: 'doSomething()',
+                    type: 'replace',
+                    range: util.createRange(1, 4, 1, 26)
+                }, {
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: 'm.top@.refresh()',
+                    type: 'replace',
+                    range: util.createRange(2, 20, 2, 45)
+                }]
+            }, {
+                title: `Prefix 'result' with an underscore`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(1, 4)
+                }, {
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(2, 20)
+                }]
+            }]);
+        });
+
+        it('does not suggest removing unused variables whose value has other side effects', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main()
+                    count = getCount() + 1
+                end sub
+                function getCount()
+                    return 1
+                end function
+            `);
+            program.validate();
+            expectCodeActions(() => {
+                program.getCodeActions(
+                    file.pathAbsolute,
+                    //cou|nt = getCount() + 1
+                    util.createRange(1, 7, 1, 7)
+                );
+            }, [{
+                title: `Prefix 'count' with an underscore`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(1, 4)
+                }]
+            }]);
+        });
+
+        it('suggests prefixing unused parameters', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main(name)
+                    print "hello"
+                end sub
+            `);
+            program.validate();
+            expectCodeActions(() => {
+                program.getCodeActions(
+                    file.pathAbsolute,
+                    //sub main(na|me)
+                    util.createRange(0, 11, 0, 11)
+                );
+            }, [{
+                title: `Prefix 'name' with an underscore`,
+                kind: 'quickfix',
+                changes: [{
+                    filePath: s`${rootDir}/source/main.brs`,
+                    newText: '_',
+                    type: 'insert',
+                    position: util.createPosition(0, 9)
+                }]
+            }]);
+        });
     });
 
 });
@@ -1,5 +1,7 @@
 import type { Diagnostic } from 'vscode-languageserver';
 import { CodeActionKind } from 'vscode-languageserver';
+import { isCallExpression, isCallfuncExpression, isNewExpression } from '../../astUtils/reflection';
+import { createVisitor, WalkMode } from '../../astUtils/visitors';
 import { codeActionUtil } from '../../CodeActionUtil';
 import type { DiagnosticMessageType } from '../../DiagnosticMessages';
 import { DiagnosticCodeMap } from '../../DiagnosticMessages';
@@ -7,6 +9,7 @@ import type { BrsFile } from '../../files/BrsFile';
 import type { XmlFile } from '../../files/XmlFile';
 import type { BscFile, OnGetCodeActionsEvent } from '../../interfaces';
 import { ParseMode } from '../../parser';
+import type { Expression } from '../../parser/Expression';
 import { util } from '../../util';
 
 export class CodeActionsProcessor {
@@ -24,6 +27,11 @@ export class CodeActionsProcessor {
                 this.suggestClassImports(diagnostic as any);
             } else if (diagnostic.code === DiagnosticCodeMap.xmlComponentMissingExtendsAttribute) {
                 this.addMissingExtends(diagnostic as any);
+            } else if (diagnostic.code === DiagnosticCodeMap.unusedVariable) {
+                this.removeUnusedVariable(diagnostic as any);
+                this.prefixUnusedName(diagnostic as any);
+            } else if (diagnostic.code === DiagnosticCodeMap.unusedParameter) {
+                this.prefixUnusedName(diagnostic as any);
             }
         }
     }
@@ -136,4 +144,112 @@ export class CodeActionsProcessor {
             })
         );
     }
+
+    private handledUnusedNames = new Set<string>();
+
+    /**
+     * Find every declaration of the unused variable or parameter in the function that contains the diagnostic.
+     * Returns nothing when an action for this name was already added (i.e. the same diagnostic from multiple scopes)
+     */
+    private getUnusedNameDeclarations(diagnostic: DiagnosticMessageType<'unusedVariable' | 'unusedParameter'>, actionName: string) {
+        const key = `${actionName}-${diagnostic.data.name.toLowerCase()}-${diagnostic.range.start.line}-${diagnostic.range.start.character}`;
+        if (this.handledUnusedNames.has(key)) {
+            return [];
+        }
+        this.handledUnusedNames.add(key);
+        const lowerName = diagnostic.data.name.toLowerCase();
+        const functionScope = (this.event.file as BrsFile).getFunctionScopeAtPosition(diagnostic.range.start);
+        return functionScope?.variableDeclarations.filter(x => x.name.toLowerCase() === lowerName) ?? [];
+    }
+
+    private prefixUnusedName(diagnostic: DiagnosticMessageType<'unusedVariable' | 'unusedParameter'>) {
+        const declarations = this.getUnusedNameDeclarations(diagnostic, 'prefix');
+        if (declarations.length === 0) {
+            return;
+        }
+        this.event.codeActions.push(
+            codeActionUtil.createCodeAction({
+                title: `Prefix '${diagnostic.data.name}' with an underscore`,
+                diagnostics: [diagnostic],
+                kind: CodeActionKind.QuickFix,
+                changes: declarations.map(x => ({
+                    type: 'insert',
+                    filePath: this.event.file.pathAbsolute,
+                    position: x.nameRange.start,
+                    newText: '_'
+                }))
+            })
+        );
+    }
+
+    private removeUnusedVariable(diagnostic: DiagnosticMessageType<'unusedVariable'>) {
+        const file = this.event.file as BrsFile;
+        const declarations = this.getUnusedNameDeclarations(diagnostic, 'remove');
+        const assignments = declarations.map(declaration => {
+            return file.parser.references.assignmentStatements.find(x => x.name.range === declaration.nameRange);
+        });
+        //only offer to remove the variable when every one of its declarations is a plain assignment
+        if (assignments.length === 0 || assignments.includes(undefined)) {
+            return;
+        }
+        //a call on the right-hand side is kept as a standalone statement. Any other side effects (i.e. `x = getCount() + 1`) can't be kept, so leave those alone
+        if (assignments.some(x => !this.isCall(x.value) && this.hasSideEffects(x.value))) {
+            return;
+        }
+        const lines = file.fileContents.split(/\r?\n/);
+        this.event.codeActions.push(
+            codeActionUtil.createCodeAction({
+                title: `Remove unused variable '${diagnostic.data.name}'`,
+                diagnostics: [diagnostic],
+                kind: CodeActionKind.QuickFix,
+                changes: assignments.map(assignment => {
+                    if (this.isCall(assignment.value)) {
+                        return {
+                            type: 'replace',
+                            filePath: file.pathAbsolute,
+                            range: assignment.range,
+                            newText: util.getTextForRange(lines, assignment.value.range)
+                        };
+                    }
+                    const { start, end } = assignment.range;
+                    //remove the entire line when the assignment is the only thing on it
+                    const isWholeLine = lines[start.line].substring(0, start.character).trim() === '' && lines[end.line].substring(end.character).trim() === '';
+                    return {
+                        type: 'replace',
+                        filePath: file.pathAbsolute,
+                        range: isWholeLine ? util.createRange(start.line, 0, end.line + 1, 0) : assignment.range,
+                        newText: ''
+                    };
+                })
+            })
+        );
+    }
+
+    /**
+     * Determine if an expression is a function call that can be written as a standalone statement
+     */
+    private isCall(expression: Expression) {
+        return isCallExpression(expression) || isCallfuncExpression(expression);
+    }
+
+    /**
+     * Determine if evaluating an expression could have side effects (i.e. it calls a function or creates a class instance)
+     */
+    private hasSideEffects(expression: Expression) {
+        if (this.isCall(expression) || isNewExpression(expression)) {
+            return true;
+        }
+        let hasSideEffects = false;
+        const markSideEffects = () => {
+            hasSideEffects = true;
+        };
+        expression.walk(createVisitor({
+            CallExpression: markSideEffects,
+            CallfuncExpression: markSideEffects,
+            NewExpression: markSideEffects
+        }), {
+            walkMode: WalkMode.visitExpressionsRecursive
+        });
+        return hasSideEffects;
+    }
 }
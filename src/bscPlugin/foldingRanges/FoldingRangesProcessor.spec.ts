@@ -0,0 +1,194 @@
+import { expect } from 'chai';
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver-protocol';
+import { Program } from '../../Program';
+import { trim } from '../../testHelpers.spec';
+import { standardizePath as s } from '../../util';
+
+const rootDir = s`${process.cwd()}/.tmp/rootDir`;
+
+describe('FoldingRangesProcessor', () => {
+    let program: Program;
+    beforeEach(() => {
+        program = new Program({
+            rootDir: rootDir
+        });
+    });
+    afterEach(() => {
+        program.dispose();
+    });
+
+    function getFoldingRanges(pkgPath: string, fileContents: string) {
+        const file = program.addOrReplaceFile(pkgPath, fileContents);
+        return program.getFoldingRanges(file.pathAbsolute);
+    }
+
+    it('folds functions, keeping the closing keyword visible', () => {
+        expect(
+            getFoldingRanges('source/main.brs', trim`
+                sub main()
+                    print "hello"
+                    print "world"
+                end sub
+                function empty()
+                end function
+            `)
+        ).to.eql([
+            FoldingRange.create(0, 2)
+        ]);
+    });
+
+    it('folds namespaces, classes, methods and anonymous functions', () => {
+        expect(
+            getFoldingRanges('source/main.bs', trim`
+                namespace Alpha
+                    class Person
+                        sub speak()
+                            callback = function()
+                                print "hello"
+                            end function
+                        end sub
+                    end class
+                end namespace
+            `)
+        ).to.eql([
+            FoldingRange.create(0, 7),
+            FoldingRange.create(1, 6),
+            FoldingRange.create(2, 5),
+            FoldingRange.create(3, 4)
+        ]);
+    });
+
+    it('folds each branch of an if statement, but not inline if statements', () => {
+        expect(
+            getFoldingRanges('source/main.brs', trim`
+                sub main()
+                    if a then print a
+                    if a then
+                        print 1
+                    else if b then
+                        print 2
+                    else
+                        print 3
+                    end if
+                end sub
+            `)
+        ).to.eql([
+            FoldingRange.create(0, 8),
+            FoldingRange.create(2, 3),
+            FoldingRange.create(4, 5),
+            FoldingRange.create(6, 7)
+        ]);
+    });
+
+    it('folds loops and try/catch statements', () => {
+        expect(
+            getFoldingRanges('source/main.bs', trim`
+                sub main()
+                    for i = 0 to 10
+                        print i
+                    end for
+                    for each item in items
+                        print item
+                    end for
+                    while true
+                        print 1
+                    end while
+                    try
+                        print 1
+                    catch e
+                        print e
+                    end try
+                end sub
+            `)
+        ).to.eql([
+            FoldingRange.create(0, 14),
+            FoldingRange.create(1, 2),
+            FoldingRange.create(4, 5),
+            FoldingRange.create(7, 8),
+            FoldingRange.create(10, 11),
+            FoldingRange.create(12, 13)
+        ]);
+    });
+
+    it('folds multi-line associative array and array literals', () => {
+        expect(
+            getFoldingRanges('source/main.brs', trim`
+                sub main()
+                    single = { a: [1, 2] }
+                    person = {
+                        name: "bob"
+                        pets: [
+                            "dog"
+                        ]
+                    }
+                end sub
+            `)
+        ).to.eql([
+            FoldingRange.create(0, 7),
+            FoldingRange.create(2, 6),
+            FoldingRange.create(4, 5)
+        ]);
+    });
+
+    it('folds comment blocks', () => {
+        expect(
+            getFoldingRanges('source/main.brs', trim`
+                ' single comment
+                sub main()
+                    ' first line
+                    ' second line
+                    print 1
+                end sub
+            `)
+        ).to.eql([
+            FoldingRange.create(1, 4),
+            FoldingRange.create(2, 3, undefined, undefined, FoldingRangeKind.Comment)
+        ]);
+    });
+
+    it('folds conditional compile regions', () => {
+        expect(
+            getFoldingRanges('source/main.brs', trim`
+                #const debug = true
+                #if debug
+                    sub main()
+                    end sub
+                #else if false
+                    sub main()
+                    end sub
+                #else
+                    sub main()
+                    end sub
+                #end if
+            `)
+        ).to.eql([
+            FoldingRange.create(1, 3, undefined, undefined, FoldingRangeKind.Region),
+            FoldingRange.create(4, 6, undefined, undefined, FoldingRangeKind.Region),
+            FoldingRange.create(7, 9, undefined, undefined, FoldingRangeKind.Region)
+        ]);
+    });
+
+    it('folds xml elements', () => {
+        expect(
+            getFoldingRanges('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group">
+                    <interface>
+                        <field id="text" type="string" />
+                    </interface>
+                    <script uri="Widget.brs" />
+                    <children>
+                        <Group>
+                            <Label text="hello" />
+                        </Group>
+                    </children>
+                </component>
+            `)
+        ).to.eql([
+            FoldingRange.create(1, 10),
+            FoldingRange.create(2, 3),
+            FoldingRange.create(6, 9),
+            FoldingRange.create(7, 8)
+        ]);
+    });
+});
@@ -0,0 +1,140 @@
+import type { Range } from 'vscode-languageserver-protocol';
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver-protocol';
+import { isBrsFile, isXmlFile } from '../../astUtils/reflection';
+import { createVisitor, WalkMode } from '../../astUtils/visitors';
+import { isSGChildren, isSGComponent, isSGInterface, isSGNode } from '../../astUtils/xml';
+import type { BrsFile } from '../../files/BrsFile';
+import type { XmlFile } from '../../files/XmlFile';
+import type { OnGetFoldingRangesEvent } from '../../interfaces';
+import type { Token } from '../../lexer';
+import { Lexer, TokenKind } from '../../lexer';
+import type { SGTag } from '../../parser/SGTypes';
+
+export class FoldingRangesProcessor {
+    public constructor(
+        public event: OnGetFoldingRangesEvent
+    ) {
+
+    }
+
+    public process() {
+        if (isBrsFile(this.event.file)) {
+            this.processBrsFile(this.event.file);
+        } else if (isXmlFile(this.event.file)) {
+            this.processXmlFile(this.event.file);
+        }
+    }
+
+    /**
+     * Add a folding range that starts at `start` and ends on the line before `end`, so the closing keyword (i.e. `end if`) stays visible when folded.
+     * Nothing is added when either end is missing (i.e. syntax errors) or when there is nothing to fold
+     */
+    private addBlock(start: { range: Range }, end: { range: Range }, kind?: FoldingRangeKind) {
+        if (start?.range && end?.range) {
+            this.addLines(start.range.start.line, end.range.start.line - 1, kind);
+        }
+    }
+
+    private addLines(startLine: number, endLine: number, kind?: FoldingRangeKind) {
+        if (endLine > startLine) {
+            this.event.foldingRanges.push(
+                FoldingRange.create(startLine, endLine, undefined, undefined, kind)
+            );
+        }
+    }
+
+    private processBrsFile(file: BrsFile) {
+        file.ast.walk(createVisitor({
+            FunctionExpression: (func) => {
+                this.addBlock(func.functionType, func.end);
+            },
+            ClassStatement: (statement) => {
+                this.addBlock(statement.classKeyword, statement.end);
+            },
+            NamespaceStatement: (statement) => {
+                this.addBlock(statement.keyword, statement.endKeyword);
+            },
+            InterfaceStatement: (statement) => {
+                this.addBlock(statement.tokens.interface, statement.tokens.endInterface);
+            },
+            EnumStatement: (statement) => {
+                this.addBlock(statement.tokens.enum, statement.tokens.endEnum);
+            },
+            IfStatement: (statement) => {
+                if (!statement.isInline) {
+                    this.addBlock(statement.tokens.if, statement.tokens.else ?? statement.tokens.endIf);
+                    //`else if` branches are visited as their own if statements
+                    if (statement.tokens.else && statement.tokens.endIf) {
+                        this.addBlock(statement.tokens.else, statement.tokens.endIf);
+                    }
+                }
+            },
+            ForStatement: (statement) => {
+                this.addBlock(statement.forToken, statement.endForToken);
+            },
+            ForEachStatement: (statement) => {
+                this.addBlock(statement.tokens.forEach, statement.tokens.endFor);
+            },
+            WhileStatement: (statement) => {
+                this.addBlock(statement.tokens.while, statement.tokens.endWhile);
+            },
+            TryCatchStatement: (statement) => {
+                this.addBlock(statement.tryToken, statement.catchToken ?? statement.endTryToken);
+                this.addBlock(statement.catchToken, statement.endTryToken);
+            },
+            AALiteralExpression: (expression) => {
+                this.addBlock(expression.open, expression.close);
+            },
+            ArrayLiteralExpression: (expression) => {
+                this.addBlock(expression.open, expression.close);
+            },
+            CommentStatement: (statement) => {
+                //consecutive comment lines are grouped into a single comment statement by the parser
+                this.addLines(statement.range?.start.line, statement.range?.end.line, FoldingRangeKind.Comment);
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+
+        this.processConditionalCompileRegions(file);
+    }
+
+    /**
+     * The preprocessor removes the `#if` directives before the file is parsed, so find them by scanning the file contents
+     */
+    private processConditionalCompileRegions(file: BrsFile) {
+        const { tokens } = Lexer.scan(file.fileContents);
+        //the directive that started each of the currently open regions
+        const stack = [] as Token[];
+        for (const token of tokens) {
+            if (token.kind === TokenKind.HashIf) {
+                stack.push(token);
+            } else if (token.kind === TokenKind.HashElseIf || token.kind === TokenKind.HashElse) {
+                this.addBlock(stack.pop(), token, FoldingRangeKind.Region);
+                stack.push(token);
+            } else if (token.kind === TokenKind.HashEndIf) {
+                this.addBlock(stack.pop(), token, FoldingRangeKind.Region);
+            }
+        }
+    }
+
+    private processXmlFile(file: XmlFile) {
+        const tags = [file.ast.component] as SGTag[];
+        while (tags.length > 0) {
+            const tag = tags.shift();
+            if (!tag) {
+                continue;
+            }
+            //keep the closing tag visible, just like the closing keywords of brs blocks
+            this.addLines(tag.range?.start.line, tag.range?.end.line - 1);
+
+            if (isSGComponent(tag)) {
+                tags.push(tag.api, ...tag.scripts, tag.children);
+            } else if (isSGInterface(tag)) {
+                tags.push(...tag.fields, ...tag.functions);
+            } else if (isSGNode(tag) || isSGChildren(tag)) {
+                tags.push(...tag.children);
+            }
+        }
+    }
+}
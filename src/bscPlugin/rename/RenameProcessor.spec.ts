@@ -0,0 +1,346 @@
+import { expect } from 'chai';
+import type { Position } from 'vscode-languageserver';
+import { Program } from '../../Program';
+import { standardizePath as s, util } from '../../util';
+
+const rootDir = s`${process.cwd()}/.tmp/rootDir`;
+describe('RenameProcessor', () => {
+    let program: Program;
+    beforeEach(() => {
+        program = new Program({
+            rootDir: rootDir
+        });
+    });
+    afterEach(() => {
+        program.dispose();
+    });
+
+    /**
+     * Get the renamed contents of every file touched by the rename, keyed by pkgPath
+     */
+    function rename(pkgPath: string, position: Position, newName: string) {
+        program.validate();
+        const edits = program.getRenameEdits(s`${rootDir}/${pkgPath}`, position, newName);
+        const result = {} as Record<string, string>;
+        for (const uri in edits?.changes ?? {}) {
+            const file = program.getFileByPathAbsolute(util.uriToPath(uri));
+            const lines = file.fileContents.split(/\r?\n/);
+            //apply the edits from the bottom up so earlier ranges stay valid
+            const textEdits = [...edits.changes[uri]].sort((a, b) => {
+                return b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character;
+            });
+            for (const edit of textEdits) {
+                const line = lines[edit.range.start.line];
+                lines[edit.range.start.line] = line.substring(0, edit.range.start.character) + edit.newText + line.substring(edit.range.end.character);
+            }
+            result[file.pkgPath.replace(/\\/g, '/')] = lines.join('\n');
+        }
+        return result;
+    }
+
+    it('renames global functions across files', () => {
+        program.addOrReplaceFile('source/lib.brs', `
+            function getName()
+                return "bob"
+            end function
+        `);
+        program.addOrReplaceFile('source/main.brs', `
+            sub main()
+                print getName()
+                GETNAME()
+            end sub
+        `);
+        expect(rename('source/lib.brs', util.createPosition(1, 25), 'getFullName')).to.eql({
+            'source/lib.brs': `
+            function getFullName()
+                return "bob"
+            end function
+        `,
+            'source/main.brs': `
+            sub main()
+                print getFullName()
+                getFullName()
+            end sub
+        `
+        });
+    });
+
+    it('does not rename local variables that shadow a function', () => {
+        program.addOrReplaceFile('source/main.brs', `
+            function getName()
+            end function
+            sub main()
+                getName = "bob"
+                print getName
+            end sub
+            sub other()
+                getName()
+            end sub
+        `);
+        expect(rename('source/main.brs', util.createPosition(8, 20), 'getFullName')['source/main.brs']).to.eql(`
+            function getFullName()
+            end function
+            sub main()
+                getName = "bob"
+                print getName
+            end sub
+            sub other()
+                getFullName()
+            end sub
+        `);
+    });
+
+    it('renames local variables and parameters within their function only', () => {
+        program.addOrReplaceFile('source/main.brs', `
+            sub main(name)
+                name = name + "!"
+                for each name in [name]
+                    print name
+                end for
+                callback = function(name)
+                    print name
+                end function
+            end sub
+            sub other(name)
+                print name
+            end sub
+        `);
+        expect(rename('source/main.brs', util.createPosition(1, 22), 'value')['source/main.brs']).to.eql(`
+            sub main(value)
+                value = value + "!"
+                for each value in [value]
+                    print value
+                end for
+                callback = function(name)
+                    print name
+                end function
+            end sub
+            sub other(name)
+                print name
+            end sub
+        `);
+    });
+
+    it('renames namespaced functions', () => {
+        program.addOrReplaceFile('source/lib.bs', `
+            namespace NameA.NameB
+                function getName()
+                end function
+                sub speak()
+                    print getName()
+                end sub
+            end namespace
+        `);
+        program.addOrReplaceFile('source/main.bs', `
+            function getName()
+            end function
+            sub main()
+                print NameA.NameB.getName()
+                print getName()
+            end sub
+        `);
+        expect(rename('source/main.bs', util.createPosition(4, 37), 'getTitle')).to.eql({
+            'source/lib.bs': `
+            namespace NameA.NameB
+                function getTitle()
+                end function
+                sub speak()
+                    print getTitle()
+                end sub
+            end namespace
+        `,
+            'source/main.bs': `
+            function getName()
+            end function
+            sub main()
+                print NameA.NameB.getTitle()
+                print getName()
+            end sub
+        `
+        });
+    });
+
+    it('renames transpiled-name calls to namespaced functions in brs files', () => {
+        program.addOrReplaceFile('source/lib.bs', `
+            namespace Util
+                function doIt(value)
+                end function
+            end namespace
+        `);
+        program.addOrReplaceFile('source/main.brs', `
+            sub main()
+                Util_doIt(2)
+                doIt(3)
+            end sub
+        `);
+        expect(rename('source/lib.bs', util.createPosition(2, 27), 'doThat')['source/main.brs']).to.eql(`
+            sub main()
+                Util_doThat(2)
+                doIt(3)
+            end sub
+        `);
+    });
+
+    it('does not rename to invalid identifiers or reserved words', () => {
+        program.addOrReplaceFile('source/lib.bs', `
+            namespace Util
+                function doIt()
+                end function
+            end namespace
+        `);
+        program.validate();
+        for (const newName of ['end', 'bad name', '1st', '', 'Function']) {
+            expect(program.getRenameEdits(s`${rootDir}/source/lib.bs`, util.createPosition(2, 27), newName)).to.be.undefined;
+        }
+        expect(program.getRenameEdits(s`${rootDir}/source/lib.bs`, util.createPosition(2, 27), 'doThat')).to.exist;
+    });
+
+    it('renames class members across the class hierarchy', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Animal
+                name as string
+                sub speak()
+                    print m.name
+                end sub
+            end class
+            class Dog extends Animal
+                override sub speak()
+                    super.speak()
+                    m.name = "dog"
+                end sub
+            end class
+            class Car
+                sub speak()
+                end sub
+            end class
+        `);
+        expect(rename('source/main.bs', util.createPosition(8, 31), 'talk')['source/main.bs']).to.eql(`
+            class Animal
+                name as string
+                sub talk()
+                    print m.name
+                end sub
+            end class
+            class Dog extends Animal
+                override sub talk()
+                    super.talk()
+                    m.name = "dog"
+                end sub
+            end class
+            class Car
+                sub speak()
+                end sub
+            end class
+        `);
+        expect(rename('source/main.bs', util.createPosition(10, 24), 'title')['source/main.bs']).to.include('title as string');
+    });
+
+    it('renames class members accessed on class instances from outside the class', () => {
+        program.addOrReplaceFile('source/Player.bs', `
+            class Player
+                volume as integer
+                sub play()
+                end sub
+            end class
+            class VideoPlayer extends Player
+            end class
+            class Game
+                sub play()
+                end sub
+            end class
+        `);
+        program.addOrReplaceFile('source/main.bs', `
+            sub main()
+                p = new Player()
+                p.play()
+                p.volume = 5
+                getVideoPlayer().play()
+                game = new Game()
+                game.play()
+            end sub
+            function getVideoPlayer() as VideoPlayer
+                return new VideoPlayer()
+            end function
+        `);
+        //p.pl|ay()
+        let result = rename('source/main.bs', util.createPosition(3, 21), 'start');
+        expect(result['source/main.bs']).to.eql(`
+            sub main()
+                p = new Player()
+                p.start()
+                p.volume = 5
+                getVideoPlayer().start()
+                game = new Game()
+                game.play()
+            end sub
+            function getVideoPlayer() as VideoPlayer
+                return new VideoPlayer()
+            end function
+        `);
+        expect(result['source/Player.bs']).to.include('sub start()').and.to.include('class Game\n                sub play()');
+
+        //sub pl|ay()
+        result = rename('source/Player.bs', util.createPosition(3, 23), 'start');
+        expect(result['source/main.bs']).to.include('p.start()').and.to.include('getVideoPlayer().start()').and.to.include('game.play()');
+
+        //p.vol|ume = 5
+        result = rename('source/main.bs', util.createPosition(4, 21), 'level');
+        expect(result['source/main.bs']).to.include('p.level = 5');
+        expect(result['source/Player.bs']).to.include('level as integer');
+    });
+
+    it('renames component functions in xml and callfunc references', () => {
+        program.addOrReplaceFile('components/Widget.xml', `<?xml version="1.0" encoding="utf-8" ?>
+<component name="Widget" extends="Group">
+    <interface>
+        <field id="title" type="string" onChange="onTitleChange" />
+        <function name="onTitleChange" />
+    </interface>
+    <script uri="Widget.brs" />
+</component>`);
+        program.addOrReplaceFile('components/Widget.brs', `
+            sub onTitleChange()
+            end sub
+        `);
+        program.addOrReplaceFile('source/main.brs', `
+            sub main(widget)
+                widget@.onTitleChange()
+                widget.callFunc("onTitleChange", invalid)
+            end sub
+        `);
+        const result = rename('components/Widget.xml', util.createPosition(3, 55), 'onTitleChanged');
+        expect(result['components/Widget.xml']).to.include(`onChange="onTitleChanged"`);
+        expect(result['components/Widget.xml']).to.include(`<function name="onTitleChanged" />`);
+        expect(result['components/Widget.brs']).to.include('sub onTitleChanged()');
+        expect(result['source/main.brs']).to.eql(`
+            sub main(widget)
+                widget@.onTitleChanged()
+                widget.callFunc("onTitleChanged", invalid)
+            end sub
+        `);
+    });
+
+    it('returns nothing for built-in functions and unknown properties', () => {
+        program.addOrReplaceFile('source/main.brs', `
+            sub main(node)
+                print UCase("a")
+                print node.title
+            end sub
+        `);
+        program.validate();
+        expect(program.getRenameEdits(s`${rootDir}/source/main.brs`, util.createPosition(2, 24), 'upper')).to.be.undefined;
+        expect(program.getRenameEdits(s`${rootDir}/source/main.brs`, util.createPosition(3, 30), 'name')).to.be.undefined;
+    });
+
+    it('prepareRename returns the range of the symbol under the cursor', () => {
+        program.addOrReplaceFile('source/main.brs', `
+            sub main()
+                name = "bob"
+                print name
+            end sub
+        `);
+        program.validate();
+        expect(program.prepareRename(s`${rootDir}/source/main.brs`, util.createPosition(3, 24))).to.eql(util.createRange(3, 22, 3, 26));
+        expect(program.prepareRename(s`${rootDir}/source/main.brs`, util.createPosition(3, 18))).to.be.undefined;
+    });
+});
@@ -0,0 +1,406 @@
+import type { Range } from 'vscode-languageserver';
+import { Location } from 'vscode-languageserver';
+import { isBrsFile, isClassFieldStatement, isClassMethodStatement, isCustomType, isDottedGetExpression, isLiteralString, isVariableExpression, isXmlFile } from '../../astUtils/reflection';
+import { createVisitor, WalkMode } from '../../astUtils/visitors';
+import type { BrsFile } from '../../files/BrsFile';
+import type { XmlFile } from '../../files/XmlFile';
+import type { FunctionScope } from '../../FunctionScope';
+import type { BscFile, OnGetRenameEditsEvent } from '../../interfaces';
+import type { Token } from '../../lexer';
+import { TokenKind } from '../../lexer';
+import { ParseMode } from '../../parser';
+import type { Expression } from '../../parser/Expression';
+import type { ClassStatement } from '../../parser/Statement';
+import type { Scope } from '../../Scope';
+import util from '../../util';
+
+export class RenameProcessor {
+    public constructor(
+        public event: OnGetRenameEditsEvent
+    ) {
+
+    }
+
+    public process() {
+        if (isBrsFile(this.event.file)) {
+            this.processBrsFile(this.event.file);
+        } else if (isXmlFile(this.event.file)) {
+            this.processXmlFile(this.event.file);
+        }
+    }
+
+    private addLocation(file: BscFile, range: Range) {
+        this.event.locations.push(
+            Location.create(util.pathToUri(file.pathAbsolute), range)
+        );
+    }
+
+    private processBrsFile(file: BrsFile) {
+        const position = this.event.position;
+        const token = file.getTokenAt(position);
+        if (!token) {
+            return;
+        }
+
+        //the function name in `node.callFunc("doSomething")`
+        if (token.kind === TokenKind.StringLiteral) {
+            if (this.isCallFuncName(file, token)) {
+                this.renameFunction(token.text.replace(/"/g, ''));
+            }
+            return;
+        }
+
+        if (token.kind !== TokenKind.Identifier) {
+            return;
+        }
+        const lowerName = token.text.toLowerCase();
+        const previousToken = file.getPreviousToken(token);
+        const followsDot = [TokenKind.Dot, TokenKind.QuestionDot].includes(previousToken?.kind);
+
+        //the function name in `node@.doSomething()`
+        if (previousToken?.kind === TokenKind.Callfunc) {
+            this.renameFunction(token.text);
+            return;
+        }
+
+        //class member declarations, or member access on `m` and `super` from within a class
+        const classStatement = file.parser.references.classStatements.find(x => util.rangeContains(x.range, position));
+        if (classStatement) {
+            const isMemberDeclaration = classStatement.body.some(x => {
+                return (isClassMethodStatement(x) || isClassFieldStatement(x)) && x.name && util.rangeContains(x.name.range, position);
+            });
+            const isMemberAccess = followsDot && ['m', 'super'].includes(file.getPreviousToken(previousToken)?.text.toLowerCase());
+            if (isMemberDeclaration || isMemberAccess) {
+                this.renameClassMember(file, classStatement, lowerName);
+                return;
+            }
+        }
+
+        //member access on an instance of a class (i.e. `player.play()` where `player = new Player()`)
+        const instanceClass = followsDot ? this.getInstanceClass(file, token) : undefined;
+        if (instanceClass) {
+            this.renameClassMember(file, instanceClass, lowerName);
+            return;
+        }
+
+        //namespaced function (i.e. `NameA.NameB.doSomething()`)
+        if (followsDot) {
+            this.renameFunction(file.getPartialVariableName(token));
+            return;
+        }
+
+        //local variables and parameters take precedence over functions with the same name
+        const functionScope = file.getFunctionScopeAtPosition(position);
+        if (functionScope?.getVariableByName(lowerName)) {
+            this.renameLocalVariable(file, functionScope, lowerName);
+            return;
+        }
+
+        //function declarations and calls. Function names relative to the current namespace take precedence over global ones
+        const namespaceName = file.getNamespaceStatementForPosition(position)?.getName(ParseMode.BrighterScript);
+        if (!namespaceName || !this.renameFunction(`${namespaceName}.${token.text}`)) {
+            this.renameFunction(token.text);
+        }
+    }
+
+    private processXmlFile(file: XmlFile) {
+        const attribute = this.getXmlFunctionAttributes(file).find(x => util.rangeContains(x.value.range, this.event.position));
+        if (attribute) {
+            this.renameFunction(attribute.value.text);
+        }
+    }
+
+    /**
+     * Get the `<function name="">` and `<field onChange="">` attributes from the component's interface, since both reference functions by name
+     */
+    private getXmlFunctionAttributes(file: XmlFile) {
+        const api = file.ast.component?.api;
+        return [
+            ...(api?.functions ?? []).map(x => x.getAttribute('name')),
+            ...(api?.fields ?? []).map(x => x.getAttribute('onchange'))
+        ].filter(x => x?.value?.range);
+    }
+
+    /**
+     * Determine if the token is the function name string passed to `callFunc` (i.e. the `"doSomething"` in `node.callFunc("doSomething")`)
+     */
+    private isCallFuncName(file: BrsFile, token: Token) {
+        return !!file.parser.references.functionExpressions.find(func => {
+            return func.callExpressions.find(call => {
+                return this.getCallFuncName(call.callee, call.args)?.token === token;
+            });
+        });
+    }
+
+    /**
+     * Get the function name expression from a `callFunc` call (i.e. the `"doSomething"` in `node.callFunc("doSomething")`)
+     */
+    private getCallFuncName(callee: Expression, args: Expression[]) {
+        const nameExpression = args[0];
+        if (isDottedGetExpression(callee) && callee.name.text.toLowerCase() === 'callfunc' && isLiteralString(nameExpression)) {
+            return nameExpression;
+        }
+    }
+
+    /**
+     * Rename a function everywhere it's declared or referenced
+     * @param name the name of the function, including its namespace (i.e. `NameA.NameB.doSomething`)
+     * @returns true if a user-defined function with this name was found
+     */
+    private renameFunction(name: string) {
+        if (!name) {
+            return false;
+        }
+        //only rename functions that have a declaration (i.e. skip built-in global functions)
+        const callable = this.event.scopes.map(x => x.getCallableByName(name)).find(x => x?.functionStatement);
+        if (!callable) {
+            return false;
+        }
+        const lowerName = name.toLowerCase();
+        const nameParts = lowerName.split('.');
+        const shortName = nameParts.pop();
+        const namespaceName = nameParts.join('.');
+
+        //find every file that can see the function (i.e. every file in every scope that includes the declaring file)
+        const files = new Set<BscFile>();
+        for (const scope of this.event.program.getScopesForFile(callable.file)) {
+            for (const file of scope.getAllFiles()) {
+                files.add(file);
+            }
+        }
+        for (const file of files) {
+            if (isBrsFile(file)) {
+                this.addFunctionReferences(file, lowerName, namespaceName, shortName);
+            } else if (isXmlFile(file) && !namespaceName) {
+                for (const attribute of this.getXmlFunctionAttributes(file)) {
+                    if (attribute.value.text.toLowerCase() === shortName) {
+                        this.addLocation(file, attribute.value.range);
+                    }
+                }
+            }
+        }
+
+        //component functions can be called with callfunc from any other component, so look through every file for those
+        if (!namespaceName) {
+            for (const file of Object.values(this.event.program.files)) {
+                if (isBrsFile(file)) {
+                    this.addCallfuncReferences(file, shortName);
+                }
+            }
+        }
+        return true;
+    }
+
+    private addFunctionReferences(file: BrsFile, lowerName: string, namespaceName: string, shortName: string) {
+        file.ast.walk(createVisitor({
+            FunctionStatement: (statement) => {
+                if (statement.getName(ParseMode.BrighterScript)?.toLowerCase() === lowerName) {
+                    this.addLocation(file, statement.name.range);
+                }
+            },
+            VariableExpression: (expression) => {
+                //BrightScript code calls namespaced functions by their transpiled name (i.e. `NameA_NameB_doSomething()`), so only the function name part is renamed
+                if (namespaceName && expression.name.text.toLowerCase() === lowerName.replace(/\./g, '_')) {
+                    const range = expression.name.range;
+                    this.addLocation(file, util.createRange(range.end.line, range.end.character - shortName.length, range.end.line, range.end.character));
+                    return;
+                }
+                if (expression.name.text.toLowerCase() !== shortName) {
+                    return;
+                }
+                //skip local variables that shadow the function
+                if (file.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(shortName)) {
+                    return;
+                }
+                const expressionNamespaceName = file.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript)?.toLowerCase();
+                if (namespaceName) {
+                    //relative references to namespaced functions only work from within that same namespace
+                    if (expressionNamespaceName === namespaceName) {
+                        this.addLocation(file, expression.name.range);
+                    }
+                } else if (!expressionNamespaceName || !this.isKnownFunction(file, `${expressionNamespaceName}.${shortName}`)) {
+                    this.addLocation(file, expression.name.range);
+                }
+            },
+            DottedGetExpression: (expression) => {
+                if (namespaceName && util.getAllDottedGetParts(expression)?.map(x => x.text).join('.').toLowerCase() === lowerName) {
+                    this.addLocation(file, expression.name.range);
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+
+    private addCallfuncReferences(file: BrsFile, shortName: string) {
+        file.ast.walk(createVisitor({
+            CallfuncExpression: (expression) => {
+                if (expression.methodName.text.toLowerCase() === shortName) {
+                    this.addLocation(file, expression.methodName.range);
+                }
+            },
+            CallExpression: (expression) => {
+                const nameExpression = this.getCallFuncName(expression.callee, expression.args);
+                if (nameExpression?.token.text.replace(/"/g, '').toLowerCase() === shortName) {
+                    //exclude the quotes
+                    const range = nameExpression.token.range;
+                    this.addLocation(file, util.createRange(range.start.line, range.start.character + 1, range.end.line, range.end.character - 1));
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+
+    private isKnownFunction(file: BrsFile, name: string) {
+        return this.event.program.getScopesForFile(file).some(x => !!x.getCallableByName(name));
+    }
+
+    /**
+     * Rename a local variable or parameter everywhere it's used within its function
+     */
+    private renameLocalVariable(file: BrsFile, functionScope: FunctionScope, lowerName: string) {
+        const addIfInScope = (token: Token) => {
+            //nested functions have their own variables, so skip those
+            if (token.text.toLowerCase() === lowerName && file.getFunctionScopeAtPosition(token.range.start) === functionScope) {
+                this.addLocation(file, token.range);
+            }
+        };
+        for (const param of functionScope.func.parameters) {
+            addIfInScope(param.name);
+        }
+        functionScope.func.body.walk(createVisitor({
+            VariableExpression: (expression) => addIfInScope(expression.name),
+            AssignmentStatement: (statement) => addIfInScope(statement.name),
+            ForEachStatement: (statement) => addIfInScope(statement.item)
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+
+    /**
+     * Rename a class member in the class, all of its ancestors and all of its descendants, along with every `m` and `super` reference to it
+     */
+    private renameClassMember(file: BrsFile, classStatement: ClassStatement, lowerName: string) {
+        const scope = this.event.scopes[0];
+        if (!scope) {
+            return;
+        }
+        const getHierarchy = (cls: ClassStatement) => {
+            return scope.getClassHierarchy(cls.getName(ParseMode.BrighterScript), cls.namespaceName?.getName(ParseMode.BrighterScript));
+        };
+        //start at the topmost class that declares this member so overrides get renamed along with their base
+        const hierarchy = getHierarchy(classStatement);
+        const baseClass = hierarchy.filter(x => x.item.memberMap[lowerName]).pop()?.item ?? classStatement;
+
+        for (const link of scope.getClassMap().values()) {
+            if (getHierarchy(link.item).some(x => x.item === baseClass)) {
+                this.addClassMemberReferences(link.file, link.item, lowerName);
+            }
+        }
+
+        //member access on instances of those classes, from every file that can see them
+        const visitedFiles = new Set<BscFile>();
+        for (const otherScope of this.event.program.getScopes()) {
+            const classes = [...otherScope.getClassMap().values()].filter(link => {
+                return otherScope.getClassHierarchy(link.item.getName(ParseMode.BrighterScript), link.item.namespaceName?.getName(ParseMode.BrighterScript)).some(x => x.item === baseClass);
+            }).map(x => x.item);
+            if (classes.length === 0) {
+                continue;
+            }
+            for (const otherFile of otherScope.getAllFiles()) {
+                if (isBrsFile(otherFile) && !visitedFiles.has(otherFile)) {
+                    visitedFiles.add(otherFile);
+                    this.addInstanceMemberReferences(otherScope, otherFile, classes, lowerName);
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the class of the instance whose member is referenced by the token (i.e. `Player` for the `play` in `player.play()`), if that class has a member with this name
+     */
+    private getInstanceClass(file: BrsFile, token: Token) {
+        let obj: Expression;
+        file.ast.walk(createVisitor({
+            DottedGetExpression: (expression) => {
+                if (expression.name === token) {
+                    obj = expression.obj;
+                }
+            },
+            DottedSetStatement: (statement) => {
+                if (statement.name === token) {
+                    obj = statement.obj;
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+        if (!obj) {
+            return undefined;
+        }
+        const lowerName = token.text.toLowerCase();
+        for (const scope of this.event.scopes) {
+            const type = scope.getExpressionType(file, obj);
+            const classStatement = isCustomType(type) ? scope.getClass(type.name) : undefined;
+            const hierarchy = classStatement ? scope.getClassHierarchy(classStatement.getName(ParseMode.BrighterScript), classStatement.namespaceName?.getName(ParseMode.BrighterScript)) : [];
+            if (hierarchy.some(x => x.item.memberMap[lowerName])) {
+                return classStatement;
+            }
+        }
+    }
+
+    private addClassMemberReferences(file: BscFile, classStatement: ClassStatement, lowerName: string) {
+        const isMemberReference = (obj: Expression, name: Token) => {
+            return isVariableExpression(obj) &&
+                ['m', 'super'].includes(obj.name.text.toLowerCase()) &&
+                name?.text.toLowerCase() === lowerName;
+        };
+        for (const member of [...classStatement.methods, ...classStatement.fields]) {
+            if (member.name?.text.toLowerCase() === lowerName) {
+                this.addLocation(file, member.name.range);
+            }
+        }
+        classStatement.walk(createVisitor({
+            DottedGetExpression: (expression) => {
+                if (isMemberReference(expression.obj, expression.name)) {
+                    this.addLocation(file, expression.name.range);
+                }
+            },
+            DottedSetStatement: (statement) => {
+                if (isMemberReference(statement.obj, statement.name)) {
+                    this.addLocation(file, statement.name.range);
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+
+    /**
+     * Add the member accesses on expressions whose type is one of the classes (i.e. `player.play()`). `m` and `super` references are handled by `addClassMemberReferences`
+     */
+    private addInstanceMemberReferences(scope: Scope, file: BrsFile, classes: ClassStatement[], lowerName: string) {
+        const isInstanceReference = (obj: Expression, name: Token) => {
+            if (name?.text.toLowerCase() !== lowerName || (isVariableExpression(obj) && ['m', 'super'].includes(obj.name.text.toLowerCase()))) {
+                return false;
+            }
+            const type = scope.getExpressionType(file, obj);
+            return isCustomType(type) && classes.includes(scope.getClass(type.name));
+        };
+        file.ast.walk(createVisitor({
+            DottedGetExpression: (expression) => {
+                if (isInstanceReference(expression.obj, expression.name)) {
+                    this.addLocation(file, expression.name.range);
+                }
+            },
+            DottedSetStatement: (statement) => {
+                if (isInstanceReference(statement.obj, statement.name)) {
+                    this.addLocation(file, statement.name.range);
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+    }
+}
@@ -16,12 +16,14 @@ let options = yargs
     .option('deploy', { type: 'boolean', defaultDescription: 'false', description: 'Deploy to a Roku device if compilation succeeds. When in watch mode, this will deploy on every change.' })
     .option('emit-full-paths', { type: 'boolean', defaultDescription: 'false', description: 'Emit full paths to files when encountering diagnostics.' })
     .option('files', { type: 'array', description: 'The list of files (or globs) to include in your project. Be sure to wrap these in double quotes when using globs.' })
+    .option('format', { type: 'boolean', defaultDescription: 'false', description: 'Format every brs and bs file in the project in place instead of building the project.' })
     .option('host', { type: 'string', description: 'The host used when deploying to a Roku.' })
     .option('ignore-error-codes', { type: 'array', description: 'A list of error codes that the compiler should NOT emit, even if encountered.' })
     .option('log-level', { type: 'string', defaultDescription: '"log"', description: 'The log level. Value can be "error", "warn", "log", "info", "debug".' })
     .option('out-file', { type: 'string', description: 'Path to the zip folder containing the bundled project. Defaults to `./out/[YOUR_ROOT_FOLDER_NAME].zip' })
     .option('password', { type: 'string', description: 'The password for deploying to a Roku.' })
     .option('project', { type: 'string', description: 'Path to a bsconfig.json project file.' })
+    .option('remove-unreachable-code', { type: 'boolean', defaultDescription: 'false', description: 'Remove unreachable code from the transpiled output.' })
     .option('retain-staging-folder', { type: 'boolean', defaultDescription: 'false', description: 'Prevent the staging folder from being deleted after creating the package.' })
     .option('root-dir', { type: 'string', description: 'Path to the root of your project files (where the manifest lives). Defaults to current directory.' })
     .option('staging-folder-path', { type: 'string', description: 'The path where the files should be staged (right before being zipped up).' })
@@ -42,9 +44,9 @@ let options = yargs
 
 let builder = new ProgramBuilder();
 builder.run(<any>options).then(() => {
-    //if this is a single run (i.e. not watch mode) and there are error diagnostics, return an error code
+    //if this is a single build (i.e. not watch or format mode) and there are error diagnostics, return an error code
     const hasError = !!builder.getDiagnostics().find(x => x.severity === DiagnosticSeverity.Error);
-    if (builder.options.watch === false && hasError) {
+    if (builder.options.watch === false && builder.options.format === false && hasError) {
         process.exit(1);
     }
 }).catch((error) => {
@@ -117,7 +117,7 @@ describe('BrsFile BrighterScript classes', () => {
             end namespace
         `);
         program.validate();
-        expect(program.getDiagnostics()[0]?.message).not.to.exist;
+        expectZeroDiagnostics(program);
     });
     describe('super', () => {
         it('always requires super call in child constructor', () => {
@@ -200,14 +200,14 @@ describe('BrsFile BrighterScript classes', () => {
                 class Animal
                     species1 = "Animal"
                     sub new()
-                        print "From Animal: " + m.species
+                        print "From Animal: " + m.species1
                     end sub
                 end class
                 class Duck extends Animal
                     species2 = "Duck"
                     sub new()
                         super()
-                        print "From Duck: " + m.species
+                        print "From Duck: " + m.species2
                     end sub
                 end class
             `, `
@@ -215,7 +215,7 @@ describe('BrsFile BrighterScript classes', () => {
                     instance = {}
                     instance.new = sub()
                         m.species1 = "Animal"
-                        print "From Animal: " + m.species
+                        print "From Animal: " + m.species1
                     end sub
                     return instance
                 end function
@@ -230,7 +230,7 @@ describe('BrsFile BrighterScript classes', () => {
                     instance.new = sub()
                         m.super0_new()
                         m.species2 = "Duck"
-                        print "From Duck: " + m.species
+                        print "From Duck: " + m.species2
                     end sub
                     return instance
                 end function
@@ -353,6 +353,322 @@ describe('BrsFile BrighterScript classes', () => {
             `, undefined, 'source/main.bs');
         });
 
+        it('does not include abstract methods', () => {
+            testTranspile(`
+                abstract class Screen
+                    abstract sub show(animate as boolean)
+                    sub hide()
+                    end sub
+                end class
+            `, `
+                function __Screen_builder()
+                    instance = {}
+                    instance.new = sub()
+                    end sub
+                    instance.hide = sub()
+                    end sub
+                    return instance
+                end function
+                function Screen()
+                    instance = __Screen_builder()
+                    instance.new()
+                    return instance
+                end function
+            `, undefined, 'source/main.bs');
+        });
+
+        it('does not store abstract parent methods as super methods', () => {
+            testTranspile(`
+                abstract class Screen
+                    abstract function getTitle() as string
+                end class
+                class HomeScreen extends Screen
+                    override function getTitle() as string
+                        return "home"
+                    end function
+                end class
+            `, `
+                function __Screen_builder()
+                    instance = {}
+                    instance.new = sub()
+                    end sub
+                    return instance
+                end function
+                function Screen()
+                    instance = __Screen_builder()
+                    instance.new()
+                    return instance
+                end function
+                function __HomeScreen_builder()
+                    instance = __Screen_builder()
+                    instance.super0_new = instance.new
+                    instance.new = sub()
+                        m.super0_new()
+                    end sub
+                    instance.getTitle = function() as string
+                        return "home"
+                    end function
+                    return instance
+                end function
+                function HomeScreen()
+                    instance = __HomeScreen_builder()
+                    instance.new()
+                    return instance
+                end function
+            `, undefined, 'source/main.bs');
+        });
+
+        it('transpiles static members to standalone functions', () => {
+            testTranspile(`
+                class Counter
+                    static count = 0
+                    static label as string
+                    static function increment() as integer
+                        Counter.count += 1
+                        return Counter.count
+                    end function
+                end class
+                sub main()
+                    Counter.label = "clicks"
+                    print Counter.increment()
+                end sub
+            `, `
+                function __Counter_builder()
+                    instance = {}
+                    instance.new = sub()
+                    end sub
+                    return instance
+                end function
+                function Counter()
+                    instance = __Counter_builder()
+                    instance.new()
+                    return instance
+                end function
+                function __Counter_statics()
+                    statics = getGlobalAA().__Counter_statics
+                    if statics = invalid then
+                        statics = {}
+                        getGlobalAA().__Counter_statics = statics
+                        statics.count = 0
+                        statics.label = invalid
+                    end if
+                    return statics
+                end function
+                function Counter_increment() as integer
+                    __Counter_statics().count += 1
+                    return __Counter_statics().count
+                end function
+
+                sub main()
+                    __Counter_statics().label = "clicks"
+                    print Counter_increment()
+                end sub
+            `, undefined, 'source/main.bs');
+        });
+
+        it('transpiles references to namespaced and inherited static members', () => {
+            testTranspile(`
+                namespace Birds
+                    class Bird
+                        static function create()
+                            return Duck.quack()
+                        end function
+                    end class
+                    class Duck extends Bird
+                        static function quack()
+                            return "quack"
+                        end function
+                    end class
+                end namespace
+                sub main()
+                    print Birds.Duck.create()
+                end sub
+            `, `
+                function __Birds_Bird_builder()
+                    instance = {}
+                    instance.new = sub()
+                    end sub
+                    return instance
+                end function
+                function Birds_Bird()
+                    instance = __Birds_Bird_builder()
+                    instance.new()
+                    return instance
+                end function
+                function Birds_Bird_create()
+                    return Birds_Duck_quack()
+                end function
+                function __Birds_Duck_builder()
+                    instance = __Birds_Bird_builder()
+                    instance.super0_new = instance.new
+                    instance.new = sub()
+                        m.super0_new()
+                    end sub
+                    return instance
+                end function
+                function Birds_Duck()
+                    instance = __Birds_Duck_builder()
+                    instance.new()
+                    return instance
+                end function
+                function Birds_Duck_quack()
+                    return "quack"
+                end function
+
+                sub main()
+                    print Birds_Bird_create()
+                end sub
+            `, undefined, 'source/main.bs');
+        });
+
+        it('transpiles property accessors to method calls', () => {
+            testTranspile(`
+                class Player
+                    private _volume = 0
+                    get function isMuted() as boolean
+                        return m.volume = 0
+                    end function
+                    get function volume() as integer
+                        return m._volume
+                    end function
+                    set sub volume(value as integer)
+                        m._volume = value
+                    end sub
+                end class
+                sub main()
+                    video = new Player()
+                    video.volume = 5
+                    video.volume += 2
+                    video.volume++
+                    print video.isMuted
+                end sub
+            `, `
+                function __Player_builder()
+                    instance = {}
+                    instance.new = sub()
+                        m._volume = 0
+                    end sub
+                    instance.__get_isMuted = function() as boolean
+                        return m.__get_volume() = 0
+                    end function
+                    instance.__get_volume = function() as integer
+                        return m._volume
+                    end function
+                    instance.__set_volume = sub(value as integer)
+                        m._volume = value
+                    end sub
+                    return instance
+                end function
+                function Player()
+                    instance = __Player_builder()
+                    instance.new()
+                    return instance
+                end function
+
+                sub main()
+                    video = Player()
+                    video.__set_volume(5)
+                    video.__set_volume(video.__get_volume() + 2)
+                    video.__set_volume(video.__get_volume() + 1)
+                    print video.__get_isMuted()
+                end sub
+            `, undefined, 'source/main.bs');
+        });
+
+        it('calls the parent accessor for `super` calls inside of overridden accessors', () => {
+            testTranspile(`
+                class Player
+                    get function volume() as integer
+                        return 1
+                    end function
+                end class
+                class LoudPlayer extends Player
+                    override get function volume() as integer
+                        return super.volume() * 2
+                    end function
+                end class
+            `, `
+                function __Player_builder()
+                    instance = {}
+                    instance.new = sub()
+                    end sub
+                    instance.__get_volume = function() as integer
+                        return 1
+                    end function
+                    return instance
+                end function
+                function Player()
+                    instance = __Player_builder()
+                    instance.new()
+                    return instance
+                end function
+                function __LoudPlayer_builder()
+                    instance = __Player_builder()
+                    instance.super0_new = instance.new
+                    instance.new = sub()
+                        m.super0_new()
+                    end sub
+                    instance.super0___get_volume = instance.__get_volume
+                    instance.__get_volume = function() as integer
+                        return m.super0___get_volume() * 2
+                    end function
+                    return instance
+                end function
+                function LoudPlayer()
+                    instance = __LoudPlayer_builder()
+                    instance.new()
+                    return instance
+                end function
+            `, undefined, 'source/main.bs');
+        });
+
+        it('erases generic type parameters and type arguments', () => {
+            testTranspile(`
+                class Box<T>
+                    public value as T
+                    sub new(value as T)
+                        m.value = value
+                    end sub
+                    function getValue() as T
+                        return m.value
+                    end function
+                end class
+                function first<T>(items as Box<T>) as T
+                    return items.getValue()
+                end function
+                sub main()
+                    names = new Box<Box<string>>(new Box<string>("bob"))
+                    print first(names)
+                end sub
+            `, `
+                function __Box_builder()
+                    instance = {}
+                    instance.new = sub(value as dynamic)
+                        m.value = invalid
+                        m.value = value
+                    end sub
+                    instance.getValue = function() as dynamic
+                        return m.value
+                    end function
+                    return instance
+                end function
+                function Box(value as dynamic)
+                    instance = __Box_builder()
+                    instance.new(value)
+                    return instance
+                end function
+
+                function first(items as object) as dynamic
+                    return items.getValue()
+                end function
+
+                sub main()
+                    names = Box(Box("bob"))
+                    print first(names)
+                end sub
+            `, undefined, 'source/main.bs');
+        });
+
         it('registers the constructor and properly handles its parameters', () => {
             testTranspile(`
                 class Duck
@@ -957,7 +1273,7 @@ describe('BrsFile BrighterScript classes', () => {
             end namespace
         `);
         program.validate();
-        expect(program.getDiagnostics()[0]?.message).not.to.exist;
+        expectZeroDiagnostics(program);
     });
 
     it('catches extending unknown namespaced class', () => {
@@ -1169,6 +1485,469 @@ describe('BrsFile BrighterScript classes', () => {
         `, 'trim', 'source/App.ClassB.bs');
     });
 
+    it('parses implemented interfaces', () => {
+        const file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+            namespace Animals
+                interface IAnimal
+                    name as string
+                end interface
+            end namespace
+            interface ISpeaker
+                sub speak()
+            end interface
+            class Duck implements Animals.IAnimal, ISpeaker
+                name as string
+                sub speak()
+                end sub
+            end class
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+        const classStatement = file.parser.references.classStatements[0];
+        expect(classStatement.implementsKeyword?.text).to.equal('implements');
+        expect(
+            classStatement.implementedInterfaceNames.map(x => x.getName(ParseMode.BrighterScript))
+        ).to.eql(['Animals.IAnimal', 'ISpeaker']);
+    });
+
+    it('detects classes that do not correctly implement their interfaces', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            interface IAnimal
+                name as string
+                age as integer
+                function speak(words as string) as string
+                sub eat(food, amount)
+            end interface
+            class Duck implements IAnimal, IMissing
+                name as string
+                age as string
+                function speak(words as string) as integer
+                    return words.len()
+                end function
+                sub eat(food)
+                    print food
+                end sub
+            end class
+            class Goose implements IAnimal
+            end class
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.classMemberNotCompatibleWithInterface('Duck', 'IAnimal', 'age', 'string', 'integer').message,
+            range: Range.create(9, 16, 9, 29)
+        }, {
+            message: DiagnosticMessages.classMemberNotCompatibleWithInterface('Duck', 'IAnimal', 'speak', 'function speak(words as string) as integer', 'function speak(words as string) as string').message,
+            range: Range.create(10, 16, 12, 28)
+        }, {
+            message: DiagnosticMessages.classMethodParameterCountMismatchWithInterface('Duck', 'IAnimal', 'eat', 2).message,
+            range: Range.create(13, 16, 15, 23)
+        }, {
+            message: DiagnosticMessages.interfaceCouldNotBeFound('IMissing', 'source').message,
+            range: Range.create(7, 43, 7, 51)
+        }, {
+            message: DiagnosticMessages.classMissingInterfaceMember('Goose', 'IAnimal', 'name').message,
+            range: Range.create(17, 18, 17, 23)
+        }, {
+            message: DiagnosticMessages.classMissingInterfaceMember('Goose', 'IAnimal', 'age').message,
+            range: Range.create(17, 18, 17, 23)
+        }, {
+            message: DiagnosticMessages.classMissingInterfaceMember('Goose', 'IAnimal', 'speak').message,
+            range: Range.create(17, 18, 17, 23)
+        }, {
+            message: DiagnosticMessages.classMissingInterfaceMember('Goose', 'IAnimal', 'eat').message,
+            range: Range.create(17, 18, 17, 23)
+        }]);
+    });
+
+    it('allows interface members implemented by ancestor classes and parent interfaces', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            interface IBase
+                id as integer
+            end interface
+            interface IAnimal extends IBase
+                name as string
+                callback as function
+                function speak(words as string) as dynamic
+            end interface
+            class Animal
+                id = 1
+                name as string
+            end class
+            class Duck extends Animal implements IAnimal
+                function callback()
+                end function
+                function speak(words as dynamic, volume = 1) as string
+                    print volume
+                    return words
+                end function
+            end class
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+    });
+
+    it('validates abstract classes and methods', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            abstract class Screen
+                abstract sub show(animate as boolean)
+                abstract function getTitle() as string
+            end class
+            class HomeScreen extends Screen
+                override sub show(animate as boolean)
+                    print animate
+                end sub
+            end class
+            class Dialog
+                abstract sub close()
+            end class
+            sub main()
+                current = new Screen()
+                print current
+            end sub
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.cannotInstantiateAbstractClass('Screen').message,
+            range: Range.create(14, 30, 14, 36)
+        }, {
+            message: DiagnosticMessages.classMissingAbstractMemberImplementation('HomeScreen', 'getTitle', 'Screen').message,
+            range: Range.create(5, 18, 5, 28)
+        }, {
+            message: DiagnosticMessages.abstractMethodInNonAbstractClass('close', 'Dialog').message,
+            range: Range.create(11, 25, 11, 36)
+        }]);
+    });
+
+    it('allows concrete classes that implement every abstract method', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            abstract class Screen
+                abstract sub show()
+                abstract function getTitle() as string
+            end class
+            abstract class BaseScreen extends Screen
+                override function getTitle() as string
+                    return "base"
+                end function
+            end class
+            class HomeScreen extends BaseScreen
+                override sub show()
+                end sub
+            end class
+            class Field
+                abstract as string
+            end class
+            sub main()
+                home = new HomeScreen()
+                print home
+            end sub
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+    });
+
+    it('does not require the override keyword for implementations of abstract methods', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            abstract class Screen
+                abstract sub show()
+                sub hide()
+                end sub
+            end class
+            class HomeScreen extends Screen
+                sub show()
+                end sub
+                sub hide()
+                end sub
+            end class
+        `);
+        program.validate();
+        expect(program.getDiagnostics().map(x => x.message)).to.eql([
+            DiagnosticMessages.missingOverrideKeyword('Screen').message
+        ]);
+        expect(program.getDiagnostics()[0].range.start.line).to.eql(9);
+    });
+
+    it('flags super calls to abstract methods', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            abstract class Shape
+                abstract function area() as float
+                function describe() as string
+                    return "shape"
+                end function
+            end class
+            class Square extends Shape
+                override function area() as float
+                    return super.area()
+                end function
+                override function describe() as string
+                    return super.describe()
+                end function
+            end class
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.cannotCallAbstractSuperMethod('area', 'Shape').message,
+            range: Range.create(9, 27, 9, 37)
+        }]);
+    });
+
+    it('validates static members', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Person
+                static count = 0
+                static label = m.label
+                static function create()
+                    Person.count += 1
+                    return m.name
+                end function
+                static override sub reset()
+                end sub
+                static function create()
+                end function
+                function create()
+                    return Person.count
+                end function
+            end class
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.duplicateIdentifier('create').message,
+            range: Range.create(10, 32, 10, 38)
+        }, {
+            message: DiagnosticMessages.cannotUseMInStaticMember('label').message,
+            range: Range.create(3, 31, 3, 32)
+        }, {
+            message: DiagnosticMessages.cannotUseMInStaticMember('create').message,
+            range: Range.create(6, 27, 6, 28)
+        }, {
+            message: DiagnosticMessages.staticMemberCannotUseModifier('override').message,
+            range: Range.create(8, 23, 8, 31)
+        }]);
+    });
+
+    it('allows fields named `static`', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Wall
+                static as boolean
+                static static as integer
+                function isStatic()
+                    return m.static
+                end function
+            end class
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+    });
+
+    it('validates property accessors', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Player
+                get function isPlaying() as boolean
+                    return false
+                end function
+                get function volume(level) as integer
+                    return level
+                end function
+                set sub volume()
+                end sub
+                function isPlaying()
+                end function
+            end class
+            class VideoPlayer extends Player
+            end class
+            sub main()
+                video = new VideoPlayer()
+                video.isPlaying = true
+                video.isPlaying++
+                print video.volume
+            end sub
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.duplicateIdentifier('isPlaying').message,
+            range: Range.create(10, 25, 10, 34)
+        }, {
+            message: DiagnosticMessages.cannotAssignToGetOnlyProperty('isPlaying', 'Player').message,
+            range: Range.create(17, 22, 17, 31)
+        }, {
+            message: DiagnosticMessages.cannotAssignToGetOnlyProperty('isPlaying', 'Player').message,
+            range: Range.create(18, 22, 18, 31)
+        }, {
+            message: DiagnosticMessages.accessorParameterCountMismatch('get', 0).message,
+            range: Range.create(5, 29, 5, 35)
+        }, {
+            message: DiagnosticMessages.accessorParameterCountMismatch('set', 1).message,
+            range: Range.create(8, 24, 8, 30)
+        }]);
+    });
+
+    it('warns about accessor properties on values of unknown type', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Player
+                get function isPlaying() as boolean
+                    return false
+                end function
+                set sub isPlaying(value as boolean)
+                end sub
+            end class
+            class Holder
+                public player
+                public typedPlayer as Player
+                sub check(players)
+                    print m.player.isPlaying
+                    m.player.isPlaying = true
+                    print players[0].isPlaying
+                    print m.typedPlayer.isPlaying
+                    print m.player.isPlaying()
+                end sub
+            end class
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.accessorOnUntypedValue('isPlaying', 'Player').message,
+            range: Range.create(12, 35, 12, 44)
+        }, {
+            message: DiagnosticMessages.accessorOnUntypedValue('isPlaying', 'Player').message,
+            range: Range.create(13, 29, 13, 38)
+        }, {
+            message: DiagnosticMessages.accessorOnUntypedValue('isPlaying', 'Player').message,
+            range: Range.create(14, 37, 14, 46)
+        }]);
+    });
+
+    it('substitutes type arguments in the types of generic class members', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Box<T>
+                public value as T
+                function getValue() as T
+                    return m.value
+                end function
+                get function contents() as T
+                    return m.value
+                end function
+            end class
+            class Person
+                public name as string
+            end class
+            sub main()
+                people = new Box<Person>()
+                print people.value.name
+                print people.value.age
+                print people.getValue().age
+                print people.contents.age
+                anything = new Box()
+                print anything.value.age
+            end sub
+            sub greet(people as Box<Person>)
+                print people.value.age
+            end sub
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.unknownClassMember('age', 'Person').message,
+            range: Range.create(16, 35, 16, 38)
+        }, {
+            message: DiagnosticMessages.unknownClassMember('age', 'Person').message,
+            range: Range.create(17, 40, 17, 43)
+        }, {
+            message: DiagnosticMessages.unknownClassMember('age', 'Person').message,
+            range: Range.create(18, 38, 18, 41)
+        }, {
+            message: DiagnosticMessages.unknownClassMember('age', 'Person').message,
+            range: Range.create(23, 35, 23, 38)
+        }]);
+    });
+
+    it('supports generic type parameters in typed arrays', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class List<T>
+                public items as T[]
+                function add(item as T) as T[]
+                    m.items.push(item)
+                    return m.items
+                end function
+            end class
+            class Person
+                public name as string
+            end class
+            function first<T>(items as T[]) as T
+                return items[0]
+            end function
+            sub main()
+                people = new List<Person>()
+                for each friend in people.items
+                    print friend.name
+                    print friend.age
+                end for
+                print first(people.items)
+            end sub
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.unknownClassMember('age', 'Person').message,
+            range: Range.create(18, 33, 18, 36)
+        }]);
+    });
+
+    it('supports generic type parameters in union types', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Result<T>
+                public value as T | invalid
+                function get() as T | invalid
+                    return m.value
+                end function
+            end class
+            class Person
+                public name as string
+            end class
+            sub main()
+                lookup = new Result<Person>()
+                print lookup.value
+                print lookup.get()
+            end sub
+            function getOrDefault<T>(value as T | invalid, fallback as T) as T
+                if value = invalid then return fallback
+                return value
+            end function
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+    });
+
+    it('validates the number of type arguments', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            class Pair<K, V>
+            end class
+            sub main()
+                print new Pair<string, integer>()
+                print new Pair()
+                print new Pair<string>()
+            end sub
+        `);
+        program.validate();
+        expect(
+            program.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+        ).to.eql([{
+            message: DiagnosticMessages.typeArgumentCountMismatch('Pair', 2, 1).message,
+            range: Range.create(6, 31, 6, 37)
+        }]);
+    });
+
     it('does not crash when parent class is missing', () => {
         const file = program.addOrReplaceFile<BrsFile>('source/ClassB.bs', `
             class ClassB extends ClassA
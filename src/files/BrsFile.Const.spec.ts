@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { Program } from '../Program';
+import type { BrsFile } from './BrsFile';
+import { DiagnosticMessages } from '../DiagnosticMessages';
+import { expectZeroDiagnostics, getTestTranspile, withoutHints } from '../testHelpers.spec';
+import { standardizePath as s } from '../util';
+
+describe('BrsFile BrighterScript consts', () => {
+    let tmpPath = s`${process.cwd()}/.tmp`;
+    let rootDir = s`${tmpPath}/rootDir`;
+
+    let program: Program;
+    let testTranspile = getTestTranspile(() => [program, rootDir]);
+
+    beforeEach(() => {
+        fsExtra.ensureDirSync(rootDir);
+        fsExtra.emptyDirSync(tmpPath);
+        program = new Program({ rootDir: rootDir });
+    });
+    afterEach(() => {
+        program.dispose();
+        fsExtra.ensureDirSync(tmpPath);
+        fsExtra.emptyDirSync(tmpPath);
+    });
+
+    function addFile(relativePath: string, text: string) {
+        return program.addOrReplaceFile<BrsFile>({ src: `${rootDir}/${relativePath}`, dest: relativePath }, text);
+    }
+
+    describe('transpile', () => {
+        it('replaces const references with their values', () => {
+            testTranspile(`
+                const PI = 3.14
+                const NAME = "bob"
+                const IS_DEBUG = false
+                sub main()
+                    print PI
+                    print name
+                    if IS_DEBUG then
+                        print PI * 2
+                    end if
+                end sub
+            `, `
+
+
+
+                sub main()
+                    print 3.14
+                    print "bob"
+                    if false then
+                        print 3.14 * 2
+                    end if
+                end sub
+            `);
+        });
+
+        it('replaces array consts', () => {
+            testTranspile(`
+                const COLORS = ["red", "green"]
+                sub main()
+                    list = COLORS
+                end sub
+            `, `
+
+                sub main()
+                    list = [
+                        "red",
+                        "green"
+                    ]
+                end sub
+            `);
+        });
+
+        it('replaces namespaced consts', () => {
+            testTranspile(`
+                namespace Name.Space
+                    const PI = 3.14
+                    sub speak()
+                        print PI
+                        print Name.Space.PI
+                    end sub
+                end namespace
+                sub main()
+                    print Name.Space.PI
+                end sub
+            `, `
+
+                sub Name_Space_speak()
+                    print 3.14
+                    print 3.14
+                end sub
+
+                sub main()
+                    print 3.14
+                end sub
+            `);
+        });
+
+        it('replaces consts declared in other files in the scope', () => {
+            addFile('source/consts.bs', `
+                const API_URL = "https://example.com"
+            `);
+            testTranspile(`
+                sub main()
+                    print API_URL
+                end sub
+            `, `
+                sub main()
+                    print "https://example.com"
+                end sub
+            `);
+        });
+
+        it('does not replace parameters or functions with the same name', () => {
+            testTranspile(`
+                const VALUE = 1
+                sub main(value)
+                    print value
+                end sub
+                sub other()
+                    node = {}
+                    print node.value
+                end sub
+            `, `
+
+                sub main(value)
+                    print value
+                end sub
+
+                sub other()
+                    node = {}
+                    print node.value
+                end sub
+            `);
+        });
+    });
+
+    describe('validation', () => {
+        it('flags const reassignment', () => {
+            addFile('source/main.bs', `
+                const PI = 3.14
+                namespace Name
+                    const E = 2.71
+                    sub speak()
+                        E = 1
+                    end sub
+                end namespace
+                sub main()
+                    PI = 3
+                    pi += 1
+                    PI++
+                    Name.E = 3
+                end sub
+            `);
+            program.validate();
+            expect(withoutHints(program.getDiagnostics()).map(x => x.message)).to.eql([
+                DiagnosticMessages.constReassignment('E').message,
+                DiagnosticMessages.constReassignment('PI').message,
+                DiagnosticMessages.constReassignment('pi').message,
+                DiagnosticMessages.constReassignment('PI').message,
+                DiagnosticMessages.constReassignment('E').message
+            ]);
+        });
+
+        it('does not flag unrelated assignments', () => {
+            addFile('source/main.bs', `
+                namespace Name
+                    const E = 2.71
+                end namespace
+                sub main()
+                    e = 1
+                    node = {}
+                    node.E = 2
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+    });
+});
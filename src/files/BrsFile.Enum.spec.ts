@@ -0,0 +1,333 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { CompletionItemKind, Position } from 'vscode-languageserver';
+import { Program } from '../Program';
+import type { BrsFile } from './BrsFile';
+import { DiagnosticMessages } from '../DiagnosticMessages';
+import { expectZeroDiagnostics, getTestTranspile } from '../testHelpers.spec';
+import { standardizePath as s } from '../util';
+
+describe('BrsFile BrighterScript enums', () => {
+    let tmpPath = s`${process.cwd()}/.tmp`;
+    let rootDir = s`${tmpPath}/rootDir`;
+
+    let program: Program;
+    let testTranspile = getTestTranspile(() => [program, rootDir]);
+
+    beforeEach(() => {
+        fsExtra.ensureDirSync(rootDir);
+        fsExtra.emptyDirSync(tmpPath);
+        program = new Program({ rootDir: rootDir });
+    });
+    afterEach(() => {
+        program.dispose();
+        fsExtra.ensureDirSync(tmpPath);
+        fsExtra.emptyDirSync(tmpPath);
+    });
+
+    function addFile(relativePath: string, text: string) {
+        return program.addOrReplaceFile<BrsFile>({ src: `${rootDir}/${relativePath}`, dest: relativePath }, text);
+    }
+
+    describe('transpile', () => {
+        it('replaces enum member references with their values', () => {
+            testTranspile(`
+                enum Direction
+                    up
+                    down
+                    left = 10
+                    right
+                end enum
+                sub main()
+                    print Direction.up
+                    print Direction.down
+                    print Direction.left
+                    print Direction.RIGHT
+                end sub
+            `, `
+
+                sub main()
+                    print 0
+                    print 1
+                    print 10
+                    print 11
+                end sub
+            `);
+        });
+
+        it('replaces string enum member references', () => {
+            testTranspile(`
+                enum Direction
+                    up = "up"
+                    down = "DOWN"
+                end enum
+                sub main()
+                    heading = Direction.down
+                    if heading = Direction.up then
+                        print "up"
+                    end if
+                end sub
+            `, `
+
+                sub main()
+                    heading = "DOWN"
+                    if heading = "up" then
+                        print "up"
+                    end if
+                end sub
+            `);
+        });
+
+        it('replaces references to namespaced enums', () => {
+            testTranspile(`
+                namespace Name.Space
+                    enum Direction
+                        up = -1
+                    end enum
+                    sub speak()
+                        print Direction.up
+                        print Name.Space.Direction.up
+                    end sub
+                end namespace
+                sub main()
+                    print Name.Space.Direction.up
+                end sub
+            `, `
+
+                sub Name_Space_speak()
+                    print -1
+                    print -1
+                end sub
+
+                sub main()
+                    print -1
+                end sub
+            `);
+        });
+
+        it('replaces references to enums from other files in the scope', () => {
+            addFile('source/enums.bs', `
+                enum Direction
+                    up
+                    down
+                end enum
+            `);
+            testTranspile(`
+                sub main()
+                    print Direction.down
+                end sub
+            `, `
+                sub main()
+                    print 1
+                end sub
+            `);
+        });
+
+        it('does not replace members of local variables with the same name as the enum', () => {
+            testTranspile(`
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    direction = { up: "x" }
+                    print direction.up
+                    print Direction.up
+                end sub
+            `, `
+
+                sub main()
+                    direction = {
+                        up: "x"
+                    }
+                    print direction.up
+                    print Direction.up
+                end sub
+            `);
+        });
+
+        it('leaves member access on the inlined value alone', () => {
+            testTranspile(`
+                enum Direction
+                    up = "up"
+                end enum
+                sub main()
+                    print Direction.up.len()
+                end sub
+            `, `
+
+                sub main()
+                    print "up".len()
+                end sub
+            `);
+        });
+    });
+
+    describe('validation', () => {
+        it('flags unknown enum members', () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    print Direction.up
+                    print Direction.sideways
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.unknownEnumValue('sideways', 'Direction').message
+            ]);
+        });
+
+        it('flags unknown members of namespaced enums', () => {
+            addFile('source/main.bs', `
+                namespace Name
+                    enum Direction
+                        up
+                    end enum
+                    sub speak()
+                        print Direction.down
+                    end sub
+                end namespace
+                sub main()
+                    print Name.Direction.up
+                    print Name.Direction.left
+                end sub
+            `);
+            program.validate();
+            expect(program.getDiagnostics().map(x => x.message)).to.eql([
+                DiagnosticMessages.unknownEnumValue('down', 'Name.Direction').message,
+                DiagnosticMessages.unknownEnumValue('left', 'Name.Direction').message
+            ]);
+        });
+
+        it('does not flag valid references', () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    node = {}
+                    print node.up
+                    print Direction.up
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+
+        it('does not flag members of local variables with the same name as the enum', () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    direction = { sideways: 1 }
+                    print direction.sideways
+                end sub
+            `);
+            program.validate();
+            expectZeroDiagnostics(program);
+        });
+    });
+
+    describe('getCompletions', () => {
+        it('includes enum members after the dot', () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                    down
+                end enum
+                sub main()
+                    print Direction.
+                end sub
+            `);
+            program.validate();
+            const completions = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(6, 36));
+            expect(completions.map(x => x.label)).to.eql(['up', 'down']);
+            expect(completions[0].kind).to.eql(CompletionItemKind.EnumMember);
+        });
+
+        it('includes namespaced enum members', () => {
+            addFile('source/main.bs', `
+                namespace Name
+                    enum Direction
+                        up
+                    end enum
+                end namespace
+                sub main()
+                    print Name.Direction.u
+                end sub
+            `);
+            program.validate();
+            const completions = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(7, 42));
+            expect(completions.map(x => x.label)).to.eql(['up']);
+        });
+
+        it('includes enums in namespace completions', () => {
+            addFile('source/main.bs', `
+                namespace Name
+                    enum Direction
+                        up
+                    end enum
+                end namespace
+                sub main()
+                    print Name.
+                end sub
+            `);
+            program.validate();
+            const completions = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(7, 31));
+            expect(completions.map(x => [x.label, x.kind])).to.eql([
+                ['Direction', CompletionItemKind.Enum]
+            ]);
+        });
+
+        it('includes global enum names', () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    print D
+                end sub
+            `);
+            program.validate();
+            const completions = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(5, 27));
+            expect(
+                completions.find(x => x.label === 'Direction')?.kind
+            ).to.eql(CompletionItemKind.Enum);
+        });
+    });
+
+    describe('getHover', () => {
+        it('shows the enum name', async () => {
+            addFile('source/main.bs', `
+                enum Direction
+                    up
+                end enum
+                sub main()
+                    print Direction.up
+                end sub
+            `);
+            program.validate();
+            const hover = await program.getHover(`${rootDir}/source/main.bs`, Position.create(5, 29));
+            expect(hover?.contents).to.eql('enum Direction');
+        });
+
+        it('shows the enum member value', async () => {
+            addFile('source/main.bs', `
+                namespace Name
+                    enum Direction
+                        up = "UP"
+                    end enum
+                end namespace
+                sub main()
+                    print Name.Direction.up
+                end sub
+            `);
+            program.validate();
+            const hover = await program.getHover(`${rootDir}/source/main.bs`, Position.create(7, 42));
+            expect(hover?.contents).to.eql('Name.Direction.up = "UP"');
+        });
+    });
+});
@@ -1,10 +1,11 @@
 import { assert, expect } from 'chai';
 import * as sinonImport from 'sinon';
 import * as path from 'path';
-import { CompletionItemKind, Position, Range } from 'vscode-languageserver';
+import { CompletionItemKind, DiagnosticTag, Position, Range } from 'vscode-languageserver';
 import type { Callable, CommentFlag, BsDiagnostic, VariableDeclaration } from '../interfaces';
 import { Program } from '../Program';
 import { BooleanType } from '../types/BooleanType';
+import { CustomType } from '../types/CustomType';
 import { DynamicType } from '../types/DynamicType';
 import { FunctionType } from '../types/FunctionType';
 import { IntegerType } from '../types/IntegerType';
@@ -46,7 +47,7 @@ describe('BrsFile', () => {
             end sub
         `);
         program.validate();
-        expect(program.getDiagnostics()[0]?.message).to.not.exist;
+        expectZeroDiagnostics(program);
     });
 
     it('supports the 6 params in CreateObject for roRegion', () => {
@@ -56,7 +57,7 @@ describe('BrsFile', () => {
             end sub
         `);
         program.validate();
-        expect(program.getDiagnostics()[0]?.message).to.not.exist;
+        expectZeroDiagnostics(program);
     });
 
     it('sets needsTranspiled to true for .bs files', () => {
@@ -285,6 +286,191 @@ describe('BrsFile', () => {
             expect(results[0]?.label).to.equal('something');
         });
 
+        it('includes the members of typed array elements', () => {
+            program.addOrReplaceFile('source/main.bs', `
+                class Player
+                    name as string
+                    sub play()
+                    end sub
+                end class
+                interface Team
+                    players as Player[]
+                end interface
+                sub main(teams as Team[])
+                    for each team in teams
+                        for each player in team.players
+                            player.
+                        end for
+                    end for
+                    settings = { volume: 1 }
+                    print settings.
+                end sub
+            `);
+            program.validate();
+            let results = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(12, 35));
+            expect(results.map(x => x.label).sort()).to.eql(['name', 'play']);
+            results = program.getCompletions(`${rootDir}/source/main.bs`, Position.create(16, 35));
+            expect(results.map(x => x.label)).to.eql(['volume']);
+        });
+
+        it('includes the methods of built-in components', () => {
+            program.addOrReplaceFile('source/main.brs', `
+                sub main()
+                    date = CreateObject("roDateTime")
+                    print date.
+                end sub
+            `);
+            program.validate();
+            const results = program.getCompletions(`${rootDir}/source/main.brs`, Position.create(3, 31));
+            expect(results.map(x => x.label)).to.include.members(['AsSeconds', 'GetYear', 'ToISOString']);
+            expect(results.find(x => x.label === 'GetYear').kind).to.eql(CompletionItemKind.Method);
+        });
+
+    });
+
+    describe('unused variables', () => {
+        it('flags unused local variables and parameters once per name', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main(name, age)
+                    contnet = "hello"
+                    contnet = "world"
+                    print age
+                end sub
+            `);
+            expect(
+                file.getDiagnostics().map(x => ({ message: x.message, range: x.range }))
+            ).to.eql([{
+                message: DiagnosticMessages.unusedParameter('name').message,
+                range: Range.create(0, 9, 0, 13)
+            }, {
+                message: DiagnosticMessages.unusedVariable('contnet').message,
+                range: Range.create(1, 4, 1, 11)
+            }]);
+        });
+
+        it('does not count reads from nested functions', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main()
+                    name = "bob"
+                    callback = sub()
+                        print name
+                    end sub
+                    callback()
+                end sub
+            `);
+            expect(
+                file.getDiagnostics().map(x => x.message)
+            ).to.eql([
+                DiagnosticMessages.unusedVariable('name').message
+            ]);
+        });
+
+        it('ignores underscore names, loop variables and parameters of empty functions', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                sub main(_name, items, count = 1, total = count)
+                    _unused = 1
+                    for i = 0 to total
+                        print "hello"
+                    end for
+                    for each item in items
+                        print "world"
+                    end for
+                end sub
+                sub onChange(event)
+                    'overridden elsewhere
+                end sub
+            `);
+            expectZeroDiagnostics(file);
+        });
+    });
+
+    describe('unreachable code', () => {
+        it('flags statements after return, exit, throw, end and goto', () => {
+            const file = program.addOrReplaceFile('source/main.bs', trim`
+                function main(items)
+                    for each item in items
+                        exit for
+                        print item
+                    end for
+                    try
+                        throw "oops"
+                        print "after throw"
+                    catch e
+                        print e
+                    end try
+                    if items.count() = 0 then
+                        end
+                        print "after end"
+                    end if
+                    return 1
+                    'a comment is not code
+                    print "one"
+                    print "two"
+                end function
+            `);
+            expect(
+                file.getDiagnostics().map(x => ({ message: x.message, range: x.range, tags: x.tags }))
+            ).to.eql([{
+                message: DiagnosticMessages.unreachableCode().message,
+                range: Range.create(17, 4, 18, 15),
+                tags: [DiagnosticTag.Unnecessary]
+            }, {
+                message: DiagnosticMessages.unreachableCode().message,
+                range: Range.create(3, 8, 3, 18),
+                tags: [DiagnosticTag.Unnecessary]
+            }, {
+                message: DiagnosticMessages.unreachableCode().message,
+                range: Range.create(7, 8, 7, 27),
+                tags: [DiagnosticTag.Unnecessary]
+            }, {
+                message: DiagnosticMessages.unreachableCode().message,
+                range: Range.create(13, 8, 13, 25),
+                tags: [DiagnosticTag.Unnecessary]
+            }]);
+        });
+
+        it('treats labels and partial branches as reachable', () => {
+            const file = program.addOrReplaceFile('source/main.brs', trim`
+                function main(count)
+                    goto skip
+                    skip:
+                    if count > 1 then
+                        return 1
+                    else if count > 0 then
+                        print "one"
+                    else
+                        return 0
+                    end if
+                    while true
+                        if count > 2 then
+                            exit while
+                        else
+                            return 2
+                        end if
+                    end while
+                    return 3
+                end function
+            `);
+            expectZeroDiagnostics(file);
+        });
+
+        it('removes unreachable code during transpile when enabled', () => {
+            program.options.removeUnreachableCode = true;
+            testTranspile(`
+                function main()
+                    print "hello"
+                    return 1
+                    print "unreachable"
+                    'comments are kept
+                end function
+            `, `
+                function main()
+                    print "hello"
+                    return 1
+                    'comments are kept
+                end function
+            `, 'trim', 'source/main.bs', false);
+        });
     });
 
     describe('comment flags', () => {
@@ -354,7 +540,7 @@ describe('BrsFile', () => {
                     affectedRange: util.createRange(3, 0, 3, Number.MAX_SAFE_INTEGER)
                 } as CommentFlag);
                 //the "unterminated string" error should be filtered out
-                expect(program.getDiagnostics()[0]?.message).to.not.exist;
+                expectZeroDiagnostics(program);
             });
 
             it('ignores non-numeric codes', () => {
@@ -478,7 +664,12 @@ describe('BrsFile', () => {
                     myLabel:
                 end sub
             `);
-            expect(file.getDiagnostics()).to.be.lengthOf(0);
+            //the second goto can never run
+            expect(
+                file.getDiagnostics().map(x => x.message)
+            ).to.eql([
+                DiagnosticMessages.unreachableCode().message
+            ]);
         });
 
         it('supports empty print statements', () => {
@@ -616,7 +807,7 @@ describe('BrsFile', () => {
                     if true then : test = sub() : print "yes" : end sub : end if
                 end sub
             `);
-            expect(file.getDiagnostics()).to.be.lengthOf(0);
+            expectZeroDiagnostics(file);
         });
 
         it('supports line_num as global variable', () => {
@@ -780,7 +971,7 @@ describe('BrsFile', () => {
                   someHex& = 13
                 end sub
             `);
-            expect(file.getDiagnostics()).to.be.lengthOf(0);
+            expectZeroDiagnostics(file);
         });
 
         it('supports multiple spaces between two-word keywords', () => {
@@ -862,7 +1053,7 @@ describe('BrsFile', () => {
                     end function
                 end sub
             `);
-            expect(file.getDiagnostics()).to.be.lengthOf(0);
+            expectZeroDiagnostics(file);
         });
 
         it('supports increment operator', () => {
@@ -1032,7 +1223,7 @@ describe('BrsFile', () => {
                     obj = {x:0 : y: 1}
                 end sub
             `);
-            expect(file.getDiagnostics()).to.be.lengthOf(0);
+            expectZeroDiagnostics(file);
         });
 
         it('succeeds when finding variables with "sub" in them', () => {
@@ -1478,6 +1669,17 @@ describe('BrsFile', () => {
             expect(file.functionScopes[0].variableDeclarations[1].type).instanceof(StringType);
         });
 
+        it('finds class type from new expression', () => {
+            let file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+                sub Main()
+                   player = new Media.Player()
+                end sub
+            `);
+
+            expect(file.functionScopes[0].variableDeclarations).to.be.length(1);
+            expect(file.functionScopes[0].variableDeclarations[0].type).to.eql(new CustomType('Media.Player'));
+        });
+
         it('sets proper range for functions', () => {
             file.parse(`
                 sub Main()
@@ -1494,6 +1696,53 @@ describe('BrsFile', () => {
     });
 
     describe('getHover', () => {
+        it('shows narrowed types inside of `if` statements', () => {
+            const file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+                sub main(name as string | invalid)
+                    if name <> invalid then
+                        print name
+                    end if
+                end sub
+            `);
+            program.validate();
+            //sub main(na|me as string | invalid)
+            expect(file.getHover(Position.create(1, 27)).contents).to.eql('name as string | invalid');
+            //print na|me
+            expect(file.getHover(Position.create(3, 32)).contents).to.eql('name as string');
+        });
+
+        it('shows the element type of typed arrays for `for each` loop variables', () => {
+            const file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+                sub main(scores as integer[])
+                    for each score in scores
+                        print score
+                    end for
+                end sub
+            `);
+            program.validate();
+            //sub main(sco|res as integer[])
+            expect(file.getHover(Position.create(1, 28)).contents).to.eql('scores as integer[]');
+            //print sco|re
+            expect(file.getHover(Position.create(3, 33)).contents).to.eql('score as integer');
+        });
+
+        it('shows built-in components and their methods', () => {
+            const file = program.addOrReplaceFile<BrsFile>('source/main.brs', `
+                sub main()
+                    date = CreateObject("roDateTime")
+                    print date.ToISOString()
+                end sub
+            `);
+            program.validate();
+            //da|te = CreateObject("roDateTime")
+            expect(file.getHover(Position.create(2, 22)).contents).to.eql('date as roDateTime');
+            //print date.ToISO|String()
+            expect(file.getHover(Position.create(3, 36))).to.eql({
+                range: util.createRange(3, 31, 3, 42),
+                contents: 'function ToISOString(format? as string) as string'
+            });
+        });
+
         it('works for param types', () => {
             let file = program.addOrReplaceFile({ src: `${rootDir}/source/main.brs`, dest: 'source/main.brs' }, `
                 sub DoSomething(name as string)
@@ -1643,6 +1892,20 @@ describe('BrsFile', () => {
     });
 
     describe('transpile', () => {
+        it('transpiles typed arrays to object', () => {
+            testTranspile(`
+                function getScores(names as string[]) as integer[]
+                    return [names.count()]
+                end function
+            `, `
+                function getScores(names as object) as object
+                    return [
+                        names.count()
+                    ]
+                end function
+            `, undefined, 'source/main.bs');
+        });
+
         describe('throwStatement', () => {
             it('transpiles properly', () => {
                 testTranspile(`
@@ -1727,6 +1990,7 @@ describe('BrsFile', () => {
         it('escapes quotes in string literals', () => {
             testTranspile(`
                 sub main()
+                    expected = ""
                     expected += chr(10) + " version=""2.0"""
                 end sub
             `);
@@ -1734,6 +1998,7 @@ describe('BrsFile', () => {
         it('keeps function parameter types in proper order', () => {
             testTranspile(`
                 function CreateTestStatistic(name as string, result = "Success" as string, time = 0 as integer, errorCode = 0 as integer, errorMessage = "" as string) as object
+                    return invalid
                 end function
             `);
         });
@@ -2421,7 +2686,7 @@ describe('BrsFile', () => {
 
     describe('getTypedef', () => {
         function testTypedef(original: string, expected: string) {
-            let file = program.addOrReplaceFile<BrsFile>('source/main.brs', original);
+            let file = program.addOrReplaceFile<BrsFile>('source/main.bs', original);
             expect(file.getTypedef()).to.eql(expected);
         }
 
@@ -2594,6 +2859,132 @@ describe('BrsFile', () => {
             `);
         });
 
+        it('includes implemented interfaces', () => {
+            testTypedef(`
+                interface IHuman
+                    name as string
+                end interface
+                interface IWalker
+                    sub walk()
+                end interface
+                class Human implements IHuman, IWalker
+                    name as string
+                    sub walk()
+                    end sub
+                end class
+            `, trim`
+                interface IHuman
+                    name as string
+                end interface
+
+                interface IWalker
+                    sub walk()
+                end interface
+
+                class Human implements IHuman, IWalker
+                    public name as string
+                    sub walk()
+                    end sub
+                end class
+            `);
+        });
+
+        it('includes abstract modifiers', () => {
+            testTypedef(`
+                abstract class Screen
+                    abstract sub show(animate as boolean)
+                    public abstract function getTitle() as string
+                end class
+            `, trim`
+                abstract class Screen
+                    abstract sub show(animate as boolean)
+                    public abstract function getTitle() as string
+                end class
+            `);
+        });
+
+        it('includes static modifiers', () => {
+            testTypedef(`
+                class Counter
+                    static count = 0
+                    private static label as string
+                    static function increment() as integer
+                        return 1
+                    end function
+                end class
+            `, trim`
+                class Counter
+                    public static count as integer
+                    private static label as string
+                    static function increment() as integer
+                    end function
+                end class
+            `);
+        });
+
+        it('includes property accessors', () => {
+            testTypedef(`
+                class Player
+                    get function volume() as integer
+                        return 1
+                    end function
+                    set sub volume(value as integer)
+                    end sub
+                end class
+            `, trim`
+                class Player
+                    get function volume() as integer
+                    end function
+                    set sub volume(value as integer)
+                    end sub
+                end class
+            `);
+        });
+
+        it('includes generic type parameters', () => {
+            testTypedef(`
+                class Pair<K, V>
+                    public key as K
+                    function getValue() as V
+                    end function
+                end class
+            `, trim`
+                class Pair<K, V>
+                    public key as K
+                    function getValue() as V
+                    end function
+                end class
+            `);
+        });
+
+        it('includes generic method type parameters and type arguments', () => {
+            testTypedef(`
+                class Box<T>
+                    public value as T
+                    function map<U>(fn as function) as Box<U>
+                        return new Box()
+                    end function
+                end class
+            `, trim`
+                class Box<T>
+                    public value as T
+                    function map<U>(fn as Function) as Box<U>
+                    end function
+                end class
+            `);
+        });
+
+        it('keeps typed array annotations', () => {
+            testTypedef(`
+                function getScores(names as string[]) as integer[]
+                    return []
+                end function
+            `, trim`
+                function getScores(names as string[]) as integer[]
+                end function
+            `);
+        });
+
         it('includes access modifier keyword', () => {
             testTypedef(`
                 class Human
@@ -1,32 +1,35 @@
 import type { CodeWithSourceMap } from 'source-map';
 import { SourceNode } from 'source-map';
 import type { CompletionItem, Hover, Position } from 'vscode-languageserver';
-import { CompletionItemKind, SymbolKind, Location, SignatureInformation, ParameterInformation, DocumentSymbol, SymbolInformation, TextEdit } from 'vscode-languageserver';
+import { CompletionItemKind, SymbolKind, Location, SignatureInformation, ParameterInformation, DocumentSymbol, SymbolInformation, TextEdit, DiagnosticTag } from 'vscode-languageserver';
 import chalk from 'chalk';
 import * as path from 'path';
 import type { Scope } from '../Scope';
 import { DiagnosticCodeMap, diagnosticCodes, DiagnosticMessages } from '../DiagnosticMessages';
 import { FunctionScope } from '../FunctionScope';
-import type { Callable, CallableArg, CallableParam, CommentFlag, FunctionCall, BsDiagnostic, FileReference } from '../interfaces';
-import type { Token } from '../lexer';
+import type { Callable, CallableArg, CallableParam, CommentFlag, FunctionCall, BsDiagnostic, FileReference, BscFile, BuiltInMethod } from '../interfaces';
+import type { Identifier, Token } from '../lexer';
 import { Lexer, TokenKind, AllowedLocalIdentifiers, Keywords } from '../lexer';
 import { Parser, ParseMode } from '../parser';
-import type { FunctionExpression, VariableExpression, Expression } from '../parser/Expression';
-import type { ClassStatement, FunctionStatement, NamespaceStatement, ClassMethodStatement, AssignmentStatement, LibraryStatement, ImportStatement, Statement, ClassFieldStatement } from '../parser/Statement';
+import type { FunctionExpression, Expression } from '../parser/Expression';
+import { DottedGetExpression, VariableExpression } from '../parser/Expression';
+import type { ClassStatement, FunctionStatement, NamespaceStatement, ClassMethodStatement, AssignmentStatement, LibraryStatement, ImportStatement, Statement, ClassFieldStatement, EnumStatement, ConstStatement, ClassMemberStatement } from '../parser/Statement';
 import type { FileLink, Program, SignatureInfoObj } from '../Program';
 import { DynamicType } from '../types/DynamicType';
 import { FunctionType } from '../types/FunctionType';
 import { VoidType } from '../types/VoidType';
+import { CustomType } from '../types/CustomType';
 import { standardizePath as s, util } from '../util';
 import { BrsTranspileState } from '../parser/BrsTranspileState';
 import { Preprocessor } from '../preprocessor/Preprocessor';
 import { LogLevel } from '../Logger';
 import { serializeError } from 'serialize-error';
-import { isCallExpression, isClassMethodStatement, isClassStatement, isCommentStatement, isDottedGetExpression, isFunctionExpression, isFunctionStatement, isFunctionType, isLibraryStatement, isLiteralExpression, isNamespaceStatement, isStringType, isVariableExpression, isXmlFile, isImportStatement, isClassFieldStatement } from '../astUtils/reflection';
+import { isCallExpression, isClassMethodStatement, isClassStatement, isCommentStatement, isDottedGetExpression, isFunctionExpression, isFunctionStatement, isFunctionType, isLibraryStatement, isLiteralExpression, isNamespaceStatement, isStringType, isVariableExpression, isXmlFile, isImportStatement, isClassFieldStatement, isEnumStatement, isNewExpression, isUnionType, isArrayType, isDynamicType, isObjectType, isArrayLiteralExpression, isAALiteralExpression, isGenericType, isCustomType } from '../astUtils/reflection';
 import type { BscType } from '../types/BscType';
 import { createVisitor, WalkMode } from '../astUtils/visitors';
 import type { DependencyGraph } from '../DependencyGraph';
 import { CommentFlagProcessor } from '../CommentFlagProcessor';
+import { createDottedIdentifier, createIdentifier } from '../astUtils/creators';
 
 /**
  * Holds all details about this file within the scope of the whole program
@@ -276,6 +279,12 @@ export class BrsFile {
             //find all places where a sub/function is being called
             this.findFunctionCalls();
 
+            //find all local variables and parameters that are never read
+            this.findUnusedVariables();
+
+            //find all statements that can never run
+            this.findUnreachableCode();
+
             this.findAndValidateImportAndImportStatements();
 
             //attach this file to every diagnostic
@@ -450,6 +459,10 @@ export class BrsFile {
                         name: stmt.item.text,
                         type: new DynamicType()
                     });
+                    scope.forEachStatements.push(stmt);
+                },
+                IfStatement: (stmt, parent) => {
+                    scope.addIfStatementNarrowings(stmt, parent);
                 },
                 LabelStatement: (stmt) => {
                     const { identifier } = stmt.tokens;
@@ -520,6 +533,13 @@ export class BrsFile {
                         return func.type.returnType;
                     }
                 }
+                //class instance
+            } else if (isNewExpression(assignment.value)) {
+                return new CustomType(
+                    assignment.value.className.getName(ParseMode.BrighterScript),
+                    assignment.value.typeArguments.map(x => util.tokenToBscType(x, true) ?? new DynamicType())
+                );
+
             } else if (isVariableExpression(assignment.value)) {
                 let variableName = assignment.value?.name?.text;
                 let variable = scope.getVariableByName(variableName);
@@ -607,6 +627,8 @@ export class BrsFile {
                 let columnIndexBegin = callee.range.start.character;
                 let columnIndexEnd = callee.range.end.character;
 
+                let functionScope = this.getFunctionScopeAtPosition(callee.range.start);
+
                 let args = [] as CallableArg[];
                 //TODO convert if stmts to use instanceof instead
                 for (let arg of expression.args as any) {
@@ -619,12 +641,19 @@ export class BrsFile {
                             text: arg.token.text
                         });
 
+                        //array and associative array literals get the types of their values
+                    } else if (isArrayLiteralExpression(arg) || isAALiteralExpression(arg)) {
+                        args.push({
+                            range: arg.range,
+                            type: this.getLiteralType(arg),
+                            text: ''
+                        });
+
                         //is variable being passed into argument
                     } else if (arg.name) {
                         args.push({
                             range: arg.range,
-                            //TODO - look up the data type of the actual variable
-                            type: new DynamicType(),
+                            type: isVariableExpression(arg) ? this.getLocalVariableType(arg.name.text, functionScope, arg.range.start) : new DynamicType(),
                             text: arg.name.text
                         });
 
@@ -657,7 +686,7 @@ export class BrsFile {
                 }
                 let functionCall: FunctionCall = {
                     range: util.createRangeFromPositions(expression.range.start, expression.closingParen.range.end),
-                    functionScope: this.getFunctionScopeAtPosition(callee.range.start),
+                    functionScope: functionScope,
                     file: this,
                     name: functionName,
                     nameRange: util.createRange(callee.range.start.line, columnIndexBegin, callee.range.start.line, columnIndexEnd),
@@ -669,6 +698,120 @@ export class BrsFile {
         }
     }
 
+    /**
+     * Get the type of a literal value, including array literals (i.e. `integer[]` for `[1, 2]`) and associative array literals.
+     * Values that are not literals are `DynamicType`
+     */
+    private getLiteralType(expression: Expression): BscType {
+        if (isLiteralExpression(expression)) {
+            return expression.type;
+        } else if (isArrayLiteralExpression(expression) || isAALiteralExpression(expression)) {
+            return util.getCollectionLiteralType(expression, value => this.getLiteralType(value));
+        }
+        return new DynamicType();
+    }
+
+    /**
+     * Find local variables and parameters whose values are never read. Names starting with an underscore are ignored
+     */
+    private findUnusedVariables() {
+        //typedef files have no function bodies
+        if (this.isTypedef) {
+            return;
+        }
+        for (const functionScope of this.functionScopes) {
+            const func = functionScope.func;
+            const readNames = new Set<string>();
+            //loop variables are assigned by the loop itself, so they are not reported
+            const loopVariableNames = new Set<string>();
+            const visitor = createVisitor({
+                VariableExpression: (expression) => {
+                    readNames.add(expression.name.text.toLowerCase());
+                },
+                ForStatement: (statement) => {
+                    loopVariableNames.add(statement.counterDeclaration?.name.text.toLowerCase());
+                },
+                ForEachStatement: (statement) => {
+                    loopVariableNames.add(statement.item?.text.toLowerCase());
+                }
+            });
+            //parameter default values may reference the parameters before them
+            for (const param of func.parameters) {
+                if (param.defaultValue) {
+                    visitor(param.defaultValue, param);
+                    param.defaultValue.walk(visitor, {
+                        walkMode: WalkMode.visitExpressions
+                    });
+                }
+            }
+            //there are no closures, so reads inside nested functions are never reads of this function's variables
+            func.body?.walk(visitor, {
+                walkMode: WalkMode.visitAll
+            });
+
+            const parameterNames = new Set(func.parameters.map(x => x.name.text.toLowerCase()));
+            //empty functions are stubs (i.e. methods meant to be overridden), so their parameters are expected to be unused
+            const isStub = !func.body?.statements.some(x => !isCommentStatement(x));
+            const reportedNames = new Set<string>();
+            for (const declaration of functionScope.variableDeclarations) {
+                const lowerName = declaration.name.toLowerCase();
+                if (
+                    (isStub && parameterNames.has(lowerName)) ||
+                    lowerName.startsWith('_') ||
+                    readNames.has(lowerName) ||
+                    loopVariableNames.has(lowerName) ||
+                    reportedNames.has(lowerName)
+                ) {
+                    continue;
+                }
+                reportedNames.add(lowerName);
+                this.diagnostics.push({
+                    ...(parameterNames.has(lowerName) ? DiagnosticMessages.unusedParameter(declaration.name) : DiagnosticMessages.unusedVariable(declaration.name)),
+                    range: declaration.nameRange,
+                    file: this,
+                    tags: [DiagnosticTag.Unnecessary]
+                });
+            }
+        }
+    }
+
+    /**
+     * Find statements that follow a `return`, `exit for`, `exit while`, `throw`, `end` or `goto` statement in the same block
+     */
+    private findUnreachableCode() {
+        for (const func of this._parser.references.functionExpressions) {
+            const visitor = createVisitor({
+                Block: (block) => {
+                    for (const statements of block.getUnreachableStatements()) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.unreachableCode(),
+                            range: util.createRangeFromPositions(statements[0].range.start, statements[statements.length - 1].range.end),
+                            file: this,
+                            tags: [DiagnosticTag.Unnecessary]
+                        });
+                    }
+                }
+            });
+            if (func.body) {
+                visitor(func.body, undefined);
+                //nested functions are not walked, since they are in the list of function expressions too
+                func.body.walk(visitor, {
+                    walkMode: WalkMode.visitStatements
+                });
+            }
+        }
+    }
+
+    /**
+     * Get the type of a local variable at a position, including the types narrowed by the `if` statements around it
+     */
+    private getLocalVariableType(name: string, functionScope: FunctionScope, position: Position): BscType {
+        const lowerName = name.toLowerCase();
+        const types = functionScope?.variableDeclarations.filter(x => x.name.toLowerCase() === lowerName).map(x => x.type) ?? [];
+        const type = types.length > 0 && types.every(x => x?.toString() === types[0]?.toString()) ? types[0] : new DynamicType();
+        return functionScope ? functionScope.getNarrowedType(name, position, type) : type;
+    }
+
     /**
      * Find the function scope at the given position.
      * @param position
@@ -741,6 +884,11 @@ export class BrsFile {
             }
         }
 
+        let enumMemberCompletions = this.getEnumMemberCompletions(currentToken, this.parseMode, scope);
+        if (enumMemberCompletions.length > 0) {
+            return enumMemberCompletions;
+        }
+
         let namespaceCompletions = this.getNamespaceCompletions(currentToken, this.parseMode, scope);
         if (namespaceCompletions.length > 0) {
             return namespaceCompletions;
@@ -770,7 +918,7 @@ export class BrsFile {
             return this.getLabelCompletion(functionScope);
         }
 
-        if (this.isPositionNextToTokenKind(position, TokenKind.Dot)) {
+        if (this.isPositionNextToTokenKind(position, TokenKind.Dot) || this.isPositionNextToTokenKind(position, TokenKind.QuestionDot)) {
             if (namespaceCompletions.length > 0) {
                 //if we matched a namespace, after a dot, it can't be anything else but something from our namespace completions
                 return namespaceCompletions;
@@ -782,6 +930,11 @@ export class BrsFile {
                 return [...selfClassMemberCompletions.values()].filter((i) => i.label !== 'new');
             }
 
+            const typedMemberCompletions = this.getTypedMemberCompletions(currentToken, scope);
+            if (typedMemberCompletions.length > 0) {
+                return typedMemberCompletions;
+            }
+
             if (!this.getClassFromMReference(position, currentToken, functionScope)) {
                 //and anything from any class in scope to a non m class
                 let classMemberCompletions = scope.getAllClassMemberCompletions();
@@ -824,6 +977,20 @@ export class BrsFile {
             }
 
             if (this.parseMode === ParseMode.BrighterScript) {
+                //include the names of non-namespaced enums
+                for (const link of scope.getEnumMap().values()) {
+                    const enumStatement = link.item;
+                    //skip namespaced enums and duplicate names
+                    if (enumStatement.namespaceName || names[enumStatement.name.toLowerCase()]) {
+                        continue;
+                    }
+                    names[enumStatement.name.toLowerCase()] = true;
+                    result.push({
+                        label: enumStatement.name,
+                        kind: CompletionItemKind.Enum
+                    });
+                }
+
                 //include the first part of namespaces
                 let namespaces = scope.getAllNamespaceStatements();
                 for (let stmt of namespaces) {
@@ -857,25 +1024,138 @@ export class BrsFile {
         if (classStatement) {
             let classes = scope.getClassHierarchy(classStatement.item.getName(ParseMode.BrighterScript).toLowerCase());
             for (let cs of classes) {
-                for (let member of [...cs?.item?.fields, ...cs?.item?.methods]) {
+                //accessors are used like fields
+                for (let member of [...cs?.item?.fields, ...cs?.item?.methods, ...cs?.item?.accessors]) {
                     if (!results.has(member.name.text.toLowerCase())) {
                         results.set(member.name.text.toLowerCase(), {
                             label: member.name.text,
-                            kind: isClassFieldStatement(member) ? CompletionItemKind.Field : CompletionItemKind.Function
+                            kind: isClassMethodStatement(member) && !member.accessorKeyword ? CompletionItemKind.Function : CompletionItemKind.Field
                         });
                     }
                 }
             }
+        } else if (this.parseMode === ParseMode.BrighterScript) {
+            //static members are accessed through the class name (i.e. `Person.create()`)
+            let completionName = this.getPartialVariableName(currentToken, [TokenKind.New]);
+            if (completionName?.includes('.')) {
+                //remove any trailing identifer and then any trailing dot, to give us the name of the class
+                let className = completionName.replace(/\.([a-z0-9_]*)?$/gi, '');
+                const containingNamespace = this.getNamespaceStatementForPosition(position)?.getName(ParseMode.BrighterScript);
+                const classLink = scope.getClassFileLink(className, containingNamespace);
+                //local variables take precedence over non-namespaced classes
+                if (classLink && (className.includes('.') || !functionScope.getVariableByName(className))) {
+                    let classes = scope.getClassHierarchy(classLink.item.getName(ParseMode.BrighterScript).toLowerCase());
+                    for (let cs of classes) {
+                        for (let member of [...cs?.item?.staticFields, ...cs?.item?.staticMethods]) {
+                            if (!results.has(member.name.text.toLowerCase())) {
+                                results.set(member.name.text.toLowerCase(), {
+                                    label: member.name.text,
+                                    kind: isClassFieldStatement(member) ? CompletionItemKind.Field : CompletionItemKind.Function
+                                });
+                            }
+                        }
+                    }
+                }
+            }
         }
         return results;
     }
 
+    /**
+     * Get the members of the value before the dot when its type is known (i.e. `player.` when `player` is a `Player`)
+     */
+    private getTypedMemberCompletions(currentToken: Token, scope: Scope) {
+        let dotToken = currentToken;
+        if (dotToken?.kind !== TokenKind.Dot && dotToken?.kind !== TokenKind.QuestionDot) {
+            dotToken = this.getPreviousToken(currentToken);
+        }
+        if (dotToken?.kind !== TokenKind.Dot && dotToken?.kind !== TokenKind.QuestionDot) {
+            return [];
+        }
+        const expression = this.getExpressionBeforeDot(dotToken);
+        if (!expression) {
+            return [];
+        }
+        return scope.getMemberCompletions(scope.getExpressionType(this, expression));
+    }
+
+    /**
+     * Get the expression before a dot (i.e. `player.team` in `player.team.`). The statement is usually incomplete while typing,
+     * so the expression is rebuilt from the tokens before the dot
+     */
+    private getExpressionBeforeDot(dotToken: Token): Expression | undefined {
+        const nameTokens = [] as Identifier[];
+        let token = this.getPreviousToken(dotToken);
+        while (token?.kind === TokenKind.Identifier || AllowedLocalIdentifiers.includes(token?.kind)) {
+            nameTokens.unshift(token as Identifier);
+            const previousToken = this.getPreviousToken(token);
+            if (previousToken?.kind !== TokenKind.Dot && previousToken?.kind !== TokenKind.QuestionDot) {
+                break;
+            }
+            token = this.getPreviousToken(previousToken);
+        }
+        if (nameTokens.length === 0) {
+            return undefined;
+        }
+        let expression: Expression = new VariableExpression(nameTokens[0], undefined);
+        for (const nameToken of nameTokens.slice(1)) {
+            expression = new DottedGetExpression(expression, nameToken, undefined);
+        }
+        return expression;
+    }
+
+    /**
+     * Find a method of the built-in component that an expression evaluates to (i.e. `AsSeconds` when `obj` is a `roDateTime`)
+     */
+    private getBrsComponentMethod(obj: Expression, methodName: string): BuiltInMethod | undefined {
+        for (const scope of this.program.getScopesForFile(this)) {
+            const method = scope.getBrsComponentMethod(scope.getExpressionType(this, obj), methodName);
+            if (method) {
+                return method;
+            }
+        }
+    }
+
+    /**
+     * Get the function type of a method of a built-in component, used to show its signature
+     */
+    private getBrsComponentMethodType(method: BuiltInMethod) {
+        const functionType = new FunctionType(method.returnType).setName(method.name);
+        for (const param of method.params) {
+            functionType.addParameter(param.name, param.type, !param.isOptional);
+        }
+        return functionType;
+    }
+
+    /**
+     * Get the signature help for a call to a method of a built-in component (i.e. `date.Format(`)
+     * @param methodName the name of the method being called
+     * @param objText the text before the method name (i.e. `date` or `m.date`)
+     * @param position the position of the call, used to find the variables in scope
+     */
+    public getBrsComponentSignatureHelp(methodName: string, objText: string, position: Position): SignatureInfoObj | undefined {
+        const path = objText.split('.');
+        const range = util.createRangeFromPositions(position, position);
+        const obj = path.length > 1 ? createDottedIdentifier(path, range) : createIdentifier(path[0], range);
+        const method = this.getBrsComponentMethod(obj, methodName);
+        if (!method) {
+            return undefined;
+        }
+        const label = this.getBrsComponentMethodType(method).toString();
+        return {
+            key: label,
+            signature: SignatureInformation.create(label, undefined, ...method.params.map(x => ParameterInformation.create(x.name))),
+            index: 0
+        };
+    }
+
     public getClassFromMReference(position: Position, currentToken: Token, functionScope: FunctionScope): FileLink<ClassStatement> | undefined {
         let previousToken = this.getPreviousToken(currentToken);
         if (previousToken?.kind === TokenKind.Dot) {
             previousToken = this.getPreviousToken(previousToken);
         }
-        if (previousToken?.kind === TokenKind.Identifier && previousToken?.text.toLowerCase() === 'm' && isClassMethodStatement(functionScope.func.functionStatement)) {
+        //`m` is not a class instance inside of static methods
+        if (previousToken?.kind === TokenKind.Identifier && previousToken?.text.toLowerCase() === 'm' && isClassMethodStatement(functionScope.func.functionStatement) && !functionScope.func.functionStatement.staticKeyword) {
             return { item: this.parser.references.classStatements.find((cs) => util.rangeContains(cs.range, position)), file: this };
         }
         return undefined;
@@ -907,6 +1187,31 @@ export class BrsFile {
         return [...results.values()];
     }
 
+    /**
+     * Get completions for the members of an enum (i.e. `Direction.` or `NameA.Direction.u`)
+     */
+    private getEnumMemberCompletions(currentToken: Token, parseMode: ParseMode, scope: Scope): CompletionItem[] {
+        //BrightScript does not support enums, so return an empty list in that case
+        if (parseMode === ParseMode.BrightScript || !currentToken) {
+            return [];
+        }
+        let completionName = this.getPartialVariableName(currentToken, [TokenKind.New]);
+        if (!completionName?.includes('.')) {
+            return [];
+        }
+        //remove any trailing identifer and then any trailing dot, to give us the name of the enum
+        let enumName = completionName.replace(/\.([a-z0-9_]*)?$/gi, '');
+        const containingNamespace = this.getNamespaceStatementForPosition(currentToken.range.start)?.getName(ParseMode.BrighterScript);
+        const enumStatement = scope?.getEnum(enumName, containingNamespace);
+        if (!enumStatement) {
+            return [];
+        }
+        return enumStatement.members.map(member => ({
+            label: member.name,
+            kind: CompletionItemKind.EnumMember
+        }));
+    }
+
     private getNamespaceCompletions(currentToken: Token, parseMode: ParseMode, scope: Scope): CompletionItem[] {
         //BrightScript does not support namespaces, so return an empty list in that case
         if (parseMode === ParseMode.BrightScript) {
@@ -961,6 +1266,13 @@ export class BrsFile {
                                 kind: CompletionItemKind.Function
                             });
                         }
+                    } else if (isEnumStatement(stmt) && stmt.name && !newToken) {
+                        if (!result.has(stmt.name)) {
+                            result.set(stmt.name, {
+                                label: stmt.name,
+                                kind: CompletionItemKind.Enum
+                            });
+                        }
                     }
 
                 }
@@ -1115,6 +1427,25 @@ export class BrsFile {
         return false;
     }
 
+    /**
+     * Determine if a variable expression is the name of a namespace, enum, const or class (i.e. `NameA` in `NameA.fn()`) rather than a variable.
+     * These names are replaced when transpiled, so they don't exist as variables at runtime. Local variables and parameters take precedence
+     */
+    public isNamespaceOrTypeName(expression: VariableExpression) {
+        const name = expression.name.text;
+        if (this.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(name)) {
+            return false;
+        }
+        const containingNamespace = this.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript);
+        return this.program.getScopesForFile(this).some(scope => {
+            return !!scope.namespaceLookup[name.toLowerCase()] ||
+                !!scope.getEnum(name, containingNamespace) ||
+                !!scope.getConst(name, containingNamespace) ||
+                scope.hasClass(name, containingNamespace) ||
+                this.calleeIsKnownNamespaceFunction(expression, expression.namespaceName?.getName(ParseMode.BrighterScript));
+        });
+    }
+
     /**
      * Determine if the callee (i.e. function name) is a known function declared on the given namespace.
      */
@@ -1135,6 +1466,171 @@ export class BrsFile {
         return false;
     }
 
+    /**
+     * Get the namespace statement that contains the given position (if any)
+     */
+    public getNamespaceStatementForPosition(position: Position): NamespaceStatement | undefined {
+        return this.parser.references.namespaceStatements.find(x => util.rangeContains(x.range, position));
+    }
+
+    /**
+     * Find an enum by name in any of the scopes this file belongs to. Relative enum names are resolved using
+     * the namespace surrounding the given position
+     */
+    public getEnumByName(enumName: string, position: Position): EnumStatement | undefined {
+        if (!enumName) {
+            return undefined;
+        }
+        const containingNamespace = this.getNamespaceStatementForPosition(position)?.getName(ParseMode.BrighterScript);
+        for (let scope of this.program.getScopesForFile(this)) {
+            const enumStatement = scope.getEnum(enumName, containingNamespace);
+            if (enumStatement) {
+                return enumStatement;
+            }
+        }
+    }
+
+    /**
+     * Get the literal value for an enum member reference (i.e. `1` for `Direction.up`).
+     * Returns undefined if the expression does not reference a known enum member, or if it starts with a local variable with the same name as the enum
+     */
+    public getEnumMemberValue(expression: Expression): string | undefined {
+        const parts = util.getAllDottedGetParts(expression);
+        if (parts?.length > 1) {
+            //local variables and parameters take precedence over non-namespaced enums
+            if (parts.length === 2 && this.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(parts[0].text)) {
+                return undefined;
+            }
+            const memberName = parts.pop().text;
+            const enumName = parts.map(x => x.text).join('.');
+            return this.getEnumByName(enumName, expression.range.start)?.getMemberValue(memberName);
+        }
+    }
+
+    /**
+     * Get the const referenced by the expression (i.e. `PI` or `Name.PI`).
+     * Returns undefined if the expression does not reference a known const, or if it references a local variable with the same name
+     */
+    public getConstStatement(expression: Expression): ConstStatement | undefined {
+        const parts = util.getAllDottedGetParts(expression);
+        if (!parts) {
+            return undefined;
+        }
+        const constName = parts.map(x => x.text).join('.');
+        const containingNamespace = this.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript);
+        for (let scope of this.program.getScopesForFile(this)) {
+            const constStatement = scope.getConst(constName, containingNamespace);
+            if (constStatement) {
+                //local variables and parameters take precedence over non-namespaced consts
+                if (parts.length === 1 && this.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(constName)) {
+                    return undefined;
+                }
+                return constStatement;
+            }
+        }
+    }
+
+    /**
+     * Replace references to type aliases (i.e. `type OptionalString = string | invalid`) with the type they represent
+     */
+    public resolveTypeAliases(type: BscType, containingNamespace?: string): BscType {
+        for (let scope of this.program.getScopesForFile(this)) {
+            const resolvedType = scope.resolveTypeAliases(type, containingNamespace);
+            if (resolvedType.toString() !== type.toString()) {
+                return resolvedType;
+            }
+        }
+        return type;
+    }
+
+    /**
+     * Get the type of an expression from the first scope that can determine it
+     */
+    public getExpressionType(expression: Expression): BscType {
+        for (let scope of this.program.getScopesForFile(this)) {
+            const type = scope.getExpressionType(this, expression);
+            if (!isDynamicType(type)) {
+                return type;
+            }
+        }
+        return new DynamicType();
+    }
+
+    /**
+     * Get the text of a type annotation (i.e. `as string | invalid`). BrightScript has no union types, type aliases or generics,
+     * so transpiled code uses the BrightScript type they represent, while typedefs keep them as written
+     */
+    public getTypeAnnotationText(typeToken: Token, type: BscType, containingNamespace: string | undefined, isTypedef: boolean) {
+        const resolvedType = this.resolveTypeAliases(type, containingNamespace);
+        const isGeneric = isGenericType(type) || (isCustomType(type) && type.typeArguments.length > 0);
+        if (isTypedef && (isUnionType(type) || isArrayType(type) || isGeneric || resolvedType !== type)) {
+            return typeToken.text;
+        }
+        return resolvedType.toTypeString();
+    }
+
+    /**
+     * Find the `get` or `set` accessor of a property on the class instance that the expression evaluates to
+     * (i.e. the `isPlaying` getter for `player.isPlaying` when `player` is a `Player`)
+     */
+    public getClassAccessor(obj: Expression, memberName: string, accessorKind: 'get' | 'set'): ClassMethodStatement | undefined {
+        const lowerMemberName = memberName?.toLowerCase();
+        for (let scope of this.program.getScopesForFile(this)) {
+            //only look up the type of the expression if a class in this scope has an accessor with that name
+            const hasAccessor = [...scope.getClassMap().values()].some(x => x.item.getterMap[lowerMemberName] || x.item.setterMap[lowerMemberName]);
+            if (hasAccessor) {
+                const accessor = scope.getClassAccessor(scope.getExpressionType(this, obj), memberName, accessorKind)?.item;
+                if (accessor) {
+                    return accessor;
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the class referenced by name in the expression (i.e. `Person` or `NameA.Person`), which is how static class members are accessed.
+     * Returns undefined if the expression does not reference a known class, or if it references a local variable with the same name
+     */
+    public getClassFromStaticReference(expression: Expression): ClassStatement | undefined {
+        const parts = util.getAllDottedGetParts(expression);
+        if (!parts) {
+            return undefined;
+        }
+        const className = parts.map(x => x.text).join('.');
+        const containingNamespace = this.getNamespaceStatementForPosition(expression.range.start)?.getName(ParseMode.BrighterScript);
+        const classStatement = this.getClassFileLink(className, containingNamespace)?.item;
+        //local variables and parameters take precedence over non-namespaced classes
+        if (classStatement && parts.length === 1 && this.getFunctionScopeAtPosition(expression.range.start)?.getVariableByName(className)) {
+            return undefined;
+        }
+        return classStatement;
+    }
+
+    /**
+     * Find a static member by name on the class referenced by the expression, or on any of that class's ancestors.
+     * Returns the member along with the class that declares it
+     */
+    public getStaticClassMember(classExpression: Expression, memberName: string): { classStatement: ClassStatement; member: ClassMemberStatement } | undefined {
+        const lowerMemberName = memberName?.toLowerCase();
+        let classStatement = this.getClassFromStaticReference(classExpression);
+        //guard against circular class inheritance
+        const visited = new Set<ClassStatement>();
+        while (classStatement && !visited.has(classStatement)) {
+            visited.add(classStatement);
+            const member = classStatement.staticMemberMap[lowerMemberName];
+            if (member) {
+                return {
+                    classStatement: classStatement,
+                    member: member
+                };
+            }
+            classStatement = classStatement.parentClassName ? this.getClassFileLink(
+                classStatement.parentClassName.getName(ParseMode.BrighterScript),
+                classStatement.namespaceName?.getName(ParseMode.BrighterScript)
+            )?.item : undefined;
+        }
+    }
+
     /**
      * Get the token closest to the position. if no token is found, the previous token is returned
      * @param position
@@ -1428,6 +1924,19 @@ export class BrsFile {
 
         let lowerTokenText = token.text.toLowerCase();
 
+        //look for methods of built-in components (i.e. `AsSeconds` in `date.AsSeconds()`)
+        {
+            const dotToken = this.getPreviousToken(token);
+            const obj = dotToken?.kind === TokenKind.Dot || dotToken?.kind === TokenKind.QuestionDot ? this.getExpressionBeforeDot(dotToken) : undefined;
+            const method = obj ? this.getBrsComponentMethod(obj, token.text) : undefined;
+            if (method) {
+                return {
+                    range: token.range,
+                    contents: this.getBrsComponentMethodType(method).toString()
+                };
+            }
+        }
+
         //look through local variables first
         {
             //get the function scope for this position (if exists)
@@ -1437,11 +1946,18 @@ export class BrsFile {
                 for (const varDeclaration of functionScope.variableDeclarations) {
                     //we found a variable declaration with this token text!
                     if (varDeclaration.name.toLowerCase() === lowerTokenText) {
+                        //the scopes know more about some variables (i.e. the loop variable of a `for each` over a typed array, or the component created by `CreateObject()`)
+                        let type = varDeclaration.type;
+                        if (isDynamicType(type) || isObjectType(type)) {
+                            const scopeType = this.getExpressionType(new VariableExpression(token as Identifier, undefined));
+                            type = isDynamicType(scopeType) ? type : scopeType;
+                        }
+                        type = functionScope.getNarrowedType(token.text, token.range.start, type);
                         let typeText: string;
-                        if (isFunctionType(varDeclaration.type)) {
-                            typeText = varDeclaration.type.toString();
+                        if (isFunctionType(type)) {
+                            typeText = type.toString();
                         } else {
-                            typeText = `${varDeclaration.name} as ${varDeclaration.type.toString()}`;
+                            typeText = `${varDeclaration.name} as ${type.toString()}`;
                         }
                         return {
                             range: token.range,
@@ -1461,6 +1977,45 @@ export class BrsFile {
             }
         }
 
+        //look for enums and enum members
+        {
+            const nameParts = this.getPartialVariableName(token)?.split('.') ?? [];
+            //hovering over the enum name itself
+            let enumStatement = this.getEnumByName(nameParts.join('.'), position);
+            if (enumStatement) {
+                return {
+                    range: token.range,
+                    contents: `enum ${enumStatement.fullName}`
+                };
+            }
+            //hovering over an enum member
+            const memberName = nameParts.pop();
+            enumStatement = this.getEnumByName(nameParts.join('.'), position);
+            const member = enumStatement?.getMember(memberName);
+            if (member) {
+                return {
+                    range: token.range,
+                    contents: `${enumStatement.fullName}.${member.name} = ${enumStatement.getMemberValue(member.name)}`
+                };
+            }
+        }
+
+        //look for type aliases (the name in the declaration itself would include the `type` keyword as part of the name)
+        {
+            let typeAlias = this.parser.references.typeAliasStatements.find(x => x.tokens.name === token);
+            if (!typeAlias) {
+                const typeAliasName = this.getPartialVariableName(token, [TokenKind.As]);
+                const containingNamespace = this.getNamespaceStatementForPosition(position)?.getName(ParseMode.BrighterScript);
+                typeAlias = this.program.getScopesForFile(this).map(x => x.getTypeAlias(typeAliasName, containingNamespace)).find(x => x);
+            }
+            if (typeAlias) {
+                return {
+                    range: token.range,
+                    contents: `type ${typeAlias.fullName} = ${typeAlias.getType().toString()}`
+                };
+            }
+        }
+
         //look through all callables in relevant scopes
         {
             let scopes = this.program.getScopesForFile(this);
@@ -1612,17 +2167,32 @@ export class BrsFile {
         const scopes = this.program.getScopesForFile(this);
 
         for (const scope of scopes) {
-            const processedFiles = new Set<BrsFile>();
+            const processedFiles = new Set<BscFile>();
             for (const file of scope.getAllFiles()) {
-                if (isXmlFile(file) || processedFiles.has(file)) {
+                if (processedFiles.has(file)) {
                     continue;
                 }
                 processedFiles.add(file);
+                //functions are referenced by name in the `onChange` handlers of interface fields
+                if (isXmlFile(file)) {
+                    for (const field of file.ast.component?.api?.fields ?? []) {
+                        if (field.onChange?.toLowerCase() === searchFor) {
+                            locations.push(Location.create(util.pathToUri(file.pathAbsolute), field.getAttribute('onChange').value.range));
+                        }
+                    }
+                    continue;
+                }
                 file.ast.walk(createVisitor({
                     VariableExpression: (e) => {
                         if (e.name.text.toLowerCase() === searchFor) {
                             locations.push(Location.create(util.pathToUri(file.pathAbsolute), e.range));
                         }
+                    },
+                    CallExpression: (e) => {
+                        const callbackToken = util.getObserverCallbackToken(e);
+                        if (callbackToken?.text.replace(/^"(.*)"$/, '$1').toLowerCase() === searchFor) {
+                            locations.push(Location.create(util.pathToUri(file.pathAbsolute), callbackToken.range));
+                        }
                     }
                 }), {
                     walkMode: WalkMode.visitExpressionsRecursive
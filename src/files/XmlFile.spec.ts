@@ -9,7 +9,7 @@ import type { BsDiagnostic, FileReference } from '../interfaces';
 import { Program } from '../Program';
 import { BrsFile } from './BrsFile';
 import { XmlFile } from './XmlFile';
-import { standardizePath as s } from '../util';
+import util, { standardizePath as s } from '../util';
 import { expectZeroDiagnostics, getTestTranspile, trim, trimMap } from '../testHelpers.spec';
 
 describe('XmlFile', () => {
@@ -346,6 +346,10 @@ describe('XmlFile', () => {
                 rootDir: rootDir,
                 autoImportComponentScript: true
             });
+            program.addOrReplaceFile('components/GrandparentScene.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="GrandparentScene" extends="Scene" />
+            `);
             program.addOrReplaceFile({ src: `${rootDir}/components/comp1.xml`, dest: 'components/comp1.xml' }, trim`
                 <?xml version="1.0" encoding="utf-8" ?>
                 <component name="ParentScene" extends="GrandparentScene">
@@ -414,6 +418,87 @@ describe('XmlFile', () => {
 
             expect(program.getCompletions(xmlFile.pathAbsolute, Position.create(1, 1))).to.be.empty;
         });
+
+        it('includes components and built-in nodes for node names', () => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group" />
+            `);
+            const xmlFile = program.addOrReplaceFile('components/Main.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Main" extends="Scene">
+                    <children>
+                        <Label id="title" />
+                    </children>
+                </component>
+            `);
+            //extends="Sc|ene"
+            let labels = program.getCompletions(xmlFile.pathAbsolute, Position.create(1, 36)).map(x => x.label);
+            expect(labels).to.include.members(['Widget', 'Label', 'Poster', 'Scene']);
+            //<La|bel id="title" />
+            labels = program.getCompletions(xmlFile.pathAbsolute, Position.create(3, 11)).map(x => x.label);
+            expect(labels).to.include.members(['Widget', 'Label', 'Poster', 'Scene']);
+        });
+
+        it('includes the fields of child nodes for attribute names', () => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group">
+                    <interface>
+                        <field id="title" type="string" />
+                    </interface>
+                </component>
+            `);
+            const xmlFile = program.addOrReplaceFile('components/Main.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Main" extends="Scene">
+                    <children>
+                        <Label id="title" />
+                        <Widget id="widget" />
+                    </children>
+                </component>
+            `);
+            //<Label i|d="title" />
+            let completions = program.getCompletions(xmlFile.pathAbsolute, Position.create(3, 16));
+            expect(completions.map(x => x.label)).to.include.members(['text', 'font', 'visible', 'id']);
+            expect(completions.find(x => x.label === 'text')).to.include({
+                kind: CompletionItemKind.Field,
+                detail: 'string'
+            });
+            //<Widget i|d="widget" />
+            completions = program.getCompletions(xmlFile.pathAbsolute, Position.create(4, 17));
+            expect(completions.map(x => x.label)).to.include.members(['title', 'visible', 'id']);
+        });
+    });
+
+    describe('getHover', () => {
+        it('shows built-in nodes, components and fields', () => {
+            program.addOrReplaceFile('components/Widget.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Widget" extends="Group" />
+            `);
+            const xmlFile = program.addOrReplaceFile<XmlFile>('components/Main.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="Main" extends="Scene">
+                    <children>
+                        <Label text="hello" />
+                        <Widget />
+                    </children>
+                </component>
+            `);
+            //extends="Sc|ene"
+            expect(xmlFile.getHover(Position.create(1, 36)).contents).to.eql(
+                'node Scene extends Group\n\nThe root node of a SceneGraph channel.'
+            );
+            //<Wid|get />
+            expect(xmlFile.getHover(Position.create(4, 12))).to.eql({
+                range: util.createRange(4, 9, 4, 15),
+                contents: 'component Widget extends Group'
+            });
+            //<Label te|xt="hello" />
+            expect(xmlFile.getHover(Position.create(3, 17)).contents).to.eql('text as string');
+            expect(xmlFile.getHover(Position.create(0, 0))).to.be.null;
+        });
     });
 
     describe('getAllDependencies', () => {
@@ -734,6 +819,15 @@ describe('XmlFile', () => {
                 sub b()
                 end sub
             `);
+            //the custom nodes used in the children
+            program.addOrReplaceFile('components/aa.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="aa" extends="Group" />
+            `);
+            program.addOrReplaceFile('components/bb.xml', trim`
+                <?xml version="1.0" encoding="utf-8" ?>
+                <component name="bb" extends="Group" />
+            `);
 
             testTranspile(trim`
                 <?xml version="1.0" encoding="utf-8" ?>
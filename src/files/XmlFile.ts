@@ -2,6 +2,7 @@ import * as path from 'path';
 import type { CodeWithSourceMap } from 'source-map';
 import { SourceNode } from 'source-map';
 import type { CompletionItem, Hover, Location, Position, Range } from 'vscode-languageserver';
+import { CompletionItemKind } from 'vscode-languageserver';
 import { DiagnosticCodeMap, diagnosticCodes, DiagnosticMessages } from '../DiagnosticMessages';
 import type { FunctionScope } from '../FunctionScope';
 import type { Callable, BsDiagnostic, File, FileReference, FunctionCall, CommentFlag } from '../interfaces';
@@ -11,7 +12,8 @@ import SGParser, { rangeFromTokenValue } from '../parser/SGParser';
 import chalk from 'chalk';
 import { Cache } from '../Cache';
 import type { DependencyGraph } from '../DependencyGraph';
-import type { SGAst, SGToken } from '../parser/SGTypes';
+import type { SGAst, SGNode, SGToken } from '../parser/SGTypes';
+import { globalNodeMap, globalNodes } from '../globalNodes';
 import { SGScript } from '../parser/SGTypes';
 import { CommentFlagProcessor } from '../CommentFlagProcessor';
 import type { IToken, TokenType } from 'chevrotain';
@@ -394,9 +396,54 @@ export class XmlFile {
         let scriptImport = util.getScriptImportAtPosition(this.scriptTagImports, position);
         if (scriptImport) {
             return this.program.getScriptImportCompletions(this.pkgPath, scriptImport);
-        } else {
-            return [];
         }
+        //the name of the extended node, or the name of a child node
+        const extendsValue = this.ast.component?.getAttribute('extends')?.value;
+        const node = this.getChildNodeAtPosition(position);
+        if (
+            (extendsValue?.range && util.rangeContains(extendsValue.range, position)) ||
+            (node && util.rangeContains(node.tag.range, position))
+        ) {
+            return [
+                ...this.program.getComponentNames(),
+                ...globalNodes.map(x => x.name)
+            ].map(name => ({
+                label: name,
+                kind: CompletionItemKind.Class
+            }));
+        }
+        //the fields of a child node
+        const attribute = node?.attributes.find(x => x.key.range && util.rangeContains(x.key.range, position));
+        if (attribute) {
+            const fields = this.getScope()?.getNodeFieldInfo(node.tag.text)?.fields.values() ?? [];
+            return [...fields].map(field => ({
+                label: field.id,
+                kind: CompletionItemKind.Field,
+                detail: field.type
+            }));
+        }
+        return [];
+    }
+
+    /**
+     * Get the scope for this component
+     */
+    private getScope() {
+        return this.program.getComponentScope(this.componentName?.text);
+    }
+
+    /**
+     * Find the innermost node in the `<children>` of this component that contains the position
+     */
+    private getChildNodeAtPosition(position: Position) {
+        let nodes = this.ast.component?.children?.children ?? [];
+        let result: SGNode;
+        let node: SGNode;
+        while ((node = nodes.find(x => x.range && util.rangeContains(x.range, position)))) {
+            result = node;
+            nodes = node.children ?? [];
+        }
+        return result;
     }
 
     /**
@@ -408,9 +455,41 @@ export class XmlFile {
         });
     }
 
-    public getHover(position: Position): Hover { //eslint-disable-line
-        //TODO implement
-        // let result = {} as Hover;
+    public getHover(position: Position): Hover {
+        //the name of the extended node, or the name of a child node
+        const extendsValue = this.ast.component?.getAttribute('extends')?.value;
+        const node = this.getChildNodeAtPosition(position);
+        let nameToken: SGToken;
+        if (extendsValue?.range && util.rangeContains(extendsValue.range, position)) {
+            nameToken = extendsValue;
+        } else if (node && util.rangeContains(node.tag.range, position)) {
+            nameToken = node.tag;
+        }
+        if (nameToken) {
+            const component = this.program.getComponent(nameToken.text)?.file;
+            const builtInNode = globalNodeMap.get(nameToken.text.toLowerCase());
+            if (component) {
+                return {
+                    range: nameToken.range,
+                    contents: `component ${component.componentName.text}${component.parentComponentName ? ` extends ${component.parentComponentName.text}` : ''}`
+                };
+            } else if (builtInNode) {
+                return {
+                    range: nameToken.range,
+                    contents: `node ${builtInNode.name}${builtInNode.extends ? ` extends ${builtInNode.extends}` : ''}\n\n${builtInNode.description}`
+                };
+            }
+            return null;
+        }
+        //the fields of a child node
+        const attribute = node?.attributes.find(x => x.key.range && util.rangeContains(x.key.range, position));
+        const field = attribute ? this.getScope()?.getNodeFieldInfo(node.tag.text)?.fields.get(attribute.key.text.toLowerCase()) : undefined;
+        if (field) {
+            return {
+                range: attribute.key.range,
+                contents: `${field.id} as ${field.type ?? 'dynamic'}`
+            };
+        }
         return null;
     }
 
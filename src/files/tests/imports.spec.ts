@@ -6,7 +6,7 @@ import { Program } from '../../Program';
 import { standardizePath as s } from '../../util';
 import type { XmlFile } from '../XmlFile';
 import type { BrsFile } from '../BrsFile';
-import { expectZeroDiagnostics, getTestTranspile, trim, trimMap } from '../../testHelpers.spec';
+import { expectZeroDiagnostics, getTestTranspile, trim, trimMap, withoutHints } from '../../testHelpers.spec';
 
 let sinon = sinonImport.createSandbox();
 let tmpPath = s`${process.cwd()}/.tmp`;
@@ -24,6 +24,11 @@ describe('import statements', () => {
             rootDir: rootDir,
             stagingFolderPath: stagingFolderPath
         });
+        //the parent of the `ChildScene` components in these tests
+        program.addOrReplaceFile('components/ParentScene.xml', trim`
+            <?xml version="1.0" encoding="utf-8" ?>
+            <component name="ParentScene" extends="Scene" />
+        `);
     });
     afterEach(() => {
         sinon.restore();
@@ -98,7 +103,7 @@ describe('import statements', () => {
             end function
         `);
         program.validate();
-        expect(program.getDiagnostics().map(x => x.message)[0]).to.not.exist;
+        expectZeroDiagnostics(program);
         expect(
             (component as XmlFile).getAvailableScriptImports().sort()
         ).to.eql([
@@ -157,7 +162,7 @@ describe('import statements', () => {
         //there should be an error because that function doesn't exist
         program.validate();
 
-        expect(program.getDiagnostics().map(x => x.message)).to.eql([
+        expect(withoutHints(program.getDiagnostics()).map(x => x.message)).to.eql([
             DiagnosticMessages.callToUnknownFunction('Waddle', s`components/ChildScene.xml`).message
         ]);
 
@@ -0,0 +1,447 @@
+import { expect } from 'chai';
+import { TextEdit } from 'vscode-languageserver';
+import type { FormattingOptions } from './Formatter';
+import { Formatter } from './Formatter';
+import util from '../util';
+
+describe('Formatter', () => {
+    function format(lines: string[], options?: FormattingOptions) {
+        return new Formatter(options).format(lines.join('\n')).split('\n');
+    }
+
+    function testFormat(input: string[], expected: string[], options?: FormattingOptions) {
+        expect(format(input, options)).to.eql(expected);
+    }
+
+    describe('indentation', () => {
+        it('indents function bodies', () => {
+            testFormat([
+                'sub main()',
+                'print "hello"',
+                '        print "world"',
+                'end sub'
+            ], [
+                'sub main()',
+                '    print "hello"',
+                '    print "world"',
+                'end sub'
+            ]);
+        });
+
+        it('indents nested blocks', () => {
+            testFormat([
+                'function main()',
+                'if true then',
+                'for i = 0 to 10',
+                'while false',
+                'end while',
+                'next',
+                'else if false',
+                'for each item in items',
+                'end for',
+                'else',
+                'try',
+                'throw "oops"',
+                'catch e',
+                'print e',
+                'end try',
+                'end if',
+                'end function'
+            ], [
+                'function main()',
+                '    if true then',
+                '        for i = 0 to 10',
+                '            while false',
+                '            end while',
+                '        next',
+                '    else if false',
+                '        for each item in items',
+                '        end for',
+                '    else',
+                '        try',
+                '            throw "oops"',
+                '        catch e',
+                '            print e',
+                '        end try',
+                '    end if',
+                'end function'
+            ]);
+        });
+
+        it('does not indent after single-line if statements', () => {
+            testFormat([
+                'sub main()',
+                'if true then print "a" else print "b"',
+                'print "c"',
+                'end sub'
+            ], [
+                'sub main()',
+                '    if true then print "a" else print "b"',
+                '    print "c"',
+                'end sub'
+            ]);
+        });
+
+        it('indents namespaces, classes, interfaces and enums', () => {
+            testFormat([
+                'namespace Alpha',
+                'class Person',
+                'public name as string',
+                'function new()',
+                'm.name = "bob"',
+                'end function',
+                'end class',
+                'interface Thing',
+                'function go() as string',
+                'end interface',
+                'enum Direction',
+                'up',
+                'end enum',
+                'end namespace'
+            ], [
+                'namespace Alpha',
+                '    class Person',
+                '        public name as string',
+                '        function new()',
+                '            m.name = "bob"',
+                '        end function',
+                '    end class',
+                '    interface Thing',
+                '        function go() as string',
+                '    end interface',
+                '    enum Direction',
+                '        up',
+                '    end enum',
+                'end namespace'
+            ]);
+        });
+
+        it('indents multi-line array and associative array literals', () => {
+            testFormat([
+                'sub main()',
+                'person = {',
+                'name: "bob",',
+                'friends: [',
+                '"alice"',
+                ']',
+                '}',
+                'end sub'
+            ], [
+                'sub main()',
+                '    person = {',
+                '        name: "bob",',
+                '        friends: [',
+                '            "alice"',
+                '        ]',
+                '    }',
+                'end sub'
+            ]);
+        });
+
+        it('only indents once for multiple blocks opened on the same line', () => {
+            testFormat([
+                'sub main()',
+                'callback(function()',
+                'return true',
+                'end function)',
+                'end sub'
+            ], [
+                'sub main()',
+                '    callback(function()',
+                '        return true',
+                '    end function)',
+                'end sub'
+            ]);
+        });
+
+        it('does not treat keywords used as names as blocks', () => {
+            testFormat([
+                'sub main(cb as function)',
+                'node = { next: invalid, if: true }',
+                'print node.next, node.while',
+                'end sub'
+            ], [
+                'sub main(cb as function)',
+                '    node = { next: invalid, if: true }',
+                '    print node.next, node.while',
+                'end sub'
+            ]);
+        });
+
+        it('indents conditional compile blocks', () => {
+            testFormat([
+                'sub main()',
+                '#if DEBUG',
+                'print "debug"',
+                '#else',
+                'print "release"',
+                '#end if',
+                'end sub'
+            ], [
+                'sub main()',
+                '    #if DEBUG',
+                '        print "debug"',
+                '    #else',
+                '        print "release"',
+                '    #end if',
+                'end sub'
+            ]);
+        });
+
+        it('leaves multi-line template strings alone', () => {
+            testFormat([
+                'sub main()',
+                'print `line1',
+                '  line2`',
+                'end sub'
+            ], [
+                'sub main()',
+                '    print `line1',
+                '  line2`',
+                'end sub'
+            ]);
+        });
+
+        it('supports tabs', () => {
+            testFormat([
+                'sub main()',
+                'print "hello"',
+                'end sub'
+            ], [
+                'sub main()',
+                '\tprint "hello"',
+                'end sub'
+            ], { indentStyle: 'tabs' });
+        });
+
+        it('removes trailing whitespace and whitespace-only lines', () => {
+            testFormat([
+                'sub main()   ',
+                '    ',
+                '    print "hello"\t',
+                'end sub'
+            ], [
+                'sub main()',
+                '',
+                '    print "hello"',
+                'end sub'
+            ]);
+        });
+    });
+
+    describe('keyword case', () => {
+        const input = [
+            'Function main() AS Object',
+            'IF TRUE Then return invalid',
+            'End Function'
+        ];
+
+        it('lower cases keywords by default', () => {
+            testFormat(input, [
+                'function main() as object',
+                '    if true then return invalid',
+                'end function'
+            ]);
+        });
+
+        it('upper cases keywords', () => {
+            testFormat(input, [
+                'FUNCTION main() AS OBJECT',
+                '    IF TRUE THEN RETURN INVALID',
+                'END FUNCTION'
+            ], { keywordCase: 'upper' });
+        });
+
+        it('title cases keywords', () => {
+            testFormat(input, [
+                'Function main() As Object',
+                '    If True Then Return Invalid',
+                'End Function'
+            ], { keywordCase: 'title' });
+        });
+
+        it('leaves keyword casing alone', () => {
+            testFormat(input, [
+                'Function main() AS Object',
+                '    IF TRUE Then return invalid',
+                'End Function'
+            ], { keywordCase: 'original' });
+        });
+
+        it('does not change the case of keywords used as names', () => {
+            testFormat([
+                'sub main()',
+                'print node.Next, { Next: 1 }',
+                'end sub'
+            ], [
+                'SUB main()',
+                '    PRINT node.Next, { Next: 1 }',
+                'END SUB'
+            ], { keywordCase: 'upper' });
+        });
+    });
+
+    describe('composite keywords', () => {
+        const input = [
+            'sub main()',
+            'while true',
+            'if true',
+            'exit while',
+            'elseif false',
+            'for each item in items',
+            'endfor',
+            'end    if',
+            'endwhile',
+            'end sub'
+        ];
+
+        it('splits composite keywords by default', () => {
+            testFormat(input, [
+                'sub main()',
+                '    while true',
+                '        if true',
+                '            exit while',
+                '        else if false',
+                '            for each item in items',
+                '            end for',
+                '        end if',
+                '    end while',
+                'end sub'
+            ]);
+        });
+
+        it('combines composite keywords', () => {
+            testFormat(input, [
+                'sub main()',
+                '    while true',
+                '        if true',
+                '            exitwhile',
+                '        elseif false',
+                '            for each item in items',
+                '            endfor',
+                '        endif',
+                '    endwhile',
+                'endsub'
+            ], { compositeKeywords: 'combine' });
+        });
+
+        it('title cases each word of composite keywords', () => {
+            testFormat([
+                'sub main()',
+                'if true',
+                'elseif false',
+                'endif',
+                'end sub'
+            ], [
+                'Sub main()',
+                '    If True',
+                '    ElseIf False',
+                '    EndIf',
+                'EndSub'
+            ], { compositeKeywords: 'combine', keywordCase: 'title' });
+        });
+
+        it('leaves composite keywords alone', () => {
+            expect(
+                format(input, { compositeKeywords: 'original' })[7]
+            ).to.eql('        end    if');
+        });
+    });
+
+    describe('operators', () => {
+        it('adds spaces around binary and assignment operators', () => {
+            testFormat([
+                'sub main()',
+                'a=1+2*3-4/5\\6^7',
+                'a+=1',
+                'b=a<>1   and   a<=2 or a>=3',
+                'c=a??b',
+                'end sub'
+            ], [
+                'sub main()',
+                '    a = 1 + 2 * 3 - 4 / 5 \\ 6 ^ 7',
+                '    a += 1',
+                '    b = a <> 1 and a <= 2 or a >= 3',
+                '    c = a ?? b',
+                'end sub'
+            ]);
+        });
+
+        it('does not add spaces after unary operators', () => {
+            testFormat([
+                'sub main(a = -1)',
+                'print -a, [-1, +2], (-3)',
+                'return -1',
+                'end sub'
+            ], [
+                'sub main(a = -1)',
+                '    print -a, [-1, +2], (-3)',
+                '    return -1',
+                'end sub'
+            ]);
+        });
+
+        it('handles keywords used as property names as operands', () => {
+            testFormat([
+                'sub main()',
+                'print node.next-1',
+                'end sub'
+            ], [
+                'sub main()',
+                '    print node.next - 1',
+                'end sub'
+            ]);
+        });
+
+        it('can be disabled', () => {
+            testFormat([
+                'sub main()',
+                'a=1+2',
+                'end sub'
+            ], [
+                'sub main()',
+                '    a=1+2',
+                'end sub'
+            ], { insertSpaceAroundOperators: false });
+        });
+    });
+
+    it('leaves comments alone', () => {
+        testFormat([
+            'sub main()',
+            `'IF a=b THEN`,
+            `print 1 'a=b`,
+            'REM  a=b',
+            'end sub'
+        ], [
+            'sub main()',
+            `    'IF a=b THEN`,
+            `    print 1 'a=b`,
+            '    REM  a=b',
+            'end sub'
+        ]);
+    });
+
+    it('keeps windows line endings', () => {
+        expect(
+            new Formatter().format('sub main()\r\nprint 1\r\nend sub\r\n')
+        ).to.eql('sub main()\r\n    print 1\r\nend sub\r\n');
+    });
+
+    describe('getEdits', () => {
+        const text = 'sub main()\nprint 1\n  print 2\nend sub';
+
+        it('returns edits for every changed line', () => {
+            expect(new Formatter().getEdits(text)).to.eql([
+                TextEdit.replace(util.createRange(1, 0, 1, 7), '    print 1'),
+                TextEdit.replace(util.createRange(2, 0, 2, 9), '    print 2')
+            ]);
+        });
+
+        it('only returns edits for lines within the range', () => {
+            expect(new Formatter().getEdits(text, util.createRange(2, 0, 2, 3))).to.eql([
+                TextEdit.replace(util.createRange(2, 0, 2, 9), '    print 2')
+            ]);
+        });
+    });
+});
@@ -0,0 +1,514 @@
+import type { Range } from 'vscode-languageserver';
+import { TextEdit } from 'vscode-languageserver';
+import { isCommentStatement } from '../astUtils/reflection';
+import { createVisitor, WalkMode } from '../astUtils/visitors';
+import type { Token } from '../lexer';
+import { Keywords, Lexer, TokenKind } from '../lexer';
+import { Parser, ParseMode } from '../parser';
+import util from '../util';
+
+export interface FormattingOptions {
+    /**
+     * The type of indentation to use when indenting the beginning of lines.
+     * @default "spaces"
+     */
+    indentStyle?: 'tabs' | 'spaces';
+    /**
+     * The number of spaces to use for each level of indentation when `indentStyle` is "spaces".
+     * @default 4
+     */
+    indentSpaceCount?: number;
+    /**
+     * The casing to apply to keywords (`function`, `if`, `end while`, `true`, etc...). Use "original" to leave keyword casing alone.
+     * @default "lower"
+     */
+    keywordCase?: 'lower' | 'upper' | 'title' | 'original';
+    /**
+     * How composite keywords (`end if`, `end while`, `else if`, etc...) should be written.
+     * "split" separates the words with a single space (`endif` becomes `end if`), "combine" removes the space (`end if` becomes `endif`),
+     * and "original" leaves them alone. Keywords that are only valid with a space (`exit for`, `for each`) are never combined.
+     * @default "split"
+     */
+    compositeKeywords?: 'split' | 'combine' | 'original';
+    /**
+     * If true, binary and assignment operators will be surrounded by exactly one space (i.e. `a=b+c` becomes `a = b + c`)
+     * @default true
+     */
+    insertSpaceAroundOperators?: boolean;
+}
+
+/**
+ * The words that make up each composite keyword
+ */
+const compositeKeywordWords = new Map<TokenKind, string[]>([
+    [TokenKind.EndClass, ['end', 'class']],
+    [TokenKind.EndEnum, ['end', 'enum']],
+    [TokenKind.EndFor, ['end', 'for']],
+    [TokenKind.EndFunction, ['end', 'function']],
+    [TokenKind.EndIf, ['end', 'if']],
+    [TokenKind.EndInterface, ['end', 'interface']],
+    [TokenKind.EndNamespace, ['end', 'namespace']],
+    [TokenKind.EndSub, ['end', 'sub']],
+    [TokenKind.EndTry, ['end', 'try']],
+    [TokenKind.EndWhile, ['end', 'while']],
+    [TokenKind.ExitFor, ['exit', 'for']],
+    [TokenKind.ExitWhile, ['exit', 'while']],
+    [TokenKind.ForEach, ['for', 'each']]
+]);
+
+/**
+ * Composite keywords that are not valid without the space between the words
+ */
+const splitOnlyKeywords = [TokenKind.ExitFor, TokenKind.ForEach];
+
+const keywordKinds = new Set<TokenKind>(
+    Object.values(Keywords).filter(kind => !!kind && ![
+        TokenKind.LineNumLiteral,
+        TokenKind.SourceFilePathLiteral,
+        TokenKind.SourceLineNumLiteral,
+        TokenKind.FunctionNameLiteral,
+        TokenKind.SourceFunctionNameLiteral,
+        TokenKind.SourceLocationLiteral,
+        TokenKind.PkgPathLiteral,
+        TokenKind.PkgLocationLiteral
+    ].includes(kind))
+);
+
+const binaryOperators = [
+    TokenKind.And,
+    TokenKind.Backslash,
+    TokenKind.BackslashEqual,
+    TokenKind.Caret,
+    TokenKind.Equal,
+    TokenKind.Forwardslash,
+    TokenKind.ForwardslashEqual,
+    TokenKind.Greater,
+    TokenKind.GreaterEqual,
+    TokenKind.LeftShift,
+    TokenKind.LeftShiftEqual,
+    TokenKind.Less,
+    TokenKind.LessEqual,
+    TokenKind.LessGreater,
+    TokenKind.Minus,
+    TokenKind.MinusEqual,
+    TokenKind.Mod,
+    TokenKind.Or,
+    TokenKind.Plus,
+    TokenKind.PlusEqual,
+    TokenKind.QuestionQuestion,
+    TokenKind.RightShift,
+    TokenKind.RightShiftEqual,
+    TokenKind.Star,
+    TokenKind.StarEqual
+];
+
+/**
+ * Tokens that can end an operand. An operator preceeded by anything else is a unary operator (i.e. `-1`, `print +x`)
+ */
+const operandEndKinds = [
+    TokenKind.Identifier,
+    TokenKind.StringLiteral,
+    TokenKind.IntegerLiteral,
+    TokenKind.FloatLiteral,
+    TokenKind.DoubleLiteral,
+    TokenKind.LongIntegerLiteral,
+    TokenKind.True,
+    TokenKind.False,
+    TokenKind.Invalid,
+    TokenKind.RightParen,
+    TokenKind.RightSquareBracket,
+    TokenKind.RightCurlyBrace,
+    TokenKind.BackTick,
+    TokenKind.LineNumLiteral,
+    TokenKind.SourceFilePathLiteral,
+    TokenKind.SourceLineNumLiteral,
+    TokenKind.FunctionNameLiteral,
+    TokenKind.SourceFunctionNameLiteral,
+    TokenKind.SourceLocationLiteral,
+    TokenKind.PkgPathLiteral,
+    TokenKind.PkgLocationLiteral
+];
+
+const memberAccessKinds = [TokenKind.Dot, TokenKind.QuestionDot, TokenKind.Callfunc];
+
+/**
+ * Tokens that open a block when they begin a statement
+ */
+const blockOpenerKinds = [
+    TokenKind.Class,
+    TokenKind.Enum,
+    TokenKind.For,
+    TokenKind.ForEach,
+    TokenKind.If,
+    TokenKind.Interface,
+    TokenKind.Namespace,
+    TokenKind.Try,
+    TokenKind.While,
+    TokenKind.HashIf
+];
+
+const closerKinds = [
+    TokenKind.EndClass,
+    TokenKind.EndEnum,
+    TokenKind.EndFor,
+    TokenKind.EndFunction,
+    TokenKind.EndIf,
+    TokenKind.EndInterface,
+    TokenKind.EndNamespace,
+    TokenKind.EndSub,
+    TokenKind.EndTry,
+    TokenKind.EndWhile,
+    TokenKind.Next,
+    TokenKind.HashEndIf,
+    TokenKind.RightParen,
+    TokenKind.RightSquareBracket,
+    TokenKind.RightCurlyBrace
+];
+
+/**
+ * Tokens that close the previous part of a block and open the next one (i.e. `else`)
+ */
+const interimKinds = [
+    TokenKind.Else,
+    TokenKind.Catch,
+    TokenKind.HashElse,
+    TokenKind.HashElseIf
+];
+
+const bracketOpenerKinds = [
+    TokenKind.LeftParen,
+    TokenKind.LeftSquareBracket,
+    TokenKind.LeftCurlyBrace,
+    TokenKind.QuestionLeftParen,
+    TokenKind.QuestionLeftSquare
+];
+
+export class Formatter {
+    public constructor(
+        options?: FormattingOptions
+    ) {
+        this.options = this.sanitizeOptions(options);
+    }
+
+    /**
+     * The options used to format files
+     */
+    public options: FormattingOptions;
+
+    /**
+     * The `if` tokens of every single-line if statement in the file currently being formatted
+     */
+    private inlineIfTokens: Set<Token>;
+
+    /**
+     * The `sub` or `function` tokens of every function (with a body) in the file currently being formatted
+     */
+    private functionTokens: Set<Token>;
+
+    /**
+     * The key tokens of every associative array literal member in the file currently being formatted
+     */
+    private aaKeyTokens: Set<Token>;
+
+    /**
+     * Fill in missing/invalid options with defaults
+     */
+    private sanitizeOptions(options: FormattingOptions) {
+        const result = {
+            indentStyle: 'spaces',
+            indentSpaceCount: 4,
+            keywordCase: 'lower',
+            compositeKeywords: 'split',
+            insertSpaceAroundOperators: true,
+            ...options
+        } as FormattingOptions;
+        if (!(result.indentSpaceCount >= 0)) {
+            result.indentSpaceCount = 4;
+        }
+        return result;
+    }
+
+    /**
+     * Format the contents of a brs or bs file.
+     * The formatter never adds or removes lines, so every line in the result corresponds to the same line in the original text
+     */
+    public format(text: string) {
+        const tokens = Lexer.scan(text, { includeWhitespace: true }).tokens;
+
+        //the lexer drops characters it doesn't understand, so leave the file alone rather than lose some of its contents
+        if (tokens.map(x => x.text).join('') !== text) {
+            return text;
+        }
+
+        //the parser knows which if statements are single-line and which `function` keywords start a body
+        //(as opposed to types or interface method signatures), which can't be determined from the tokens alone
+        this.inlineIfTokens = new Set<Token>();
+        this.functionTokens = new Set<Token>();
+        this.aaKeyTokens = new Set<Token>();
+        const parser = Parser.parse(tokens.filter(x => x.kind !== TokenKind.Whitespace), { mode: ParseMode.BrighterScript });
+        parser.ast.walk(createVisitor({
+            IfStatement: (statement) => {
+                if (statement.isInline) {
+                    this.inlineIfTokens.add(statement.tokens.if);
+                }
+            },
+            FunctionExpression: (func) => {
+                this.functionTokens.add(func.functionType);
+            },
+            AALiteralExpression: (expression) => {
+                for (const element of expression.elements) {
+                    if (!isCommentStatement(element)) {
+                        this.aaKeyTokens.add(element.keyToken);
+                    }
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+
+        let result = '';
+        //the blocks that are currently open, and whether each of them added a level of indentation
+        const blockStack = [] as boolean[];
+        let lineTokens = [] as Token[];
+        for (const token of tokens) {
+            if (token.kind === TokenKind.Newline || token.kind === TokenKind.Eof) {
+                result += this.formatLine(lineTokens, blockStack) + token.text;
+                lineTokens = [];
+            } else {
+                lineTokens.push(token);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get the edits required to format a file. When a range is provided, only the lines within that range are formatted
+     */
+    public getEdits(text: string, range?: Range) {
+        const originalLines = text.split(/\r?\n/);
+        const formattedLines = this.format(text).split(/\r?\n/);
+        const startLine = range?.start.line ?? 0;
+        const endLine = Math.min(range?.end.line ?? originalLines.length - 1, originalLines.length - 1);
+
+        const edits = [] as TextEdit[];
+        for (let i = startLine; i <= endLine; i++) {
+            if (originalLines[i] !== formattedLines[i]) {
+                edits.push(
+                    TextEdit.replace(util.createRange(i, 0, i, originalLines[i].length), formattedLines[i])
+                );
+            }
+        }
+        return edits;
+    }
+
+    /**
+     * Format a single line of tokens (excluding the newline)
+     * @param blockStack the blocks open at the start of this line. This will be updated with the blocks opened and closed on this line
+     */
+    private formatLine(tokens: Token[], blockStack: boolean[]) {
+        tokens = [...tokens];
+        while (tokens[0]?.kind === TokenKind.Whitespace) {
+            tokens.shift();
+        }
+        while (tokens[tokens.length - 1]?.kind === TokenKind.Whitespace) {
+            tokens.pop();
+        }
+        if (tokens.length === 0) {
+            return '';
+        }
+
+        const indentLevel = this.processBlocks(tokens, blockStack);
+        const indent = this.options.indentStyle === 'tabs' ? '\t' : ' '.repeat(this.options.indentSpaceCount);
+
+        let result = indent.repeat(indentLevel);
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (token.kind === TokenKind.Whitespace) {
+                result += this.isOperatorSpacing(tokens, i) ? ' ' : token.text;
+                continue;
+            }
+            if (this.isBinaryOperator(tokens, i) && i > 0 && tokens[i - 1].kind !== TokenKind.Whitespace) {
+                result += ' ';
+            }
+            result += this.formatToken(tokens, i);
+            if (this.isBinaryOperator(tokens, i) && i < tokens.length - 1 && tokens[i + 1].kind !== TokenKind.Whitespace) {
+                result += ' ';
+            }
+
+            //`else if` is lexed as two separate tokens, so it needs to be split or combined here
+            if (token.kind === TokenKind.Else && this.getNextToken(tokens, i)?.kind === TokenKind.If && this.options.compositeKeywords !== 'original') {
+                result += this.options.compositeKeywords === 'split' ? ' ' : '';
+                //skip the whitespace between the words
+                i = tokens.indexOf(this.getNextToken(tokens, i)) - 1;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Update the block stack with every block opened or closed on this line.
+     * A line only ever adds one level of indentation, regardless of how many blocks it opens (i.e. `call(function()`)
+     * @returns the indentation level for this line
+     */
+    private processBlocks(tokens: Token[], blockStack: boolean[]) {
+        const getIndentLevel = () => blockStack.filter(x => x).length;
+        let indentLevel: number;
+        const startDepth = blockStack.length;
+        let lowestDepth = startDepth;
+        let isLeadingCloser = true;
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (token.kind === TokenKind.Whitespace) {
+                continue;
+            }
+            const kind = this.getBlockTokenKind(tokens, i);
+            if (kind === 'closer') {
+                blockStack.pop();
+                lowestDepth = Math.min(lowestDepth, blockStack.length);
+            } else if (kind === 'opener') {
+                blockStack.push(false);
+            }
+
+            if (isLeadingCloser && kind !== 'closer') {
+                isLeadingCloser = false;
+                indentLevel = getIndentLevel();
+                //interim tokens are outdented to the same level as the block they belong to
+                if (kind === 'interim' && blockStack[blockStack.length - 1]) {
+                    indentLevel--;
+                }
+            }
+        }
+        indentLevel = indentLevel ?? getIndentLevel();
+
+        //only the innermost block opened on this line indents the lines after it
+        if (blockStack.length > lowestDepth) {
+            blockStack[blockStack.length - 1] = true;
+        }
+        return indentLevel;
+    }
+
+    private getBlockTokenKind(tokens: Token[], index: number): 'opener' | 'closer' | 'interim' | undefined {
+        const token = tokens[index];
+        const previous = this.getPreviousToken(tokens, index);
+        //keywords used as property names (i.e. `node.next`)
+        if (memberAccessKinds.includes(previous?.kind)) {
+            return;
+        }
+        const isStatementStart = !previous || previous.kind === TokenKind.Colon;
+
+        if (bracketOpenerKinds.includes(token.kind)) {
+            return 'opener';
+        } else if (this.functionTokens.has(token)) {
+            return 'opener';
+        } else if (blockOpenerKinds.includes(token.kind)) {
+            if (isStatementStart && !this.inlineIfTokens.has(token) && this.getNextToken(tokens, index)?.kind !== TokenKind.Equal) {
+                return 'opener';
+            }
+        } else if (closerKinds.includes(token.kind)) {
+            //`next` can also be a field name or associative array key (i.e. `next as integer`, `{ next: 1 }`)
+            if (token.kind !== TokenKind.Next || (isStatementStart && !this.isName(tokens, index))) {
+                return 'closer';
+            }
+        } else if (interimKinds.includes(token.kind) && index === 0) {
+            return 'interim';
+        }
+    }
+
+    /**
+     * Determine if the keyword at this index is actually being used as a name
+     * (i.e. `node.next`, `{ next: 1 }`, `next as integer`)
+     */
+    private isName(tokens: Token[], index: number) {
+        return this.aaKeyTokens.has(tokens[index]) ||
+            memberAccessKinds.includes(this.getPreviousToken(tokens, index)?.kind) ||
+            this.getNextToken(tokens, index)?.kind === TokenKind.As;
+    }
+
+    private getPreviousToken(tokens: Token[], index: number) {
+        for (let i = index - 1; i >= 0; i--) {
+            if (tokens[i].kind !== TokenKind.Whitespace) {
+                return tokens[i];
+            }
+        }
+    }
+
+    private getNextToken(tokens: Token[], index: number) {
+        for (let i = index + 1; i < tokens.length; i++) {
+            if (tokens[i].kind !== TokenKind.Whitespace) {
+                return tokens[i];
+            }
+        }
+    }
+
+    /**
+     * Determine if the token at this index is a binary or assignment operator
+     */
+    private isBinaryOperator(tokens: Token[], index: number) {
+        const token = tokens[index];
+        if (!this.options.insertSpaceAroundOperators || !binaryOperators.includes(token?.kind)) {
+            return false;
+        }
+        const previous = this.getPreviousToken(tokens, index);
+        if (!previous) {
+            return false;
+        }
+        if ([TokenKind.Minus, TokenKind.Plus].includes(token.kind)) {
+            //keywords used as property names are operands too (i.e. `node.next - 1`)
+            const isPropertyName = keywordKinds.has(previous.kind) && memberAccessKinds.includes(this.getPreviousToken(tokens, tokens.indexOf(previous))?.kind);
+            return operandEndKinds.includes(previous.kind) || isPropertyName;
+        }
+        return true;
+    }
+
+    /**
+     * Determine if the whitespace token at this index separates an operator from its operand
+     */
+    private isOperatorSpacing(tokens: Token[], index: number) {
+        return this.isBinaryOperator(tokens, index - 1) || this.isBinaryOperator(tokens, index + 1);
+    }
+
+    /**
+     * Get the formatted text for a single token
+     */
+    private formatToken(tokens: Token[], index: number) {
+        const token = tokens[index];
+        if (!keywordKinds.has(token.kind)) {
+            return token.text;
+        }
+        if (this.isName(tokens, index)) {
+            return token.text;
+        }
+
+        let words = [token.text];
+        let separator = '';
+        const compositeWords = compositeKeywordWords.get(token.kind);
+        if (compositeWords) {
+            //get the words with their original casing (the text may be `endif`, `end if` or `end   if`)
+            const firstWord = token.text.substring(0, compositeWords[0].length);
+            const secondWord = token.text.substring(token.text.length - compositeWords[1].length);
+            const originalSeparator = token.text.substring(firstWord.length, token.text.length - secondWord.length);
+            words = [firstWord, secondWord];
+
+            if (this.options.compositeKeywords === 'split' || splitOnlyKeywords.includes(token.kind)) {
+                separator = ' ';
+            } else if (this.options.compositeKeywords === 'original') {
+                separator = originalSeparator;
+            }
+        }
+        return words.map(word => this.applyKeywordCase(word)).join(separator);
+    }
+
+    private applyKeywordCase(word: string) {
+        switch (this.options.keywordCase) {
+            case 'lower':
+                return word.toLowerCase();
+            case 'upper':
+                return word.toUpperCase();
+            case 'title':
+                return word.charAt(0).toUpperCase() + word.substring(1).toLowerCase();
+            default:
+                return word;
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+import { isBrsComponentType } from './astUtils/reflection';
+import { globalComponentMap, globalComponents, globalInterfaceMap, globalInterfaces } from './globalComponents';
+
+describe('globalComponents', () => {
+    it('only uses interfaces that exist', () => {
+        const missing = [] as string[];
+        for (const component of globalComponents) {
+            missing.push(...component.interfaces.filter(x => !globalInterfaceMap.has(x.toLowerCase())));
+        }
+        expect(missing).to.be.empty;
+    });
+
+    it('only returns components that exist', () => {
+        const missing = [] as string[];
+        for (const iface of globalInterfaces) {
+            for (const method of iface.methods) {
+                if (isBrsComponentType(method.returnType) && !globalComponentMap.has(method.returnType.name.toLowerCase())) {
+                    missing.push(`${iface.name}.${method.name}`);
+                }
+            }
+        }
+        expect(missing).to.be.empty;
+    });
+});
@@ -0,0 +1,1487 @@
+import type { BuiltInComponent, BuiltInInterface } from './interfaces';
+import { BooleanType } from './types/BooleanType';
+import { BrsComponentType } from './types/BrsComponentType';
+import { DoubleType } from './types/DoubleType';
+import { DynamicType } from './types/DynamicType';
+import { FloatType } from './types/FloatType';
+import { IntegerType } from './types/IntegerType';
+import { LongIntegerType } from './types/LongIntegerType';
+import { ObjectType } from './types/ObjectType';
+import { StringType } from './types/StringType';
+import { VoidType } from './types/VoidType';
+
+/**
+ * The interfaces of the built-in BrightScript components and their methods
+ */
+export const globalInterfaces: BuiltInInterface[] = [
+    {
+        name: 'ifArray',
+        description: 'Functions for reading and writing the elements of an array.',
+        methods: [
+            { name: 'Peek', params: [], returnType: new DynamicType() },
+            { name: 'Pop', params: [], returnType: new DynamicType() },
+            { name: 'Push', params: [{ name: 'value', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'Shift', params: [], returnType: new DynamicType() },
+            { name: 'Unshift', params: [{ name: 'value', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'Delete', params: [{ name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'Count', params: [], returnType: new IntegerType() },
+            { name: 'Clear', params: [], returnType: new VoidType() },
+            { name: 'Append', params: [{ name: 'array', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'Capacity', params: [], returnType: new IntegerType() },
+            { name: 'IsResizable', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifArrayGet',
+        description: 'Functions for reading the elements of an array by index.',
+        methods: [
+            { name: 'GetEntry', params: [{ name: 'index', type: new IntegerType() }], returnType: new DynamicType() }
+        ]
+    },
+    {
+        name: 'ifArraySet',
+        description: 'Functions for writing the elements of an array by index.',
+        methods: [
+            { name: 'SetEntry', params: [{ name: 'index', type: new IntegerType() }, { name: 'value', type: new DynamicType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifArrayJoin',
+        description: 'Functions for joining the elements of an array into a string.',
+        methods: [
+            { name: 'Join', params: [{ name: 'separator', type: new StringType() }], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifArraySort',
+        description: 'Functions for sorting the elements of an array.',
+        methods: [
+            { name: 'Sort', params: [{ name: 'flags', type: new StringType(), isOptional: true }], returnType: new VoidType() },
+            { name: 'SortBy', params: [{ name: 'fieldName', type: new StringType() }, { name: 'flags', type: new StringType(), isOptional: true }], returnType: new VoidType() },
+            { name: 'Reverse', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifArraySlice',
+        description: 'Functions for copying part of an array.',
+        methods: [
+            { name: 'Slice', params: [{ name: 'startIndex', type: new IntegerType(), isOptional: true }, { name: 'endIndex', type: new IntegerType(), isOptional: true }], returnType: new BrsComponentType('roArray') }
+        ]
+    },
+    {
+        name: 'ifEnum',
+        description: 'Functions for iterating over a collection.',
+        methods: [
+            { name: 'Reset', params: [], returnType: new VoidType() },
+            { name: 'Next', params: [], returnType: new DynamicType() },
+            { name: 'IsNext', params: [], returnType: new BooleanType() },
+            { name: 'IsEmpty', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifAssociativeArray',
+        description: 'Functions for reading and writing the keys of an associative array.',
+        methods: [
+            { name: 'AddReplace', params: [{ name: 'key', type: new StringType() }, { name: 'value', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'Lookup', params: [{ name: 'key', type: new StringType() }], returnType: new DynamicType() },
+            { name: 'LookupCI', params: [{ name: 'key', type: new StringType() }], returnType: new DynamicType() },
+            { name: 'DoesExist', params: [{ name: 'key', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Delete', params: [{ name: 'key', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Clear', params: [], returnType: new VoidType() },
+            { name: 'Keys', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'Items', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'SetModeCaseSensitive', params: [], returnType: new VoidType() },
+            { name: 'Append', params: [{ name: 'aa', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'Count', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifList',
+        description: 'Functions for reading and writing the elements of a linked list.',
+        methods: [
+            { name: 'AddHead', params: [{ name: 'value', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'AddTail', params: [{ name: 'value', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'GetHead', params: [], returnType: new DynamicType() },
+            { name: 'GetTail', params: [], returnType: new DynamicType() },
+            { name: 'RemoveHead', params: [], returnType: new DynamicType() },
+            { name: 'RemoveTail', params: [], returnType: new DynamicType() },
+            { name: 'GetIndex', params: [], returnType: new DynamicType() },
+            { name: 'ResetIndex', params: [], returnType: new BooleanType() },
+            { name: 'RemoveIndex', params: [], returnType: new DynamicType() },
+            { name: 'Count', params: [], returnType: new IntegerType() },
+            { name: 'Clear', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifListToArray',
+        description: 'Functions for converting a list to an array.',
+        methods: [
+            { name: 'ToArray', params: [], returnType: new BrsComponentType('roArray') }
+        ]
+    },
+    {
+        name: 'ifByteArray',
+        description: 'Functions for reading and writing bytes.',
+        methods: [
+            { name: 'WriteFile', params: [{ name: 'path', type: new StringType() }, { name: 'startIndex', type: new IntegerType(), isOptional: true }, { name: 'length', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'ReadFile', params: [{ name: 'path', type: new StringType() }, { name: 'startIndex', type: new IntegerType(), isOptional: true }, { name: 'length', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'AppendFile', params: [{ name: 'path', type: new StringType() }, { name: 'startIndex', type: new IntegerType(), isOptional: true }, { name: 'length', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'SetResize', params: [{ name: 'minSize', type: new IntegerType() }, { name: 'autoResize', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'ToHexString', params: [], returnType: new StringType() },
+            { name: 'FromHexString', params: [{ name: 'hexString', type: new StringType() }], returnType: new VoidType() },
+            { name: 'ToBase64String', params: [], returnType: new StringType() },
+            { name: 'FromBase64String', params: [{ name: 'base64String', type: new StringType() }], returnType: new VoidType() },
+            { name: 'ToAsciiString', params: [], returnType: new StringType() },
+            { name: 'FromAsciiString', params: [{ name: 'asciiString', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetSignedByte', params: [{ name: 'index', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'GetSignedLong', params: [{ name: 'index', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'GetCRC32', params: [{ name: 'startIndex', type: new IntegerType(), isOptional: true }, { name: 'length', type: new IntegerType(), isOptional: true }], returnType: new IntegerType() },
+            { name: 'IsLittleEndianCPU', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifString',
+        description: 'Functions for reading and writing the value of a boxed string.',
+        methods: [
+            { name: 'GetString', params: [], returnType: new StringType() },
+            { name: 'SetString', params: [{ name: 'value', type: new StringType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifStringOps',
+        description: 'Functions for manipulating strings.',
+        methods: [
+            { name: 'SetString', params: [{ name: 'value', type: new StringType() }, { name: 'length', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'AppendString', params: [{ name: 'value', type: new StringType() }, { name: 'length', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'Len', params: [], returnType: new IntegerType() },
+            { name: 'GetEntityEncode', params: [], returnType: new StringType() },
+            { name: 'Tokenize', params: [{ name: 'delimiter', type: new StringType() }], returnType: new BrsComponentType('roList') },
+            { name: 'Trim', params: [], returnType: new StringType() },
+            { name: 'ToInt', params: [], returnType: new IntegerType() },
+            { name: 'ToFloat', params: [], returnType: new FloatType() },
+            { name: 'Left', params: [{ name: 'length', type: new IntegerType() }], returnType: new StringType() },
+            { name: 'Right', params: [{ name: 'length', type: new IntegerType() }], returnType: new StringType() },
+            { name: 'Mid', params: [{ name: 'startIndex', type: new IntegerType() }, { name: 'length', type: new IntegerType(), isOptional: true }], returnType: new StringType() },
+            { name: 'Instr', params: [{ name: 'startIndexOrSubstring', type: new DynamicType() }, { name: 'substring', type: new StringType(), isOptional: true }], returnType: new IntegerType() },
+            { name: 'Replace', params: [{ name: 'from', type: new StringType() }, { name: 'to', type: new StringType() }], returnType: new StringType() },
+            { name: 'Split', params: [{ name: 'separator', type: new StringType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'Unescape', params: [], returnType: new StringType() },
+            { name: 'Escape', params: [], returnType: new StringType() },
+            { name: 'EncodeUri', params: [], returnType: new StringType() },
+            { name: 'DecodeUri', params: [], returnType: new StringType() },
+            { name: 'EncodeUriComponent', params: [], returnType: new StringType() },
+            { name: 'DecodeUriComponent', params: [], returnType: new StringType() },
+            { name: 'IsEmpty', params: [], returnType: new BooleanType() },
+            { name: 'StartsWith', params: [{ name: 'substring', type: new StringType() }, { name: 'position', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'EndsWith', params: [{ name: 'substring', type: new StringType() }, { name: 'position', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifToStr',
+        description: 'Functions for converting a value to a string.',
+        methods: [
+            { name: 'ToStr', params: [{ name: 'format', type: new StringType(), isOptional: true }], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifInt',
+        description: 'Functions for reading and writing the value of a boxed integer.',
+        methods: [
+            { name: 'GetInt', params: [], returnType: new IntegerType() },
+            { name: 'SetInt', params: [{ name: 'value', type: new IntegerType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifLongInt',
+        description: 'Functions for reading and writing the value of a boxed long integer.',
+        methods: [
+            { name: 'GetLongInt', params: [], returnType: new LongIntegerType() },
+            { name: 'SetLongInt', params: [{ name: 'value', type: new LongIntegerType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifFloat',
+        description: 'Functions for reading and writing the value of a boxed float.',
+        methods: [
+            { name: 'GetFloat', params: [], returnType: new FloatType() },
+            { name: 'SetFloat', params: [{ name: 'value', type: new FloatType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifDouble',
+        description: 'Functions for reading and writing the value of a boxed double.',
+        methods: [
+            { name: 'GetDouble', params: [], returnType: new DoubleType() },
+            { name: 'SetDouble', params: [{ name: 'value', type: new DoubleType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifBoolean',
+        description: 'Functions for reading and writing the value of a boxed boolean.',
+        methods: [
+            { name: 'GetBoolean', params: [], returnType: new BooleanType() },
+            { name: 'SetBoolean', params: [{ name: 'value', type: new BooleanType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifDateTime',
+        description: 'Functions for reading and formatting a date and time.',
+        methods: [
+            { name: 'Mark', params: [], returnType: new VoidType() },
+            { name: 'AsDateString', params: [{ name: 'format', type: new StringType() }], returnType: new StringType() },
+            { name: 'AsDateStringNoParam', params: [], returnType: new StringType() },
+            { name: 'AsDateStringLoc', params: [{ name: 'format', type: new StringType() }], returnType: new StringType() },
+            { name: 'AsTimeStringLoc', params: [{ name: 'format', type: new StringType() }], returnType: new StringType() },
+            { name: 'AsSeconds', params: [], returnType: new IntegerType() },
+            { name: 'AsSecondsLong', params: [], returnType: new LongIntegerType() },
+            { name: 'FromSeconds', params: [{ name: 'seconds', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'FromSecondsLong', params: [{ name: 'seconds', type: new LongIntegerType() }], returnType: new VoidType() },
+            { name: 'ToISOString', params: [{ name: 'format', type: new StringType(), isOptional: true }], returnType: new StringType() },
+            { name: 'FromISO8601String', params: [{ name: 'date', type: new StringType() }], returnType: new VoidType() },
+            { name: 'ToLocalTime', params: [], returnType: new VoidType() },
+            { name: 'GetTimeZoneOffset', params: [], returnType: new IntegerType() },
+            { name: 'GetWeekday', params: [], returnType: new StringType() },
+            { name: 'GetDayOfWeek', params: [], returnType: new IntegerType() },
+            { name: 'GetYear', params: [], returnType: new IntegerType() },
+            { name: 'GetMonth', params: [], returnType: new IntegerType() },
+            { name: 'GetDayOfMonth', params: [], returnType: new IntegerType() },
+            { name: 'GetLastDayOfMonth', params: [], returnType: new IntegerType() },
+            { name: 'GetHours', params: [], returnType: new IntegerType() },
+            { name: 'GetMinutes', params: [], returnType: new IntegerType() },
+            { name: 'GetSeconds', params: [], returnType: new IntegerType() },
+            { name: 'GetMilliseconds', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifTimespan',
+        description: 'Functions for measuring elapsed time.',
+        methods: [
+            { name: 'Mark', params: [], returnType: new VoidType() },
+            { name: 'TotalMilliseconds', params: [], returnType: new IntegerType() },
+            { name: 'TotalSeconds', params: [], returnType: new IntegerType() },
+            { name: 'GetSecondsToISO8601Date', params: [{ name: 'date', type: new StringType() }], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifRegex',
+        description: 'Functions for matching strings against a regular expression.',
+        methods: [
+            { name: 'IsMatch', params: [{ name: 'value', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Match', params: [{ name: 'value', type: new StringType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'MatchAll', params: [{ name: 'value', type: new StringType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'Replace', params: [{ name: 'value', type: new StringType() }, { name: 'replacement', type: new StringType() }], returnType: new StringType() },
+            { name: 'ReplaceAll', params: [{ name: 'value', type: new StringType() }, { name: 'replacement', type: new StringType() }], returnType: new StringType() },
+            { name: 'Split', params: [{ name: 'value', type: new StringType() }], returnType: new BrsComponentType('roArray') }
+        ]
+    },
+    {
+        name: 'ifRegistry',
+        description: 'Functions for managing the sections of the registry.',
+        methods: [
+            { name: 'GetSpaceAvailable', params: [], returnType: new IntegerType() },
+            { name: 'GetSectionList', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'Delete', params: [{ name: 'section', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Flush', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifRegistrySection',
+        description: 'Functions for reading and writing the keys of a registry section.',
+        methods: [
+            { name: 'Read', params: [{ name: 'key', type: new StringType() }], returnType: new StringType() },
+            { name: 'ReadMulti', params: [{ name: 'keys', type: new ObjectType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'Write', params: [{ name: 'key', type: new StringType() }, { name: 'value', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'WriteMulti', params: [{ name: 'values', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'Delete', params: [{ name: 'key', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Exists', params: [{ name: 'key', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetKeyList', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'Flush', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifMessagePort',
+        description: 'Functions for receiving events.',
+        methods: [
+            { name: 'WaitMessage', params: [{ name: 'timeout', type: new IntegerType() }], returnType: new ObjectType() },
+            { name: 'GetMessage', params: [], returnType: new ObjectType() },
+            { name: 'PeekMessage', params: [], returnType: new ObjectType() }
+        ]
+    },
+    {
+        name: 'ifSetMessagePort',
+        description: 'Functions for setting the message port that receives the events of a component.',
+        methods: [
+            { name: 'SetMessagePort', params: [{ name: 'port', type: new ObjectType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifGetMessagePort',
+        description: 'Functions for getting the message port that receives the events of a component.',
+        methods: [
+            { name: 'GetMessagePort', params: [], returnType: new ObjectType() }
+        ]
+    },
+    {
+        name: 'ifHttpAgent',
+        description: 'Functions for setting the headers, certificates and cookies of http requests.',
+        methods: [
+            { name: 'AddHeader', params: [{ name: 'name', type: new StringType() }, { name: 'value', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'SetHeaders', params: [{ name: 'headers', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'InitClientCertificates', params: [], returnType: new BooleanType() },
+            { name: 'SetCertificatesFile', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'SetCertificatesDepth', params: [{ name: 'depth', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'EnableCookies', params: [], returnType: new VoidType() },
+            { name: 'GetCookies', params: [{ name: 'domain', type: new StringType() }, { name: 'path', type: new StringType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'AddCookies', params: [{ name: 'cookies', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'ClearCookies', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifUrlTransfer',
+        description: 'Functions for transferring data to and from urls.',
+        methods: [
+            { name: 'GetIdentity', params: [], returnType: new IntegerType() },
+            { name: 'SetUrl', params: [{ name: 'url', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetUrl', params: [], returnType: new StringType() },
+            { name: 'SetRequest', params: [{ name: 'request', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetRequest', params: [], returnType: new StringType() },
+            { name: 'SetPort', params: [{ name: 'port', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetToString', params: [], returnType: new StringType() },
+            { name: 'GetToFile', params: [{ name: 'path', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'AsyncGetToString', params: [], returnType: new BooleanType() },
+            { name: 'AsyncGetToFile', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Head', params: [], returnType: new ObjectType() },
+            { name: 'AsyncHead', params: [], returnType: new BooleanType() },
+            { name: 'PostFromString', params: [{ name: 'request', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'PostFromFile', params: [{ name: 'path', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'AsyncPostFromString', params: [{ name: 'request', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'AsyncPostFromFile', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'AsyncPostFromFileToFile', params: [{ name: 'fromPath', type: new StringType() }, { name: 'toPath', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'AsyncCancel', params: [], returnType: new BooleanType() },
+            { name: 'RetainBodyOnError', params: [{ name: 'retain', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'SetUserAndPassword', params: [{ name: 'user', type: new StringType() }, { name: 'password', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'SetMinimumTransferRate', params: [{ name: 'bytesPerSecond', type: new IntegerType() }, { name: 'periodInSeconds', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetFailureReason', params: [], returnType: new StringType() },
+            { name: 'EnableEncodings', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'Escape', params: [{ name: 'text', type: new StringType() }], returnType: new StringType() },
+            { name: 'Unescape', params: [{ name: 'text', type: new StringType() }], returnType: new StringType() },
+            { name: 'UrlEncode', params: [{ name: 'url', type: new StringType() }], returnType: new StringType() },
+            { name: 'EnableResume', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'EnablePeerVerification', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'EnableHostVerification', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'EnableFreshConnection', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'SetHttpVersion', params: [{ name: 'version', type: new StringType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifDeviceInfo',
+        description: 'Functions for getting information about the device.',
+        methods: [
+            { name: 'GetModel', params: [], returnType: new StringType() },
+            { name: 'GetModelDisplayName', params: [], returnType: new StringType() },
+            { name: 'GetModelType', params: [], returnType: new StringType() },
+            { name: 'GetModelDetails', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetFriendlyName', params: [], returnType: new StringType() },
+            { name: 'GetVersion', params: [], returnType: new StringType() },
+            { name: 'GetOSVersion', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetRIDA', params: [], returnType: new StringType() },
+            { name: 'IsRIDADisabled', params: [], returnType: new BooleanType() },
+            { name: 'GetAdvertisingId', params: [], returnType: new StringType() },
+            { name: 'IsAdIdTrackingDisabled', params: [], returnType: new BooleanType() },
+            { name: 'GetClientTrackingId', params: [], returnType: new StringType() },
+            { name: 'GetChannelClientId', params: [], returnType: new StringType() },
+            { name: 'GetDeviceUniqueId', params: [], returnType: new StringType() },
+            { name: 'GetUserCountryCode', params: [], returnType: new StringType() },
+            { name: 'GetRandomUUID', params: [], returnType: new StringType() },
+            { name: 'GetTimeZone', params: [], returnType: new StringType() },
+            { name: 'HasFeature', params: [{ name: 'feature', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetCurrentLocale', params: [], returnType: new StringType() },
+            { name: 'GetCountryCode', params: [], returnType: new StringType() },
+            { name: 'GetPreferredCaptionLanguage', params: [], returnType: new StringType() },
+            { name: 'TimeSinceLastKeypress', params: [], returnType: new IntegerType() },
+            { name: 'GetDrmInfo', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetDrmInfoEx', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetCaptionsMode', params: [], returnType: new StringType() },
+            { name: 'SetCaptionsMode', params: [{ name: 'mode', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetCaptionsOption', params: [{ name: 'option', type: new StringType() }], returnType: new StringType() },
+            { name: 'GetClockFormat', params: [], returnType: new StringType() },
+            { name: 'EnableAppFocusEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'EnableScreensaverExitedEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'EnableLowGeneralMemoryEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetGeneralMemoryLevel', params: [], returnType: new StringType() },
+            { name: 'IsStoreDemoMode', params: [], returnType: new BooleanType() },
+            { name: 'GetLinkStatus', params: [], returnType: new BooleanType() },
+            { name: 'EnableLinkStatusEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetConnectionType', params: [], returnType: new StringType() },
+            { name: 'GetExternalIp', params: [], returnType: new StringType() },
+            { name: 'GetIPAddrs', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetConnectionInfo', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetDisplayType', params: [], returnType: new StringType() },
+            { name: 'GetDisplayMode', params: [], returnType: new StringType() },
+            { name: 'GetDisplayAspectRatio', params: [], returnType: new StringType() },
+            { name: 'GetDisplaySize', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetVideoMode', params: [], returnType: new StringType() },
+            { name: 'GetDisplayProperties', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetSupportedGraphicsResolutions', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'CanDecodeVideo', params: [{ name: 'format', type: new ObjectType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetUIResolution', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetGraphicsPlatform', params: [], returnType: new StringType() },
+            { name: 'EnableCodecCapChangedEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetAudioOutputChannel', params: [], returnType: new StringType() },
+            { name: 'GetAudioDecoderInfo', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'CanDecodeAudio', params: [{ name: 'format', type: new ObjectType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetSoundEffectsVolume', params: [], returnType: new IntegerType() },
+            { name: 'IsAudioGuideEnabled', params: [], returnType: new BooleanType() },
+            { name: 'EnableAudioGuideChangedEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifAppInfo',
+        description: 'Functions for getting information about the channel.',
+        methods: [
+            { name: 'GetID', params: [], returnType: new StringType() },
+            { name: 'IsDev', params: [], returnType: new BooleanType() },
+            { name: 'GetVersion', params: [], returnType: new StringType() },
+            { name: 'GetSubtitle', params: [], returnType: new StringType() },
+            { name: 'GetTitle', params: [], returnType: new StringType() },
+            { name: 'GetDevID', params: [], returnType: new StringType() },
+            { name: 'GetValue', params: [{ name: 'key', type: new StringType() }], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifAppManager',
+        description: 'Functions for managing the channel and launching other channels.',
+        methods: [
+            { name: 'GetUptime', params: [], returnType: new BrsComponentType('roTimespan') },
+            { name: 'UpdateLastKeyPressTime', params: [], returnType: new VoidType() },
+            { name: 'SetTheme', params: [{ name: 'attributes', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'SetThemeAttribute', params: [{ name: 'name', type: new StringType() }, { name: 'value', type: new StringType() }], returnType: new VoidType() },
+            { name: 'ClearThemeAttribute', params: [{ name: 'name', type: new StringType() }], returnType: new VoidType() },
+            { name: 'SetUserSignedIn', params: [{ name: 'signedIn', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'SetAutomaticAudioGuideEnabled', params: [{ name: 'enabled', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'IsAppInstalled', params: [{ name: 'channelId', type: new StringType() }, { name: 'version', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'ShowChannelStoreSpringboard', params: [{ name: 'channelId', type: new StringType() }], returnType: new VoidType() },
+            { name: 'LaunchApp', params: [{ name: 'channelId', type: new StringType() }, { name: 'version', type: new StringType() }, { name: 'params', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetScreensaverTimeout', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifInput',
+        description: 'Functions for receiving input from the mobile app and the external control protocol.',
+        methods: [
+            { name: 'EnableTransportEvents', params: [], returnType: new BooleanType() },
+            { name: 'EventResponse', params: [{ name: 'response', type: new ObjectType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSGScreen',
+        description: 'Functions for showing a SceneGraph scene.',
+        methods: [
+            { name: 'CreateScene', params: [{ name: 'sceneType', type: new StringType() }], returnType: new ObjectType() },
+            { name: 'Show', params: [], returnType: new BooleanType() },
+            { name: 'Close', params: [], returnType: new VoidType() },
+            { name: 'GetScene', params: [], returnType: new ObjectType() },
+            { name: 'GetGlobalNode', params: [], returnType: new ObjectType() },
+            { name: 'SetMessagePort', params: [{ name: 'port', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetMessagePort', params: [], returnType: new ObjectType() }
+        ]
+    },
+    {
+        name: 'ifSGNodeField',
+        description: 'Functions for reading, writing and observing the fields of a node.',
+        methods: [
+            { name: 'AddField', params: [{ name: 'fieldName', type: new StringType() }, { name: 'type', type: new StringType() }, { name: 'alwaysNotify', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'AddFields', params: [{ name: 'fields', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'GetField', params: [{ name: 'fieldName', type: new StringType() }], returnType: new DynamicType() },
+            { name: 'GetFields', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'HasField', params: [{ name: 'fieldName', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'ObserveField', params: [{ name: 'fieldName', type: new StringType() }, { name: 'handler', type: new DynamicType() }, { name: 'infoFields', type: new ObjectType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'ObserveFieldScoped', params: [{ name: 'fieldName', type: new StringType() }, { name: 'handler', type: new DynamicType() }, { name: 'infoFields', type: new ObjectType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'UnobserveField', params: [{ name: 'fieldName', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'UnobserveFieldScoped', params: [{ name: 'fieldName', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'RemoveField', params: [{ name: 'fieldName', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'RemoveFields', params: [{ name: 'fieldNames', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'SetField', params: [{ name: 'fieldName', type: new StringType() }, { name: 'value', type: new DynamicType() }], returnType: new BooleanType() },
+            { name: 'SetFields', params: [{ name: 'fields', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'MoveIntoField', params: [{ name: 'fieldName', type: new StringType() }, { name: 'value', type: new DynamicType() }], returnType: new IntegerType() },
+            { name: 'MoveFromField', params: [{ name: 'fieldName', type: new StringType() }], returnType: new DynamicType() },
+            { name: 'QueueFields', params: [{ name: 'queue', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'CallFunc', params: [{ name: 'functionName', type: new StringType() }, { name: 'args', type: new DynamicType(), isRestArgument: true }], returnType: new DynamicType() }
+        ]
+    },
+    {
+        name: 'ifSGNodeChildren',
+        description: 'Functions for managing the children of a node.',
+        methods: [
+            { name: 'AppendChild', params: [{ name: 'child', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'AppendChildren', params: [{ name: 'children', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'CreateChild', params: [{ name: 'nodeType', type: new StringType() }], returnType: new ObjectType() },
+            { name: 'CreateChildren', params: [{ name: 'count', type: new IntegerType() }, { name: 'nodeType', type: new StringType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'GetChild', params: [{ name: 'index', type: new IntegerType() }], returnType: new ObjectType() },
+            { name: 'GetChildCount', params: [], returnType: new IntegerType() },
+            { name: 'GetChildren', params: [{ name: 'count', type: new IntegerType() }, { name: 'index', type: new IntegerType() }], returnType: new BrsComponentType('roArray') },
+            { name: 'GetParent', params: [], returnType: new ObjectType() },
+            { name: 'GetScene', params: [], returnType: new ObjectType() },
+            { name: 'InsertChild', params: [{ name: 'child', type: new ObjectType() }, { name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'InsertChildren', params: [{ name: 'children', type: new ObjectType() }, { name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'RemoveChild', params: [{ name: 'child', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'RemoveChildIndex', params: [{ name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'RemoveChildren', params: [{ name: 'children', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'RemoveChildrenIndex', params: [{ name: 'count', type: new IntegerType() }, { name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'ReplaceChild', params: [{ name: 'child', type: new ObjectType() }, { name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'ReplaceChildren', params: [{ name: 'children', type: new ObjectType() }, { name: 'index', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'Reparent', params: [{ name: 'parent', type: new ObjectType() }, { name: 'adjustTransform', type: new BooleanType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSGNodeDict',
+        description: 'Functions for finding, comparing and copying nodes.',
+        methods: [
+            { name: 'FindNode', params: [{ name: 'id', type: new StringType() }], returnType: new ObjectType() },
+            { name: 'IsSameNode', params: [{ name: 'node', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'Subtype', params: [], returnType: new StringType() },
+            { name: 'IsSubtype', params: [{ name: 'nodeType', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'ParentSubtype', params: [{ name: 'nodeType', type: new StringType() }], returnType: new StringType() },
+            { name: 'Clone', params: [{ name: 'isDeepCopy', type: new BooleanType() }], returnType: new ObjectType() },
+            { name: 'Update', params: [{ name: 'fields', type: new ObjectType() }, { name: 'addFields', type: new BooleanType(), isOptional: true }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifSGNodeFocus',
+        description: 'Functions for managing the focus of a node.',
+        methods: [
+            { name: 'HasFocus', params: [], returnType: new BooleanType() },
+            { name: 'SetFocus', params: [{ name: 'focus', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'IsInFocusChain', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSGNodeBoundingRect',
+        description: 'Functions for getting the bounding rectangle of a node.',
+        methods: [
+            { name: 'BoundingRect', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'LocalBoundingRect', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'SceneBoundingRect', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'AncestorBoundingRect', params: [{ name: 'ancestor', type: new ObjectType() }], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifSGNodeHttpAgentAccess',
+        description: 'Functions for sharing an http agent between nodes.',
+        methods: [
+            { name: 'GetHttpAgent', params: [], returnType: new ObjectType() },
+            { name: 'SetHttpAgent', params: [{ name: 'httpAgent', type: new ObjectType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifXMLElement',
+        description: 'Functions for parsing and generating xml.',
+        methods: [
+            { name: 'Parse', params: [{ name: 'xml', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetBody', params: [], returnType: new ObjectType() },
+            { name: 'GetAttributes', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetName', params: [], returnType: new StringType() },
+            { name: 'GetText', params: [], returnType: new StringType() },
+            { name: 'GetChildElements', params: [], returnType: new ObjectType() },
+            { name: 'GetChildNodes', params: [], returnType: new ObjectType() },
+            { name: 'GetNamedElements', params: [{ name: 'name', type: new StringType() }], returnType: new BrsComponentType('roXMLList') },
+            { name: 'GetNamedElementsCi', params: [{ name: 'name', type: new StringType() }], returnType: new BrsComponentType('roXMLList') },
+            { name: 'HasAttribute', params: [{ name: 'name', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'IsName', params: [{ name: 'name', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'SetBody', params: [{ name: 'body', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'AddBodyElement', params: [], returnType: new BrsComponentType('roXMLElement') },
+            { name: 'AddElement', params: [{ name: 'name', type: new StringType() }], returnType: new BrsComponentType('roXMLElement') },
+            { name: 'AddElementWithBody', params: [{ name: 'name', type: new StringType() }, { name: 'body', type: new ObjectType() }], returnType: new BrsComponentType('roXMLElement') },
+            { name: 'AddText', params: [{ name: 'text', type: new StringType() }], returnType: new VoidType() },
+            { name: 'AddAttribute', params: [{ name: 'name', type: new StringType() }, { name: 'value', type: new StringType() }], returnType: new VoidType() },
+            { name: 'SetName', params: [{ name: 'name', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GenXML', params: [{ name: 'genHeader', type: new BooleanType() }], returnType: new StringType() },
+            { name: 'GenXMLHdr', params: [{ name: 'header', type: new StringType() }], returnType: new StringType() },
+            { name: 'Clear', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifXMLList',
+        description: 'Functions for reading a list of xml elements.',
+        methods: [
+            { name: 'GetAttributes', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetText', params: [], returnType: new StringType() },
+            { name: 'GetChildElements', params: [], returnType: new ObjectType() },
+            { name: 'GetChildNodes', params: [], returnType: new ObjectType() },
+            { name: 'GetNamedElements', params: [{ name: 'name', type: new StringType() }], returnType: new BrsComponentType('roXMLList') },
+            { name: 'GetNamedElementsCi', params: [{ name: 'name', type: new StringType() }], returnType: new BrsComponentType('roXMLList') },
+            { name: 'Simplify', params: [], returnType: new ObjectType() }
+        ]
+    },
+    {
+        name: 'ifFileSystem',
+        description: 'Functions for reading and managing files and directories.',
+        methods: [
+            { name: 'GetVolumeList', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'GetVolumeInfo', params: [{ name: 'path', type: new StringType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetDirectoryListing', params: [{ name: 'path', type: new StringType() }], returnType: new BrsComponentType('roList') },
+            { name: 'Find', params: [{ name: 'path', type: new StringType() }, { name: 'regex', type: new StringType() }], returnType: new BrsComponentType('roList') },
+            { name: 'FindRecurse', params: [{ name: 'path', type: new StringType() }, { name: 'regex', type: new StringType() }], returnType: new BrsComponentType('roList') },
+            { name: 'Match', params: [{ name: 'path', type: new StringType() }, { name: 'pattern', type: new StringType() }], returnType: new BrsComponentType('roList') },
+            { name: 'Exists', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Stat', params: [{ name: 'path', type: new StringType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'CreateDirectory', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Delete', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'CopyFile', params: [{ name: 'fromPath', type: new StringType() }, { name: 'toPath', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Rename', params: [{ name: 'fromPath', type: new StringType() }, { name: 'toPath', type: new StringType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifPath',
+        description: 'Functions for validating and splitting file paths.',
+        methods: [
+            { name: 'Change', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'IsValid', params: [], returnType: new BooleanType() },
+            { name: 'Split', params: [], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifEVPDigest',
+        description: 'Functions for computing message digests.',
+        methods: [
+            { name: 'Setup', params: [{ name: 'digestType', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'Reinit', params: [], returnType: new IntegerType() },
+            { name: 'Process', params: [{ name: 'bytes', type: new ObjectType() }], returnType: new StringType() },
+            { name: 'Update', params: [{ name: 'bytes', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'Final', params: [], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifEVPCipher',
+        description: 'Functions for encrypting and decrypting data.',
+        methods: [
+            { name: 'Setup', params: [{ name: 'encrypt', type: new BooleanType() }, { name: 'format', type: new StringType() }, { name: 'key', type: new StringType() }, { name: 'iv', type: new StringType() }, { name: 'padding', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'Reinit', params: [], returnType: new IntegerType() },
+            { name: 'Process', params: [{ name: 'bytes', type: new ObjectType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'Update', params: [{ name: 'bytes', type: new ObjectType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'Final', params: [], returnType: new BrsComponentType('roByteArray') }
+        ]
+    },
+    {
+        name: 'ifHMAC',
+        description: 'Functions for computing message authentication codes.',
+        methods: [
+            { name: 'Setup', params: [{ name: 'digestType', type: new StringType() }, { name: 'key', type: new ObjectType() }], returnType: new IntegerType() },
+            { name: 'Reinit', params: [], returnType: new IntegerType() },
+            { name: 'Process', params: [{ name: 'message', type: new ObjectType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'Update', params: [{ name: 'message', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'Final', params: [], returnType: new BrsComponentType('roByteArray') }
+        ]
+    },
+    {
+        name: 'ifRSA',
+        description: 'Functions for signing and verifying data with RSA keys.',
+        methods: [
+            { name: 'SetPrivateKey', params: [{ name: 'keyFileName', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'SetPublicKey', params: [{ name: 'keyFileName', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'SetDigestAlgorithm', params: [{ name: 'digestAlgorithm', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'Sign', params: [{ name: 'digest', type: new ObjectType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'Verify', params: [{ name: 'digest', type: new ObjectType() }, { name: 'signature', type: new ObjectType() }], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifDeviceCrypto',
+        description: 'Functions for encrypting and decrypting data with a device key.',
+        methods: [
+            { name: 'Encrypt', params: [{ name: 'input', type: new ObjectType() }, { name: 'keyType', type: new StringType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'Decrypt', params: [{ name: 'input', type: new ObjectType() }, { name: 'keyType', type: new StringType() }], returnType: new BrsComponentType('roByteArray') }
+        ]
+    },
+    {
+        name: 'ifChannelStore',
+        description: 'Functions for in-channel purchases.',
+        methods: [
+            { name: 'GetCatalog', params: [], returnType: new VoidType() },
+            { name: 'GetStoreCatalog', params: [], returnType: new VoidType() },
+            { name: 'GetPurchases', params: [], returnType: new VoidType() },
+            { name: 'GetAllPurchases', params: [], returnType: new VoidType() },
+            { name: 'SetOrder', params: [{ name: 'order', type: new ObjectType() }, { name: 'orderInfo', type: new ObjectType(), isOptional: true }], returnType: new VoidType() },
+            { name: 'ClearOrder', params: [], returnType: new VoidType() },
+            { name: 'DeltaOrder', params: [{ name: 'item', type: new ObjectType() }, { name: 'quantity', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'GetOrder', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'DoOrder', params: [], returnType: new BooleanType() },
+            { name: 'FakeServer', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'GetIdentity', params: [], returnType: new IntegerType() },
+            { name: 'GetChannelCred', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetUserData', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetPartialUserData', params: [{ name: 'properties', type: new StringType() }, { name: 'requestInfo', type: new BrsComponentType('roAssociativeArray'), isOptional: true }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetUserRegionData', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'StoreChannelCredData', params: [{ name: 'data', type: new StringType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'RequestPartnerOrder', params: [{ name: 'orderInfo', type: new ObjectType() }, { name: 'productId', type: new StringType() }], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'ConfirmPartnerOrder', params: [{ name: 'confirmOrderInfo', type: new ObjectType() }, { name: 'productId', type: new StringType() }], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifLocalization',
+        description: 'Functions for finding localized assets.',
+        methods: [
+            { name: 'GetLocalizedAsset', params: [{ name: 'dirName', type: new StringType() }, { name: 'fileName', type: new StringType() }], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifSocketAddress',
+        description: 'Functions for reading and writing a network address.',
+        methods: [
+            { name: 'SetAddress', params: [{ name: 'address', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetAddress', params: [], returnType: new StringType() },
+            { name: 'SetHostName', params: [{ name: 'hostName', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetHostName', params: [], returnType: new StringType() },
+            { name: 'SetPort', params: [{ name: 'port', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetPort', params: [], returnType: new IntegerType() },
+            { name: 'IsAddressValid', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocket',
+        description: 'Functions for sending and receiving data over a socket.',
+        methods: [
+            { name: 'Send', params: [{ name: 'data', type: new ObjectType() }, { name: 'startIndex', type: new IntegerType() }, { name: 'length', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'SendStr', params: [{ name: 'data', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'Receive', params: [{ name: 'data', type: new ObjectType() }, { name: 'startIndex', type: new IntegerType() }, { name: 'length', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'ReceiveStr', params: [{ name: 'length', type: new IntegerType() }], returnType: new StringType() },
+            { name: 'Close', params: [], returnType: new VoidType() },
+            { name: 'SetAddress', params: [{ name: 'address', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'GetAddress', params: [], returnType: new BrsComponentType('roSocketAddress') },
+            { name: 'SetSendToAddress', params: [{ name: 'address', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'GetSendToAddress', params: [], returnType: new BrsComponentType('roSocketAddress') },
+            { name: 'GetReceivedFromAddress', params: [], returnType: new BrsComponentType('roSocketAddress') },
+            { name: 'GetCountRcvBuf', params: [], returnType: new IntegerType() },
+            { name: 'GetCountSendBuf', params: [], returnType: new IntegerType() },
+            { name: 'Status', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifSocketStatus',
+        description: 'Functions for checking the result of the last socket operation.',
+        methods: [
+            { name: 'IsOK', params: [], returnType: new BooleanType() },
+            { name: 'eOK', params: [], returnType: new BooleanType() },
+            { name: 'eSuccess', params: [], returnType: new BooleanType() },
+            { name: 'eAgain', params: [], returnType: new BooleanType() },
+            { name: 'eAlready', params: [], returnType: new BooleanType() },
+            { name: 'eBadAddr', params: [], returnType: new BooleanType() },
+            { name: 'eDestAddrReq', params: [], returnType: new BooleanType() },
+            { name: 'eHostUnreach', params: [], returnType: new BooleanType() },
+            { name: 'eInvalid', params: [], returnType: new BooleanType() },
+            { name: 'eInProgress', params: [], returnType: new BooleanType() },
+            { name: 'eWouldBlock', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocketOption',
+        description: 'Functions for reading and writing socket options.',
+        methods: [
+            { name: 'GetTTL', params: [], returnType: new IntegerType() },
+            { name: 'SetTTL', params: [{ name: 'ttl', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetReuseAddr', params: [], returnType: new BooleanType() },
+            { name: 'SetReuseAddr', params: [{ name: 'reuse', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetOOBInline', params: [], returnType: new BooleanType() },
+            { name: 'SetOOBInline', params: [{ name: 'inline', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetSendBuf', params: [], returnType: new IntegerType() },
+            { name: 'SetSendBuf', params: [{ name: 'size', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetRcvBuf', params: [], returnType: new IntegerType() },
+            { name: 'SetRcvBuf', params: [{ name: 'size', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetSendTimeout', params: [], returnType: new IntegerType() },
+            { name: 'SetSendTimeout', params: [{ name: 'timeout', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetReceiveTimeout', params: [], returnType: new IntegerType() },
+            { name: 'SetReceiveTimeout', params: [{ name: 'timeout', type: new IntegerType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocketConnection',
+        description: 'Functions for accepting and making connections.',
+        methods: [
+            { name: 'Listen', params: [{ name: 'backlog', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'IsListening', params: [], returnType: new BooleanType() },
+            { name: 'Connect', params: [], returnType: new BooleanType() },
+            { name: 'Accept', params: [], returnType: new BrsComponentType('roStreamSocket') },
+            { name: 'IsConnected', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocketConnectionOption',
+        description: 'Functions for reading and writing the options of a connection.',
+        methods: [
+            { name: 'GetKeepAlive', params: [], returnType: new BooleanType() },
+            { name: 'SetKeepAlive', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetLinger', params: [], returnType: new IntegerType() },
+            { name: 'SetLinger', params: [{ name: 'time', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetMaxSeg', params: [], returnType: new IntegerType() },
+            { name: 'SetMaxSeg', params: [{ name: 'size', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'GetNoDelay', params: [], returnType: new BooleanType() },
+            { name: 'SetNoDelay', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocketCastOption',
+        description: 'Functions for broadcasting and multicasting datagrams.',
+        methods: [
+            { name: 'GetBroadcast', params: [], returnType: new BooleanType() },
+            { name: 'SetBroadcast', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'JoinGroup', params: [{ name: 'address', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'DropGroup', params: [{ name: 'address', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'GetMulticastLoop', params: [], returnType: new BooleanType() },
+            { name: 'SetMulticastLoop', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetMulticastTTL', params: [], returnType: new IntegerType() },
+            { name: 'SetMulticastTTL', params: [{ name: 'ttl', type: new IntegerType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSocketAsync',
+        description: 'Functions for receiving socket events.',
+        methods: [
+            { name: 'IsReadable', params: [], returnType: new BooleanType() },
+            { name: 'IsWritable', params: [], returnType: new BooleanType() },
+            { name: 'IsException', params: [], returnType: new BooleanType() },
+            { name: 'NotifyReadable', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'NotifyWritable', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'NotifyException', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'GetID', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifDraw2D',
+        description: 'Functions for drawing on a bitmap.',
+        methods: [
+            { name: 'Clear', params: [{ name: 'rgba', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetWidth', params: [], returnType: new IntegerType() },
+            { name: 'GetHeight', params: [], returnType: new IntegerType() },
+            { name: 'GetByteArray', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'GetPng', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new BrsComponentType('roByteArray') },
+            { name: 'GetAlphaEnable', params: [], returnType: new BooleanType() },
+            { name: 'SetAlphaEnable', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'DrawRect', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }, { name: 'rgba', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'DrawPoint', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'size', type: new FloatType() }, { name: 'rgba', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'DrawLine', params: [{ name: 'xStart', type: new IntegerType() }, { name: 'yStart', type: new IntegerType() }, { name: 'xEnd', type: new IntegerType() }, { name: 'yEnd', type: new IntegerType() }, { name: 'rgba', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'DrawObject', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'source', type: new ObjectType() }, { name: 'rgba', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'DrawRotatedObject', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'theta', type: new FloatType() }, { name: 'source', type: new ObjectType() }, { name: 'rgba', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'DrawScaledObject', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'scaleX', type: new FloatType() }, { name: 'scaleY', type: new FloatType() }, { name: 'source', type: new ObjectType() }, { name: 'rgba', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'DrawTransformedObject', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'theta', type: new FloatType() }, { name: 'scaleX', type: new FloatType() }, { name: 'scaleY', type: new FloatType() }, { name: 'source', type: new ObjectType() }, { name: 'rgba', type: new IntegerType(), isOptional: true }], returnType: new BooleanType() },
+            { name: 'DrawText', params: [{ name: 'text', type: new StringType() }, { name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'rgba', type: new IntegerType() }, { name: 'font', type: new ObjectType() }], returnType: new BooleanType() },
+            { name: 'Finish', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifScreen',
+        description: 'Functions for showing a double-buffered screen.',
+        methods: [
+            { name: 'SwapBuffers', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifRegion',
+        description: 'Functions for managing a region of a bitmap.',
+        methods: [
+            { name: 'Copy', params: [], returnType: new BrsComponentType('roRegion') },
+            { name: 'Offset', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'Set', params: [{ name: 'region', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetBitmap', params: [], returnType: new BrsComponentType('roBitmap') },
+            { name: 'GetX', params: [], returnType: new IntegerType() },
+            { name: 'GetY', params: [], returnType: new IntegerType() },
+            { name: 'GetWidth', params: [], returnType: new IntegerType() },
+            { name: 'GetHeight', params: [], returnType: new IntegerType() },
+            { name: 'SetCollisionType', params: [{ name: 'collisionType', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetCollisionType', params: [], returnType: new IntegerType() },
+            { name: 'SetCollisionRectangle', params: [{ name: 'xOffset', type: new IntegerType() }, { name: 'yOffset', type: new IntegerType() }, { name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetCollisionCircle', params: [{ name: 'xOffset', type: new IntegerType() }, { name: 'yOffset', type: new IntegerType() }, { name: 'radius', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetPretranslation', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetScaleMode', params: [{ name: 'mode', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetScaleMode', params: [], returnType: new IntegerType() },
+            { name: 'SetTime', params: [{ name: 'time', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetTime', params: [], returnType: new IntegerType() },
+            { name: 'SetWrap', params: [{ name: 'wrap', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'GetWrap', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifCompositor',
+        description: 'Functions for drawing and animating sprites.',
+        methods: [
+            { name: 'SetDrawTo', params: [{ name: 'destination', type: new ObjectType() }, { name: 'rgbaBackground', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'Draw', params: [], returnType: new VoidType() },
+            { name: 'DrawAll', params: [], returnType: new VoidType() },
+            { name: 'NewSprite', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'region', type: new ObjectType() }, { name: 'z', type: new IntegerType(), isOptional: true }], returnType: new BrsComponentType('roSprite') },
+            { name: 'NewAnimatedSprite', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }, { name: 'regions', type: new ObjectType() }, { name: 'z', type: new IntegerType(), isOptional: true }], returnType: new BrsComponentType('roSprite') },
+            { name: 'AnimationTick', params: [{ name: 'duration', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'ChangeMatchingRegions', params: [{ name: 'oldRegion', type: new ObjectType() }, { name: 'newRegion', type: new ObjectType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifSprite',
+        description: 'Functions for moving sprites and detecting collisions.',
+        methods: [
+            { name: 'MoveTo', params: [{ name: 'x', type: new IntegerType() }, { name: 'y', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'MoveOffset', params: [{ name: 'xOffset', type: new IntegerType() }, { name: 'yOffset', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetRegion', params: [{ name: 'region', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetRegion', params: [], returnType: new BrsComponentType('roRegion') },
+            { name: 'SetMemberFlags', params: [{ name: 'flags', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetMemberFlags', params: [], returnType: new IntegerType() },
+            { name: 'SetCollidableFlags', params: [{ name: 'flags', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetCollidableFlags', params: [], returnType: new IntegerType() },
+            { name: 'SetZ', params: [{ name: 'z', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetZ', params: [], returnType: new IntegerType() },
+            { name: 'SetDrawableFlag', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'GetDrawableFlag', params: [], returnType: new BooleanType() },
+            { name: 'GetX', params: [], returnType: new IntegerType() },
+            { name: 'GetY', params: [], returnType: new IntegerType() },
+            { name: 'SetData', params: [{ name: 'data', type: new DynamicType() }], returnType: new VoidType() },
+            { name: 'GetData', params: [], returnType: new DynamicType() },
+            { name: 'CheckCollision', params: [], returnType: new BrsComponentType('roSprite') },
+            { name: 'CheckMultipleCollisions', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'Remove', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifFontRegistry',
+        description: 'Functions for registering and creating fonts.',
+        methods: [
+            { name: 'Register', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'GetFamilies', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'GetFont', params: [{ name: 'family', type: new StringType() }, { name: 'size', type: new IntegerType() }, { name: 'bold', type: new BooleanType() }, { name: 'italic', type: new BooleanType() }], returnType: new BrsComponentType('roFont') },
+            { name: 'GetDefaultFont', params: [{ name: 'size', type: new IntegerType(), isOptional: true }, { name: 'bold', type: new BooleanType(), isOptional: true }, { name: 'italic', type: new BooleanType(), isOptional: true }], returnType: new BrsComponentType('roFont') },
+            { name: 'GetDefaultFontSize', params: [], returnType: new IntegerType() },
+            { name: 'Get', params: [{ name: 'family', type: new StringType() }, { name: 'size', type: new IntegerType() }, { name: 'bold', type: new BooleanType() }, { name: 'italic', type: new BooleanType() }], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifFont',
+        description: 'Functions for measuring text.',
+        methods: [
+            { name: 'GetOneLineHeight', params: [], returnType: new IntegerType() },
+            { name: 'GetOneLineWidth', params: [{ name: 'text', type: new StringType() }, { name: 'maxWidth', type: new IntegerType() }], returnType: new IntegerType() },
+            { name: 'GetAscent', params: [], returnType: new IntegerType() },
+            { name: 'GetDescent', params: [], returnType: new IntegerType() },
+            { name: 'GetMaxAdvance', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifImageMetadata',
+        description: 'Functions for reading the metadata of an image.',
+        methods: [
+            { name: 'SetUrl', params: [{ name: 'url', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetMetadata', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetThumbnail', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetRawExif', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetRawExifTag', params: [{ name: 'ifd', type: new IntegerType() }, { name: 'tag', type: new IntegerType() }], returnType: new DynamicType() }
+        ]
+    },
+    {
+        name: 'ifAudioResource',
+        description: 'Functions for playing short sounds.',
+        methods: [
+            { name: 'Trigger', params: [{ name: 'volume', type: new IntegerType() }, { name: 'index', type: new IntegerType(), isOptional: true }], returnType: new VoidType() },
+            { name: 'IsPlaying', params: [], returnType: new BooleanType() },
+            { name: 'Stop', params: [], returnType: new VoidType() },
+            { name: 'MaxSimulStreams', params: [], returnType: new IntegerType() },
+            { name: 'GetMetaData', params: [], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifAudioPlayer',
+        description: 'Functions for playing audio.',
+        methods: [
+            { name: 'SetContentList', params: [{ name: 'contentList', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'AddContent', params: [{ name: 'contentItem', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'ClearContent', params: [], returnType: new VoidType() },
+            { name: 'Play', params: [], returnType: new BooleanType() },
+            { name: 'Stop', params: [], returnType: new BooleanType() },
+            { name: 'Pause', params: [], returnType: new BooleanType() },
+            { name: 'Resume', params: [], returnType: new BooleanType() },
+            { name: 'SetLoop', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'SetNext', params: [{ name: 'index', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'Seek', params: [{ name: 'offsetMs', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'SetTimedMetaDataForKeys', params: [{ name: 'keys', type: new ObjectType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifVideoPlayer',
+        description: 'Functions for playing video.',
+        methods: [
+            { name: 'SetContentList', params: [{ name: 'contentList', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'AddContent', params: [{ name: 'contentItem', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'ClearContent', params: [], returnType: new VoidType() },
+            { name: 'PreBuffer', params: [], returnType: new BooleanType() },
+            { name: 'Play', params: [], returnType: new BooleanType() },
+            { name: 'Stop', params: [], returnType: new BooleanType() },
+            { name: 'Pause', params: [], returnType: new BooleanType() },
+            { name: 'Resume', params: [], returnType: new BooleanType() },
+            { name: 'SetLoop', params: [{ name: 'enable', type: new BooleanType() }], returnType: new VoidType() },
+            { name: 'SetNext', params: [{ name: 'index', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'Seek', params: [{ name: 'offsetMs', type: new IntegerType() }], returnType: new BooleanType() },
+            { name: 'SetDestinationRect', params: [{ name: 'rect', type: new DynamicType() }, { name: 'y', type: new IntegerType(), isOptional: true }, { name: 'width', type: new IntegerType(), isOptional: true }, { name: 'height', type: new IntegerType(), isOptional: true }], returnType: new VoidType() },
+            { name: 'SetMaxVideoDecodeResolution', params: [{ name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetCGMS', params: [{ name: 'level', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetMacrovisionLevel', params: [{ name: 'level', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetPositionNotificationPeriod', params: [{ name: 'period', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetPlaybackDuration', params: [], returnType: new IntegerType() },
+            { name: 'GetAudioTracks', params: [], returnType: new BrsComponentType('roArray') },
+            { name: 'ChangeAudioTrack', params: [{ name: 'trackId', type: new StringType() }], returnType: new VoidType() },
+            { name: 'SetTimedMetaDataForKeys', params: [{ name: 'keys', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'GetCaptionRenderer', params: [], returnType: new ObjectType() }
+        ]
+    },
+    {
+        name: 'ifTextToSpeech',
+        description: 'Functions for speaking text.',
+        methods: [
+            { name: 'Say', params: [{ name: 'text', type: new StringType() }], returnType: new IntegerType() },
+            { name: 'Silence', params: [], returnType: new VoidType() },
+            { name: 'Flush', params: [], returnType: new VoidType() },
+            { name: 'IsEnabled', params: [], returnType: new BooleanType() },
+            { name: 'GetAvailableLanguages', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'SetLanguage', params: [{ name: 'name', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetLanguage', params: [], returnType: new StringType() },
+            { name: 'GetAvailableVoices', params: [], returnType: new BrsComponentType('roList') },
+            { name: 'SetVoice', params: [{ name: 'name', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetVoice', params: [], returnType: new StringType() },
+            { name: 'SetRate', params: [{ name: 'rate', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetRate', params: [], returnType: new IntegerType() },
+            { name: 'SetVolume', params: [{ name: 'volume', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'GetVolume', params: [], returnType: new IntegerType() }
+        ]
+    },
+    {
+        name: 'ifAudioGuide',
+        description: 'Functions for speaking text when the audio guide is enabled.',
+        methods: [
+            { name: 'Say', params: [{ name: 'text', type: new StringType() }, { name: 'flushSpeech', type: new BooleanType() }, { name: 'dontRepeat', type: new BooleanType() }], returnType: new IntegerType() },
+            { name: 'Flush', params: [], returnType: new VoidType() },
+            { name: 'Silence', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifAudioMetadata',
+        description: 'Functions for reading the tags and properties of an audio file.',
+        methods: [
+            { name: 'SetUrl', params: [{ name: 'url', type: new StringType() }], returnType: new VoidType() },
+            { name: 'GetTags', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetAudioProperties', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'GetCoverArt', params: [], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifMicrophone',
+        description: 'Functions for recording audio from the microphone of the remote.',
+        methods: [
+            { name: 'CanRecord', params: [], returnType: new BooleanType() },
+            { name: 'GetStreamInfo', params: [], returnType: new BrsComponentType('roAssociativeArray') },
+            { name: 'RecordToFile', params: [{ name: 'path', type: new StringType() }], returnType: new BooleanType() },
+            { name: 'SetPrompt', params: [{ name: 'prompt', type: new StringType() }], returnType: new VoidType() },
+            { name: 'StartRecording', params: [], returnType: new BooleanType() },
+            { name: 'StopRecording', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifStorageInfo',
+        description: 'Functions for reading the size and free space of a storage volume.',
+        methods: [
+            { name: 'GetFreeInMegabytes', params: [], returnType: new IntegerType() },
+            { name: 'GetSizeInMegabytes', params: [], returnType: new IntegerType() },
+            { name: 'GetUsedInMegabytes', params: [], returnType: new IntegerType() },
+            { name: 'GetBytesPerBlock', params: [], returnType: new IntegerType() },
+            { name: 'GetBlocks', params: [], returnType: new IntegerType() },
+            { name: 'GetUsedBlocks', params: [], returnType: new IntegerType() },
+            { name: 'GetFileSystemType', params: [], returnType: new StringType() }
+        ]
+    },
+    {
+        name: 'ifUtils',
+        description: 'Utility functions for comparing and copying values.',
+        methods: [
+            { name: 'DeepCopy', params: [{ name: 'value', type: new DynamicType() }], returnType: new DynamicType() },
+            { name: 'IsSameObject', params: [{ name: 'first', type: new DynamicType() }, { name: 'second', type: new DynamicType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifCECStatus',
+        description: 'Functions for checking the HDMI-CEC status of the device.',
+        methods: [
+            { name: 'IsActiveSource', params: [], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifHdmiStatus',
+        description: 'Functions for checking the HDMI status of the device.',
+        methods: [
+            { name: 'IsConnected', params: [], returnType: new BooleanType() },
+            { name: 'GetHdcpVersion', params: [], returnType: new StringType() },
+            { name: 'IsHdcpActive', params: [{ name: 'version', type: new StringType() }], returnType: new BooleanType() }
+        ]
+    },
+    {
+        name: 'ifSystemLog',
+        description: 'Functions for receiving system log events.',
+        methods: [
+            { name: 'EnableType', params: [{ name: 'logType', type: new StringType() }], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifAppMemoryMonitor',
+        description: 'Functions for monitoring the memory used by the channel.',
+        methods: [
+            { name: 'EnableMemoryWarningEvent', params: [{ name: 'enable', type: new BooleanType() }], returnType: new BooleanType() },
+            { name: 'GetMemoryLimitPercent', params: [], returnType: new IntegerType() },
+            { name: 'GetChannelAvailableMemory', params: [], returnType: new IntegerType() },
+            { name: 'GetChannelMemoryLimit', params: [], returnType: new BrsComponentType('roAssociativeArray') }
+        ]
+    },
+    {
+        name: 'ifTextureManager',
+        description: 'Functions for loading bitmaps asynchronously.',
+        methods: [
+            { name: 'RequestTexture', params: [{ name: 'request', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'CancelRequest', params: [{ name: 'request', type: new ObjectType() }], returnType: new VoidType() },
+            { name: 'UnloadBitmap', params: [{ name: 'url', type: new StringType() }], returnType: new VoidType() },
+            { name: 'CleanUp', params: [], returnType: new VoidType() }
+        ]
+    },
+    {
+        name: 'ifTextureRequest',
+        description: 'Functions for describing a texture request.',
+        methods: [
+            { name: 'GetId', params: [], returnType: new IntegerType() },
+            { name: 'GetState', params: [], returnType: new IntegerType() },
+            { name: 'SetSize', params: [{ name: 'width', type: new IntegerType() }, { name: 'height', type: new IntegerType() }], returnType: new VoidType() },
+            { name: 'SetScaleMode', params: [{ name: 'mode', type: new IntegerType() }], returnType: new VoidType() }
+        ]
+    }
+];
+
+/**
+ * A map of all built-in interfaces by their lower-case name
+ */
+export const globalInterfaceMap = globalInterfaces.reduce((map, x) => {
+    map.set(x.name.toLowerCase(), x);
+    return map;
+}, new Map<string, BuiltInInterface>());
+
+/**
+ * The built-in BrightScript components that can be created with `CreateObject()`. Components with `hasDynamicMembers` accept members that are not declared by their interfaces
+ */
+export const globalComponents: BuiltInComponent[] = [
+    {
+        name: 'roArray',
+        description: 'An array of values that grows as values are added.',
+        interfaces: ['ifArray', 'ifArrayGet', 'ifArraySet', 'ifArrayJoin', 'ifArraySort', 'ifArraySlice', 'ifEnum']
+    },
+    {
+        name: 'roAssociativeArray',
+        description: 'A collection of values that are looked up by key.',
+        hasDynamicMembers: true,
+        interfaces: ['ifAssociativeArray', 'ifEnum']
+    },
+    {
+        name: 'roList',
+        description: 'A doubly-linked list of values.',
+        interfaces: ['ifList', 'ifListToArray', 'ifArray', 'ifArrayGet', 'ifArraySet', 'ifEnum']
+    },
+    {
+        name: 'roByteArray',
+        description: 'An array of bytes.',
+        interfaces: ['ifByteArray', 'ifArray', 'ifArrayGet', 'ifArraySet', 'ifEnum']
+    },
+    {
+        name: 'roString',
+        description: 'A boxed string.',
+        interfaces: ['ifString', 'ifStringOps', 'ifToStr']
+    },
+    {
+        name: 'roInt',
+        description: 'A boxed integer.',
+        interfaces: ['ifInt', 'ifToStr']
+    },
+    {
+        name: 'roInteger',
+        description: 'A boxed integer.',
+        interfaces: ['ifInt', 'ifToStr']
+    },
+    {
+        name: 'roLongInteger',
+        description: 'A boxed long integer.',
+        interfaces: ['ifLongInt', 'ifToStr']
+    },
+    {
+        name: 'roFloat',
+        description: 'A boxed float.',
+        interfaces: ['ifFloat', 'ifToStr']
+    },
+    {
+        name: 'roDouble',
+        description: 'A boxed double.',
+        interfaces: ['ifDouble', 'ifToStr']
+    },
+    {
+        name: 'roBoolean',
+        description: 'A boxed boolean.',
+        interfaces: ['ifBoolean', 'ifToStr']
+    },
+    {
+        name: 'roDateTime',
+        description: 'A date and time, in UTC unless converted with `ToLocalTime()`.',
+        interfaces: ['ifDateTime']
+    },
+    {
+        name: 'roTimespan',
+        description: 'A timer for measuring elapsed time.',
+        interfaces: ['ifTimespan']
+    },
+    {
+        name: 'roRegex',
+        description: 'A regular expression (i.e. `CreateObject("roRegex", "[a-z]+", "i")`).',
+        interfaces: ['ifRegex']
+    },
+    {
+        name: 'roRegistry',
+        description: 'The registry, a persistent key-value store for the channel.',
+        interfaces: ['ifRegistry']
+    },
+    {
+        name: 'roRegistrySection',
+        description: 'A section of the registry (i.e. `CreateObject("roRegistrySection", "settings")`).',
+        interfaces: ['ifRegistrySection']
+    },
+    {
+        name: 'roMessagePort',
+        description: 'A queue of events sent by other components.',
+        interfaces: ['ifMessagePort']
+    },
+    {
+        name: 'roUrlTransfer',
+        description: 'Transfers data to and from urls.',
+        interfaces: ['ifUrlTransfer', 'ifHttpAgent', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roDeviceInfo',
+        description: 'Information about the device.',
+        interfaces: ['ifDeviceInfo', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roAppInfo',
+        description: 'Information about the channel from its manifest.',
+        interfaces: ['ifAppInfo']
+    },
+    {
+        name: 'roAppManager',
+        description: 'Manages the channel and launches other channels.',
+        interfaces: ['ifAppManager']
+    },
+    {
+        name: 'roInput',
+        description: 'Receives input from the mobile app and the external control protocol.',
+        interfaces: ['ifInput', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roSGScreen',
+        description: 'The screen that shows a SceneGraph scene.',
+        interfaces: ['ifSGScreen']
+    },
+    {
+        name: 'roSGNode',
+        description: 'A SceneGraph node (i.e. `CreateObject("roSGNode", "ContentNode")`).',
+        hasDynamicMembers: true,
+        interfaces: ['ifSGNodeField', 'ifSGNodeChildren', 'ifSGNodeDict', 'ifSGNodeFocus', 'ifSGNodeBoundingRect', 'ifSGNodeHttpAgentAccess']
+    },
+    {
+        name: 'roXMLElement',
+        description: 'An xml element, with its attributes and child elements.',
+        interfaces: ['ifXMLElement']
+    },
+    {
+        name: 'roXMLList',
+        description: 'A list of xml elements.',
+        interfaces: ['ifXMLList', 'ifList', 'ifListToArray', 'ifArray', 'ifArrayGet', 'ifArraySet', 'ifEnum']
+    },
+    {
+        name: 'roFileSystem',
+        description: 'Reads and manages files and directories.',
+        interfaces: ['ifFileSystem', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roPath',
+        description: 'A file path (i.e. `CreateObject("roPath", "pkg:/images/logo.png")`).',
+        interfaces: ['ifPath', 'ifString']
+    },
+    {
+        name: 'roEVPDigest',
+        description: 'Computes message digests (i.e. MD5 or SHA-256).',
+        interfaces: ['ifEVPDigest']
+    },
+    {
+        name: 'roEVPCipher',
+        description: 'Encrypts and decrypts data.',
+        interfaces: ['ifEVPCipher']
+    },
+    {
+        name: 'roHMAC',
+        description: 'Computes message authentication codes.',
+        interfaces: ['ifHMAC']
+    },
+    {
+        name: 'roRSA',
+        description: 'Signs and verifies data with RSA keys.',
+        interfaces: ['ifRSA']
+    },
+    {
+        name: 'roDeviceCrypto',
+        description: 'Encrypts and decrypts data with a key that is unique to the device.',
+        interfaces: ['ifDeviceCrypto']
+    },
+    {
+        name: 'roChannelStore',
+        description: 'Makes in-channel purchases.',
+        interfaces: ['ifChannelStore', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roLocalization',
+        description: 'Finds localized assets.',
+        interfaces: ['ifLocalization']
+    },
+    {
+        name: 'roSocketAddress',
+        description: 'A network address and port.',
+        interfaces: ['ifSocketAddress']
+    },
+    {
+        name: 'roStreamSocket',
+        description: 'A TCP socket.',
+        interfaces: ['ifSocket', 'ifSocketStatus', 'ifSocketOption', 'ifSocketConnection', 'ifSocketConnectionOption', 'ifSocketAsync', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roDataGramSocket',
+        description: 'A UDP socket.',
+        interfaces: ['ifSocket', 'ifSocketStatus', 'ifSocketOption', 'ifSocketCastOption', 'ifSocketAsync', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roScreen',
+        description: 'A double-buffered screen for 2D drawing.',
+        interfaces: ['ifScreen', 'ifDraw2D', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roBitmap',
+        description: 'A bitmap for 2D drawing.',
+        interfaces: ['ifDraw2D']
+    },
+    {
+        name: 'roRegion',
+        description: 'A region of a bitmap.',
+        interfaces: ['ifRegion', 'ifDraw2D']
+    },
+    {
+        name: 'roCompositor',
+        description: 'Draws and animates sprites.',
+        interfaces: ['ifCompositor']
+    },
+    {
+        name: 'roSprite',
+        description: 'A sprite drawn by a compositor.',
+        interfaces: ['ifSprite']
+    },
+    {
+        name: 'roFontRegistry',
+        description: 'Registers fonts and creates font objects.',
+        interfaces: ['ifFontRegistry']
+    },
+    {
+        name: 'roFont',
+        description: 'A font used for 2D drawing.',
+        interfaces: ['ifFont']
+    },
+    {
+        name: 'roImageMetadata',
+        description: 'Reads the metadata of an image.',
+        interfaces: ['ifImageMetadata']
+    },
+    {
+        name: 'roAudioResource',
+        description: 'A short sound (i.e. a sound effect).',
+        interfaces: ['ifAudioResource']
+    },
+    {
+        name: 'roAudioPlayer',
+        description: 'Plays audio.',
+        interfaces: ['ifAudioPlayer', 'ifHttpAgent', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roVideoPlayer',
+        description: 'Plays video on a 2D screen.',
+        interfaces: ['ifVideoPlayer', 'ifHttpAgent', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roTextToSpeech',
+        description: 'Speaks text.',
+        interfaces: ['ifTextToSpeech', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roAudioGuide',
+        description: 'Speaks text when the audio guide is enabled.',
+        interfaces: ['ifAudioGuide']
+    },
+    {
+        name: 'roAudioMetadata',
+        description: 'Reads the tags and properties of an audio file.',
+        interfaces: ['ifAudioMetadata']
+    },
+    {
+        name: 'roMicrophone',
+        description: 'Records audio from the microphone of the remote.',
+        interfaces: ['ifMicrophone', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roStorageInfo',
+        description: 'The size and free space of a storage volume.',
+        interfaces: ['ifStorageInfo']
+    },
+    {
+        name: 'roUtils',
+        description: 'Utility functions for comparing and copying values.',
+        interfaces: ['ifUtils']
+    },
+    {
+        name: 'roInvalid',
+        description: 'A boxed `invalid` value.',
+        interfaces: ['ifToStr']
+    },
+    {
+        name: 'roCECStatus',
+        description: 'The HDMI-CEC status of the device.',
+        interfaces: ['ifCECStatus', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roHdmiStatus',
+        description: 'The HDMI status of the device.',
+        interfaces: ['ifHdmiStatus', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roSystemLog',
+        description: 'Receives system log events.',
+        interfaces: ['ifSystemLog', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roAppMemoryMonitor',
+        description: 'Monitors the memory used by the channel.',
+        interfaces: ['ifAppMemoryMonitor', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roTextureManager',
+        description: 'Loads bitmaps asynchronously.',
+        interfaces: ['ifTextureManager', 'ifSetMessagePort', 'ifGetMessagePort']
+    },
+    {
+        name: 'roTextureRequest',
+        description: 'A request to load a bitmap with a texture manager.',
+        interfaces: ['ifTextureRequest']
+    }
+];
+
+/**
+ * A map of all built-in components by their lower-case name
+ */
+export const globalComponentMap = globalComponents.reduce((map, x) => {
+    map.set(x.name.toLowerCase(), x);
+    return map;
+}, new Map<string, BuiltInComponent>());
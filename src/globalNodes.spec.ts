@@ -0,0 +1,24 @@
+import { expect } from 'chai';
+import { globalNodeMap, globalNodes } from './globalNodes';
+import { SGFieldTypes } from './parser/SGTypes';
+
+describe('globalNodes', () => {
+    it('only extends nodes that exist', () => {
+        expect(
+            globalNodes.filter(x => x.extends && !globalNodeMap.has(x.extends.toLowerCase())).map(x => x.name)
+        ).to.be.empty;
+    });
+
+    it('only uses valid field types', () => {
+        const invalidFields = [] as string[];
+        for (const node of globalNodes) {
+            for (const field of node.fields) {
+                //`event` fields are observed, but never read or written
+                if (field.type !== 'event' && !SGFieldTypes.includes(field.type)) {
+                    invalidFields.push(`${node.name}.${field.name}`);
+                }
+            }
+        }
+        expect(invalidFields).to.be.empty;
+    });
+});
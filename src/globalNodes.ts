@@ -0,0 +1,988 @@
+import type { BuiltInNode } from './interfaces';
+
+/**
+ * The built-in SceneGraph nodes and their fields. Nodes with `hasDynamicFields` accept fields that are not listed here
+ */
+export const globalNodes: BuiltInNode[] = [
+    {
+        name: 'Node',
+        description: 'The base node of all SceneGraph nodes.',
+        fields: [
+            { name: 'id', type: 'string' },
+            { name: 'focusedChild', type: 'node' },
+            { name: 'focusable', type: 'boolean' },
+            { name: 'change', type: 'assocarray' }
+        ]
+    },
+    {
+        name: 'Group',
+        description: 'Groups child nodes so that they can be positioned, scaled, rotated and shown or hidden together.',
+        extends: 'Node',
+        fields: [
+            { name: 'visible', type: 'boolean' },
+            { name: 'opacity', type: 'float' },
+            { name: 'translation', type: 'vector2d' },
+            { name: 'rotation', type: 'float' },
+            { name: 'scale', type: 'vector2d' },
+            { name: 'scaleRotateCenter', type: 'vector2d' },
+            { name: 'childRenderOrder', type: 'string' },
+            { name: 'inheritParentTransform', type: 'boolean' },
+            { name: 'inheritParentOpacity', type: 'boolean' },
+            { name: 'clippingRect', type: 'rect2d' },
+            { name: 'renderPass', type: 'integer' },
+            { name: 'muteAudioGuide', type: 'boolean' },
+            { name: 'enableRenderTracking', type: 'boolean' },
+            { name: 'renderTracking', type: 'string' }
+        ]
+    },
+    {
+        name: 'LayoutGroup',
+        description: 'Arranges its children in a row or column.',
+        extends: 'Group',
+        fields: [
+            { name: 'layoutDirection', type: 'string' },
+            { name: 'horizAlignment', type: 'string' },
+            { name: 'vertAlignment', type: 'string' },
+            { name: 'itemSpacings', type: 'floatarray' },
+            { name: 'addItemSpacingAfterChild', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'ButtonGroup',
+        description: 'A column of buttons.',
+        extends: 'LayoutGroup',
+        fields: [
+            { name: 'textFont', type: 'node' },
+            { name: 'focusedTextFont', type: 'node' },
+            { name: 'textColor', type: 'color' },
+            { name: 'focusedTextColor', type: 'color' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'focusFootprintBitmapUri', type: 'uri' },
+            { name: 'iconUri', type: 'uri' },
+            { name: 'focusedIconUri', type: 'uri' },
+            { name: 'minWidth', type: 'float' },
+            { name: 'maxWidth', type: 'float' },
+            { name: 'buttonHeight', type: 'float' },
+            { name: 'rightJustify', type: 'boolean' },
+            { name: 'buttons', type: 'stringarray' },
+            { name: 'buttonFocused', type: 'integer' },
+            { name: 'buttonSelected', type: 'integer' },
+            { name: 'focusButton', type: 'integer' }
+        ]
+    },
+    {
+        name: 'Rectangle',
+        description: 'A filled rectangle.',
+        extends: 'Group',
+        fields: [
+            { name: 'color', type: 'color' },
+            { name: 'width', type: 'float' },
+            { name: 'height', type: 'float' },
+            { name: 'blendingEnabled', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'Label',
+        description: 'Displays a single or multiple lines of text.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'color', type: 'color' },
+            { name: 'font', type: 'node' },
+            { name: 'horizAlign', type: 'string' },
+            { name: 'vertAlign', type: 'string' },
+            { name: 'width', type: 'float' },
+            { name: 'height', type: 'float' },
+            { name: 'numLines', type: 'integer' },
+            { name: 'maxLines', type: 'integer' },
+            { name: 'wrap', type: 'boolean' },
+            { name: 'lineSpacing', type: 'float' },
+            { name: 'displayPartialLines', type: 'boolean' },
+            { name: 'ellipsizeOnBoundary', type: 'boolean' },
+            { name: 'truncateOnDelimiter', type: 'string' },
+            { name: 'wordBreakChars', type: 'string' },
+            { name: 'ellipsisText', type: 'string' },
+            { name: 'isTextEllipsized', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'SimpleLabel',
+        description: 'Displays a single line of text with fewer options than a Label.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'color', type: 'color' },
+            { name: 'fontSize', type: 'integer' },
+            { name: 'fontUri', type: 'uri' },
+            { name: 'horizOrigin', type: 'string' },
+            { name: 'vertOrigin', type: 'string' }
+        ]
+    },
+    {
+        name: 'ScrollingLabel',
+        description: 'A label that scrolls text that is too long to fit.',
+        extends: 'Label',
+        fields: [
+            { name: 'maxWidth', type: 'float' },
+            { name: 'repeatCount', type: 'integer' },
+            { name: 'scrollSpeed', type: 'integer' }
+        ]
+    },
+    {
+        name: 'ScrollableText',
+        description: 'A label with a scroll bar for text that is too long to fit.',
+        extends: 'Label',
+        fields: [
+            { name: 'scrollbarTrackBitmapUri', type: 'uri' },
+            { name: 'scrollbarThumbBitmapUri', type: 'uri' }
+        ]
+    },
+    {
+        name: 'MultiStyleLabel',
+        description: 'A label that renders parts of its text in different styles.',
+        extends: 'Label',
+        fields: [
+            { name: 'drawingStyles', type: 'assocarray' }
+        ]
+    },
+    {
+        name: 'Poster',
+        description: 'Displays an image.',
+        extends: 'Group',
+        fields: [
+            { name: 'uri', type: 'uri' },
+            { name: 'width', type: 'float' },
+            { name: 'height', type: 'float' },
+            { name: 'loadSync', type: 'boolean' },
+            { name: 'loadWidth', type: 'float' },
+            { name: 'loadHeight', type: 'float' },
+            { name: 'loadDisplayMode', type: 'string' },
+            { name: 'loadStatus', type: 'string' },
+            { name: 'bitmapWidth', type: 'float' },
+            { name: 'bitmapHeight', type: 'float' },
+            { name: 'bitmapMargins', type: 'assocarray' },
+            { name: 'blendColor', type: 'color' },
+            { name: 'loadingBitmapUri', type: 'uri' },
+            { name: 'loadingBitmapOpacity', type: 'float' },
+            { name: 'failedBitmapUri', type: 'uri' },
+            { name: 'failedBitmapOpacity', type: 'float' },
+            { name: 'audioGuideText', type: 'string' }
+        ]
+    },
+    {
+        name: 'BusySpinner',
+        description: 'A spinning image that indicates that the channel is busy.',
+        extends: 'Group',
+        fields: [
+            { name: 'poster', type: 'node' },
+            { name: 'control', type: 'string' },
+            { name: 'clockwise', type: 'boolean' },
+            { name: 'spinInterval', type: 'time' },
+            { name: 'uri', type: 'uri' }
+        ]
+    },
+    {
+        name: 'Button',
+        description: 'A single button.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'textColor', type: 'color' },
+            { name: 'focusedTextColor', type: 'color' },
+            { name: 'textFont', type: 'node' },
+            { name: 'focusedTextFont', type: 'node' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'focusFootprintBitmapUri', type: 'uri' },
+            { name: 'iconUri', type: 'uri' },
+            { name: 'focusedIconUri', type: 'uri' },
+            { name: 'showFocusFootprint', type: 'boolean' },
+            { name: 'minWidth', type: 'float' },
+            { name: 'maxWidth', type: 'float' },
+            { name: 'height', type: 'float' },
+            { name: 'buttonSelected', type: 'event' }
+        ]
+    },
+    {
+        name: 'MaskGroup',
+        description: 'Masks the rendering of its children with an image.',
+        extends: 'Group',
+        fields: [
+            { name: 'maskUri', type: 'uri' },
+            { name: 'maskSize', type: 'vector2d' },
+            { name: 'maskOffset', type: 'vector2d' },
+            { name: 'maskBitmapWidth', type: 'float' },
+            { name: 'maskBitmapHeight', type: 'float' }
+        ]
+    },
+    {
+        name: 'ArrayGrid',
+        description: 'The base node of the list and grid nodes.',
+        extends: 'Group',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'itemSize', type: 'vector2d' },
+            { name: 'itemSpacing', type: 'vector2d' },
+            { name: 'numRows', type: 'integer' },
+            { name: 'numColumns', type: 'integer' },
+            { name: 'focusRow', type: 'integer' },
+            { name: 'focusColumn', type: 'integer' },
+            { name: 'horizFocusAnimationStyle', type: 'string' },
+            { name: 'vertFocusAnimationStyle', type: 'string' },
+            { name: 'drawFocusFeedbackOnTop', type: 'boolean' },
+            { name: 'drawFocusFeedback', type: 'boolean' },
+            { name: 'fixedLayout', type: 'boolean' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'focusFootprintBitmapUri', type: 'uri' },
+            { name: 'focusBitmapBlendColor', type: 'color' },
+            { name: 'focusFootprintBlendColor', type: 'color' },
+            { name: 'wrapDividerBitmapUri', type: 'uri' },
+            { name: 'wrapDividerWidth', type: 'float' },
+            { name: 'wrapDividerHeight', type: 'float' },
+            { name: 'fadeFocusFeedbackWhenAutoScrolling', type: 'boolean' },
+            { name: 'currFocusFeedbackOpacity', type: 'float' },
+            { name: 'numRenderPasses', type: 'integer' },
+            { name: 'itemClippingRect', type: 'rect2d' },
+            { name: 'itemComponentName', type: 'string' },
+            { name: 'rowHeights', type: 'floatarray' },
+            { name: 'columnWidths', type: 'floatarray' },
+            { name: 'rowSpacings', type: 'floatarray' },
+            { name: 'columnSpacings', type: 'floatarray' },
+            { name: 'sectionDividerBitmapUri', type: 'uri' },
+            { name: 'sectionDividerFont', type: 'node' },
+            { name: 'sectionDividerTextColor', type: 'color' },
+            { name: 'sectionDividerSpacing', type: 'float' },
+            { name: 'sectionDividerWidth', type: 'float' },
+            { name: 'sectionDividerHeight', type: 'float' },
+            { name: 'sectionDividerMinWidth', type: 'float' },
+            { name: 'sectionDividerLeftOffset', type: 'float' },
+            { name: 'itemFocused', type: 'integer' },
+            { name: 'itemUnfocused', type: 'integer' },
+            { name: 'itemSelected', type: 'integer' },
+            { name: 'jumpToItem', type: 'integer' },
+            { name: 'animateToItem', type: 'integer' },
+            { name: 'currFocusRow', type: 'float' },
+            { name: 'currFocusColumn', type: 'float' },
+            { name: 'currFocusSection', type: 'float' }
+        ]
+    },
+    {
+        name: 'LabelList',
+        description: 'A vertical list of labels.',
+        extends: 'ArrayGrid',
+        fields: [
+            { name: 'textHorizAlign', type: 'string' },
+            { name: 'color', type: 'color' },
+            { name: 'focusedColor', type: 'color' },
+            { name: 'font', type: 'node' },
+            { name: 'focusedFont', type: 'node' },
+            { name: 'numLines', type: 'integer' },
+            { name: 'wrap', type: 'boolean' },
+            { name: 'lineSpacing', type: 'float' },
+            { name: 'checkedIconUri', type: 'uri' },
+            { name: 'focusedCheckedIconUri', type: 'uri' },
+            { name: 'checkOnSelect', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'CheckList',
+        description: 'A vertical list of labels that can each be checked.',
+        extends: 'LabelList',
+        fields: [
+            { name: 'checkedState', type: 'boolarray' }
+        ]
+    },
+    {
+        name: 'RadioButtonList',
+        description: 'A vertical list of labels where only one can be checked.',
+        extends: 'LabelList',
+        fields: [
+            { name: 'checkedItem', type: 'integer' }
+        ]
+    },
+    {
+        name: 'MarkupList',
+        description: 'A vertical list of items rendered by the component named in `itemComponentName`.',
+        extends: 'ArrayGrid',
+        fields: []
+    },
+    {
+        name: 'MarkupGrid',
+        description: 'A grid of items rendered by the component named in `itemComponentName`.',
+        extends: 'ArrayGrid',
+        fields: []
+    },
+    {
+        name: 'PosterGrid',
+        description: 'A grid of posters with optional captions.',
+        extends: 'ArrayGrid',
+        fields: [
+            { name: 'basePosterSize', type: 'vector2d' },
+            { name: 'posterDisplayMode', type: 'string' },
+            { name: 'loadingBitmapUri', type: 'uri' },
+            { name: 'failedBitmapUri', type: 'uri' },
+            { name: 'caption1Font', type: 'node' },
+            { name: 'caption2Font', type: 'node' },
+            { name: 'caption1Color', type: 'color' },
+            { name: 'caption2Color', type: 'color' },
+            { name: 'captionLineSpacing', type: 'float' },
+            { name: 'captionHorizAlignment', type: 'string' },
+            { name: 'captionVertAlignment', type: 'string' }
+        ]
+    },
+    {
+        name: 'RowList',
+        description: 'A vertical list of horizontally scrolling rows.',
+        extends: 'ArrayGrid',
+        fields: [
+            { name: 'rowItemSize', type: 'array' },
+            { name: 'rowItemSpacing', type: 'array' },
+            { name: 'rowFocusAnimationStyle', type: 'string' },
+            { name: 'rowLabelOffset', type: 'array' },
+            { name: 'rowLabelColor', type: 'color' },
+            { name: 'rowLabelFont', type: 'node' },
+            { name: 'showRowLabel', type: 'boolarray' },
+            { name: 'showRowCounter', type: 'boolarray' },
+            { name: 'rowCounterRightOffset', type: 'float' },
+            { name: 'focusXOffset', type: 'floatarray' },
+            { name: 'rowTitleComponentName', type: 'string' },
+            { name: 'variableWidthItems', type: 'boolarray' },
+            { name: 'rowItemFocused', type: 'intarray' },
+            { name: 'rowItemSelected', type: 'intarray' },
+            { name: 'jumpToRowItem', type: 'intarray' }
+        ]
+    },
+    {
+        name: 'Dialog',
+        description: 'A modal dialog with a title, message and buttons.',
+        extends: 'Group',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'string' },
+            { name: 'buttons', type: 'stringarray' },
+            { name: 'bulletText', type: 'stringarray' },
+            { name: 'iconUri', type: 'uri' },
+            { name: 'graphicUri', type: 'uri' },
+            { name: 'graphicWidth', type: 'float' },
+            { name: 'graphicHeight', type: 'float' },
+            { name: 'titleFont', type: 'node' },
+            { name: 'messageFont', type: 'node' },
+            { name: 'backgroundUri', type: 'uri' },
+            { name: 'dividerUri', type: 'uri' },
+            { name: 'optionsDialog', type: 'boolean' },
+            { name: 'buttonFocused', type: 'integer' },
+            { name: 'buttonSelected', type: 'integer' },
+            { name: 'focusButton', type: 'integer' },
+            { name: 'close', type: 'boolean' },
+            { name: 'wasClosed', type: 'event' }
+        ]
+    },
+    {
+        name: 'ProgressDialog',
+        description: 'A dialog with a busy spinner.',
+        extends: 'Dialog',
+        fields: [
+            { name: 'busySpinner', type: 'node' }
+        ]
+    },
+    {
+        name: 'KeyboardDialog',
+        description: 'A dialog with an on-screen keyboard.',
+        extends: 'Dialog',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'keyboard', type: 'node' }
+        ]
+    },
+    {
+        name: 'PinDialog',
+        description: 'A dialog with a PIN pad.',
+        extends: 'Dialog',
+        fields: [
+            { name: 'pin', type: 'string' },
+            { name: 'pinPad', type: 'node' }
+        ]
+    },
+    {
+        name: 'StandardDialog',
+        description: 'The base node of the standard dialogs that use the palette of the scene.',
+        extends: 'Group',
+        fields: [
+            { name: 'palette', type: 'node' },
+            { name: 'buttonSelected', type: 'integer' },
+            { name: 'buttonFocused', type: 'integer' },
+            { name: 'wasClosed', type: 'event' },
+            { name: 'close', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'StandardMessageDialog',
+        description: 'A standard dialog with a title, message and buttons.',
+        extends: 'StandardDialog',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'stringarray' },
+            { name: 'bulletText', type: 'stringarray' },
+            { name: 'bulletType', type: 'string' },
+            { name: 'bottomMessage', type: 'stringarray' },
+            { name: 'buttons', type: 'stringarray' }
+        ]
+    },
+    {
+        name: 'StandardProgressDialog',
+        description: 'A standard dialog with a busy spinner.',
+        extends: 'StandardDialog',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'string' }
+        ]
+    },
+    {
+        name: 'StandardKeyboardDialog',
+        description: 'A standard dialog with an on-screen keyboard.',
+        extends: 'StandardDialog',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'stringarray' },
+            { name: 'bulletText', type: 'stringarray' },
+            { name: 'bulletType', type: 'string' },
+            { name: 'bottomMessage', type: 'stringarray' },
+            { name: 'buttons', type: 'stringarray' },
+            { name: 'text', type: 'string' },
+            { name: 'textEditBox', type: 'node' },
+            { name: 'keyboardDomain', type: 'string' },
+            { name: 'keyboard', type: 'node' }
+        ]
+    },
+    {
+        name: 'StandardPinPadDialog',
+        description: 'A standard dialog with a PIN pad.',
+        extends: 'StandardDialog',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'stringarray' },
+            { name: 'bulletText', type: 'stringarray' },
+            { name: 'bulletType', type: 'string' },
+            { name: 'bottomMessage', type: 'stringarray' },
+            { name: 'buttons', type: 'stringarray' },
+            { name: 'pin', type: 'string' },
+            { name: 'pinPad', type: 'node' }
+        ]
+    },
+    {
+        name: 'TextEditBox',
+        description: 'A single line of editable text.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'hintText', type: 'string' },
+            { name: 'maxTextLength', type: 'integer' },
+            { name: 'cursorPosition', type: 'integer' },
+            { name: 'clearOnDownKey', type: 'boolean' },
+            { name: 'active', type: 'boolean' },
+            { name: 'textColor', type: 'color' },
+            { name: 'hintTextColor', type: 'color' },
+            { name: 'width', type: 'float' },
+            { name: 'backgroundUri', type: 'uri' },
+            { name: 'secureMode', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'Keyboard',
+        description: 'An on-screen keyboard with a text edit box.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'textEditBox', type: 'node' },
+            { name: 'keyColor', type: 'color' },
+            { name: 'focusedKeyColor', type: 'color' },
+            { name: 'keyboardBitmapUri', type: 'uri' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'showTextEditBox', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'MiniKeyboard',
+        description: 'A compact on-screen keyboard with a text edit box.',
+        extends: 'Group',
+        fields: [
+            { name: 'text', type: 'string' },
+            { name: 'textEditBox', type: 'node' },
+            { name: 'keyColor', type: 'color' },
+            { name: 'focusedKeyColor', type: 'color' },
+            { name: 'keyboardBitmapUri', type: 'uri' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'showTextEditBox', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'PinPad',
+        description: 'An on-screen number pad for entering a PIN.',
+        extends: 'Group',
+        fields: [
+            { name: 'pin', type: 'string' },
+            { name: 'pinLength', type: 'integer' },
+            { name: 'secureMode', type: 'boolean' },
+            { name: 'showPinDisplay', type: 'boolean' },
+            { name: 'pinDisplayTextColor', type: 'color' },
+            { name: 'keyColor', type: 'color' },
+            { name: 'focusedKeyColor', type: 'color' },
+            { name: 'keyboardBitmapUri', type: 'uri' },
+            { name: 'focusBitmapUri', type: 'uri' }
+        ]
+    },
+    {
+        name: 'Overhang',
+        description: 'The bar at the top of the screen with a title, logo, clock and options hint.',
+        extends: 'Group',
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'titleColor', type: 'color' },
+            { name: 'logoUri', type: 'uri' },
+            { name: 'logoBaselineOffset', type: 'float' },
+            { name: 'showOptions', type: 'boolean' },
+            { name: 'optionsAvailable', type: 'boolean' },
+            { name: 'optionsText', type: 'string' },
+            { name: 'optionsColor', type: 'color' },
+            { name: 'optionsIconColor', type: 'color' },
+            { name: 'optionsDimColor', type: 'color' },
+            { name: 'optionsIconDimColor', type: 'color' },
+            { name: 'showClock', type: 'boolean' },
+            { name: 'clockColor', type: 'color' },
+            { name: 'clockText', type: 'string' },
+            { name: 'color', type: 'color' },
+            { name: 'backgroundUri', type: 'uri' },
+            { name: 'height', type: 'float' },
+            { name: 'leftDividerUri', type: 'uri' },
+            { name: 'leftDividerVertOffset', type: 'float' },
+            { name: 'rightDividerUri', type: 'uri' },
+            { name: 'rightDividerVertOffset', type: 'float' }
+        ]
+    },
+    {
+        name: 'Panel',
+        description: 'A panel of a panel set.',
+        extends: 'Group',
+        fields: [
+            { name: 'panelSize', type: 'string' },
+            { name: 'width', type: 'float' },
+            { name: 'leftPosition', type: 'float' },
+            { name: 'leftOrientation', type: 'boolean' },
+            { name: 'isFullScreen', type: 'boolean' },
+            { name: 'isOffscreenLeft', type: 'boolean' },
+            { name: 'hasNextPanel', type: 'boolean' },
+            { name: 'createNextPanelOnItemFocus', type: 'boolean' },
+            { name: 'createNextPanelIndex', type: 'integer' },
+            { name: 'goBackCount', type: 'integer' },
+            { name: 'selectButtonMovesPanelForward', type: 'boolean' },
+            { name: 'suppressLeftArrow', type: 'boolean' },
+            { name: 'suppressRightArrow', type: 'boolean' },
+            { name: 'overhangTitle', type: 'string' },
+            { name: 'clockText', type: 'string' },
+            { name: 'optionsAvailable', type: 'boolean' },
+            { name: 'overhangVisible', type: 'boolean' },
+            { name: 'overhangBackgroundUri', type: 'uri' },
+            { name: 'overhangBackgroundColor', type: 'color' }
+        ]
+    },
+    {
+        name: 'ListPanel',
+        description: 'A panel that contains a list.',
+        extends: 'Panel',
+        fields: [
+            { name: 'list', type: 'node' },
+            { name: 'showSectionLabels', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'GridPanel',
+        description: 'A panel that contains a grid.',
+        extends: 'Panel',
+        fields: [
+            { name: 'grid', type: 'node' },
+            { name: 'showSectionLabels', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'PanelSet',
+        description: 'Slides panels on and off the screen.',
+        extends: 'Group',
+        fields: [
+            { name: 'leftPanelIndex', type: 'integer' },
+            { name: 'isGoingBack', type: 'boolean' },
+            { name: 'goBackCount', type: 'integer' },
+            { name: 'numPanels', type: 'integer' }
+        ]
+    },
+    {
+        name: 'Scene',
+        description: 'The root node of a SceneGraph channel.',
+        extends: 'Group',
+        fields: [
+            { name: 'backgroundUri', type: 'uri' },
+            { name: 'backgroundColor', type: 'color' },
+            { name: 'backExitsScene', type: 'boolean' },
+            { name: 'dialog', type: 'node' },
+            { name: 'currentDesignResolution', type: 'assocarray' },
+            { name: 'palette', type: 'node' }
+        ]
+    },
+    {
+        name: 'OverhangPanelSetScene',
+        description: 'A scene with an overhang and a panel set.',
+        extends: 'Scene',
+        fields: [
+            { name: 'overhang', type: 'node' },
+            { name: 'panelSet', type: 'node' }
+        ]
+    },
+    {
+        name: 'TimeGrid',
+        description: 'An electronic program guide grid of channels and programs.',
+        extends: 'Group',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'contentStartTime', type: 'integer' },
+            { name: 'maxDays', type: 'integer' },
+            { name: 'duration', type: 'integer' },
+            { name: 'numRows', type: 'integer' },
+            { name: 'rowHeight', type: 'float' },
+            { name: 'itemSpacing', type: 'vector2d' },
+            { name: 'channelInfoWidth', type: 'float' },
+            { name: 'channelInfoComponentName', type: 'string' },
+            { name: 'programTitleFont', type: 'node' },
+            { name: 'programTitleColor', type: 'color' },
+            { name: 'programTitleFocusedColor', type: 'color' },
+            { name: 'channelNoDataText', type: 'string' },
+            { name: 'fillProgramGaps', type: 'boolean' },
+            { name: 'timeBarHeight', type: 'float' },
+            { name: 'timeLabelOffset', type: 'integer' },
+            { name: 'timeBarBitmapUri', type: 'uri' },
+            { name: 'focusBitmapUri', type: 'uri' },
+            { name: 'focusFootprintBitmapUri', type: 'uri' },
+            { name: 'nowNextMarkerColor', type: 'color' },
+            { name: 'leftEdgeTargetTime', type: 'integer' },
+            { name: 'autoScrollToPlayStart', type: 'boolean' },
+            { name: 'wrap', type: 'boolean' },
+            { name: 'programFocused', type: 'integer' },
+            { name: 'programSelected', type: 'integer' },
+            { name: 'programFocusedDetails', type: 'assocarray' },
+            { name: 'channelFocused', type: 'integer' },
+            { name: 'channelSelected', type: 'integer' },
+            { name: 'jumpToChannel', type: 'integer' },
+            { name: 'jumpToTime', type: 'float' },
+            { name: 'animateToChannel', type: 'integer' },
+            { name: 'animateToTime', type: 'float' }
+        ]
+    },
+    {
+        name: 'ZoomRowList',
+        description: 'A list of rows where the focused row is zoomed in.',
+        extends: 'Group',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'itemComponentName', type: 'string' },
+            { name: 'rowTitleComponentName', type: 'string' },
+            { name: 'rowWidth', type: 'float' },
+            { name: 'rowHeight', type: 'floatarray' },
+            { name: 'rowZoomHeight', type: 'floatarray' },
+            { name: 'rowItemHeight', type: 'floatarray' },
+            { name: 'rowItemZoomHeight', type: 'floatarray' },
+            { name: 'rowItemAspectRatio', type: 'floatarray' },
+            { name: 'rowItemSpacing', type: 'floatarray' },
+            { name: 'rowItemYOffset', type: 'floatarray' },
+            { name: 'spacingAfterRow', type: 'floatarray' },
+            { name: 'useDefaultAspectRatio', type: 'boolarray' },
+            { name: 'showRowTitle', type: 'boolarray' },
+            { name: 'showRowCounter', type: 'boolarray' },
+            { name: 'rowCounterRightOffset', type: 'float' },
+            { name: 'wrap', type: 'boolean' },
+            { name: 'fadeOutRowTitlesWhenZoomed', type: 'boolean' },
+            { name: 'rowFocused', type: 'integer' },
+            { name: 'rowSelected', type: 'integer' },
+            { name: 'rowItemFocused', type: 'intarray' },
+            { name: 'rowItemSelected', type: 'intarray' },
+            { name: 'jumpToRow', type: 'integer' },
+            { name: 'jumpToRowItem', type: 'intarray' },
+            { name: 'scrollToRow', type: 'integer' },
+            { name: 'currFocusRow', type: 'float' }
+        ]
+    },
+    {
+        name: 'TargetSet',
+        description: 'A set of rectangles that a target group lays out its items in.',
+        extends: 'Node',
+        fields: [
+            { name: 'targetRects', type: 'array' },
+            { name: 'focusIndex', type: 'integer' },
+            { name: 'color', type: 'color' }
+        ]
+    },
+    {
+        name: 'TargetGroup',
+        description: 'Lays out its items in the rectangles of a target set.',
+        extends: 'Group',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'itemComponentName', type: 'string' },
+            { name: 'targetSet', type: 'node' },
+            { name: 'unfocusedTargetSet', type: 'node' },
+            { name: 'showTargetRects', type: 'boolean' },
+            { name: 'duration', type: 'time' },
+            { name: 'wrap', type: 'boolean' },
+            { name: 'itemFocused', type: 'integer' },
+            { name: 'itemUnfocused', type: 'integer' },
+            { name: 'itemSelected', type: 'integer' },
+            { name: 'jumpToItem', type: 'integer' },
+            { name: 'animateToItem', type: 'integer' },
+            { name: 'currFocusItemIndex', type: 'float' }
+        ]
+    },
+    {
+        name: 'TargetList',
+        description: 'A target group that scrolls its items through a fixed focus position.',
+        extends: 'TargetGroup',
+        fields: []
+    },
+    {
+        name: 'TrickPlayBar',
+        description: 'The progress bar shown while seeking in a video.',
+        extends: 'Group',
+        fields: [
+            { name: 'textColor', type: 'color' },
+            { name: 'thumbBlendColor', type: 'color' },
+            { name: 'filledBarBlendColor', type: 'color' },
+            { name: 'filledBarImageUri', type: 'uri' },
+            { name: 'trackBlendColor', type: 'color' },
+            { name: 'trackImageUri', type: 'uri' },
+            { name: 'currentTimeMarkerBlendColor', type: 'color' },
+            { name: 'liveFilledBarBlendColor', type: 'color' }
+        ]
+    },
+    {
+        name: 'Font',
+        description: 'A font used to render text.',
+        extends: 'Node',
+        fields: [
+            { name: 'uri', type: 'uri' },
+            { name: 'size', type: 'integer' },
+            { name: 'fallbackGlyph', type: 'string' }
+        ]
+    },
+    {
+        name: 'AnimationBase',
+        description: 'The base node of the animation nodes.',
+        extends: 'Node',
+        fields: [
+            { name: 'repeat', type: 'boolean' },
+            { name: 'control', type: 'string' },
+            { name: 'state', type: 'string' },
+            { name: 'delay', type: 'time' }
+        ]
+    },
+    {
+        name: 'Animation',
+        description: 'Animates fields with interpolators.',
+        extends: 'AnimationBase',
+        fields: [
+            { name: 'duration', type: 'time' },
+            { name: 'easeFunction', type: 'string' },
+            { name: 'easeInPercent', type: 'float' },
+            { name: 'easeOutPercent', type: 'float' },
+            { name: 'optional', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'ParallelAnimation',
+        description: 'Runs its child animations at the same time.',
+        extends: 'AnimationBase',
+        fields: []
+    },
+    {
+        name: 'SequentialAnimation',
+        description: 'Runs its child animations one after another.',
+        extends: 'AnimationBase',
+        fields: []
+    },
+    {
+        name: 'FloatFieldInterpolator',
+        description: 'Interpolates a float field in an animation.',
+        extends: 'Node',
+        fields: [
+            { name: 'key', type: 'floatarray' },
+            { name: 'keyValue', type: 'floatarray' },
+            { name: 'fieldToInterp', type: 'string' },
+            { name: 'fraction', type: 'float' },
+            { name: 'reverse', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'Vector2DFieldInterpolator',
+        description: 'Interpolates a vector2d field in an animation.',
+        extends: 'Node',
+        fields: [
+            { name: 'key', type: 'floatarray' },
+            { name: 'keyValue', type: 'vector2darray' },
+            { name: 'fieldToInterp', type: 'string' },
+            { name: 'fraction', type: 'float' },
+            { name: 'reverse', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'ColorFieldInterpolator',
+        description: 'Interpolates a color field in an animation.',
+        extends: 'Node',
+        fields: [
+            { name: 'key', type: 'floatarray' },
+            { name: 'keyValue', type: 'colorarray' },
+            { name: 'fieldToInterp', type: 'string' },
+            { name: 'fraction', type: 'float' },
+            { name: 'reverse', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'Task',
+        description: 'Runs a function on a separate thread.',
+        extends: 'Node',
+        fields: [
+            { name: 'functionName', type: 'string' },
+            { name: 'control', type: 'string' },
+            { name: 'state', type: 'string' }
+        ]
+    },
+    {
+        name: 'Timer',
+        description: 'Fires an event after a delay.',
+        extends: 'Node',
+        fields: [
+            { name: 'control', type: 'string' },
+            { name: 'repeat', type: 'boolean' },
+            { name: 'duration', type: 'time' },
+            { name: 'fire', type: 'event' }
+        ]
+    },
+    {
+        name: 'ContentNode',
+        description: 'Stores the content meta-data of lists, grids, videos and audio.',
+        extends: 'Node',
+        hasDynamicFields: true,
+        fields: [
+            { name: 'title', type: 'string' },
+            { name: 'description', type: 'string' },
+            { name: 'url', type: 'string' },
+            { name: 'streamFormat', type: 'string' },
+            { name: 'contentType', type: 'string' },
+            { name: 'hdPosterUrl', type: 'string' },
+            { name: 'sdPosterUrl', type: 'string' },
+            { name: 'fhdPosterUrl', type: 'string' },
+            { name: 'shortDescriptionLine1', type: 'string' },
+            { name: 'shortDescriptionLine2', type: 'string' },
+            { name: 'releaseDate', type: 'string' },
+            { name: 'rating', type: 'string' },
+            { name: 'length', type: 'integer' }
+        ]
+    },
+    {
+        name: 'Video',
+        description: 'Plays video content.',
+        extends: 'Group',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'control', type: 'string' },
+            { name: 'state', type: 'string' },
+            { name: 'position', type: 'time' },
+            { name: 'duration', type: 'time' },
+            { name: 'seek', type: 'time' },
+            { name: 'loop', type: 'boolean' },
+            { name: 'mute', type: 'boolean' },
+            { name: 'enableUI', type: 'boolean' },
+            { name: 'contentIsPlaylist', type: 'boolean' },
+            { name: 'contentIndex', type: 'integer' },
+            { name: 'nextContentIndex', type: 'integer' },
+            { name: 'notificationInterval', type: 'float' },
+            { name: 'bufferingStatus', type: 'assocarray' },
+            { name: 'audioTrack', type: 'string' },
+            { name: 'availableAudioTracks', type: 'array' },
+            { name: 'subtitleTrack', type: 'string' },
+            { name: 'globalCaptionMode', type: 'string' },
+            { name: 'errorCode', type: 'integer' },
+            { name: 'errorMsg', type: 'string' },
+            { name: 'width', type: 'float' },
+            { name: 'height', type: 'float' },
+            { name: 'retrievingBar', type: 'node' },
+            { name: 'bufferingBar', type: 'node' },
+            { name: 'trickPlayBar', type: 'node' }
+        ]
+    },
+    {
+        name: 'Audio',
+        description: 'Plays audio content.',
+        extends: 'Node',
+        fields: [
+            { name: 'content', type: 'node' },
+            { name: 'control', type: 'string' },
+            { name: 'state', type: 'string' },
+            { name: 'position', type: 'time' },
+            { name: 'duration', type: 'time' },
+            { name: 'seek', type: 'time' },
+            { name: 'loop', type: 'boolean' },
+            { name: 'mute', type: 'boolean' },
+            { name: 'contentIsPlaylist', type: 'boolean' },
+            { name: 'contentIndex', type: 'integer' },
+            { name: 'nextContentIndex', type: 'integer' },
+            { name: 'notificationInterval', type: 'float' },
+            { name: 'errorCode', type: 'integer' },
+            { name: 'errorMsg', type: 'string' }
+        ]
+    },
+    {
+        name: 'SoundEffect',
+        description: 'Plays a short sound.',
+        extends: 'Node',
+        fields: [
+            { name: 'uri', type: 'uri' },
+            { name: 'control', type: 'string' },
+            { name: 'volume', type: 'integer' },
+            { name: 'loadStatus', type: 'string' }
+        ]
+    },
+    {
+        name: 'ComponentLibrary',
+        description: 'Loads a component library from a url.',
+        extends: 'Node',
+        fields: [
+            { name: 'uri', type: 'uri' },
+            { name: 'loadStatus', type: 'string' }
+        ]
+    },
+    {
+        name: 'ChannelStore',
+        description: 'Handles in-channel purchases.',
+        extends: 'Node',
+        fields: [
+            { name: 'command', type: 'string' },
+            { name: 'catalog', type: 'node' },
+            { name: 'order', type: 'node' },
+            { name: 'orderStatus', type: 'node' },
+            { name: 'purchases', type: 'node' },
+            { name: 'requestedUserData', type: 'string' },
+            { name: 'userData', type: 'node' },
+            { name: 'fakeServer', type: 'boolean' }
+        ]
+    },
+    {
+        name: 'RSGPalette',
+        description: 'A set of colors used by the built-in nodes.',
+        extends: 'Node',
+        fields: [
+            { name: 'colors', type: 'assocarray' }
+        ]
+    }
+];
+
+/**
+ * A map of all built-in nodes by their lower-case name
+ */
+export const globalNodeMap = globalNodes.reduce((map, x) => {
+    map.set(x.name.toLowerCase(), x);
+    return map;
+}, new Map<string, BuiltInNode>());
@@ -13,3 +13,4 @@ export * from './parser';
 export * from './BsConfig';
 export * from './deferred';
 export * from './astUtils';
+export * from './formatter/Formatter';
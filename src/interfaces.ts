@@ -1,4 +1,4 @@
-import type { Range, Diagnostic, CodeAction, SemanticTokenTypes, SemanticTokenModifiers } from 'vscode-languageserver';
+import type { Range, Diagnostic, CodeAction, SemanticTokenTypes, SemanticTokenModifiers, Position, Location, FoldingRange } from 'vscode-languageserver';
 import type { Scope } from './Scope';
 import type { BrsFile } from './files/BrsFile';
 import type { XmlFile } from './files/XmlFile';
@@ -7,7 +7,7 @@ import type { FunctionType } from './types/FunctionType';
 import type { ParseMode } from './parser/Parser';
 import type { Program, SourceObj, TranspileObj } from './Program';
 import type { ProgramBuilder } from './ProgramBuilder';
-import type { Expression, FunctionStatement } from './parser';
+import type { Expression, FunctionStatement, VariableExpression } from './parser';
 import type { TranspileState } from './parser/TranspileState';
 import type { SourceNode } from 'source-map';
 import type { BscType } from './types/BscType';
@@ -152,6 +152,29 @@ export interface LabelDeclaration {
     lineIndex: number;
 }
 
+/**
+ * A more specific type for a variable within part of a function, based on the condition of an `if` statement
+ * (i.e. `x` is a string inside of `if type(x) = "roString" then`)
+ */
+export interface TypeNarrowing {
+    /**
+     * The name of the variable
+     */
+    name: string;
+    /**
+     * The part of the function where the narrowed type applies
+     */
+    range: Range;
+    /**
+     * The type of the variable within the range
+     */
+    type?: BscType;
+    /**
+     * A type that the variable can not have within the range (i.e. `invalid` inside of `if x <> invalid then`)
+     */
+    excludedType?: BscType;
+}
+
 /**
  * A wrapper around a callable to provide more information about where it came from
  */
@@ -194,6 +217,8 @@ export interface CompilerPlugin {
     afterProgramTranspile?: (program: Program, entries: TranspileObj[]) => void;
     onGetCodeActions?: PluginHandler<OnGetCodeActionsEvent>;
     onGetSemanticTokens?: PluginHandler<OnGetSemanticTokensEvent>;
+    onGetRenameEdits?: PluginHandler<OnGetRenameEditsEvent>;
+    onGetFoldingRanges?: PluginHandler<OnGetFoldingRangesEvent>;
     //scope events
     afterScopeCreate?: (scope: Scope) => void;
     beforeScopeDispose?: (scope: Scope) => void;
@@ -227,6 +252,27 @@ export interface OnGetSemanticTokensEvent {
     semanticTokens: SemanticToken[];
 }
 
+export interface OnGetRenameEditsEvent {
+    program: Program;
+    file: BscFile;
+    position: Position;
+    newName: string;
+    scopes: Scope[];
+    /**
+     * The locations of every occurrence of the symbol being renamed. Each of these will be replaced with `newName`
+     */
+    locations: Location[];
+}
+
+export interface OnGetFoldingRangesEvent {
+    program: Program;
+    file: BscFile;
+    /**
+     * The list of folding ranges for the file. Plugins should push new ranges onto this list
+     */
+    foldingRanges: FoldingRange[];
+}
+
 export interface SemanticToken {
     range: Range;
     tokenType: SemanticTokenTypes;
@@ -246,8 +292,64 @@ export type FileResolver = (pathAbsolute: string) => string | undefined | Thenab
 
 export interface ExpressionInfo {
     expressions: Expression[];
-    varExpressions: Expression[];
+    varExpressions: VariableExpression[];
     uniqueVarNames: string[];
 }
 
 export type DiagnosticCode = number | string;
+
+/**
+ * A built-in SceneGraph node (i.e. `Label` or `Poster`)
+ */
+export interface BuiltInNode {
+    name: string;
+    description: string;
+    /**
+     * The name of the built-in node that this node extends
+     */
+    extends?: string;
+    /**
+     * The node accepts fields that are not listed here (i.e. the content meta-data fields of `ContentNode`)
+     */
+    hasDynamicFields?: boolean;
+    fields: BuiltInNodeField[];
+}
+
+export interface BuiltInNodeField {
+    name: string;
+    /**
+     * The SceneGraph field type (i.e. `string` or `vector2d`)
+     */
+    type: string;
+}
+
+/**
+ * A built-in BrightScript component (i.e. `roDateTime` or `roArray`)
+ */
+export interface BuiltInComponent {
+    name: string;
+    description: string;
+    /**
+     * The names of the interfaces implemented by this component (i.e. `ifDateTime`)
+     */
+    interfaces: string[];
+    /**
+     * The component accepts members that are not declared by its interfaces (i.e. the keys of `roAssociativeArray`)
+     */
+    hasDynamicMembers?: boolean;
+}
+
+/**
+ * An interface implemented by built-in BrightScript components (i.e. `ifDateTime`)
+ */
+export interface BuiltInInterface {
+    name: string;
+    description: string;
+    methods: BuiltInMethod[];
+}
+
+export interface BuiltInMethod {
+    name: string;
+    params: CallableParam[];
+    returnType: BscType;
+}
@@ -40,6 +40,58 @@ describe('lexer', () => {
         expect(tokens[0].kind).to.equal(TokenKind.Question);
     });
 
+    it('recognizes the optional chaining operators', () => {
+        let { tokens } = Lexer.scan('a?.b?[0]?(1)');
+        expect(tokens.map(x => x.kind)).to.eql([
+            TokenKind.Identifier,
+            TokenKind.QuestionDot,
+            TokenKind.Identifier,
+            TokenKind.QuestionLeftSquare,
+            TokenKind.IntegerLiteral,
+            TokenKind.RightSquareBracket,
+            TokenKind.QuestionLeftParen,
+            TokenKind.IntegerLiteral,
+            TokenKind.RightParen,
+            TokenKind.Eof
+        ]);
+    });
+
+    it('does not treat ternary or print shorthand as optional chaining', () => {
+        expect(
+            Lexer.scan('a ?.5 : 1').tokens.map(x => x.kind)
+        ).to.eql([
+            TokenKind.Identifier,
+            TokenKind.Question,
+            TokenKind.FloatLiteral,
+            TokenKind.Colon,
+            TokenKind.IntegerLiteral,
+            TokenKind.Eof
+        ]);
+        expect(
+            Lexer.scan('a ?[1] : (2)').tokens.map(x => x.kind)
+        ).to.eql([
+            TokenKind.Identifier,
+            TokenKind.Question,
+            TokenKind.LeftSquareBracket,
+            TokenKind.IntegerLiteral,
+            TokenKind.RightSquareBracket,
+            TokenKind.Colon,
+            TokenKind.LeftParen,
+            TokenKind.IntegerLiteral,
+            TokenKind.RightParen,
+            TokenKind.Eof
+        ]);
+        expect(
+            Lexer.scan('?(1)').tokens.map(x => x.kind)
+        ).to.eql([
+            TokenKind.Question,
+            TokenKind.LeftParen,
+            TokenKind.IntegerLiteral,
+            TokenKind.RightParen,
+            TokenKind.Eof
+        ]);
+    });
+
     it('produces an at symbol token', () => {
         let { tokens } = Lexer.scan('@');
         expect(tokens[0].kind).to.equal(TokenKind.At);
@@ -50,6 +102,11 @@ describe('lexer', () => {
         expect(tokens[0].kind).to.equal(TokenKind.Semicolon);
     });
 
+    it('produces a pipe token', () => {
+        let { tokens } = Lexer.scan('|');
+        expect(tokens[0].kind).to.equal(TokenKind.Pipe);
+    });
+
     it('emits error on unknown character type', () => {
         let { diagnostics } = Lexer.scan('\0');
         expect(diagnostics).to.be.lengthOf(1);
@@ -1,5 +1,5 @@
 /* eslint-disable func-names */
-import { TokenKind, ReservedWords, Keywords } from './TokenKind';
+import { TokenKind, ReservedWords, Keywords, AllowedProperties } from './TokenKind';
 import type { Token } from './Token';
 import { isAlpha, isDecimalDigit, isAlphaNumeric, isHexDigit } from './Characters';
 import type { Range, Diagnostic } from 'vscode-languageserver';
@@ -274,6 +274,16 @@ export class Lexer {
             if (this.peek() === '?') {
                 this.advance();
                 this.addToken(TokenKind.QuestionQuestion);
+            } else if (this.peek() === '.' && !isDecimalDigit(this.peekNext())) {
+                //optional chaining (`a?.b`). A digit after the dot is a ternary with a float consequent instead (`a ?.5 : 1`)
+                this.advance();
+                this.addToken(TokenKind.QuestionDot);
+            } else if (this.peek() === '[' && this.isOptionalChainingAllowed()) {
+                this.advance();
+                this.addToken(TokenKind.QuestionLeftSquare);
+            } else if (this.peek() === '(' && this.isOptionalChainingAllowed()) {
+                this.advance();
+                this.addToken(TokenKind.QuestionLeftParen);
             } else {
                 this.addToken(TokenKind.Question);
             }
@@ -295,7 +305,8 @@ export class Lexer {
         ']': TokenKind.RightSquareBracket,
         '^': TokenKind.Caret,
         ':': TokenKind.Colon,
-        ';': TokenKind.Semicolon
+        ';': TokenKind.Semicolon,
+        '|': TokenKind.Pipe
     };
 
     /**
@@ -775,7 +786,7 @@ export class Lexer {
         }
 
         // split `elseif` into `else` and `if` tokens
-        if (lowerText === 'elseif' && !this.checkPreviousToken(TokenKind.Dot)) {
+        if (lowerText === 'elseif' && !this.checkPreviousToken(TokenKind.Dot, TokenKind.QuestionDot)) {
             let savedCurrent = this.current;
             let savedColumnEnd = this.columnEnd;
             this.current -= 2;
@@ -802,7 +813,7 @@ export class Lexer {
         if (tokenType === Keywords.rem) {
             //the rem keyword can be used as an identifier on objects,
             //so do a quick look-behind to see if there's a preceeding dot
-            if (this.checkPreviousToken(TokenKind.Dot)) {
+            if (this.checkPreviousToken(TokenKind.Dot, TokenKind.QuestionDot)) {
                 this.addToken(TokenKind.Identifier);
             } else {
                 this.comment();
@@ -813,18 +824,39 @@ export class Lexer {
     }
 
     /**
-     * Check that the previous token was of the specified type
-     * @param kind
+     * Check that the previous token was of one of the specified types
+     * @param kinds
      */
-    private checkPreviousToken(kind: TokenKind) {
+    private checkPreviousToken(...kinds: TokenKind[]) {
         let previous = this.tokens[this.tokens.length - 1];
-        if (previous && previous.kind === kind) {
+        if (previous && kinds.includes(previous.kind)) {
             return true;
         } else {
             return false;
         }
     }
 
+    /**
+     * Determines whether a `?[` or `?(` should be treated as optional chaining rather than a ternary or print shorthand.
+     * That's only the case when the `?` immediately follows (no whitespace) something that can end an expression,
+     * such as an identifier, a closing paren or a closing square bracket.
+     */
+    private isOptionalChainingAllowed() {
+        if (this.leadingWhitespace !== '') {
+            return false;
+        }
+        const previous = this.tokens[this.tokens.length - 1];
+        if (!previous) {
+            return false;
+        }
+        if ([TokenKind.Identifier, TokenKind.RightParen, TokenKind.RightSquareBracket].includes(previous.kind)) {
+            return true;
+        }
+        //keywords are allowed as property names (i.e. `node.next?()`)
+        const beforePrevious = this.tokens[this.tokens.length - 2];
+        return AllowedProperties.includes(previous.kind) && [TokenKind.Dot, TokenKind.QuestionDot].includes(beforePrevious?.kind);
+    }
+
     /**
      * Looks at the current char and returns true if at least one of the candidates is a match
      */
@@ -75,7 +75,11 @@ export enum TokenKind {
     Callfunc = 'Callfunc', // @.
     Question = 'Question', // ?
     QuestionQuestion = 'QuestionQuestion', // ??
+    QuestionDot = 'QuestionDot', // ?.
+    QuestionLeftSquare = 'QuestionLeftSquare', // ?[
+    QuestionLeftParen = 'QuestionLeftParen', // ?(
     BackTick = 'BackTick', // `
+    Pipe = 'Pipe', // |
 
 
     // conditional compilation
@@ -154,6 +158,9 @@ export enum TokenKind {
     Override = 'Override',
     Import = 'Import',
     EndInterface = 'EndInterface',
+    Enum = 'Enum',
+    EndEnum = 'EndEnum',
+    Const = 'Const',
 
     //brighterscript source literals
     LineNumLiteral = 'LineNumLiteral',
@@ -307,7 +314,11 @@ export const Keywords: Record<string, TokenKind> = {
     'end try': TokenKind.EndTry,
     throw: TokenKind.Throw,
     'end interface': TokenKind.EndInterface,
-    endinterface: TokenKind.EndInterface
+    endinterface: TokenKind.EndInterface,
+    enum: TokenKind.Enum,
+    'end enum': TokenKind.EndEnum,
+    endenum: TokenKind.EndEnum,
+    const: TokenKind.Const
 };
 //hide the constructor prototype method because it causes issues
 Keywords.constructor = undefined;
@@ -323,6 +334,7 @@ export type BlockTerminator =
     | TokenKind.EndFunction
     | TokenKind.EndNamespace
     | TokenKind.EndInterface
+    | TokenKind.EndEnum
     | TokenKind.Catch
     | TokenKind.EndTry;
 
@@ -428,7 +440,10 @@ export const AllowedProperties = [
     TokenKind.Catch,
     TokenKind.EndTry,
     TokenKind.Throw,
-    TokenKind.EndInterface
+    TokenKind.EndInterface,
+    TokenKind.Enum,
+    TokenKind.EndEnum,
+    TokenKind.Const
 ];
 
 /** List of TokenKind that are allowed as local var identifiers. */
@@ -460,7 +475,10 @@ export const AllowedLocalIdentifiers = [
     TokenKind.Import,
     TokenKind.Try,
     TokenKind.Catch,
-    TokenKind.EndTry
+    TokenKind.EndTry,
+    TokenKind.Enum,
+    TokenKind.EndEnum,
+    TokenKind.Const
 ];
 
 export const BrighterScriptSourceLiterals = [
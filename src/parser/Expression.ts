@@ -9,7 +9,7 @@ import { ParseMode } from './Parser';
 import * as fileUrl from 'file-url';
 import type { WalkOptions, WalkVisitor } from '../astUtils/visitors';
 import { walk, InternalWalkMode } from '../astUtils/visitors';
-import { isAALiteralExpression, isArrayLiteralExpression, isCallExpression, isCallfuncExpression, isCommentStatement, isDottedGetExpression, isEscapedCharCodeLiteralExpression, isIntegerType, isLiteralBoolean, isLiteralExpression, isLiteralNumber, isLiteralString, isLongIntegerType, isStringType, isUnaryExpression, isVariableExpression } from '../astUtils/reflection';
+import { isAALiteralExpression, isArrayLiteralExpression, isCallExpression, isCallfuncExpression, isClassMethodStatement, isCommentStatement, isDottedGetExpression, isIndexedGetExpression, isEscapedCharCodeLiteralExpression, isIntegerType, isLiteralBoolean, isLiteralExpression, isLiteralNumber, isLiteralString, isLongIntegerType, isStringType, isUnaryExpression, isVariableExpression } from '../astUtils/reflection';
 import type { TranspileResult, TypedefProvider } from '../interfaces';
 import { VoidType } from '../types/VoidType';
 import { DynamicType } from '../types/DynamicType';
@@ -78,11 +78,20 @@ export class CallExpression extends Expression {
     ) {
         super();
         this.range = util.createRangeFromPositions(this.callee.range.start, this.closingParen.range.end);
+        this.optional = this.openingParen?.kind === TokenKind.QuestionLeftParen;
     }
 
     public readonly range: Range;
 
+    /**
+     * Is this an optional call (i.e. `doSomething?()`)
+     */
+    public readonly optional: boolean;
+
     transpile(state: BrsTranspileState, nameOverride?: string) {
+        if (util.isOptionalChain(this)) {
+            return transpileOptionalChain(this, state);
+        }
         let result = [];
 
         //transpile the name
@@ -91,9 +100,19 @@ export class CallExpression extends Expression {
         } else {
             result.push(...this.callee.transpile(state));
         }
+        result.push(
+            ...this.transpileLink(state)
+        );
+        return result;
+    }
 
+    /**
+     * Transpile the arguments portion of this call (everything after the callee)
+     */
+    transpileLink(state: BrsTranspileState) {
+        let result = [];
         result.push(
-            state.transpileToken(this.openingParen)
+            state.sourceNode(this.openingParen, '(')
         );
         for (let i = 0; i < this.args.length; i++) {
             //add comma between args
@@ -133,7 +152,11 @@ export class FunctionExpression extends Expression implements TypedefProvider {
          * If this function is enclosed within another function, this will reference that parent function
          */
         readonly parentFunction?: FunctionExpression,
-        readonly namespaceName?: NamespacedVariableNameExpression
+        readonly namespaceName?: NamespacedVariableNameExpression,
+        /**
+         * The generic type parameters of the function (i.e. `T` in `function first<T>(items as List<T>) as T`)
+         */
+        readonly typeParameters: Identifier[] = []
     ) {
         super();
         if (this.returnTypeToken) {
@@ -190,6 +213,12 @@ export class FunctionExpression extends Expression implements TypedefProvider {
                 state.transpileToken(name)
             );
         }
+        //generic type parameters only exist in typedefs
+        if (!includeBody && this.typeParameters.length > 0) {
+            results.push(
+                `<${this.typeParameters.map(x => x.text).join(', ')}>`
+            );
+        }
         //leftParen
         results.push(
             state.transpileToken(this.leftParen)
@@ -202,7 +231,7 @@ export class FunctionExpression extends Expression implements TypedefProvider {
                 results.push(', ');
             }
             //add parameter
-            results.push(param.transpile(state));
+            results.push(includeBody ? param.transpile(state) : param.getTypedef(state));
         }
         //right paren
         results.push(
@@ -216,7 +245,10 @@ export class FunctionExpression extends Expression implements TypedefProvider {
                 state.transpileToken(this.asToken),
                 ' ',
                 //return type
-                state.sourceNode(this.returnTypeToken, this.returnType.toTypeString())
+                state.sourceNode(
+                    this.returnTypeToken,
+                    state.file.getTypeAnnotationText(this.returnTypeToken, this.returnType, this.namespaceName?.getName(ParseMode.BrighterScript), !includeBody)
+                )
             );
         }
         if (includeBody) {
@@ -225,12 +257,14 @@ export class FunctionExpression extends Expression implements TypedefProvider {
             state.lineage.shift();
             results.push(...body);
         }
-        results.push('\n');
-        //'end sub'|'end function'
-        results.push(
-            state.indent(),
-            state.transpileToken(this.end)
-        );
+        //'end sub'|'end function' (abstract methods have no end keyword)
+        if (this.end) {
+            results.push(
+                '\n',
+                state.indent(),
+                state.transpileToken(this.end)
+            );
+        }
         return results;
     }
 
@@ -278,6 +312,14 @@ export class FunctionParameterExpression extends Expression {
     }
 
     public transpile(state: BrsTranspileState) {
+        return this.transpileParameter(state, false);
+    }
+
+    public getTypedef(state: BrsTranspileState) {
+        return this.transpileParameter(state, true);
+    }
+
+    private transpileParameter(state: BrsTranspileState, isTypedef: boolean) {
         let result = [
             //name
             state.transpileToken(this.name)
@@ -292,7 +334,10 @@ export class FunctionParameterExpression extends Expression {
             result.push(' ');
             result.push(state.transpileToken(this.asToken));
             result.push(' ');
-            result.push(state.sourceNode(this.typeToken, this.type.toTypeString()));
+            result.push(state.sourceNode(
+                this.typeToken,
+                state.file.getTypeAnnotationText(this.typeToken, this.type, this.namespaceName?.getName(ParseMode.BrighterScript), isTypedef)
+            ));
         }
 
         return result;
@@ -362,23 +407,78 @@ export class DottedGetExpression extends Expression {
     ) {
         super();
         this.range = util.createRangeFromPositions(this.obj.range.start, this.name.range.end);
+        this.optional = this.dot?.kind === TokenKind.QuestionDot;
     }
 
     public readonly range: Range;
 
+    /**
+     * Is this an optional member access (i.e. `user?.name`)
+     */
+    public readonly optional: boolean;
+
     transpile(state: BrsTranspileState) {
+        if (util.isOptionalChain(this)) {
+            return transpileOptionalChain(this, state);
+        }
+        //if this is a reference to an enum member, replace it with the member's literal value
+        const enumMemberValue = state.file.getEnumMemberValue(this);
+        if (enumMemberValue !== undefined) {
+            return [
+                state.sourceNode(this, enumMemberValue)
+            ];
+        }
+        //if this is a reference to a const, replace it with the const's value
+        const constStatement = state.file.getConstStatement(this);
+        if (constStatement) {
+            return [
+                state.sourceNode(this, constStatement.getValueText(state))
+            ];
+        }
+        //static class members are transpiled to standalone functions and the class's statics storage
+        const staticMember = state.file.getStaticClassMember(this.obj, this.name.text);
+        if (staticMember) {
+            if (isClassMethodStatement(staticMember.member)) {
+                return [
+                    state.sourceNode(this, staticMember.classStatement.getStaticMethodName(staticMember.member.name.text))
+                ];
+            }
+            return [
+                state.sourceNode(this.obj, `${staticMember.classStatement.getStaticsFunctionName()}()`),
+                ...this.transpileLink(state)
+            ];
+        }
+        //reads of class properties with a `get` accessor are transpiled to calls to the accessor
+        const getter = state.file.getClassAccessor(this.obj, this.name.text, 'get');
+        if (getter) {
+            return [
+                ...this.obj.transpile(state),
+                '.',
+                state.transpileToken({ ...this.name, text: getter.getTranspiledName() }),
+                '()'
+            ];
+        }
         //if the callee starts with a namespace name, transpile the name
         if (state.file.calleeStartsWithNamespace(this)) {
             return new NamespacedVariableNameExpression(this as DottedGetExpression | VariableExpression).transpile(state);
         } else {
             return [
                 ...this.obj.transpile(state),
-                '.',
-                state.transpileToken(this.name)
+                ...this.transpileLink(state)
             ];
         }
     }
 
+    /**
+     * Transpile the member access portion of this expression (everything after the object)
+     */
+    transpileLink(state: BrsTranspileState) {
+        return [
+            '.',
+            state.transpileToken(this.name)
+        ];
+    }
+
     walk(visitor: WalkVisitor, options: WalkOptions) {
         if (options.walkMode & InternalWalkMode.walkExpressions) {
             walk(this, 'obj', visitor, options);
@@ -422,14 +522,32 @@ export class IndexedGetExpression extends Expression {
     ) {
         super();
         this.range = util.createRangeFromPositions(this.obj.range.start, this.closingSquare.range.end);
+        this.optional = this.openingSquare?.kind === TokenKind.QuestionLeftSquare;
     }
 
     public readonly range: Range;
 
+    /**
+     * Is this an optional index access (i.e. `items?[0]`)
+     */
+    public readonly optional: boolean;
+
     transpile(state: BrsTranspileState) {
+        if (util.isOptionalChain(this)) {
+            return transpileOptionalChain(this, state);
+        }
         return [
             ...this.obj.transpile(state),
-            state.transpileToken(this.openingSquare),
+            ...this.transpileLink(state)
+        ];
+    }
+
+    /**
+     * Transpile the index portion of this expression (everything after the object)
+     */
+    transpileLink(state: BrsTranspileState) {
+        return [
+            state.sourceNode(this.openingSquare, '['),
             ...this.index.transpile(state),
             state.transpileToken(this.closingSquare)
         ];
@@ -792,8 +910,15 @@ export class VariableExpression extends Expression {
 
     transpile(state: BrsTranspileState) {
         let result = [];
-        //if the callee is the name of a known namespace function
-        if (state.file.calleeIsKnownNamespaceFunction(this, this.namespaceName?.getName(ParseMode.BrighterScript))) {
+        //if this is a reference to a const, replace it with the const's value
+        const constStatement = this.isCalled ? undefined : state.file.getConstStatement(this);
+        if (constStatement) {
+            result.push(
+                state.sourceNode(this, constStatement.getValueText(state))
+            );
+
+            //if the callee is the name of a known namespace function
+        } else if (state.file.calleeIsKnownNamespaceFunction(this, this.namespaceName?.getName(ParseMode.BrighterScript))) {
             result.push(
                 state.sourceNode(this, [
                     this.namespaceName.getName(ParseMode.BrightScript),
@@ -900,7 +1025,11 @@ export class SourceLiteralExpression extends Expression {
 export class NewExpression extends Expression {
     constructor(
         readonly newKeyword: Token,
-        readonly call: CallExpression
+        readonly call: CallExpression,
+        /**
+         * The types provided for the generic type parameters of the class (i.e. `string` in `new List<string>()`)
+         */
+        readonly typeArguments: Token[] = []
     ) {
         super();
         this.range = util.createRangeFromPositions(this.newKeyword.range.start, this.call.range.end);
@@ -957,9 +1086,21 @@ export class CallfuncExpression extends Expression {
     public readonly range: Range;
 
     public transpile(state: BrsTranspileState) {
+        if (util.isOptionalChain(this)) {
+            return transpileOptionalChain(this, state);
+        }
+        return [
+            ...this.callee.transpile(state),
+            ...this.transpileLink(state)
+        ];
+    }
+
+    /**
+     * Transpile the callfunc portion of this expression (everything after the callee)
+     */
+    transpileLink(state: BrsTranspileState) {
         let result = [];
         result.push(
-            ...this.callee.transpile(state),
             state.sourceNode(this.operator, '.callfunc'),
             state.transpileToken(this.openingParen),
             //the name of the function
@@ -1406,6 +1547,117 @@ export class NullCoalescingExpression extends Expression {
     }
 }
 
+/**
+ * An expression that can be a link in a chain of member accesses and calls (i.e. `a.b[0].c()`)
+ */
+export type ChainLinkExpression = DottedGetExpression | IndexedGetExpression | CallExpression | CallfuncExpression;
+
+/**
+ * Transpile a chain of member accesses and calls that contains at least one optional link (`?.`, `?[`, `?(`).
+ * If the value to the left of an optional link is invalid, the entire chain evaluates to invalid.
+ * As an expression, this produces an IIFE that returns early. As a statement, this produces nested `if` blocks.
+ */
+export function transpileOptionalChain(expression: ChainLinkExpression, state: BrsTranspileState, asStatement = false): TranspileResult {
+    const links = util.getChainLinks(expression);
+
+    /**
+     * Determine whether this link is the callee of an optional method call (i.e. the `.b` in `a.b?()`).
+     * The object of that link gets evaluated on its own so the call keeps its `m` reference
+     */
+    const isOptionalMethodCallee = (link: ChainLinkExpression, index: number) => {
+        const next = links[index + 1];
+        return isCallExpression(next) && next.optional &&
+            (isDottedGetExpression(link) || isIndexedGetExpression(link)) &&
+            !state.file.calleeStartsWithNamespace(link);
+    };
+    const startIndex = links.findIndex((link, i) => {
+        return (!isCallfuncExpression(link) && link.optional) || isOptionalMethodCallee(link, i);
+    });
+    const startLink = links[startIndex];
+    const head = isCallExpression(startLink) || isCallfuncExpression(startLink) ? startLink.callee : startLink.obj;
+
+    const result = [] as TranspileResult;
+    const writeLine = (...parts: TranspileResult) => {
+        //the first line of a statement is written after whatever indentation the parent already wrote
+        if (result.length > 0) {
+            result.push(state.newline, state.indent());
+        }
+        result.push(...parts);
+    };
+    let guardCount = 0;
+    const writeGuard = (value: TranspileResult) => {
+        if (asStatement) {
+            writeLine('if ', ...value, ' <> invalid then');
+            state.blockDepth++;
+            guardCount++;
+        } else {
+            writeLine('if ', ...value, ' = invalid then return invalid');
+        }
+    };
+
+    let allUniqueVarNames: string[];
+    if (!asStatement) {
+        //get all unique variable names used in the chain, and sort them alphabetically so the output is consistent.
+        //namespace, enum, const and class names are transpiled away, so they are not variables that can be passed in
+        allUniqueVarNames = [...new Set(
+            util.getExpressionInfo(expression).varExpressions.filter(x => !state.file.isNamespaceOrTypeName(x)).map(x => x.name.text)
+        )].sort();
+        result.push(`(function(`, allUniqueVarNames.join(', '), ')');
+        //double indent so our `end function` line is still indented one at the end
+        state.blockDepth += 2;
+    }
+
+    //the current value of the chain. `__bsChain` holds the most recently guarded value.
+    //variables are cheap to evaluate more than once, so those are used directly
+    let current = head.transpile(state);
+    let isStored = isVariableExpression(head);
+    const store = () => {
+        if (!isStored) {
+            writeLine(`__bsChain = `, ...current);
+            current = ['__bsChain'];
+            isStored = true;
+        }
+    };
+
+    store();
+    for (let i = startIndex; i < links.length; i++) {
+        const link = links[i];
+        if (isOptionalMethodCallee(link, i)) {
+            store();
+            if (!isCallfuncExpression(link) && link.optional) {
+                writeGuard(current);
+            }
+            current.push(...link.transpileLink(state));
+            //guard the method itself, but don't store it (that would lose its `m` reference)
+            writeGuard(current);
+            //the call has already been guarded, so just write it out
+            i++;
+            current.push(...links[i].transpileLink(state));
+        } else if (!isCallfuncExpression(link) && link.optional) {
+            store();
+            writeGuard(current);
+            current.push(...link.transpileLink(state));
+        } else {
+            current.push(...link.transpileLink(state));
+        }
+        isStored = false;
+    }
+
+    if (asStatement) {
+        writeLine(...current);
+        for (let i = 0; i < guardCount; i++) {
+            state.blockDepth--;
+            writeLine('end if');
+        }
+    } else {
+        writeLine('return ', ...current);
+        state.blockDepth--;
+        writeLine('end function)(', allUniqueVarNames.join(', '), ')');
+        state.blockDepth--;
+    }
+    return result;
+}
+
 // eslint-disable-next-line @typescript-eslint/consistent-indexed-object-style
 type ExpressionValue = string | number | boolean | Expression | ExpressionValue[] | { [key: string]: ExpressionValue };
 
@@ -22,6 +22,10 @@ import type {
     PrintSeparatorSpace
 } from './Statement';
 import {
+    ConstStatement,
+    TypeAliasStatement,
+    EnumStatement,
+    EnumMemberStatement,
     InterfaceStatement,
     InterfaceMethodStatement,
     InterfaceFieldStatement,
@@ -90,9 +94,14 @@ import {
 } from './Expression';
 import type { Diagnostic, Range } from 'vscode-languageserver';
 import { Logger } from '../Logger';
-import { isAnnotationExpression, isCallExpression, isCallfuncExpression, isClassMethodStatement, isCommentStatement, isDottedGetExpression, isIfStatement, isIndexedGetExpression, isVariableExpression } from '../astUtils/reflection';
+import { isAnnotationExpression, isArrayLiteralExpression, isArrayType, isCallExpression, isCallfuncExpression, isClassMethodStatement, isCommentStatement, isCustomType, isDottedGetExpression, isIfStatement, isIndexedGetExpression, isLiteralExpression, isLiteralNumber, isLiteralString, isStringType, isUnaryExpression, isUnionType, isVariableExpression } from '../astUtils/reflection';
 import { createVisitor, WalkMode } from '../astUtils/visitors';
 import { createStringLiteral, createToken } from '../astUtils/creators';
+import type { BscType } from '../types/BscType';
+import { CustomType } from '../types/CustomType';
+import { ArrayType } from '../types/ArrayType';
+import { UnionType } from '../types/UnionType';
+import { GenericType } from '../types/GenericType';
 
 export class Parser {
     /**
@@ -189,6 +198,11 @@ export class Parser {
      */
     private allowedLocalIdentifiers: TokenKind[];
 
+    /**
+     * The generic type parameters of the classes and functions currently being parsed (i.e. `T` in `class List<T>`)
+     */
+    private activeTypeParameters: Identifier[];
+
     /**
      * Annotations collected which should be attached to the next statement
      */
@@ -232,6 +246,7 @@ export class Parser {
         this.diagnostics = [];
         this.namespaceAndFunctionDepth = 0;
         this.pendingAnnotations = [];
+        this.activeTypeParameters = [];
 
         this.ast = this.body();
 
@@ -384,7 +399,12 @@ export class Parser {
         const name = this.identifier(...AllowedProperties);
         const leftParen = this.consumeToken(TokenKind.LeftParen);
 
-        const params = [];
+        const params = [] as FunctionParameterExpression[];
+        if (!this.check(TokenKind.RightParen)) {
+            do {
+                params.push(this.functionParameter());
+            } while (this.match(TokenKind.Comma));
+        }
         const rightParen = this.consumeToken(TokenKind.RightParen);
         let asToken = null as Token;
         let returnTypeToken = null as Token;
@@ -409,7 +429,7 @@ export class Parser {
             rightParen,
             asToken,
             returnTypeToken,
-            util.tokenToBscType(returnTypeToken)
+            returnTypeToken ? util.tokenToBscType(returnTypeToken) : undefined
         );
     }
 
@@ -479,8 +499,6 @@ export class Parser {
         //consume the final `end interface` token
         const endInterfaceToken = this.consumeToken(TokenKind.EndInterface);
 
-        this.consumeStatementSeparators();
-
         const statement = new InterfaceStatement(
             interfaceToken,
             nameToken,
@@ -495,6 +513,226 @@ export class Parser {
         return statement;
     }
 
+    /**
+     * Create a new EnumMemberStatement. This should only be called from within `enumDeclaration()`
+     */
+    private enumMemberStatement() {
+        const name = this.identifier(...AllowedProperties);
+        let equalToken: Token;
+        let value: Expression;
+        if (this.check(TokenKind.Equal)) {
+            equalToken = this.advance();
+            value = this.expression();
+            //enum values must be known at compile time, so only allow string and numeric literals
+            const isLiteral = isLiteralString(value) || isLiteralNumber(value) ||
+                (isUnaryExpression(value) && value.operator.kind === TokenKind.Minus && isLiteralNumber(value.right));
+            if (!isLiteral) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.enumValueMustBeLiteral(),
+                    range: value.range
+                });
+                throw this.lastDiagnosticAsError();
+            }
+        }
+        return new EnumMemberStatement(name, equalToken, value);
+    }
+
+    private enumDeclaration(): EnumStatement {
+        this.warnIfNotBrighterScriptMode('enum declarations');
+
+        const parentAnnotations = this.enterAnnotationBlock();
+
+        const enumToken = this.consume(
+            DiagnosticMessages.expectedKeyword(TokenKind.Enum),
+            TokenKind.Enum
+        );
+
+        if (this.currentFunctionExpression) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('enum'),
+                range: enumToken.range
+            });
+        }
+
+        const nameToken = this.identifier(...this.allowedLocalIdentifiers);
+
+        this.consumeStatementSeparators();
+        //gather up all enum members
+        let body = [] as Array<EnumMemberStatement | CommentStatement>;
+        while (this.checkAny(TokenKind.Comment, TokenKind.Identifier, TokenKind.At, ...AllowedProperties)) {
+            //break out of this loop if we encountered the `EndEnum` token
+            if (this.check(TokenKind.EndEnum)) {
+                break;
+            }
+            try {
+                let decl: EnumMemberStatement | CommentStatement;
+
+                //collect leading annotations
+                if (this.check(TokenKind.At)) {
+                    this.annotationExpression();
+                }
+
+                //members
+                if (this.checkAny(TokenKind.Identifier, ...AllowedProperties)) {
+                    decl = this.enumMemberStatement();
+
+                    //comments
+                } else if (this.check(TokenKind.Comment)) {
+                    decl = this.commentStatement();
+                }
+
+                if (decl) {
+                    this.consumePendingAnnotations(decl);
+                    body.push(decl);
+                } else {
+                    //we didn't find a declaration...flag tokens until next line
+                    this.flagUntil(TokenKind.Newline, TokenKind.Colon, TokenKind.Eof);
+                }
+            } catch (e) {
+                //throw out any failed members and move on to the next line
+                this.flagUntil(TokenKind.Newline, TokenKind.Colon, TokenKind.Eof);
+            }
+
+            //ensure statement separator
+            this.consumeStatementSeparators();
+        }
+
+        //consume the final `end enum` token
+        const endEnumToken = this.consumeToken(TokenKind.EndEnum);
+
+        const statement = new EnumStatement(
+            enumToken,
+            nameToken,
+            body,
+            endEnumToken,
+            this.currentNamespaceName
+        );
+        this.validateEnumMembers(statement);
+        this._references.enumStatements.push(statement);
+        this.exitAnnotationBlock(parentAnnotations);
+        return statement;
+    }
+
+    /**
+     * Ensure enum member names are unique, and that every member value is the same type as the first member value
+     */
+    private validateEnumMembers(statement: EnumStatement) {
+        const memberNames = new Set<string>();
+        const firstValuedMember = statement.members.find(x => !!x.value);
+        const isStringEnum = isStringType(firstValuedMember?.getValueType());
+        for (const member of statement.members) {
+            const lowerName = member.name.toLowerCase();
+            if (memberNames.has(lowerName)) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.duplicateEnumMember(member.name, statement.name),
+                    range: member.tokens.name.range
+                });
+            }
+            memberNames.add(lowerName);
+
+            if (!member.value) {
+                //string enums can't be auto-numbered, so every member needs a value
+                if (isStringEnum) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.enumValueIsRequired(),
+                        range: member.tokens.name.range
+                    });
+                }
+            } else if (isStringType(member.getValueType()) !== isStringEnum) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.enumValueMustBeType(isStringEnum ? 'string' : 'numeric'),
+                    range: member.value.range
+                });
+            }
+        }
+    }
+
+    private constDeclaration(): ConstStatement {
+        this.warnIfNotBrighterScriptMode('const declarations');
+
+        const constToken = this.advance();
+
+        if (this.currentFunctionExpression) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('const'),
+                range: constToken.range
+            });
+        }
+
+        const nameToken = this.identifier(...this.allowedLocalIdentifiers);
+        const equalToken = this.consumeToken(TokenKind.Equal);
+        const value = this.expression();
+
+        //const values must be known at compile time, so only allow literals (and arrays of literals)
+        if (!this.isConstValue(value)) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.constValueMustBeLiteral(),
+                range: value.range
+            });
+        }
+
+        const statement = new ConstStatement(
+            constToken,
+            nameToken,
+            equalToken,
+            value,
+            this.currentNamespaceName
+        );
+        this._references.constStatements.push(statement);
+        return statement;
+    }
+
+    /**
+     * A type alias declaration (i.e. `type OptionalString = string | invalid`)
+     */
+    private typeAliasDeclaration(): TypeAliasStatement {
+        this.warnIfNotBrighterScriptMode('type alias declarations');
+
+        const typeToken = this.advance();
+
+        if (this.currentFunctionExpression) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('type'),
+                range: typeToken.range
+            });
+        }
+
+        const nameToken = this.identifier(...this.allowedLocalIdentifiers);
+        const equalToken = this.consumeToken(TokenKind.Equal);
+        const valueTypeToken = this.typeToken();
+
+        if (!util.tokenToBscType(valueTypeToken)) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.cannotFindType(valueTypeToken.text),
+                range: valueTypeToken.range
+            });
+        }
+
+        const statement = new TypeAliasStatement(
+            typeToken,
+            nameToken,
+            equalToken,
+            valueTypeToken,
+            this.currentNamespaceName
+        );
+        this._references.typeAliasStatements.push(statement);
+        return statement;
+    }
+
+    /**
+     * Determine if the expression is a valid const value (a literal, a negative number, or an array of those)
+     */
+    private isConstValue(expression: Expression): boolean {
+        if (isLiteralExpression(expression)) {
+            return expression.token.kind !== TokenKind.TemplateStringQuasi;
+        } else if (isUnaryExpression(expression)) {
+            return expression.operator.kind === TokenKind.Minus && isLiteralNumber(expression.right);
+        } else if (isArrayLiteralExpression(expression)) {
+            return expression.elements.every(x => isCommentStatement(x) || this.isConstValue(x));
+        }
+        return false;
+    }
+
     /**
      * A BrighterScript class declaration
      */
@@ -503,22 +741,44 @@ export class Parser {
 
         const parentAnnotations = this.enterAnnotationBlock();
 
+        let abstractKeyword: Token;
+        if (this.peek().text.toLowerCase() === 'abstract') {
+            abstractKeyword = this.advance();
+        }
+
         let classKeyword = this.consume(
             DiagnosticMessages.expectedKeyword(TokenKind.Class),
             TokenKind.Class
         );
         let extendsKeyword: Token;
         let parentClassName: NamespacedVariableNameExpression;
+        let implementsKeyword: Token;
+        let implementedInterfaceNames = [] as NamespacedVariableNameExpression[];
 
         //get the class name
         let className = this.tryConsume(DiagnosticMessages.expectedIdentifierAfterKeyword('class'), TokenKind.Identifier, ...this.allowedLocalIdentifiers) as Identifier;
 
+        //the class members can reference the generic type parameters
+        const typeParameters = this.typeParameters();
+        const previousTypeParameters = this.activeTypeParameters;
+        this.activeTypeParameters = [...previousTypeParameters, ...typeParameters];
+
         //see if the class inherits from parent
         if (this.peek().text.toLowerCase() === 'extends') {
             extendsKeyword = this.advance();
             parentClassName = this.getNamespacedVariableNameExpression();
         }
 
+        //see if the class implements any interfaces
+        if (this.peek().text.toLowerCase() === 'implements') {
+            implementsKeyword = this.advance();
+            do {
+                implementedInterfaceNames.push(
+                    this.getNamespacedVariableNameExpression()
+                );
+            } while (this.match(TokenKind.Comma));
+        }
+
         //ensure statement separator
         this.consumeStatementSeparators();
 
@@ -538,18 +798,64 @@ export class Parser {
                     accessModifier = this.advance();
                 }
 
+                //`static` is only a keyword when followed by a method or field declaration, so it can still be used as a field name
+                let staticKeyword: Token;
+                if (
+                    this.peek().text.toLowerCase() === 'static' &&
+                    this.checkAnyNext(TokenKind.Function, TokenKind.Sub, TokenKind.Identifier, ...AllowedProperties) &&
+                    //`static as string` is a field named `static`
+                    !this.checkNext(TokenKind.As)
+                ) {
+                    staticKeyword = this.advance();
+                }
+
                 let overrideKeyword: Token;
                 if (this.peek().text.toLowerCase() === 'override') {
                     overrideKeyword = this.advance();
                 }
 
+                //`abstract` is only a keyword when followed by `sub` or `function`, so it can still be used as a field name
+                let abstractKeyword: Token;
+                if (this.peek().text.toLowerCase() === 'abstract' && this.checkAnyNext(TokenKind.Function, TokenKind.Sub)) {
+                    abstractKeyword = this.advance();
+                }
+
+                //`get` and `set` are only keywords when followed by `sub` or `function`, so they can still be used as member names
+                let accessorKeyword: Token;
+                if (['get', 'set'].includes(this.peek().text.toLowerCase()) && this.checkAnyNext(TokenKind.Function, TokenKind.Sub)) {
+                    accessorKeyword = this.advance();
+                }
+
+                //static members belong to the class itself, so they can never be overridden, abstract or accessors
+                for (const keyword of [overrideKeyword, abstractKeyword, accessorKeyword]) {
+                    if (staticKeyword && keyword) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.staticMemberCannotUseModifier(keyword.text),
+                            range: keyword.range
+                        });
+                    }
+                }
+
                 //methods (function/sub keyword OR identifier followed by opening paren)
                 if (this.checkAny(TokenKind.Function, TokenKind.Sub) || (this.checkAny(TokenKind.Identifier, ...AllowedProperties) && this.checkNext(TokenKind.LeftParen))) {
-                    const funcDeclaration = this.functionDeclaration(false, false);
+                    //abstract methods only have a signature
+                    const funcDeclaration = this.functionDeclaration(false, false, !abstractKeyword);
 
                     //remove this function from the lists because it's not a callable
                     const functionStatement = this._references.functionStatements.pop();
 
+                    //getters take no parameters, and setters take the value being assigned
+                    if (accessorKeyword) {
+                        const accessorKind = accessorKeyword.text.toLowerCase();
+                        const expectedParameterCount = accessorKind === 'get' ? 0 : 1;
+                        if (funcDeclaration.func.parameters.length !== expectedParameterCount) {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.accessorParameterCountMismatch(accessorKind, expectedParameterCount),
+                                range: funcDeclaration.name.range
+                            });
+                        }
+                    }
+
                     //if we have an overrides keyword AND this method is called 'new', that's not allowed
                     if (overrideKeyword && funcDeclaration.name.text.toLowerCase() === 'new') {
                         this.diagnostics.push({
@@ -562,7 +868,10 @@ export class Parser {
                         accessModifier,
                         funcDeclaration.name,
                         funcDeclaration.func,
-                        overrideKeyword
+                        overrideKeyword,
+                        abstractKeyword,
+                        staticKeyword,
+                        accessorKeyword
                     );
 
                     //refer to this statement as parent of the expression
@@ -571,7 +880,7 @@ export class Parser {
                     //fields
                 } else if (this.checkAny(TokenKind.Identifier, ...AllowedProperties)) {
 
-                    decl = this.classFieldDeclaration(accessModifier);
+                    decl = this.classFieldDeclaration(accessModifier, staticKeyword);
 
                     //class fields cannot be overridden
                     if (overrideKeyword) {
@@ -614,15 +923,20 @@ export class Parser {
             endingKeyword,
             extendsKeyword,
             parentClassName,
-            this.currentNamespaceName
+            this.currentNamespaceName,
+            implementsKeyword,
+            implementedInterfaceNames,
+            abstractKeyword,
+            typeParameters
         );
+        this.activeTypeParameters = previousTypeParameters;
 
         this._references.classStatements.push(result);
         this.exitAnnotationBlock(parentAnnotations);
         return result;
     }
 
-    private classFieldDeclaration(accessModifier: Token | null) {
+    private classFieldDeclaration(accessModifier: Token | null, staticKeyword?: Token) {
         let name = this.consume(
             DiagnosticMessages.expectedClassFieldIdentifier(),
             TokenKind.Identifier,
@@ -652,14 +966,23 @@ export class Parser {
             initialValue = this.expression();
         }
 
-        return new ClassFieldStatement(
+        const field = new ClassFieldStatement(
             accessModifier,
             name,
             asToken,
             fieldType,
             equal,
-            initialValue
+            initialValue,
+            staticKeyword
         );
+        if (fieldType) {
+            const type = util.tokenToBscType(fieldType);
+            const resolvedType = this.resolveTypeParameters(type);
+            if (resolvedType !== type) {
+                field.genericType = resolvedType;
+            }
+        }
+        return field;
     }
 
     /**
@@ -668,10 +991,11 @@ export class Parser {
     private callExpressions = [];
 
     private functionDeclaration(isAnonymous: true, checkIdentifier?: boolean): FunctionExpression;
-    private functionDeclaration(isAnonymous: false, checkIdentifier?: boolean): FunctionStatement;
-    private functionDeclaration(isAnonymous: boolean, checkIdentifier = true) {
+    private functionDeclaration(isAnonymous: false, checkIdentifier?: boolean, hasBody?: boolean): FunctionStatement;
+    private functionDeclaration(isAnonymous: boolean, checkIdentifier = true, hasBody = true) {
         let previousCallExpressions = this.callExpressions;
         this.callExpressions = [];
+        const previousTypeParameters = this.activeTypeParameters;
         try {
             //track depth to help certain statements need to know if they are contained within a function body
             this.namespaceAndFunctionDepth++;
@@ -698,6 +1022,7 @@ export class Parser {
             let isSub = functionType?.kind === TokenKind.Sub;
             let functionTypeText = isSub ? 'sub' : 'function';
             let name: Identifier;
+            let typeParameters = [] as Identifier[];
             let leftParen: Token;
 
             if (isAnonymous) {
@@ -711,6 +1036,9 @@ export class Parser {
                     TokenKind.Identifier,
                     ...AllowedProperties
                 ) as Identifier;
+                //the parameters, return type and body can reference the generic type parameters
+                typeParameters = this.typeParameters();
+                this.activeTypeParameters = [...previousTypeParameters, ...typeParameters];
                 leftParen = this.consume(
                     DiagnosticMessages.expectedLeftParenAfterCallableName(functionTypeText),
                     TokenKind.LeftParen
@@ -776,7 +1104,10 @@ export class Parser {
                 return haveFoundOptional || !!param.defaultValue;
             }, false);
 
-            this.consumeStatementSeparators(true);
+            //a method without a body is followed by the next class member, which handles the statement separator itself
+            if (hasBody) {
+                this.consumeStatementSeparators(true);
+            }
 
             let func = new FunctionExpression(
                 params,
@@ -788,8 +1119,10 @@ export class Parser {
                 asToken,
                 typeToken,
                 this.currentFunctionExpression,
-                this.currentNamespaceName
+                this.currentNamespaceName,
+                typeParameters
             );
+            func.returnType = this.resolveTypeParameters(func.returnType);
             //if there is a parent function, register this function with the parent
             if (this.currentFunctionExpression) {
                 this.currentFunctionExpression.childFunctionExpressions.push(func);
@@ -797,36 +1130,42 @@ export class Parser {
 
             this._references.functionExpressions.push(func);
 
-            let previousFunctionExpression = this.currentFunctionExpression;
-            this.currentFunctionExpression = func;
+            if (hasBody) {
+                let previousFunctionExpression = this.currentFunctionExpression;
+                this.currentFunctionExpression = func;
 
-            //make sure to restore the currentFunctionExpression even if the body block fails to parse
-            try {
-                //support ending the function with `end sub` OR `end function`
-                func.body = this.block();
-            } finally {
-                this.currentFunctionExpression = previousFunctionExpression;
-            }
+                //make sure to restore the currentFunctionExpression even if the body block fails to parse
+                try {
+                    //support ending the function with `end sub` OR `end function`
+                    func.body = this.block();
+                } finally {
+                    this.currentFunctionExpression = previousFunctionExpression;
+                }
 
-            if (!func.body) {
-                this.diagnostics.push({
-                    ...DiagnosticMessages.callableBlockMissingEndKeyword(functionTypeText),
-                    range: this.peek().range
-                });
-                throw this.lastDiagnosticAsError();
-            }
+                if (!func.body) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.callableBlockMissingEndKeyword(functionTypeText),
+                        range: this.peek().range
+                    });
+                    throw this.lastDiagnosticAsError();
+                }
 
-            // consume 'end sub' or 'end function'
-            func.end = this.advance();
-            let expectedEndKind = isSub ? TokenKind.EndSub : TokenKind.EndFunction;
+                // consume 'end sub' or 'end function'
+                func.end = this.advance();
+                let expectedEndKind = isSub ? TokenKind.EndSub : TokenKind.EndFunction;
 
-            //if `function` is ended with `end sub`, or `sub` is ended with `end function`, then
-            //add an error but don't hard-fail so the AST can continue more gracefully
-            if (func.end.kind !== expectedEndKind) {
-                this.diagnostics.push({
-                    ...DiagnosticMessages.mismatchedEndCallableKeyword(functionTypeText, func.end.text),
-                    range: this.peek().range
-                });
+                //if `function` is ended with `end sub`, or `sub` is ended with `end function`, then
+                //add an error but don't hard-fail so the AST can continue more gracefully
+                if (func.end.kind !== expectedEndKind) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.mismatchedEndCallableKeyword(functionTypeText, func.end.text),
+                        range: this.peek().range
+                    });
+                }
+            } else {
+                //an empty body keeps the rest of the tooling from having to check for a missing body
+                const signatureEnd = (typeToken ?? rightParen).range.end;
+                func.body = new Block([], util.createRangeFromPositions(signatureEnd, signatureEnd));
             }
             func.callExpressions = this.callExpressions;
 
@@ -842,6 +1181,7 @@ export class Parser {
             this.namespaceAndFunctionDepth--;
             //restore the previous CallExpression list
             this.callExpressions = previousCallExpressions;
+            this.activeTypeParameters = previousTypeParameters;
         }
     }
 
@@ -881,13 +1221,89 @@ export class Parser {
                 throw this.lastDiagnosticAsError();
             }
         }
-        return new FunctionParameterExpression(
+        const param = new FunctionParameterExpression(
             name,
             typeToken,
             defaultValue,
             asToken,
             this.currentNamespaceName
         );
+        param.type = this.resolveTypeParameters(param.type);
+        return param;
+    }
+
+    /**
+     * Parse the generic type parameters of a class or function declaration (i.e. `<K, V>`), if there are any
+     */
+    private typeParameters(): Identifier[] {
+        const result = [] as Identifier[];
+        if (this.check(TokenKind.Less)) {
+            this.warnIfNotBrighterScriptMode('generic type parameters');
+            this.advance();
+            do {
+                result.push(
+                    this.consume(DiagnosticMessages.expectedIdentifier(), TokenKind.Identifier, ...this.allowedLocalIdentifiers) as Identifier
+                );
+            } while (this.match(TokenKind.Comma));
+            this.consumeClosingAngleBracket();
+        }
+        return result;
+    }
+
+    /**
+     * Parse the type arguments of a generic class (i.e. `<string, integer>` in `new Map<string, integer>()`)
+     */
+    private typeArguments(): Token[] {
+        const result = [] as Token[];
+        this.consume(DiagnosticMessages.expectedToken('<'), TokenKind.Less);
+        do {
+            result.push(this.typeToken());
+        } while (this.match(TokenKind.Comma));
+        this.consumeClosingAngleBracket();
+        return result;
+    }
+
+    /**
+     * Consume the `>` that closes a list of type parameters or type arguments.
+     * The lexer produces a single `>>` token for nested lists (i.e. `List<List<string>>`), so that token is split in two
+     */
+    private consumeClosingAngleBracket() {
+        if (this.check(TokenKind.RightShift)) {
+            const { start } = this.peek().range;
+            this.tokens.splice(
+                this.current,
+                1,
+                createToken(TokenKind.Greater, '>', util.createRange(start.line, start.character, start.line, start.character + 1)),
+                createToken(TokenKind.Greater, '>', util.createRange(start.line, start.character + 1, start.line, start.character + 2))
+            );
+        }
+        return this.consume(DiagnosticMessages.expectedToken('>'), TokenKind.Greater);
+    }
+
+    /**
+     * Replace references to the generic type parameters currently in scope (i.e. `T` in `class List<T>`) with a `GenericType`
+     */
+    private resolveTypeParameters(type: BscType): BscType {
+        if (isCustomType(type)) {
+            const lowerName = type.name.toLowerCase();
+            const typeParameter = this.activeTypeParameters.find(x => x.text.toLowerCase() === lowerName);
+            if (typeParameter) {
+                return new GenericType(typeParameter.text);
+            } else if (type.typeArguments.length > 0) {
+                return new CustomType(type.name, type.typeArguments.map(x => this.resolveTypeParameters(x)));
+            }
+        } else if (isArrayType(type)) {
+            const innerTypes = type.innerTypes.map(x => this.resolveTypeParameters(x));
+            if (innerTypes.some((x, i) => x !== type.innerTypes[i])) {
+                return new ArrayType(...innerTypes);
+            }
+        } else if (isUnionType(type)) {
+            const types = type.types.map(x => this.resolveTypeParameters(x));
+            if (types.some((x, i) => x !== type.types[i])) {
+                return new UnionType(types);
+            }
+        }
+        return type;
     }
 
     private assignment(): AssignmentStatement {
@@ -1030,10 +1446,30 @@ export class Parser {
             return this.interfaceDeclaration();
         }
 
+        //`const` must be followed by a name, otherwise it could be a local variable
+        if (this.check(TokenKind.Const) && this.checkAnyNext(TokenKind.Identifier, ...this.allowedLocalIdentifiers)) {
+            return this.constDeclaration();
+        }
+
+        //`enum` must be followed by a name, otherwise it could be a local variable
+        if (this.check(TokenKind.Enum) && this.checkAnyNext(TokenKind.Identifier, ...this.allowedLocalIdentifiers)) {
+            return this.enumDeclaration();
+        }
+
+        //`type` is only a keyword when followed by a name, since `type()` is a global function
+        if (this.peek().text.toLowerCase() === 'type' && this.checkAnyNext(TokenKind.Identifier, ...this.allowedLocalIdentifiers)) {
+            return this.typeAliasDeclaration();
+        }
+
         if (this.check(TokenKind.Class)) {
             return this.classDeclaration();
         }
 
+        //`abstract` is only a keyword when followed by `class`
+        if (this.peek().text.toLowerCase() === 'abstract' && this.checkNext(TokenKind.Class)) {
+            return this.classDeclaration();
+        }
+
         if (this.check(TokenKind.Namespace)) {
             return this.namespaceStatement();
         }
@@ -1841,6 +2277,11 @@ export class Parser {
                     range: expressionStart.range
                 });
                 throw this.lastDiagnosticAsError();
+            } else if (util.isOptionalChain(expr)) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.optionalChainingNotAllowedInAssignment(),
+                    range: expr.range
+                });
             }
 
             return new IncrementStatement(expr, operator);
@@ -1871,6 +2312,13 @@ export class Parser {
             let operator = this.advance();
             let right = this.expression();
 
+            if (util.isOptionalChain(left)) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.optionalChainingNotAllowedInAssignment(),
+                    range: left.range
+                });
+            }
+
             // Create a dotted or indexed "set" based on the left-hand side's type
             if (isIndexedGetExpression(left)) {
                 return new IndexedSetStatement(
@@ -2226,6 +2674,11 @@ export class Parser {
         let newToken = this.advance();
 
         let nameExpr = this.getNamespacedVariableNameExpression();
+        let typeArguments: Token[];
+        //generic classes can be given type arguments (i.e. `new List<string>()`)
+        if (this.check(TokenKind.Less)) {
+            typeArguments = this.typeArguments();
+        }
         let leftParen = this.consume(
             DiagnosticMessages.unexpectedToken(this.peek().text),
             TokenKind.LeftParen
@@ -2233,7 +2686,7 @@ export class Parser {
         let call = this.finishCall(leftParen, nameExpr);
         //pop the call from the  callExpressions list because this is technically something else
         this.callExpressions.pop();
-        let result = new NewExpression(newToken, call);
+        let result = new NewExpression(newToken, call, typeArguments);
         this._references.newExpressions.push(result);
         return result;
     }
@@ -2260,14 +2713,17 @@ export class Parser {
         let expr = this.primary();
 
         while (true) {
-            if (this.match(TokenKind.LeftParen)) {
+            if (this.checkAny(TokenKind.QuestionDot, TokenKind.QuestionLeftSquare, TokenKind.QuestionLeftParen)) {
+                this.warnIfNotBrighterScriptMode('optional chaining');
+            }
+            if (this.matchAny(TokenKind.LeftParen, TokenKind.QuestionLeftParen)) {
                 expr = this.finishCall(this.previous(), expr);
-            } else if (this.match(TokenKind.LeftSquareBracket)) {
+            } else if (this.matchAny(TokenKind.LeftSquareBracket, TokenKind.QuestionLeftSquare)) {
                 expr = this.indexedGet(expr);
             } else if (this.match(TokenKind.Callfunc)) {
                 expr = this.callfunc(expr);
-            } else if (this.match(TokenKind.Dot)) {
-                if (this.match(TokenKind.LeftSquareBracket)) {
+            } else if (this.matchAny(TokenKind.Dot, TokenKind.QuestionDot)) {
+                if (this.previous().kind === TokenKind.Dot && this.match(TokenKind.LeftSquareBracket)) {
                     expr = this.indexedGet(expr);
                 } else {
                     let dot = this.previous();
@@ -2348,9 +2804,32 @@ export class Parser {
      * Will  return a token of whatever is next to be parsed (unless `advanceIfUnknown` is false, in which case undefined will be returned instead
      */
     private typeToken(): Token {
+        let typeToken = this.singleTypeToken(this.checkNext(TokenKind.Pipe));
+
+        //union types combine every type into a single token (i.e. `string | invalid`)
+        if (this.check(TokenKind.Pipe)) {
+            this.warnIfNotBrighterScriptMode('union types');
+            const typeTokens = [typeToken];
+            while (this.match(TokenKind.Pipe)) {
+                typeTokens.push(this.singleTypeToken(true));
+            }
+            typeToken = createToken(
+                TokenKind.Identifier,
+                typeTokens.map(x => x.text).join(' | '),
+                util.createRangeFromPositions(typeToken.range.start, typeTokens[typeTokens.length - 1].range.end)
+            );
+        }
+        return typeToken;
+    }
+
+    /**
+     * Get the next token as a type, without the other types of a union type
+     * @param isUnionMember `invalid` is only a type within a union type (i.e. `string | invalid`)
+     */
+    private singleTypeToken(isUnionMember = false): Token {
         let typeToken: Token;
 
-        if (this.checkAny(...DeclarableTypes)) {
+        if (this.checkAny(...DeclarableTypes) || (isUnionMember && this.check(TokenKind.Invalid))) {
             // Token is a built in type
             typeToken = this.advance();
         } else if (this.options.mode === ParseMode.BrighterScript) {
@@ -2366,6 +2845,25 @@ export class Parser {
             // just get whatever's next
             typeToken = this.advance();
         }
+        //generic class types include their type arguments in the token text (i.e. `List<string>`)
+        if (this.options.mode === ParseMode.BrighterScript && typeToken.kind === TokenKind.Identifier && this.check(TokenKind.Less)) {
+            const typeArguments = this.typeArguments();
+            typeToken = createToken(
+                TokenKind.Identifier,
+                `${typeToken.text}<${typeArguments.map(x => x.text).join(', ')}>`,
+                util.createRangeFromPositions(typeToken.range.start, this.previous().range.end)
+            );
+        }
+        //typed arrays include the brackets in the token text (i.e. `integer[]`)
+        while (this.check(TokenKind.LeftSquareBracket) && this.checkNext(TokenKind.RightSquareBracket)) {
+            this.warnIfNotBrighterScriptMode('typed arrays');
+            this.advance();
+            typeToken = createToken(
+                TokenKind.Identifier,
+                `${typeToken.text}[]`,
+                util.createRangeFromPositions(typeToken.range.start, this.advance().range.end)
+            );
+        }
         return typeToken;
     }
 
@@ -2760,6 +3258,15 @@ export class Parser {
             ClassStatement: s => {
                 this._references.classStatements.push(s);
             },
+            EnumStatement: s => {
+                this._references.enumStatements.push(s);
+            },
+            ConstStatement: s => {
+                this._references.constStatements.push(s);
+            },
+            TypeAliasStatement: s => {
+                this._references.typeAliasStatements.push(s);
+            },
             NamespaceStatement: s => {
                 this._references.namespaceStatements.push(s);
             },
@@ -2858,6 +3365,63 @@ export class References {
     }
     private _interfaceStatementLookup: Map<string, InterfaceStatement>;
 
+    public enumStatements = [] as EnumStatement[];
+
+    /**
+     * A map of enum statements, indexed by fully-namespaced lower enum name.
+     */
+    public get enumStatementLookup() {
+        if (!this._enumStatementLookup) {
+            this._enumStatementLookup = new Map();
+            for (const stmt of this.enumStatements) {
+                //only track enums with a defined name (i.e. exclude nameless malformed enums)
+                if (stmt.fullName) {
+                    this._enumStatementLookup.set(stmt.fullName.toLowerCase(), stmt);
+                }
+            }
+        }
+        return this._enumStatementLookup;
+    }
+    private _enumStatementLookup: Map<string, EnumStatement>;
+
+    public constStatements = [] as ConstStatement[];
+
+    /**
+     * A map of const statements, indexed by fully-namespaced lower const name.
+     */
+    public get constStatementLookup() {
+        if (!this._constStatementLookup) {
+            this._constStatementLookup = new Map();
+            for (const stmt of this.constStatements) {
+                //only track consts with a defined name (i.e. exclude nameless malformed consts)
+                if (stmt.fullName) {
+                    this._constStatementLookup.set(stmt.fullName.toLowerCase(), stmt);
+                }
+            }
+        }
+        return this._constStatementLookup;
+    }
+    private _constStatementLookup: Map<string, ConstStatement>;
+
+    public typeAliasStatements = [] as TypeAliasStatement[];
+
+    /**
+     * A map of type alias statements, indexed by fully-namespaced lower type alias name.
+     */
+    public get typeAliasStatementLookup() {
+        if (!this._typeAliasStatementLookup) {
+            this._typeAliasStatementLookup = new Map();
+            for (const stmt of this.typeAliasStatements) {
+                //only track type aliases with a defined name (i.e. exclude nameless malformed type aliases)
+                if (stmt.fullName) {
+                    this._typeAliasStatementLookup.set(stmt.fullName.toLowerCase(), stmt);
+                }
+            }
+        }
+        return this._typeAliasStatementLookup;
+    }
+    private _typeAliasStatementLookup: Map<string, TypeAliasStatement>;
+
     public importStatements = [] as ImportStatement[];
     public libraryStatements = [] as LibraryStatement[];
     public namespaceStatements = [] as NamespaceStatement[];
@@ -33,7 +33,7 @@ export class SGTag {
     }
 
     getAttribute(name: string): SGAttribute | undefined {
-        return this.attributes.find(att => att.key.text.toLowerCase() === name);
+        return this.attributes.find(att => att.key.text.toLowerCase() === name.toLowerCase());
     }
 
     getAttributeValue(name: string): string | undefined {
@@ -1,8 +1,8 @@
 /* eslint-disable no-bitwise */
 import type { Token, Identifier } from '../lexer';
 import { CompoundAssignmentOperators, TokenKind } from '../lexer';
-import type { BinaryExpression, Expression, NamespacedVariableNameExpression, FunctionExpression, AnnotationExpression, FunctionParameterExpression } from './Expression';
-import { CallExpression, VariableExpression } from './Expression';
+import type { BinaryExpression, Expression, NamespacedVariableNameExpression, FunctionExpression, AnnotationExpression, FunctionParameterExpression, ChainLinkExpression } from './Expression';
+import { CallExpression, VariableExpression, transpileOptionalChain } from './Expression';
 import { util } from '../util';
 import type { Range } from 'vscode-languageserver';
 import { Position } from 'vscode-languageserver';
@@ -10,12 +10,12 @@ import type { BrsTranspileState } from './BrsTranspileState';
 import { ParseMode, Parser } from './Parser';
 import type { WalkVisitor, WalkOptions } from '../astUtils/visitors';
 import { InternalWalkMode, walk, createVisitor, WalkMode } from '../astUtils/visitors';
-import { isCallExpression, isClassFieldStatement, isClassMethodStatement, isCommentStatement, isExpression, isExpressionStatement, isFunctionStatement, isIfStatement, isInterfaceFieldStatement, isInterfaceMethodStatement, isInvalidType, isLiteralExpression, isVoidType } from '../astUtils/reflection';
+import { isCallExpression, isClassFieldStatement, isClassMethodStatement, isCommentStatement, isDottedGetExpression, isEndStatement, isEnumMemberStatement, isExitForStatement, isExitWhileStatement, isExpression, isExpressionStatement, isFunctionStatement, isGotoStatement, isIfStatement, isIntegerType, isInterfaceFieldStatement, isInterfaceMethodStatement, isInvalidType, isLabelStatement, isLiteralExpression, isReturnStatement, isThrowStatement, isTryCatchStatement, isUnaryExpression, isVoidType } from '../astUtils/reflection';
 import type { TranspileResult, TypedefProvider } from '../interfaces';
 import { createInvalidLiteral, createToken, interpolatedRange } from '../astUtils/creators';
 import { DynamicType } from '../types/DynamicType';
 import type { BscType } from '../types/BscType';
-import type { SourceNode } from 'source-map';
+import { SourceNode } from 'source-map';
 import type { TranspileState } from './TranspileState';
 
 /**
@@ -186,12 +186,72 @@ export class Block extends Statement {
 
     public readonly range: Range;
 
+    /**
+     * Get the statements in this block that can never run because they follow a statement that always leaves the block
+     * (i.e. `return`, `exit for`, `exit while`, `throw`, `end` or `goto`).
+     * Each entry is a run of consecutive unreachable statements. Comments are not included, and labels end a run because `goto` can jump to them.
+     */
+    public getUnreachableStatements() {
+        const groups = [] as Statement[][];
+        let group: Statement[];
+        for (const statement of this.statements) {
+            if (group) {
+                if (isLabelStatement(statement)) {
+                    group = undefined;
+                } else if (!isCommentStatement(statement)) {
+                    group.push(statement);
+                }
+            } else if (Block.alwaysLeavesBlock(statement)) {
+                group = [];
+                groups.push(group);
+            }
+        }
+        return groups.filter(x => x.length > 0);
+    }
+
+    /**
+     * Determine if the statement never lets execution continue to the statement after it
+     */
+    private static alwaysLeavesBlock(statement: Statement): boolean {
+        if (
+            isReturnStatement(statement) ||
+            isExitForStatement(statement) ||
+            isExitWhileStatement(statement) ||
+            isThrowStatement(statement) ||
+            isEndStatement(statement) ||
+            isGotoStatement(statement)
+        ) {
+            return true;
+
+        } else if (isIfStatement(statement)) {
+            //an `if` without an `else` can be skipped entirely
+            if (!statement.elseBranch || !statement.thenBranch.statements.some(x => Block.alwaysLeavesBlock(x))) {
+                return false;
+            }
+            if (isIfStatement(statement.elseBranch)) {
+                return Block.alwaysLeavesBlock(statement.elseBranch);
+            }
+            return statement.elseBranch.statements.some(x => Block.alwaysLeavesBlock(x));
+
+        } else if (isTryCatchStatement(statement)) {
+            return (statement.tryBranch?.statements.some(x => Block.alwaysLeavesBlock(x)) ?? false) &&
+                (statement.catchBranch?.statements.some(x => Block.alwaysLeavesBlock(x)) ?? false);
+        }
+        return false;
+    }
+
     transpile(state: BrsTranspileState) {
         state.blockDepth++;
         let results = [] as TranspileResult;
+        const unreachableStatements = new Set(
+            state.options.removeUnreachableCode ? this.getUnreachableStatements().flat() : []
+        );
         for (let i = 0; i < this.statements.length; i++) {
             let previousStatement = this.statements[i - 1];
             let statement = this.statements[i];
+            if (unreachableStatements.has(statement)) {
+                continue;
+            }
 
             //if comment is on same line as parent
             if (isCommentStatement(statement) &&
@@ -239,6 +299,10 @@ export class ExpressionStatement extends Statement {
     public readonly range: Range;
 
     transpile(state: BrsTranspileState) {
+        //optional chains can't be written as an IIFE at the statement level, so write them as nested `if` blocks instead
+        if (util.isOptionalChain(this.expression)) {
+            return transpileOptionalChain(this.expression as ChainLinkExpression, state, true);
+        }
         return this.expression.transpile(state);
     }
 
@@ -526,6 +590,20 @@ export class IncrementStatement extends Statement {
     public readonly range: Range;
 
     transpile(state: BrsTranspileState) {
+        //incrementing a class property with a `set` accessor becomes `player.__set_volume(player.__get_volume() + 1)`
+        const setter = isDottedGetExpression(this.value) ? state.file.getClassAccessor(this.value.obj, this.value.name.text, 'set') : undefined;
+        if (isDottedGetExpression(this.value) && setter) {
+            return [
+                ...this.value.obj.transpile(state),
+                '.',
+                state.transpileToken({ ...this.value.name, text: setter.getTranspiledName() }),
+                '(',
+                ...this.value.transpile(state),
+                ' ',
+                state.sourceNode(this.operator, this.operator.kind === TokenKind.PlusPlus ? '+' : '-'),
+                ' 1)'
+            ];
+        }
         return [
             ...this.value.transpile(state),
             state.transpileToken(this.operator)
@@ -991,9 +1069,40 @@ export class DottedSetStatement extends Statement {
     public readonly range: Range;
 
     transpile(state: BrsTranspileState) {
+        //assignments to class properties with a `set` accessor are transpiled to calls to the accessor
+        const setter = state.file.getClassAccessor(this.obj, this.name.text, 'set');
+        if (setter) {
+            const value = this.value as BinaryExpression;
+            return [
+                ...this.obj.transpile(state),
+                '.',
+                state.transpileToken({ ...this.name, text: setter.getTranspiledName() }),
+                '(',
+                //`player.volume += 1` becomes `player.__set_volume(player.__get_volume() + 1)`
+                ...(CompoundAssignmentOperators.includes(value?.operator?.kind) ? [
+                    ...value.left.transpile(state),
+                    ' ',
+                    state.sourceNode(value.operator, value.operator.text.slice(0, -1)),
+                    ' ',
+                    ...value.right.transpile(state)
+                ] : this.value.transpile(state)),
+                ')'
+            ];
+        }
         //if the value is a compound assignment, don't add the obj, dot, name, or operator...the expression will handle that
         if (CompoundAssignmentOperators.includes((this.value as BinaryExpression)?.operator?.kind)) {
             return this.value.transpile(state);
+        }
+        //static class fields are stored in the class's statics storage
+        const staticMember = state.file.getStaticClassMember(this.obj, this.name.text);
+        if (staticMember) {
+            return [
+                state.sourceNode(this.obj, `${staticMember.classStatement.getStaticsFunctionName()}()`),
+                '.',
+                state.transpileToken(this.name),
+                ' = ',
+                ...this.value.transpile(state)
+            ];
         } else {
             return [
                 //object
@@ -1507,21 +1616,46 @@ export class ClassStatement extends Statement implements TypedefProvider {
         readonly end: Token,
         readonly extendsKeyword?: Token,
         readonly parentClassName?: NamespacedVariableNameExpression,
-        readonly namespaceName?: NamespacedVariableNameExpression
+        readonly namespaceName?: NamespacedVariableNameExpression,
+        readonly implementsKeyword?: Token,
+        /**
+         * The names of the interfaces this class implements, as written in the class declaration
+         */
+        readonly implementedInterfaceNames?: NamespacedVariableNameExpression[],
+        readonly abstractKeyword?: Token,
+        /**
+         * The generic type parameters of the class (i.e. `T` in `class List<T>`). They are erased when transpiled
+         */
+        readonly typeParameters: Identifier[] = []
     ) {
         super();
         this.body = this.body ?? [];
+        this.implementedInterfaceNames = this.implementedInterfaceNames ?? [];
         for (let statement of this.body) {
             if (isClassMethodStatement(statement)) {
-                this.methods.push(statement);
-                this.memberMap[statement?.name?.text.toLowerCase()] = statement;
+                if (statement.accessorKeyword) {
+                    this.accessors.push(statement);
+                    const accessorMap = statement.isGetter() ? this.getterMap : this.setterMap;
+                    accessorMap[statement?.name?.text.toLowerCase()] = statement;
+                } else if (statement.staticKeyword) {
+                    this.staticMethods.push(statement);
+                    this.staticMemberMap[statement?.name?.text.toLowerCase()] = statement;
+                } else {
+                    this.methods.push(statement);
+                    this.memberMap[statement?.name?.text.toLowerCase()] = statement;
+                }
             } else if (isClassFieldStatement(statement)) {
-                this.fields.push(statement);
-                this.memberMap[statement?.name?.text.toLowerCase()] = statement;
+                if (statement.staticKeyword) {
+                    this.staticFields.push(statement);
+                    this.staticMemberMap[statement?.name?.text.toLowerCase()] = statement;
+                } else {
+                    this.fields.push(statement);
+                    this.memberMap[statement?.name?.text.toLowerCase()] = statement;
+                }
             }
         }
 
-        this.range = util.createRangeFromPositions(this.classKeyword.range.start, this.end.range.end);
+        this.range = util.createRangeFromPositions((this.abstractKeyword ?? this.classKeyword).range.start, this.end.range.end);
     }
 
     public getName(parseMode: ParseMode) {
@@ -1544,6 +1678,21 @@ export class ClassStatement extends Statement implements TypedefProvider {
     public methods = [] as ClassMethodStatement[];
     public fields = [] as ClassFieldStatement[];
 
+    /**
+     * The members marked as `static`. These belong to the class itself rather than its instances,
+     * so they are not included in `memberMap`, `methods` or `fields`
+     */
+    public staticMemberMap = {} as Record<string, ClassMemberStatement>;
+    public staticMethods = [] as ClassMethodStatement[];
+    public staticFields = [] as ClassFieldStatement[];
+
+    /**
+     * The `get` and `set` accessors. These are not included in `memberMap` or `methods`, since a property can have both a getter and a setter
+     */
+    public accessors = [] as ClassMethodStatement[];
+    public getterMap = {} as Record<string, ClassMethodStatement>;
+    public setterMap = {} as Record<string, ClassMethodStatement>;
+
 
     public readonly range: Range;
 
@@ -1557,6 +1706,8 @@ export class ClassStatement extends Statement implements TypedefProvider {
         );
         //make the class assembler (i.e. the public-facing class creator method)
         result.push(...this.getTranspiledClassFunction(state));
+        //static members live outside of the class instances
+        result.push(...this.getTranspiledStaticMembers(state));
         return result;
     }
 
@@ -1569,10 +1720,18 @@ export class ClassStatement extends Statement implements TypedefProvider {
                 state.indent()
             );
         }
+        if (this.abstractKeyword) {
+            result.push('abstract ');
+        }
         result.push(
             'class ',
             this.name.text
         );
+        if (this.typeParameters.length > 0) {
+            result.push(
+                `<${this.typeParameters.map(x => x.text).join(', ')}>`
+            );
+        }
         if (this.extendsKeyword && this.parentClassName) {
             const fqName = util.getFullyQualifiedClassName(
                 this.parentClassName.getName(ParseMode.BrighterScript),
@@ -1582,6 +1741,12 @@ export class ClassStatement extends Statement implements TypedefProvider {
                 ` extends ${fqName}`
             );
         }
+        if (this.implementsKeyword && this.implementedInterfaceNames.length > 0) {
+            result.push(
+                ' implements ',
+                this.implementedInterfaceNames.map(x => x.getName(ParseMode.BrighterScript)).join(', ')
+            );
+        }
         result.push(state.newline);
         state.blockDepth++;
         for (const member of this.body) {
@@ -1649,6 +1814,20 @@ export class ClassStatement extends Statement implements TypedefProvider {
         return ancestors;
     }
 
+    /**
+     * Get the name of the function that a static method is transpiled to (i.e. `NameA_Person_create`)
+     */
+    public getStaticMethodName(methodName: string) {
+        return `${this.getName(ParseMode.BrightScript)}_${methodName}`;
+    }
+
+    /**
+     * Get the name of the function that returns the storage for the static fields of this class (i.e. `__NameA_Person_statics`)
+     */
+    public getStaticsFunctionName() {
+        return `__${this.getName(ParseMode.BrightScript)}_statics`;
+    }
+
     private getBuilderName(name: string) {
         if (name.includes('.')) {
             name = name.replace(/\./gi, '_');
@@ -1691,6 +1870,23 @@ export class ClassStatement extends Statement implements TypedefProvider {
         return false;
     }
 
+    /**
+     * Determine if any of the ancestors has a non-abstract member with the same name as the method (or the same accessor, for getters and setters).
+     * Abstract methods only exist at compile time, so they are not implementations
+     */
+    public hasAncestorImplementation(ancestors: ClassStatement[], method: ClassMethodStatement) {
+        const lowerName = method.name.text.toLowerCase();
+        return ancestors.some(ancestor => {
+            let member: ClassMemberStatement;
+            if (method.accessorKeyword) {
+                member = method.isGetter() ? ancestor?.getterMap[lowerName] : ancestor?.setterMap[lowerName];
+            } else {
+                member = ancestor?.memberMap[lowerName];
+            }
+            return member && !(isClassMethodStatement(member) && member.abstract);
+        });
+    }
+
     /**
      * The builder is a function that assigns all of the methods and property names to a class instance.
      * This needs to be a separate function so that child classes can call the builder from their parent
@@ -1741,16 +1937,20 @@ export class ClassStatement extends Statement implements TypedefProvider {
 
                 //methods
             } else if (isClassMethodStatement(statement)) {
+                //abstract methods only exist at compile time, and static methods are transpiled as standalone functions
+                if (statement.abstract || statement.staticKeyword) {
+                    continue;
+                }
 
                 //store overridden parent methods as super{parentIndex}_{methodName}
                 if (
-                    //is override method
-                    statement.override ||
+                    //is override method of a method that an ancestor implements (abstract methods don't exist at runtime)
+                    (statement.override && this.hasAncestorImplementation(ancestors, statement)) ||
                     //is constructor function in child class
                     (statement.name.text.toLowerCase() === 'new' && ancestors[0])
                 ) {
                     result.push(
-                        `instance.super${parentClassIndex}_${statement.name.text} = instance.${statement.name.text}`,
+                        `instance.super${parentClassIndex}_${statement.getTranspiledName()} = instance.${statement.getTranspiledName()}`,
                         state.newline,
                         state.indent()
                     );
@@ -1759,7 +1959,7 @@ export class ClassStatement extends Statement implements TypedefProvider {
                 state.classStatement = this;
                 result.push(
                     'instance.',
-                    state.transpileToken(statement.name),
+                    state.transpileToken({ ...statement.name, text: statement.getTranspiledName() }),
                     ' = ',
                     ...statement.transpile(state),
                     state.newline,
@@ -1846,6 +2046,70 @@ export class ClassStatement extends Statement implements TypedefProvider {
         return result;
     }
 
+    /**
+     * Static methods are transpiled to standalone functions (i.e. `Person_create`). Static fields are stored in an
+     * associative array on the global AA, which is created by the statics function the first time it is called
+     */
+    private getTranspiledStaticMembers(state: BrsTranspileState) {
+        let result = [];
+        if (this.staticFields.length > 0) {
+            const staticsFunctionName = this.getStaticsFunctionName();
+            result.push(
+                '\n',
+                state.indent(),
+                `function ${staticsFunctionName}()\n`
+            );
+            state.blockDepth++;
+            result.push(
+                state.indent(),
+                `statics = getGlobalAA().${staticsFunctionName}\n`,
+                state.indent(),
+                'if statics = invalid then\n'
+            );
+            state.blockDepth++;
+            //store the statics before running the initializers, so initializers can reference other static fields
+            result.push(
+                state.indent(),
+                'statics = {}\n',
+                state.indent(),
+                `getGlobalAA().${staticsFunctionName} = statics\n`
+            );
+            for (const field of this.staticFields) {
+                result.push(
+                    state.indent(),
+                    'statics.',
+                    state.transpileToken(field.name),
+                    ' = ',
+                    ...(field.initialValue ? field.initialValue.transpile(state) : ['invalid']),
+                    '\n'
+                );
+            }
+            state.blockDepth--;
+            result.push(
+                state.indent(),
+                'end if\n',
+                state.indent(),
+                'return statics\n'
+            );
+            state.blockDepth--;
+            result.push(
+                state.indent(),
+                'end function'
+            );
+        }
+        for (const method of this.staticMethods) {
+            result.push(
+                '\n',
+                state.indent(),
+                ...method.func.transpile(state, {
+                    ...method.name,
+                    text: this.getStaticMethodName(method.name.text)
+                })
+            );
+        }
+        return result;
+    }
+
     walk(visitor: WalkVisitor, options: WalkOptions) {
         if (options.walkMode & InternalWalkMode.walkStatements) {
             for (let i = 0; i < this.body.length; i++) {
@@ -1860,17 +2124,46 @@ export class ClassMethodStatement extends FunctionStatement {
         readonly accessModifier: Token,
         name: Identifier,
         func: FunctionExpression,
-        readonly override: Token
+        readonly override: Token,
+        /**
+         * Abstract methods have no body, and must be implemented by every non-abstract child class
+         */
+        readonly abstract?: Token,
+        /**
+         * Static methods belong to the class itself, and are called through the class name (i.e. `Person.create()`)
+         */
+        readonly staticKeyword?: Token,
+        /**
+         * The `get` or `set` keyword of a property accessor. Reads and writes of the property are transpiled to calls to the accessor
+         */
+        readonly accessorKeyword?: Token
     ) {
         super(name, func, undefined);
         this.range = util.createRangeFromPositions(
-            (this.accessModifier ?? this.func).range.start,
+            (this.accessModifier ?? this.staticKeyword ?? this.func).range.start,
             this.func.range.end
         );
     }
 
     public readonly range: Range;
 
+    /**
+     * Is this a `get` accessor
+     */
+    public isGetter() {
+        return this.accessorKeyword?.text.toLowerCase() === 'get';
+    }
+
+    /**
+     * Get the name of this method on the transpiled class instance. Accessors are stored as `__get_name` and `__set_name`
+     */
+    public getTranspiledName() {
+        if (this.accessorKeyword) {
+            return `__${this.accessorKeyword.text.toLowerCase()}_${this.name.text}`;
+        }
+        return this.name.text;
+    }
+
     transpile(state: BrsTranspileState) {
         if (this.name.text.toLowerCase() === 'new') {
             this.ensureSuperConstructorCall(state);
@@ -1891,7 +2184,9 @@ export class ClassMethodStatement extends FunctionStatement {
                 const lowerName = beginningVariable?.getName(ParseMode.BrighterScript).toLowerCase();
                 if (lowerName === 'super') {
                     beginningVariable.name.text = 'm';
-                    e.name.text = `super${parentClassIndex}_${e.name.text}`;
+                    //inside of an accessor, `super.volume()` calls the parent accessor, which is stored by its transpiled name (i.e. `super0___get_volume`)
+                    const memberName = this.accessorKeyword && e.name.text.toLowerCase() === this.name.text.toLowerCase() ? this.getTranspiledName() : e.name.text;
+                    e.name.text = `super${parentClassIndex}_${memberName}`;
                 }
             }
         });
@@ -1918,9 +2213,21 @@ export class ClassMethodStatement extends FunctionStatement {
                 ' '
             );
         }
+        if (this.staticKeyword) {
+            result.push('static ');
+        }
         if (this.override) {
             result.push('override ');
         }
+        if (this.abstract) {
+            result.push('abstract ');
+        }
+        if (this.accessorKeyword) {
+            result.push(
+                this.accessorKeyword.text.toLowerCase(),
+                ' '
+            );
+        }
         result.push(
             ...this.func.getTypedef(state, this.name)
         );
@@ -2028,21 +2335,32 @@ export class ClassFieldStatement extends Statement implements TypedefProvider {
         readonly as?: Token,
         readonly type?: Token,
         readonly equal?: Token,
-        readonly initialValue?: Expression
+        readonly initialValue?: Expression,
+        /**
+         * Static fields belong to the class itself, and are accessed through the class name (i.e. `Person.count`)
+         */
+        readonly staticKeyword?: Token
     ) {
         super();
         this.range = util.createRangeFromPositions(
-            (this.accessModifier ?? this.name).range.start,
+            (this.accessModifier ?? this.staticKeyword ?? this.name).range.start,
             (this.initialValue ?? this.type ?? this.as ?? this.name).range.end
         );
     }
 
+    /**
+     * The type of a field that references the generic type parameters of its class (i.e. `value as T` in `class Box<T>`)
+     */
+    public genericType?: BscType;
+
     /**
      * Derive a ValueKind from the type token, or the initial value.
      * Defaults to `DynamicType`
      */
     getType() {
-        if (this.type) {
+        if (this.genericType) {
+            return this.genericType;
+        } else if (this.type) {
             return util.tokenToBscType(this.type);
         } else if (isLiteralExpression(this.initialValue)) {
             return this.initialValue.type;
@@ -2072,13 +2390,19 @@ export class ClassFieldStatement extends Statement implements TypedefProvider {
             if (isInvalidType(type) || isVoidType(type)) {
                 type = new DynamicType();
             }
+            const namespaceName = state.file.getNamespaceStatementForPosition(this.range.start)?.getName(ParseMode.BrighterScript);
 
             result.push(
                 this.accessModifier?.text ?? 'public',
-                ' ',
+                ' '
+            );
+            if (this.staticKeyword) {
+                result.push('static ');
+            }
+            result.push(
                 this.name?.text,
                 ' as ',
-                type.toTypeString()
+                this.type ? state.file.getTypeAnnotationText(this.type, type, namespaceName, true) : type.toTypeString()
             );
         }
         return result;
@@ -2173,3 +2497,381 @@ export class ThrowStatement extends Statement {
         }
     }
 }
+
+export class EnumStatement extends Statement implements TypedefProvider {
+    constructor(
+        enumToken: Token,
+        name: Identifier,
+        public body: Array<EnumMemberStatement | CommentStatement>,
+        endEnumToken: Token,
+        public namespaceName?: NamespacedVariableNameExpression
+    ) {
+        super();
+        this.tokens.enum = enumToken;
+        this.tokens.name = name;
+        this.tokens.endEnum = endEnumToken;
+    }
+
+    public tokens = {} as {
+        enum: Token;
+        name: Identifier;
+        endEnum: Token;
+    };
+
+    public get range() {
+        return util.createRangeFromPositions(
+            this.tokens.enum.range.start,
+            (this.tokens.endEnum ?? this.body[this.body.length - 1] ?? this.tokens.name ?? this.tokens.enum).range.end
+        );
+    }
+
+    /**
+     * The name of the enum (without the namespace prefix)
+     */
+    public get name() {
+        return this.tokens.name?.text;
+    }
+
+    /**
+     * The name of the enum WITH its leading namespace (if applicable)
+     */
+    public get fullName() {
+        const name = this.tokens.name?.text;
+        if (name) {
+            if (this.namespaceName) {
+                let namespaceName = this.namespaceName.getName(ParseMode.BrighterScript);
+                return `${namespaceName}.${name}`;
+            } else {
+                return name;
+            }
+        } else {
+            //return undefined which will allow outside callers to know that this enum doesn't have a name
+            return undefined;
+        }
+    }
+
+    public get members() {
+        return this.body.filter(x => isEnumMemberStatement(x)) as EnumMemberStatement[];
+    }
+
+    /**
+     * Get the member with the specified name (case insensitive)
+     */
+    public getMember(name: string) {
+        const lowerName = name?.toLowerCase();
+        return this.members.find(x => x.name?.toLowerCase() === lowerName);
+    }
+
+    /**
+     * Get the transpiled value for every member of this enum, indexed by the lower case member name.
+     * Members without an explicit value are numbered sequentially, starting at 0 or one more than the previous numeric member
+     */
+    public getMemberValueMap() {
+        const result = new Map<string, string>();
+        let nextValue = 0;
+        for (const member of this.members) {
+            let value: string;
+            if (member.value) {
+                value = member.getValueText();
+                //support hex integer literals (i.e. `&HFF`)
+                const numericValue = /^&h/i.test(value) ? parseInt(value.substring(2), 16) : parseInt(value);
+                if (isIntegerType(member.getValueType()) && !isNaN(numericValue)) {
+                    nextValue = numericValue + 1;
+                }
+            } else {
+                value = nextValue.toString();
+                nextValue++;
+            }
+            result.set(member.name.toLowerCase(), value);
+        }
+        return result;
+    }
+
+    /**
+     * Get the transpiled value for the specified member, or undefined if there is no member with that name
+     */
+    public getMemberValue(name: string) {
+        return this.getMemberValueMap().get(name?.toLowerCase());
+    }
+
+    public transpile(state: BrsTranspileState): TranspileResult {
+        //enums should completely disappear at runtime (all references are replaced with their literal values)
+        return [];
+    }
+
+    getTypedef(state: BrsTranspileState) {
+        const result = [] as TranspileResult;
+        for (let annotation of this.annotations ?? []) {
+            result.push(
+                ...annotation.getTypedef(state),
+                state.newline,
+                state.indent()
+            );
+        }
+        result.push(
+            this.tokens.enum.text,
+            ' ',
+            this.tokens.name.text
+        );
+        state.blockDepth++;
+        for (const statement of this.body) {
+            result.push(
+                state.newline,
+                state.indent(),
+                ...(isEnumMemberStatement(statement) ? statement.getTypedef(state) : statement.transpile(state))
+            );
+        }
+        state.blockDepth--;
+        result.push(
+            state.newline,
+            state.indent(),
+            'end enum'
+        );
+        return result;
+    }
+
+    walk(visitor: WalkVisitor, options: WalkOptions) {
+        if (options.walkMode & InternalWalkMode.walkStatements) {
+            for (let i = 0; i < this.body.length; i++) {
+                walk(this.body, i, visitor, options, this);
+            }
+        }
+    }
+}
+
+export class EnumMemberStatement extends Statement implements TypedefProvider {
+    constructor(
+        name: Identifier,
+        equalToken?: Token,
+        public value?: Expression
+    ) {
+        super();
+        this.tokens.name = name;
+        this.tokens.equal = equalToken;
+    }
+
+    public tokens = {} as {
+        name: Identifier;
+        equal?: Token;
+    };
+
+    public get range() {
+        return util.createRangeFromPositions(
+            this.tokens.name.range.start,
+            (this.value ?? this.tokens.equal ?? this.tokens.name).range.end
+        );
+    }
+
+    public get name() {
+        return this.tokens.name.text;
+    }
+
+    /**
+     * Get the type of the explicit value of this member (i.e. `IntegerType` for `up = 1`). Returns undefined if there is no value.
+     */
+    public getValueType(): BscType {
+        if (isUnaryExpression(this.value) && isLiteralExpression(this.value.right)) {
+            return this.value.right.type;
+        } else if (isLiteralExpression(this.value)) {
+            return this.value.type;
+        }
+    }
+
+    /**
+     * Get the source text for the explicit value of this member (i.e. `-1` or `"up"`). Returns undefined if there is no value.
+     */
+    public getValueText() {
+        if (isUnaryExpression(this.value) && isLiteralExpression(this.value.right)) {
+            return this.value.operator.text + this.value.right.token.text;
+        } else if (isLiteralExpression(this.value)) {
+            return this.value.token.text;
+        }
+    }
+
+    public transpile(state: BrsTranspileState): TranspileResult {
+        //enum members are never written to the output
+        return [];
+    }
+
+    getTypedef(state: BrsTranspileState): TranspileResult {
+        const result = [
+            this.tokens.name.text
+        ] as TranspileResult;
+        if (this.value) {
+            result.push(
+                ' = ',
+                this.getValueText()
+            );
+        }
+        return result;
+    }
+
+    walk(visitor: WalkVisitor, options: WalkOptions) {
+        if (this.value && options.walkMode & InternalWalkMode.walkExpressions) {
+            walk(this, 'value', visitor, options);
+        }
+    }
+}
+
+export class ConstStatement extends Statement implements TypedefProvider {
+    constructor(
+        constToken: Token,
+        name: Identifier,
+        equalToken: Token,
+        public value: Expression,
+        public namespaceName?: NamespacedVariableNameExpression
+    ) {
+        super();
+        this.tokens.const = constToken;
+        this.tokens.name = name;
+        this.tokens.equal = equalToken;
+    }
+
+    public tokens = {} as {
+        const: Token;
+        name: Identifier;
+        equal: Token;
+    };
+
+    public get range() {
+        return util.createRangeFromPositions(
+            this.tokens.const.range.start,
+            (this.value ?? this.tokens.equal ?? this.tokens.name ?? this.tokens.const).range.end
+        );
+    }
+
+    /**
+     * The name of the const (without the namespace prefix)
+     */
+    public get name() {
+        return this.tokens.name?.text;
+    }
+
+    /**
+     * The name of the const WITH its leading namespace (if applicable)
+     */
+    public get fullName() {
+        const name = this.tokens.name?.text;
+        if (name) {
+            if (this.namespaceName) {
+                let namespaceName = this.namespaceName.getName(ParseMode.BrighterScript);
+                return `${namespaceName}.${name}`;
+            } else {
+                return name;
+            }
+        } else {
+            //return undefined which will allow outside callers to know that this const doesn't have a name
+            return undefined;
+        }
+    }
+
+    public transpile(state: BrsTranspileState): TranspileResult {
+        //consts should completely disappear at runtime (all references are replaced with their literal values)
+        return [];
+    }
+
+    /**
+     * Get the transpiled code for the value of this const. This is used to replace every reference to this const.
+     */
+    public getValueText(state: BrsTranspileState) {
+        return new SourceNode(null, null, null, this.value.transpile(state)).toString();
+    }
+
+    getTypedef(state: BrsTranspileState) {
+        return [
+            this.tokens.const.text,
+            ' ',
+            this.tokens.name.text,
+            ' = ',
+            ...this.value.transpile(state)
+        ];
+    }
+
+    walk(visitor: WalkVisitor, options: WalkOptions) {
+        if (this.value && options.walkMode & InternalWalkMode.walkExpressions) {
+            walk(this, 'value', visitor, options);
+        }
+    }
+}
+
+export class TypeAliasStatement extends Statement implements TypedefProvider {
+    constructor(
+        typeToken: Token,
+        name: Identifier,
+        equalToken: Token,
+        /**
+         * The aliased type (i.e. `string | invalid` in `type OptionalString = string | invalid`)
+         */
+        public valueTypeToken: Token,
+        public namespaceName?: NamespacedVariableNameExpression
+    ) {
+        super();
+        this.tokens.type = typeToken;
+        this.tokens.name = name;
+        this.tokens.equal = equalToken;
+    }
+
+    public tokens = {} as {
+        type: Token;
+        name: Identifier;
+        equal: Token;
+    };
+
+    public get range() {
+        return util.createRangeFromPositions(
+            this.tokens.type.range.start,
+            (this.valueTypeToken ?? this.tokens.equal ?? this.tokens.name ?? this.tokens.type).range.end
+        );
+    }
+
+    /**
+     * The name of the type alias (without the namespace prefix)
+     */
+    public get name() {
+        return this.tokens.name?.text;
+    }
+
+    /**
+     * The name of the type alias WITH its leading namespace (if applicable)
+     */
+    public get fullName() {
+        const name = this.tokens.name?.text;
+        if (name) {
+            if (this.namespaceName) {
+                let namespaceName = this.namespaceName.getName(ParseMode.BrighterScript);
+                return `${namespaceName}.${name}`;
+            } else {
+                return name;
+            }
+        } else {
+            //return undefined which will allow outside callers to know that this type alias doesn't have a name
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the aliased type. Defaults to `DynamicType`
+     */
+    public getType(): BscType {
+        return (this.valueTypeToken ? util.tokenToBscType(this.valueTypeToken) : undefined) ?? new DynamicType();
+    }
+
+    public transpile(state: BrsTranspileState): TranspileResult {
+        //type aliases only exist at compile time
+        return [];
+    }
+
+    getTypedef(state: BrsTranspileState) {
+        return [
+            this.tokens.type.text,
+            ' ',
+            this.tokens.name.text,
+            ' = ',
+            this.valueTypeToken.text
+        ];
+    }
+
+    walk(visitor: WalkVisitor, options: WalkOptions) {
+        //nothing to walk
+    }
+}
@@ -0,0 +1,232 @@
+import { expect } from 'chai';
+import { DiagnosticMessages } from '../../../DiagnosticMessages';
+import { Parser, ParseMode } from '../../Parser';
+import type { AssignmentStatement } from '../../Statement';
+import type { CallExpression, DottedGetExpression, IndexedGetExpression } from '../../Expression';
+import { Program } from '../../../Program';
+import { getTestTranspile } from '../../../testHelpers.spec';
+
+describe('optional chaining', () => {
+    function parse(text: string, mode = ParseMode.BrighterScript) {
+        return Parser.parse(text, { mode: mode });
+    }
+
+    it('is not allowed in brightscript mode', () => {
+        const { diagnostics } = parse(`a = user?.name`, ParseMode.BrightScript);
+        expect(diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.bsFeatureNotSupportedInBrsFiles('optional chaining').message
+        );
+    });
+
+    it('sets the optional flag on each link', () => {
+        const { statements, diagnostics } = parse(`a = user?.items?[0]?()`);
+        expect(diagnostics[0]?.message).not.to.exist;
+        const call = (statements[0] as AssignmentStatement).value as CallExpression;
+        const indexedGet = call.callee as IndexedGetExpression;
+        const dottedGet = indexedGet.obj as DottedGetExpression;
+        expect(call.optional).to.be.true;
+        expect(indexedGet.optional).to.be.true;
+        expect(dottedGet.optional).to.be.true;
+    });
+
+    it('does not set the optional flag on regular links', () => {
+        const { statements } = parse(`a = user.items[0]()`);
+        const call = (statements[0] as AssignmentStatement).value as CallExpression;
+        expect(call.optional).to.be.false;
+        expect((call.callee as IndexedGetExpression).optional).to.be.false;
+        expect(((call.callee as IndexedGetExpression).obj as DottedGetExpression).optional).to.be.false;
+    });
+
+    it('still supports ternary expressions', () => {
+        const { diagnostics } = parse(`
+            a = isTrue ?.5 : 1
+            b = isTrue ?[1] : [2]
+            c = isTrue ?(1) : (2)
+        `);
+        expect(diagnostics[0]?.message).not.to.exist;
+    });
+
+    it('flags optional chaining on the left-hand side of an assignment', () => {
+        const { diagnostics } = parse(`
+            sub main()
+                user?.name = "bob"
+                user?.items[0] = 1
+                user?.count++
+            end sub
+        `);
+        expect(diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.optionalChainingNotAllowedInAssignment().message,
+            DiagnosticMessages.optionalChainingNotAllowedInAssignment().message,
+            DiagnosticMessages.optionalChainingNotAllowedInAssignment().message
+        ]);
+    });
+
+    describe('transpile', () => {
+        let rootDir = process.cwd();
+        let program: Program;
+        let testTranspile = getTestTranspile(() => [program, rootDir]);
+
+        beforeEach(() => {
+            program = new Program({ rootDir: rootDir });
+        });
+        afterEach(() => {
+            program.dispose();
+        });
+
+        it('guards a variable without storing it', () => {
+            testTranspile(`a = user?.account.name`, `
+                a = (function(user)
+                        if user = invalid then return invalid
+                        return user.account.name
+                    end function)(user)
+            `);
+        });
+
+        it('evaluates each guarded link exactly once', () => {
+            testTranspile(`a = m.getUser()?.items?[0]`, `
+                a = (function(m)
+                        __bsChain = m.getUser()
+                        if __bsChain = invalid then return invalid
+                        __bsChain = __bsChain.items
+                        if __bsChain = invalid then return invalid
+                        return __bsChain[0]
+                    end function)(m)
+            `);
+        });
+
+        it('keeps the `m` reference for optional method calls', () => {
+            testTranspile(`a = m.getUser().getName?("first")`, `
+                a = (function(m)
+                        __bsChain = m.getUser()
+                        if __bsChain.getName = invalid then return invalid
+                        return __bsChain.getName("first")
+                    end function)(m)
+            `);
+        });
+
+        it('supports optional calls on variables', () => {
+            testTranspile(`
+                sub main(callback)
+                    result = callback?(1)
+                end sub
+            `, `
+                sub main(callback)
+                    result = (function(callback)
+                            if callback = invalid then return invalid
+                            return callback(1)
+                        end function)(callback)
+                end sub
+            `);
+        });
+
+        it('writes statements as nested if blocks', () => {
+            testTranspile(`
+                sub main()
+                    m.node?.callback?(1)
+                    print "done"
+                end sub
+            `, `
+                sub main()
+                    __bsChain = m.node
+                    if __bsChain <> invalid then
+                        if __bsChain.callback <> invalid then
+                            __bsChain.callback(1)
+                        end if
+                    end if
+                    print "done"
+                end sub
+            `);
+        });
+
+        it('supports optional chains inside callfunc expressions', () => {
+            testTranspile(`
+                sub main()
+                    result = m.top?.child@.doSomething()
+                end sub
+            `, `
+                sub main()
+                    result = (function(m)
+                            __bsChain = m.top
+                            if __bsChain = invalid then return invalid
+                            return __bsChain.child.callfunc("doSomething", invalid)
+                        end function)(m)
+                end sub
+            `);
+        });
+
+        it('supports nested optional chains', () => {
+            testTranspile(`
+                sub main(user, settings)
+                    result = user?.getName(settings?.nameFormat)
+                end sub
+            `, `
+                sub main(user, settings)
+                    result = (function(settings, user)
+                            if user = invalid then return invalid
+                            return user.getName((function(settings)
+                                    if settings = invalid then return invalid
+                                    return settings.nameFormat
+                                end function)(settings))
+                        end function)(settings, user)
+                end sub
+            `);
+        });
+
+        it('supports namespaced function calls', () => {
+            testTranspile(`
+                namespace Name
+                    function getUser()
+                    end function
+                end namespace
+                sub main()
+                    result = Name.getUser()?.name
+                end sub
+            `, `
+                function Name_getUser()
+                end function
+
+                sub main()
+                    result = (function()
+                            __bsChain = Name_getUser()
+                            if __bsChain = invalid then return invalid
+                            return __bsChain.name
+                        end function)()
+                end sub
+            `);
+        });
+
+        it('does not pass namespace, enum, const or class names to the IIFE', () => {
+            testTranspile(`
+                namespace NameA
+                    function fn()
+                    end function
+                end namespace
+                enum Direction
+                    up = "up"
+                end enum
+                const LIMIT = 10
+                sub main(user)
+                    print NameA.fn?()
+                    print user?.move(Direction.up, LIMIT)
+                end sub
+            `, `
+                function NameA_fn()
+                end function
+
+
+
+                sub main(user)
+                    print (function()
+                            __bsChain = NameA_fn
+                            if __bsChain = invalid then return invalid
+                            return __bsChain()
+                        end function)()
+                    print (function(user)
+                            if user = invalid then return invalid
+                            return user.move("up", 10)
+                        end function)(user)
+                end sub
+            `);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import { expectZeroDiagnostics, getTestGetTypedef } from '../../../testHelpers.spec';
+import { standardizePath as s } from '../../../util';
+import { Program } from '../../../Program';
+import { Parser, ParseMode } from '../../Parser';
+import { DiagnosticMessages } from '../../../DiagnosticMessages';
+import { isConstStatement } from '../../../astUtils/reflection';
+import type { BrsFile } from '../../../files/BrsFile';
+
+describe('ConstStatement', () => {
+    const rootDir = s`${process.cwd()}/.tmp/rootDir`;
+    let program: Program;
+    beforeEach(() => {
+        program = new Program({
+            rootDir: rootDir
+        });
+    });
+
+    const testGetTypedef = getTestGetTypedef(() => [program, rootDir]);
+
+    function parse(text: string) {
+        return Parser.parse(text, { mode: ParseMode.BrighterScript });
+    }
+
+    it('parses literal values', () => {
+        const parser = parse(`
+            const PI = 3.14
+            const NAME = "bob"
+            const IS_DEBUG = true
+            const NOTHING = invalid
+            const NEGATIVE = -1
+            const COLORS = ["red", "green", -2, [1, 2]]
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.ast.statements.every(x => isConstStatement(x))).to.be.true;
+        expect(parser.references.constStatements.map(x => x.name)).to.eql([
+            'PI', 'NAME', 'IS_DEBUG', 'NOTHING', 'NEGATIVE', 'COLORS'
+        ]);
+    });
+
+    it('supports consts inside namespaces', () => {
+        const parser = parse(`
+            namespace Name.Space
+                const PI = 3.14
+            end namespace
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.constStatements[0].fullName).to.eql('Name.Space.PI');
+        expect([...parser.references.constStatementLookup.keys()]).to.eql(['name.space.pi']);
+    });
+
+    it('allows `const` as a local variable name', () => {
+        const parser = parse(`
+            sub main()
+                const = 1
+                print const
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.constStatements).to.be.empty;
+    });
+
+    it('does not interfere with the `#const` preprocessor directive', () => {
+        const file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+            #const DEBUG = true
+            sub main()
+                #if DEBUG
+                    print "debug"
+                #end if
+            end sub
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+        expect(file.parser.references.constStatements).to.be.empty;
+    });
+
+    it('flags consts in brightscript mode', () => {
+        const parser = Parser.parse(`
+            const PI = 3.14
+        `, { mode: ParseMode.BrightScript });
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.bsFeatureNotSupportedInBrsFiles('const declarations').message
+        );
+    });
+
+    it('flags consts declared inside functions', () => {
+        const parser = parse(`
+            sub main()
+                const PI = 3.14
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('const').message
+        );
+    });
+
+    it('flags non-literal values', () => {
+        const parser = parse(`
+            const A = getValue()
+            const B = [1, getValue()]
+            const C = { name: "bob" }
+        `);
+        expect(parser.diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.constValueMustBeLiteral().message,
+            DiagnosticMessages.constValueMustBeLiteral().message,
+            DiagnosticMessages.constValueMustBeLiteral().message
+        ]);
+    });
+
+    it('generates typedef', () => {
+        testGetTypedef(`
+            const PI = 3.14
+            namespace Name
+                const NAME = "bob"
+            end namespace
+        `, undefined, undefined, undefined, true);
+    });
+});
@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import { getTestGetTypedef } from '../../../testHelpers.spec';
+import { standardizePath as s } from '../../../util';
+import { Program } from '../../../Program';
+import { Parser, ParseMode } from '../../Parser';
+import { DiagnosticMessages } from '../../../DiagnosticMessages';
+import { isEnumStatement } from '../../../astUtils/reflection';
+import type { EnumStatement } from '../../Statement';
+
+describe('EnumStatement', () => {
+    const rootDir = s`${process.cwd()}/.tmp/rootDir`;
+    let program: Program;
+    beforeEach(() => {
+        program = new Program({
+            rootDir: rootDir
+        });
+    });
+
+    const testGetTypedef = getTestGetTypedef(() => [program, rootDir]);
+
+    function parse(text: string) {
+        return Parser.parse(text, { mode: ParseMode.BrighterScript });
+    }
+
+    it('parses empty enum', () => {
+        const parser = parse(`
+            enum Direction
+            end enum
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(isEnumStatement(parser.ast.statements[0])).to.be.true;
+        expect(parser.references.enumStatements).to.be.lengthOf(1);
+    });
+
+    it('parses members with and without values', () => {
+        const parser = parse(`
+            enum Direction
+                up
+                down = 5
+                left
+                'a comment
+                right = -1
+            end enum
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        const statement = parser.ast.statements[0] as EnumStatement;
+        expect(statement.members.map(x => x.name)).to.eql(['up', 'down', 'left', 'right']);
+        expect(statement.body).to.be.lengthOf(5);
+        expect(
+            [...statement.getMemberValueMap().entries()]
+        ).to.eql([
+            ['up', '0'],
+            ['down', '5'],
+            ['left', '6'],
+            ['right', '-1']
+        ]);
+    });
+
+    it('supports string values', () => {
+        const parser = parse(`
+            enum Direction
+                up = "up"
+                down = "DOWN"
+            end enum
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(
+            (parser.ast.statements[0] as EnumStatement).getMemberValue('DOWN')
+        ).to.eql('"DOWN"');
+    });
+
+    it('supports enums inside namespaces', () => {
+        const parser = parse(`
+            namespace Name.Space
+                enum Direction
+                    up
+                end enum
+            end namespace
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.enumStatements[0].fullName).to.eql('Name.Space.Direction');
+        expect([...parser.references.enumStatementLookup.keys()]).to.eql(['name.space.direction']);
+    });
+
+    it('allows `enum` as a local variable name', () => {
+        const parser = parse(`
+            sub main()
+                enum = 1
+                print enum
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.enumStatements).to.be.empty;
+    });
+
+    it('flags enums in brightscript mode', () => {
+        const parser = Parser.parse(`
+            enum Direction
+                up
+            end enum
+        `, { mode: ParseMode.BrightScript });
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.bsFeatureNotSupportedInBrsFiles('enum declarations').message
+        );
+    });
+
+    it('flags enums declared inside functions', () => {
+        const parser = parse(`
+            sub main()
+                enum Direction
+                    up
+                end enum
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('enum').message
+        );
+    });
+
+    it('flags non-literal values', () => {
+        const parser = parse(`
+            enum Direction
+                up = getValue()
+            end enum
+        `);
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.enumValueMustBeLiteral().message
+        );
+    });
+
+    it('flags missing values in string enums', () => {
+        const parser = parse(`
+            enum Direction
+                up = "up"
+                down
+            end enum
+        `);
+        expect(parser.diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.enumValueIsRequired().message
+        ]);
+    });
+
+    it('flags mixed value types', () => {
+        const parser = parse(`
+            enum Direction
+                up = 1
+                down = "down"
+            end enum
+        `);
+        expect(parser.diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.enumValueMustBeType('numeric').message
+        ]);
+    });
+
+    it('flags duplicate members', () => {
+        const parser = parse(`
+            enum Direction
+                up
+                UP
+            end enum
+        `);
+        expect(parser.diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.duplicateEnumMember('UP', 'Direction').message
+        ]);
+    });
+
+    it('generates typedef', () => {
+        testGetTypedef(`
+            enum Direction
+                up
+                'some comment
+                down = 2
+            end enum
+        `, undefined, undefined, undefined, true);
+    });
+
+    it('generates typedef for namespaced enums', () => {
+        testGetTypedef(`
+            namespace Name
+                enum Direction
+                    up = 1
+                end enum
+            end namespace
+        `, undefined, undefined, undefined, true);
+    });
+});
@@ -61,4 +61,12 @@ describe('InterfaceStatement', () => {
             end interface
         `, undefined, undefined, undefined, true);
     });
+
+    it('includes method parameters', () => {
+        testGetTypedef(`
+            interface Person
+                function getAge(year as integer, name) as integer
+            end interface
+        `, undefined, undefined, undefined, true);
+    });
 });
@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import { expectZeroDiagnostics, getTestGetTypedef, getTestTranspile } from '../../../testHelpers.spec';
+import { standardizePath as s, util } from '../../../util';
+import { Program } from '../../../Program';
+import { Parser, ParseMode } from '../../Parser';
+import { DiagnosticMessages } from '../../../DiagnosticMessages';
+import { isTypeAliasStatement, isUnionType } from '../../../astUtils/reflection';
+import type { BrsFile } from '../../../files/BrsFile';
+import type { FunctionStatement } from '../../Statement';
+
+describe('TypeAliasStatement', () => {
+    const rootDir = s`${process.cwd()}/.tmp/rootDir`;
+    let program: Program;
+    beforeEach(() => {
+        program = new Program({
+            rootDir: rootDir
+        });
+    });
+    afterEach(() => {
+        program.dispose();
+    });
+
+    const testGetTypedef = getTestGetTypedef(() => [program, rootDir]);
+    const testTranspile = getTestTranspile(() => [program, rootDir]);
+
+    function parse(text: string) {
+        return Parser.parse(text, { mode: ParseMode.BrighterScript });
+    }
+
+    it('parses type aliases', () => {
+        const parser = parse(`
+            type Id = string
+            type MaybeName = string | invalid
+            type Payload = integer | string | object
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.ast.statements.every(x => isTypeAliasStatement(x))).to.be.true;
+        expect(
+            parser.references.typeAliasStatements.map(x => `${x.name}=${x.getType().toString()}`)
+        ).to.eql([
+            'Id=string',
+            'MaybeName=string | invalid',
+            'Payload=integer | string | object'
+        ]);
+    });
+
+    it('parses union types in parameters and return types', () => {
+        const parser = parse(`
+            function getName(fallback as string | invalid) as string | invalid
+                return fallback
+            end function
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        const func = (parser.ast.statements[0] as FunctionStatement).func;
+        expect(isUnionType(func.returnType)).to.be.true;
+        expect(func.returnType.toString()).to.eql('string | invalid');
+        expect(func.parameters[0].type.toString()).to.eql('string | invalid');
+    });
+
+    it('supports type aliases inside namespaces', () => {
+        const parser = parse(`
+            namespace Name.Space
+                type Id = string
+            end namespace
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.typeAliasStatements[0].fullName).to.eql('Name.Space.Id');
+        expect([...parser.references.typeAliasStatementLookup.keys()]).to.eql(['name.space.id']);
+    });
+
+    it('allows calls to the `type()` function', () => {
+        const parser = parse(`
+            sub main()
+                print type(1)
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).not.to.exist;
+        expect(parser.references.typeAliasStatements).to.be.empty;
+    });
+
+    it('flags type aliases and union types in brightscript mode', () => {
+        const parser = Parser.parse(`
+            type Id = string
+            function getName() as string | invalid
+            end function
+        `, { mode: ParseMode.BrightScript });
+        expect(parser.diagnostics.map(x => x.message)).to.eql([
+            DiagnosticMessages.bsFeatureNotSupportedInBrsFiles('type alias declarations').message,
+            DiagnosticMessages.bsFeatureNotSupportedInBrsFiles('union types').message
+        ]);
+    });
+
+    it('flags type aliases declared inside functions', () => {
+        const parser = parse(`
+            sub main()
+                type Id = string
+            end sub
+        `);
+        expect(parser.diagnostics[0]?.message).to.eql(
+            DiagnosticMessages.keywordMustBeDeclaredAtNamespaceLevel('type').message
+        );
+    });
+
+    it('flags unknown types', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            type Id = string | Nope
+            function getId(id as Id | Missing) as Id
+                return id
+            end function
+        `);
+        program.validate();
+        expect(program.getDiagnostics().map(x => x.message)).to.eql([
+            DiagnosticMessages.functionParameterTypeIsInvalid('id', 'Missing').message,
+            DiagnosticMessages.cannotFindType('Nope').message
+        ]);
+    });
+
+    it('validates return values against union types and type aliases', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            type MaybeName = string | invalid
+            function getName() as MaybeName
+                return "bob"
+            end function
+            function getOtherName() as string | invalid
+                return invalid
+            end function
+            function getCount() as MaybeName
+                return 1
+            end function
+        `);
+        program.validate();
+        expect(program.getDiagnostics().map(x => x.message)).to.eql([
+            DiagnosticMessages.returnTypeMismatch('integer', 'MaybeName').message
+        ]);
+    });
+
+    it('validates arguments against union types and type aliases', () => {
+        program.addOrReplaceFile('source/main.bs', `
+            type Id = integer | string
+            sub main()
+                setId(1)
+                setId("abc")
+                setId(true)
+            end sub
+            sub setId(id as Id)
+                print id
+            end sub
+        `);
+        program.validate();
+        expect(program.getDiagnostics().map(x => x.message)).to.eql([
+            DiagnosticMessages.argumentTypeMismatch('boolean', 'Id').message
+        ]);
+    });
+
+    it('resolves type aliases from other files', () => {
+        program.addOrReplaceFile('source/types.bs', `
+            namespace Api
+                type Id = integer | string
+            end namespace
+        `);
+        program.addOrReplaceFile('source/main.bs', `
+            namespace Api
+                function getId() as Id
+                    return "abc"
+                end function
+            end namespace
+            function getOtherId() as Api.Id
+                return 1
+            end function
+        `);
+        program.validate();
+        expectZeroDiagnostics(program);
+    });
+
+    it('transpiles union types and type aliases to dynamic', () => {
+        testTranspile(`
+            type MaybeName = string | invalid
+            function getName(name as MaybeName, fallback as string | invalid) as string | invalid
+                print fallback
+                return name
+            end function
+            function getCount() as integer | float
+                return 1
+            end function
+        `, `
+            function getName(name as dynamic, fallback as dynamic) as dynamic
+                print fallback
+                return name
+            end function
+
+            function getCount() as dynamic
+                return 1
+            end function
+        `, undefined, 'source/main.bs');
+    });
+
+    it('keeps union types and type aliases in the typedef', () => {
+        testGetTypedef(`
+            type MaybeName = string | invalid
+            namespace Api
+                type Id = integer | string
+                function getId(id as Id) as Id
+                    return id
+                end function
+            end namespace
+            function getName() as MaybeName | object
+                return invalid
+            end function
+        `, `
+            type MaybeName = string | invalid
+            namespace Api
+                type Id = integer | string
+                function getId(id as Id) as Id
+                end function
+            end namespace
+            function getName() as MaybeName | object
+            end function
+        `);
+    });
+
+    it('shows type aliases in hovers', () => {
+        const file = program.addOrReplaceFile<BrsFile>('source/main.bs', `
+            type MaybeName = string | invalid
+            function getName() as MaybeName
+                return invalid
+            end function
+        `);
+        program.validate();
+        //function getName() as May|beName
+        expect(
+            file.getHover(util.createPosition(2, 37)).contents
+        ).to.eql('type MaybeName = string | invalid');
+    });
+});
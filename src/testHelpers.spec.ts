@@ -1,6 +1,7 @@
 import type { BscFile, BsDiagnostic } from './interfaces';
 import * as assert from 'assert';
 import type { Diagnostic } from 'vscode-languageserver';
+import { DiagnosticSeverity } from 'vscode-languageserver';
 import { createSandbox } from 'sinon';
 import { expect } from 'chai';
 import type { CodeActionShorthand } from './CodeActionUtil';
@@ -59,8 +60,16 @@ export function trim(strings: TemplateStringsArray, ...args) {
     return trimLeading(text);
 }
 
+/**
+ * Remove hints (i.e. unused variables) from a list of diagnostics, so tests don't need to read every variable they declare
+ */
+export function withoutHints<T extends Diagnostic>(diagnostics: T[]) {
+    return diagnostics.filter(x => x.severity !== DiagnosticSeverity.Hint);
+}
+
 /**
  * Test that the given object has zero diagnostics. If diagnostics are found, they are printed to the console in a pretty fashion.
+ * Hints are ignored
  */
 export function expectZeroDiagnostics(arg: { getDiagnostics(): Array<Diagnostic> } | { diagnostics: Diagnostic[] } | Diagnostic[]) {
     let diagnostics: BsDiagnostic[];
@@ -73,6 +82,7 @@ export function expectZeroDiagnostics(arg: { getDiagnostics(): Array<Diagnostic>
     } else {
         throw new Error('Cannot derive a list of diagnostics from ' + JSON.stringify(arg));
     }
+    diagnostics = withoutHints(diagnostics);
     if (diagnostics.length > 0) {
         let message = `Expected 0 diagnostics, but instead found ${diagnostics.length}:`;
         for (const diagnostic of diagnostics) {
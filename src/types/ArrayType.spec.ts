@@ -4,6 +4,8 @@ import { ArrayType } from './ArrayType';
 import { DynamicType } from './DynamicType';
 import { BooleanType } from './BooleanType';
 import { StringType } from './StringType';
+import { IntegerType } from './IntegerType';
+import { ObjectType } from './ObjectType';
 
 describe('ArrayType', () => {
     it('is equivalent to array types', () => {
@@ -16,6 +18,16 @@ describe('ArrayType', () => {
         expect(new ArrayType(new BooleanType()).isAssignableTo(new ArrayType(new StringType()))).to.be.false;
     });
 
+    it('is assignable to untyped arrays and objects', () => {
+        expect(new ArrayType(new IntegerType()).isAssignableTo(new ArrayType())).to.be.true;
+        expect(new ArrayType(new IntegerType()).isAssignableTo(new ObjectType())).to.be.true;
+    });
+
+    it('is assignable to arrays that contain all of its inner types', () => {
+        expect(new ArrayType(new BooleanType(), new StringType()).isAssignableTo(new ArrayType(new StringType(), new BooleanType()))).to.be.true;
+        expect(new ArrayType(new BooleanType(), new StringType()).isAssignableTo(new ArrayType(new BooleanType()))).to.be.false;
+    });
+
     it('is not equivalent to other types', () => {
         expect(new ArrayType().isAssignableTo(new BooleanType())).to.be.false;
     });
@@ -29,5 +41,10 @@ describe('ArrayType', () => {
         it('prints inner types', () => {
             expect(new ArrayType(new BooleanType(), new StringType()).toString()).to.eql('Array<boolean | string>');
         });
+
+        it('uses array syntax for a single inner type', () => {
+            expect(new ArrayType(new IntegerType()).toString()).to.eql('integer[]');
+            expect(new ArrayType().toString()).to.eql('dynamic[]');
+        });
     });
 });
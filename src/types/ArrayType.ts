@@ -1,5 +1,6 @@
 import type { BscType } from './BscType';
 import { DynamicType } from './DynamicType';
+import { ObjectType } from './ObjectType';
 
 export class ArrayType implements BscType {
     constructor(...innerTypes: BscType[]) {
@@ -8,29 +9,20 @@ export class ArrayType implements BscType {
     public innerTypes: BscType[] = [];
 
     public isAssignableTo(targetType: BscType) {
-        if (targetType instanceof DynamicType) {
+        //arrays are objects
+        if (targetType instanceof DynamicType || targetType instanceof ObjectType) {
             return true;
         } else if (!(targetType instanceof ArrayType)) {
             return false;
         }
-        //this array type is assignable to the target IF
-        //1. all of the types in this array are present in the target
-        outer: for (let innerType of this.innerTypes) {
-            //find this inner type in the target
-
-            // eslint-disable-next-line no-unreachable-loop
-            for (let targetInnerType of targetType.innerTypes) {
-                //TODO is this loop correct? It ends after 1 iteration but we might need to do more iterations
-
-                if (innerType.isAssignableTo(targetInnerType)) {
-                    continue outer;
-                }
-
-                //our array contains a type that the target array does not...so these arrays are different
-                return false;
-            }
+        //arrays without an element type can hold anything
+        if (targetType.innerTypes.length === 0) {
+            return true;
         }
-        return true;
+        //this array type is assignable to the target if every type in this array is assignable to a type in the target
+        return this.innerTypes.every(innerType => {
+            return targetType.innerTypes.some(targetInnerType => innerType.isAssignableTo(targetInnerType));
+        });
     }
 
     public isConvertibleTo(targetType: BscType) {
@@ -38,6 +30,12 @@ export class ArrayType implements BscType {
     }
 
     public toString() {
+        //arrays with a single element type are written the same way as their type annotation (i.e. `integer[]`)
+        if (this.innerTypes.length === 1) {
+            return `${this.innerTypes[0].toString()}[]`;
+        } else if (this.innerTypes.length === 0) {
+            return 'dynamic[]';
+        }
         return `Array<${this.innerTypes.map((x) => x.toString()).join(' | ')}>`;
     }
 
@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+
+import { BrsComponentType } from './BrsComponentType';
+import { DynamicType } from './DynamicType';
+import { ObjectType } from './ObjectType';
+import { StringType } from './StringType';
+
+describe('BrsComponentType', () => {
+    it('is assignable to the same component, object and dynamic', () => {
+        expect(new BrsComponentType('roDateTime').isAssignableTo(new BrsComponentType('roDateTime'))).to.be.true;
+        expect(new BrsComponentType('roDateTime').isAssignableTo(new BrsComponentType('rodatetime'))).to.be.true;
+        expect(new BrsComponentType('roDateTime').isAssignableTo(new ObjectType())).to.be.true;
+        expect(new BrsComponentType('roDateTime').isAssignableTo(new DynamicType())).to.be.true;
+    });
+
+    it('is not assignable to other components or primitives', () => {
+        expect(new BrsComponentType('roDateTime').isAssignableTo(new BrsComponentType('roTimespan'))).to.be.false;
+        expect(new BrsComponentType('roString').isAssignableTo(new StringType())).to.be.false;
+    });
+
+    it('uses the component name in its string', () => {
+        expect(new BrsComponentType('roDateTime').toString()).to.eql('roDateTime');
+        expect(new BrsComponentType('roDateTime').toTypeString()).to.eql('object');
+    });
+});
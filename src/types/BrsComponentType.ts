@@ -0,0 +1,36 @@
+import { isBrsComponentType, isDynamicType, isObjectType } from '../astUtils/reflection';
+import type { BscType } from './BscType';
+
+/**
+ * A built-in BrightScript component (i.e. the result of `CreateObject("roDateTime")`)
+ */
+export class BrsComponentType implements BscType {
+
+    constructor(
+        /**
+         * The name of the component (i.e. `roDateTime`)
+         */
+        public name: string
+    ) {
+    }
+
+    public toString() {
+        return this.name;
+    }
+
+    public toTypeString(): string {
+        return 'object';
+    }
+
+    public isAssignableTo(targetType: BscType) {
+        return (
+            (isBrsComponentType(targetType) && targetType.name.toLowerCase() === this.name.toLowerCase()) ||
+            isObjectType(targetType) ||
+            isDynamicType(targetType)
+        );
+    }
+
+    public isConvertibleTo(targetType: BscType) {
+        return this.isAssignableTo(targetType);
+    }
+}
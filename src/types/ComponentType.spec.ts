@@ -0,0 +1,24 @@
+import { expect } from 'chai';
+
+import { ComponentType } from './ComponentType';
+import { DynamicType } from './DynamicType';
+import { ObjectType } from './ObjectType';
+import { StringType } from './StringType';
+
+describe('ComponentType', () => {
+    it('is assignable to nodes, object and dynamic', () => {
+        expect(new ComponentType('TitleLabel').isAssignableTo(new ComponentType('TitleLabel'))).to.be.true;
+        expect(new ComponentType('TitleLabel').isAssignableTo(new ComponentType('Group'))).to.be.true;
+        expect(new ComponentType('TitleLabel').isAssignableTo(new ObjectType())).to.be.true;
+        expect(new ComponentType('TitleLabel').isAssignableTo(new DynamicType())).to.be.true;
+    });
+
+    it('is not assignable to primitives', () => {
+        expect(new ComponentType('TitleLabel').isAssignableTo(new StringType())).to.be.false;
+    });
+
+    it('uses the component name in its string', () => {
+        expect(new ComponentType('TitleLabel').toString()).to.eql('TitleLabel');
+        expect(new ComponentType('TitleLabel').toTypeString()).to.eql('object');
+    });
+});
@@ -0,0 +1,33 @@
+import { isComponentType, isDynamicType, isObjectType } from '../astUtils/reflection';
+import type { BscType } from './BscType';
+
+/**
+ * A SceneGraph node created from a known component (i.e. `CreateObject("roSGNode", "TitleLabel")` or `m.top`)
+ */
+export class ComponentType implements BscType {
+
+    constructor(
+        /**
+         * The name of the component
+         */
+        public name: string
+    ) {
+    }
+
+    public toString() {
+        return this.name;
+    }
+
+    public toTypeString(): string {
+        return 'object';
+    }
+
+    public isAssignableTo(targetType: BscType) {
+        //component inheritance is not known here, so every node is assignable to any other node
+        return isComponentType(targetType) || isObjectType(targetType) || isDynamicType(targetType);
+    }
+
+    public isConvertibleTo(targetType: BscType) {
+        return this.isAssignableTo(targetType);
+    }
+}
@@ -3,10 +3,19 @@ import type { BscType } from './BscType';
 
 export class CustomType implements BscType {
 
-    constructor(public name: string) {
+    constructor(
+        public name: string,
+        /**
+         * The types provided for the generic type parameters of the class (i.e. `string` in `List<string>`)
+         */
+        public typeArguments: BscType[] = []
+    ) {
     }
 
     public toString() {
+        if (this.typeArguments.length > 0) {
+            return `${this.name}<${this.typeArguments.map(x => x.toString()).join(', ')}>`;
+        }
         return this.name;
     }
 
@@ -0,0 +1,18 @@
+import { expect } from 'chai';
+
+import { DynamicType } from './DynamicType';
+import { GenericType } from './GenericType';
+import { StringType } from './StringType';
+
+describe('GenericType', () => {
+    it('is assignable to the same type parameter and to dynamic', () => {
+        expect(new GenericType('T').isAssignableTo(new GenericType('t'))).to.be.true;
+        expect(new GenericType('T').isAssignableTo(new DynamicType())).to.be.true;
+        expect(new GenericType('T').isAssignableTo(new GenericType('U'))).to.be.false;
+        expect(new GenericType('T').isAssignableTo(new StringType())).to.be.false;
+    });
+
+    it('is transpiled as dynamic', () => {
+        expect(new GenericType('T').toTypeString()).to.equal('dynamic');
+    });
+});
@@ -0,0 +1,34 @@
+import { isDynamicType, isGenericType } from '../astUtils/reflection';
+import type { BscType } from './BscType';
+
+/**
+ * A reference to a generic type parameter (i.e. the `T` in `class List<T>`). The actual type is only known
+ * where the type arguments are provided (i.e. `List<string>`), so this is transpiled as `dynamic`
+ */
+export class GenericType implements BscType {
+
+    constructor(public name: string) {
+    }
+
+    public isAssignableTo(targetType: BscType) {
+        if (isGenericType(targetType) && targetType.name.toLowerCase() === this.name.toLowerCase()) {
+            return true;
+        } else if (isDynamicType(targetType)) {
+            return true;
+        } else {
+            return false;
+        }
+    }
+
+    public isConvertibleTo(targetType: BscType) {
+        return this.isAssignableTo(targetType);
+    }
+
+    public toString() {
+        return this.name;
+    }
+
+    public toTypeString(): string {
+        return 'dynamic';
+    }
+}
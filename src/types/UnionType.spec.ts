@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+
+import { CustomType } from './CustomType';
+import { DynamicType } from './DynamicType';
+import { IntegerType } from './IntegerType';
+import { InvalidType } from './InvalidType';
+import { StringType } from './StringType';
+import { UnionType } from './UnionType';
+
+describe('UnionType', () => {
+    it('is assignable when every type in the union is assignable', () => {
+        expect(new UnionType([new StringType(), new InvalidType()]).isAssignableTo(new DynamicType())).to.be.true;
+        expect(new UnionType([new StringType(), new StringType()]).isAssignableTo(new StringType())).to.be.true;
+        expect(new UnionType([new StringType(), new InvalidType()]).isAssignableTo(new StringType())).to.be.false;
+    });
+
+    it('is assignable to a union that contains each of its types', () => {
+        expect(
+            new UnionType([new StringType(), new InvalidType()]).isAssignableTo(new UnionType([new InvalidType(), new IntegerType(), new StringType()]))
+        ).to.be.true;
+        expect(
+            new UnionType([new StringType(), new CustomType('Person')]).isAssignableTo(new UnionType([new StringType(), new InvalidType()]))
+        ).to.be.false;
+    });
+
+    it('shows every type in the union', () => {
+        expect(new UnionType([new StringType(), new InvalidType()]).toString()).to.equal('string | invalid');
+    });
+
+    it('is transpiled as dynamic unless every type is transpiled the same way', () => {
+        expect(new UnionType([new StringType(), new InvalidType()]).toTypeString()).to.equal('dynamic');
+        expect(new UnionType([new CustomType('Person'), new CustomType('Pet')]).toTypeString()).to.equal('object');
+    });
+});
@@ -0,0 +1,38 @@
+import { isUnionType } from '../astUtils/reflection';
+import type { BscType } from './BscType';
+
+/**
+ * A value that can be any one of several types (i.e. `string | invalid`)
+ */
+export class UnionType implements BscType {
+
+    constructor(
+        public types: BscType[]
+    ) {
+    }
+
+    /**
+     * Every type in the union must be assignable to the target type (or to one of the types of a target union)
+     */
+    public isAssignableTo(targetType: BscType): boolean {
+        const targetTypes = isUnionType(targetType) ? targetType.types : [targetType];
+        return this.types.every(type => targetTypes.some(x => type.isAssignableTo(x)));
+    }
+
+    public isConvertibleTo(targetType: BscType): boolean {
+        const targetTypes = isUnionType(targetType) ? targetType.types : [targetType];
+        return this.types.every(type => targetTypes.some(x => type.isAssignableTo(x) || type.isConvertibleTo(x)));
+    }
+
+    public toString() {
+        return this.types.map(x => x.toString()).join(' | ');
+    }
+
+    /**
+     * BrightScript has no union types, so unions are `dynamic` unless every type in the union is transpiled the same way
+     */
+    public toTypeString(): string {
+        const typeStrings = new Set(this.types.map(x => x.toTypeString()));
+        return typeStrings.size === 1 ? [...typeStrings][0] : 'dynamic';
+    }
+}
@@ -22,12 +22,16 @@ import { ObjectType } from './types/ObjectType';
 import { StringType } from './types/StringType';
 import { VoidType } from './types/VoidType';
 import { ParseMode } from './parser/Parser';
-import type { DottedGetExpression, Expression, VariableExpression } from './parser/Expression';
+import type { AALiteralExpression, ArrayLiteralExpression, ChainLinkExpression, DottedGetExpression, Expression, VariableExpression } from './parser/Expression';
 import { Logger, LogLevel } from './Logger';
-import type { Locatable, Token } from './lexer';
-import { TokenKind } from './lexer';
-import { isDottedGetExpression, isExpression, isVariableExpression, WalkMode } from './astUtils';
+import type { Identifier, Locatable, Token } from './lexer';
+import { DisallowedFunctionIdentifiersText, DisallowedLocalIdentifiersText, ReservedWords, TokenKind } from './lexer';
+import { isArrayLiteralExpression, isArrayType, isCallExpression, isCommentStatement, isCallfuncExpression, isCustomType, isDottedGetExpression, isExpression, isFunctionType, isGenericType, isIndexedGetExpression, isInterfaceType, isInvalidType, isLiteralExpression, isObjectType, isUnionType, isVariableExpression, WalkMode } from './astUtils';
 import { CustomType } from './types/CustomType';
+import { UnionType } from './types/UnionType';
+import { ArrayType } from './types/ArrayType';
+import { InterfaceType } from './types/InterfaceType';
+import type { BscType } from './types/BscType';
 import { SourceNode } from 'source-map';
 import type { SGAttribute } from './parser/SGTypes';
 
@@ -291,6 +295,7 @@ export class Util {
         config.sourceMap = config.sourceMap === true;
         config.username = config.username ?? 'rokudev';
         config.watch = config.watch === true ? true : false;
+        config.format = config.format === true ? true : false;
         config.emitFullPaths = config.emitFullPaths === true ? true : false;
         config.retainStagingFolder = config.retainStagingFolder === true ? true : false;
         config.copyToStaging = config.copyToStaging === false ? false : true;
@@ -302,6 +307,7 @@ export class Util {
         config.sourceRoot = config.sourceRoot ? standardizePath(config.sourceRoot) : undefined;
         config.cwd = config.cwd ?? process.cwd();
         config.emitDefinitions = config.emitDefinitions === true ? true : false;
+        config.removeUnreachableCode = config.removeUnreachableCode === true ? true : false;
         if (typeof config.logLevel === 'string') {
             config.logLevel = LogLevel[(config.logLevel as string).toLowerCase()];
         }
@@ -466,6 +472,70 @@ export class Util {
         }
     }
 
+    /**
+     * Get the name parts of a DottedGetExpression made up entirely of VariableExpression and DottedGetExpression links
+     * (i.e. `NameA.Direction.up` => [`NameA`, `Direction`, `up`]).
+     * Returns undefined if the expression contains any other types of expressions (calls, indexed gets, etc...)
+     */
+    public getAllDottedGetParts(expression: Expression): Identifier[] | undefined {
+        const parts = [] as Identifier[];
+        let left: any = expression;
+        while (left) {
+            if (isVariableExpression(left)) {
+                parts.unshift(left.name);
+                return parts;
+            } else if (isDottedGetExpression(left)) {
+                parts.unshift(left.name);
+                left = left.obj;
+            } else {
+                return undefined;
+            }
+        }
+    }
+
+    /**
+     * Get the links of a chain of member accesses and calls, ordered from innermost to outermost
+     * (i.e. `a.b[0].c()` => [`a.b`, `a.b[0]`, `a.b[0].c`, `a.b[0].c()`]).
+     * The expression at the head of the chain (`a`) is not included.
+     */
+    public getChainLinks(expression: Expression): ChainLinkExpression[] {
+        const links = [] as ChainLinkExpression[];
+        let link: Expression = expression;
+        while (true) {
+            if (isDottedGetExpression(link) || isIndexedGetExpression(link)) {
+                links.unshift(link);
+                link = link.obj;
+            } else if (isCallExpression(link) || isCallfuncExpression(link)) {
+                links.unshift(link);
+                link = link.callee;
+            } else {
+                return links;
+            }
+        }
+    }
+
+    /**
+     * Determine if any link in the chain of member accesses and calls for this expression uses optional chaining (`?.`, `?[`, `?(`)
+     */
+    public isOptionalChain(expression: Expression) {
+        return this.getChainLinks(expression).some(x => !isCallfuncExpression(x) && x.optional);
+    }
+
+    /**
+     * Get the string literal token of the callback function name of an `observeField` or `observeFieldScoped` call (i.e. `"onTitleChanged"` in `node.observeField("title", "onTitleChanged")`).
+     * Observers that use a message port instead of a callback function name return `undefined`
+     */
+    public getObserverCallbackToken(expression: Expression): Token | undefined {
+        if (!isCallExpression(expression) || !isDottedGetExpression(expression.callee)) {
+            return undefined;
+        }
+        const methodName = expression.callee.name.text.toLowerCase();
+        const callbackArg = expression.args[1];
+        if ((methodName === 'observefield' || methodName === 'observefieldscoped') && isLiteralExpression(callbackArg) && callbackArg.token.kind === TokenKind.StringLiteral) {
+            return callbackArg.token;
+        }
+    }
+
     /**
      * Does a touch b in any way?
      */
@@ -808,6 +878,18 @@ export class Util {
         }
     }
 
+    /**
+     * Determine if the text can be used as the name of a variable, function or class member (i.e. the new name when renaming a symbol).
+     * Reserved words like `end` are not allowed
+     */
+    public isValidIdentifier(name: string) {
+        const lowerName = name?.toLowerCase();
+        return /^[a-z_][a-z0-9_]*$/i.test(name ?? '') &&
+            !ReservedWords.has(lowerName) &&
+            !DisallowedLocalIdentifiersText.has(lowerName) &&
+            !DisallowedFunctionIdentifiersText.has(lowerName);
+    }
+
     public splitIntoLines(string: string) {
         return string.split(/\r?\n/g);
     }
@@ -933,6 +1015,19 @@ export class Util {
             case TokenKind.Void:
                 return new VoidType();
             case TokenKind.Identifier:
+                //union types include every type in the token text (i.e. `string | invalid`)
+                const unionTypeTexts = this.splitTypeText(token.text, '|');
+                if (unionTypeTexts.length > 1) {
+                    return new UnionType(unionTypeTexts.map(typeText => {
+                        return this.tokenToBscType({ ...token, text: typeText }, allowCustomType) ?? new DynamicType();
+                    }));
+                }
+                //typed arrays include the element type in the token text (i.e. `integer[]`)
+                if (token.text.endsWith('[]')) {
+                    return new ArrayType(
+                        this.tokenToBscType({ ...token, text: token.text.substring(0, token.text.length - 2) }, allowCustomType) ?? new DynamicType()
+                    );
+                }
                 switch (token.text.toLowerCase()) {
                     case 'boolean':
                         return new BooleanType();
@@ -954,13 +1049,111 @@ export class Util {
                         return new StringType();
                     case 'void':
                         return new VoidType();
+                    case 'dynamic':
+                        return new DynamicType();
                 }
                 if (allowCustomType) {
+                    //generic class types include their type arguments (i.e. `List<string>`)
+                    const genericMatch = /^([^<]+)<(.*)>$/.exec(token.text);
+                    if (genericMatch) {
+                        return new CustomType(
+                            genericMatch[1],
+                            this.splitTypeText(genericMatch[2], ',').map(typeArgument => {
+                                return this.tokenToBscType({ ...token, text: typeArgument }, true) ?? new DynamicType();
+                            })
+                        );
+                    }
                     return new CustomType(token.text);
                 }
         }
     }
 
+    /**
+     * Split type text on a separator that is not nested in type arguments
+     * (i.e. splitting `string, Map<string, integer>` on `,` gives [`string`, `Map<string, integer>`])
+     */
+    private splitTypeText(text: string, separator: string) {
+        const result = [] as string[];
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '<') {
+                depth++;
+            } else if (text[i] === '>') {
+                depth--;
+            } else if (text[i] === separator && depth === 0) {
+                result.push(text.substring(start, i).trim());
+                start = i + 1;
+            }
+        }
+        result.push(text.substring(start).trim());
+        return result;
+    }
+
+    /**
+     * Get the type of an array literal (i.e. `integer[]` for `[1, 2]`) or associative array literal,
+     * using `getValueType` to find the type of each of its values
+     */
+    public getCollectionLiteralType(expression: ArrayLiteralExpression | AALiteralExpression, getValueType: (value: Expression) => BscType): BscType {
+        if (isArrayLiteralExpression(expression)) {
+            const elementTypes = [] as BscType[];
+            for (const element of expression.elements) {
+                if (isExpression(element)) {
+                    const elementType = getValueType(element);
+                    if (!elementTypes.some(x => x.toString().toLowerCase() === elementType.toString().toLowerCase())) {
+                        elementTypes.push(elementType);
+                    }
+                }
+            }
+            return new ArrayType(...elementTypes);
+        }
+        const members = new Map<string, BscType>();
+        for (const element of expression.elements) {
+            if (!isCommentStatement(element)) {
+                //string keys are wrapped in quotes (i.e. `{ "name": "bob" }`)
+                members.set(element.keyToken.text.replace(/^"(.*)"$/, '$1'), getValueType(element.value));
+            }
+        }
+        return new InterfaceType(members);
+    }
+
+    /**
+     * Determine if a value of `sourceType` can be used where a value of `targetType` is expected (i.e. function arguments and return values).
+     * Missing types are always allowed, and numeric values are converted to the expected numeric type at runtime
+     */
+    public isTypeCompatible(sourceType: BscType, targetType: BscType) {
+        if (!sourceType || !targetType) {
+            return true;
+        }
+        //generic type parameters are erased at runtime, so their actual type is not known here
+        if (isGenericType(sourceType) || isGenericType(targetType)) {
+            return true;
+        }
+        //every type of a union must be compatible, and any type of a target union is accepted
+        if (isUnionType(sourceType)) {
+            return sourceType.types.every(x => this.isTypeCompatible(x, targetType));
+        } else if (isUnionType(targetType)) {
+            return targetType.types.some(x => this.isTypeCompatible(sourceType, x));
+        }
+        //every element type of an array must be compatible with an element type of the target array
+        if (isArrayType(sourceType) && isArrayType(targetType) && targetType.innerTypes.length > 0) {
+            return sourceType.innerTypes.every(x => targetType.innerTypes.some(y => this.isTypeCompatible(x, y)));
+        }
+        if (sourceType.isAssignableTo(targetType) || sourceType.isConvertibleTo(targetType)) {
+            return true;
+        }
+        //primitives are boxed when used as an `object`
+        if (isObjectType(targetType)) {
+            return true;
+        }
+        //the parameters of function values are not checked
+        if (isFunctionType(targetType)) {
+            return isFunctionType(sourceType);
+        }
+        //class inheritance and interface members are not known here, so any class instance, associative array (or `invalid`) is allowed in place of another
+        return isCustomType(targetType) && (isCustomType(sourceType) || isInterfaceType(sourceType) || isInvalidType(sourceType));
+    }
+
     /**
      * Get the extension for the given file path. Basically the part after the final dot, except for
      * `d.bs` which is treated as single extension
@@ -2,15 +2,19 @@ import type { Scope } from '../Scope';
 import { DiagnosticMessages } from '../DiagnosticMessages';
 import type { CallExpression } from '../parser/Expression';
 import { ParseMode } from '../parser/Parser';
-import type { ClassFieldStatement, ClassMethodStatement, ClassStatement } from '../parser/Statement';
+import type { ClassFieldStatement, ClassMemberStatement, ClassMethodStatement, ClassStatement, InterfaceFieldStatement, InterfaceMethodStatement, InterfaceStatement } from '../parser/Statement';
 import { CancellationTokenSource, Location } from 'vscode-languageserver';
 import { URI } from 'vscode-uri';
 import util from '../util';
-import { isCallExpression, isClassFieldStatement, isClassMethodStatement, isCustomType } from '../astUtils/reflection';
+import { isCallExpression, isClassFieldStatement, isClassMethodStatement, isDynamicType, isFunctionType, isInterfaceFieldStatement, isInterfaceMethodStatement, isVariableExpression } from '../astUtils/reflection';
 import type { BscFile, BsDiagnostic } from '../interfaces';
 import { createVisitor, WalkMode } from '../astUtils';
 import type { BrsFile } from '../files/BrsFile';
 import { TokenKind } from '../lexer';
+import type { BscType } from '../types/BscType';
+import { DynamicType } from '../types/DynamicType';
+import { FunctionType } from '../types/FunctionType';
+import { VoidType } from '../types/VoidType';
 
 export class BsClassValidator {
     private scope: Scope;
@@ -29,6 +33,10 @@ export class BsClassValidator {
         this.verifyChildConstructor();
         this.verifyNewExpressions();
         this.validateFieldTypes();
+        this.validateInterfaceImplementations();
+        this.validateAbstractMembers();
+        this.validateAbstractSuperCalls();
+        this.validateStaticMembers();
 
         this.cleanUp();
     }
@@ -61,7 +69,29 @@ export class BsClassValidator {
                     newExpression.namespaceName?.getName(ParseMode.BrighterScript)
                 );
 
-                if (!newableClass) {
+                if (newableClass?.abstractKeyword) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.cannotInstantiateAbstractClass(newableClass.getName(ParseMode.BrighterScript)),
+                        file: file,
+                        range: newExpression.className.range
+                    });
+
+                } else if (newableClass && newExpression.typeArguments.length > 0 && newExpression.typeArguments.length !== newableClass.typeParameters.length) {
+                    //type arguments can be omitted entirely, in which case the type parameters are `dynamic`
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.typeArgumentCountMismatch(
+                            newableClass.getName(ParseMode.BrighterScript),
+                            newableClass.typeParameters.length,
+                            newExpression.typeArguments.length
+                        ),
+                        file: file,
+                        range: util.createRangeFromPositions(
+                            newExpression.typeArguments[0].range.start,
+                            newExpression.typeArguments[newExpression.typeArguments.length - 1].range.end
+                        )
+                    });
+
+                } else if (!newableClass) {
                     //try and find functions with this name.
                     let fullName = util.getFullyQualifiedClassName(className, newExpression.namespaceName?.getName(ParseMode.BrighterScript));
                     let callable = this.scope.getCallableByName(fullName);
@@ -162,14 +192,43 @@ export class BsClassValidator {
             let classStatement = this.classes[key];
             let methods = {};
             let fields = {};
+            let staticMembers = {};
+            let accessors = {};
 
             for (let statement of classStatement.body) {
                 if (isClassMethodStatement(statement) || isClassFieldStatement(statement)) {
                     let member = statement;
                     let lowerMemberName = member.name.text.toLowerCase();
 
+                    //static members are never part of a class instance, so they only need to be unique amongst themselves
+                    if (member.staticKeyword) {
+                        if (staticMembers[lowerMemberName]) {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.duplicateIdentifier(member.name.text),
+                                file: classStatement.file,
+                                range: member.name.range
+                            });
+                        }
+                        staticMembers[lowerMemberName] = member;
+                        continue;
+                    }
+
+                    //a property can have both a getter and a setter, but they can't share a name with any other member
+                    if (isClassMethodStatement(member) && member.accessorKeyword) {
+                        const accessorKey = `${member.accessorKeyword.text.toLowerCase()} ${lowerMemberName}`;
+                        if (accessors[accessorKey] || methods[lowerMemberName] || fields[lowerMemberName]) {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.duplicateIdentifier(member.name.text),
+                                file: classStatement.file,
+                                range: member.name.range
+                            });
+                        }
+                        accessors[accessorKey] = member;
+                        continue;
+                    }
+
                     //catch duplicate member names on same class
-                    if (methods[lowerMemberName] || fields[lowerMemberName]) {
+                    if (methods[lowerMemberName] || fields[lowerMemberName] || accessors[`get ${lowerMemberName}`] || accessors[`set ${lowerMemberName}`]) {
                         this.diagnostics.push({
                             ...DiagnosticMessages.duplicateIdentifier(member.name.text),
                             file: classStatement.file,
@@ -222,7 +281,9 @@ export class BsClassValidator {
                             //does not have an override keyword
                             !member.override &&
                             //is not the constructur function
-                            member.name.text.toLowerCase() !== 'new'
+                            member.name.text.toLowerCase() !== 'new' &&
+                            //is not the implementation of a method that is only abstract in the ancestors
+                            classStatement.hasAncestorImplementation(this.getAncestors(classStatement), member)
                         ) {
                             this.diagnostics.push({
                                 ...DiagnosticMessages.missingOverrideKeyword(
@@ -273,28 +334,272 @@ export class BsClassValidator {
             let classStatement = this.classes[key];
             for (let statement of classStatement.body) {
                 if (isClassFieldStatement(statement)) {
-                    let fieldType = statement.getType();
-
-                    if (isCustomType(fieldType)) {
-                        const fieldTypeName = fieldType.name;
-                        const lowerFieldTypeName = fieldTypeName?.toLowerCase();
-                        if (lowerFieldTypeName) {
-                            const currentNamespaceName = classStatement.namespaceName?.getName(ParseMode.BrighterScript);
-                            //check if this custom type is in our class map
-                            if (!this.getClassByName(lowerFieldTypeName, currentNamespaceName)) {
-                                this.diagnostics.push({
-                                    ...DiagnosticMessages.cannotFindType(fieldTypeName),
-                                    range: statement.type.range,
-                                    file: classStatement.file
-                                });
-                            }
+                    const currentNamespaceName = classStatement.namespaceName?.getName(ParseMode.BrighterScript);
+                    //check if the custom types are classes or type aliases
+                    const fieldTypeName = this.scope.getUnknownTypeName(statement.getType(), currentNamespaceName);
+                    if (fieldTypeName) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.cannotFindType(fieldTypeName),
+                            range: statement.type.range,
+                            file: classStatement.file
+                        });
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Abstract methods may only be declared in abstract classes, and every non-abstract class
+     * must implement all of the abstract methods of its ancestors
+     */
+    private validateAbstractMembers() {
+        for (let key in this.classes) {
+            let classStatement = this.classes[key];
+            if (classStatement.abstractKeyword) {
+                continue;
+            }
+            for (const method of classStatement.methods) {
+                if (method.abstract) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.abstractMethodInNonAbstractClass(method.name.text, classStatement.getName(ParseMode.BrighterScript)),
+                        file: classStatement.file,
+                        range: method.range
+                    });
+                }
+            }
+
+            //walk up the inheritance chain. Methods from closer classes implement abstract methods from classes further up the chain
+            const implementedMethodNames = new Set(
+                classStatement.methods.map(x => x.name.text.toLowerCase())
+            );
+            let ancestor = classStatement.parentClass;
+            while (ancestor) {
+                for (const method of ancestor.methods) {
+                    const lowerMethodName = method.name.text.toLowerCase();
+                    if (method.abstract && !implementedMethodNames.has(lowerMethodName)) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.classMissingAbstractMemberImplementation(
+                                classStatement.getName(ParseMode.BrighterScript),
+                                method.name.text,
+                                ancestor.getName(ParseMode.BrighterScript)
+                            ),
+                            file: classStatement.file,
+                            range: classStatement.name.range
+                        });
+                    }
+                    //only flag each method once
+                    implementedMethodNames.add(lowerMethodName);
+                }
+                ancestor = ancestor.parentClass;
+            }
+        }
+    }
+
+    /**
+     * Find `super.<name>()` calls to methods that are abstract in the ancestors. Abstract methods only exist at compile time,
+     * so there is no parent method to call at runtime
+     */
+    private validateAbstractSuperCalls() {
+        for (let key in this.classes) {
+            let classStatement = this.classes[key];
+            for (const method of classStatement.methods) {
+                method.func.body?.walk(createVisitor({
+                    DottedGetExpression: (expression) => {
+                        if (!isVariableExpression(expression.obj) || expression.obj.name.text.toLowerCase() !== 'super') {
+                            return;
+                        }
+                        const ancestorAndMember = this.getAncestorMember(classStatement, expression.name.text);
+                        if (isClassMethodStatement(ancestorAndMember?.member) && ancestorAndMember.member.abstract) {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.cannotCallAbstractSuperMethod(
+                                    expression.name.text,
+                                    ancestorAndMember.classStatement.getName(ParseMode.BrighterScript)
+                                ),
+                                file: classStatement.file,
+                                range: expression.range
+                            });
                         }
                     }
+                }), {
+                    walkMode: WalkMode.visitExpressionsRecursive
+                });
+            }
+        }
+    }
+
+    /**
+     * Verify that every class has all of the members of the interfaces it implements (including the members of parent interfaces),
+     * either directly or through one of its ancestor classes
+     */
+    private validateInterfaceImplementations() {
+        for (let key in this.classes) {
+            let classStatement = this.classes[key];
+            const namespaceName = classStatement.namespaceName?.getName(ParseMode.BrighterScript);
+            for (const interfaceNameExpression of classStatement.implementedInterfaceNames) {
+                const interfaceName = interfaceNameExpression.getName(ParseMode.BrighterScript);
+                const interfaceStatement = this.scope.getInterface(interfaceName, namespaceName);
+                if (!interfaceStatement) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.interfaceCouldNotBeFound(interfaceName, this.scope.name),
+                        file: classStatement.file,
+                        range: interfaceNameExpression.range
+                    });
+                    continue;
+                }
+                for (const interfaceMember of this.getInterfaceMembers(interfaceStatement)) {
+                    this.validateInterfaceMember(classStatement, interfaceStatement, interfaceMember);
                 }
             }
         }
     }
 
+    private validateInterfaceMember(classStatement: AugmentedClassStatement, interfaceStatement: InterfaceStatement, interfaceMember: InterfaceFieldStatement | InterfaceMethodStatement) {
+        const memberName = interfaceMember.tokens.name.text;
+        const lowerMemberName = memberName.toLowerCase();
+        const className = classStatement.getName(ParseMode.BrighterScript);
+        const interfaceName = interfaceStatement.fullName;
+
+        const ownMember = classStatement.memberMap[lowerMemberName];
+        const member = ownMember ?? this.getAncestorMember(classStatement, lowerMemberName)?.member;
+        if (!member) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.classMissingInterfaceMember(className, interfaceName, memberName),
+                file: classStatement.file,
+                range: classStatement.name.range
+            });
+            return;
+        }
+        //inherited members are flagged on the class name, since that's where the interface is implemented
+        const range = ownMember ? ownMember.range : classStatement.name.range;
+
+        if (isInterfaceMethodStatement(interfaceMember) && isClassMethodStatement(member)) {
+            const parameterCount = interfaceMember.params.length;
+            const requiredParameterCount = member.func.parameters.filter(x => !x.defaultValue).length;
+            if (parameterCount < requiredParameterCount || parameterCount > member.func.parameters.length) {
+                this.diagnostics.push({
+                    ...DiagnosticMessages.classMethodParameterCountMismatchWithInterface(className, interfaceName, memberName, parameterCount),
+                    file: classStatement.file,
+                    range: range
+                });
+                return;
+            }
+        }
+
+        const memberType = this.getMemberType(member);
+        const interfaceMemberType = this.getMemberType(interfaceMember);
+        if (!this.isMemberTypeCompatible(member, memberType, interfaceMember, interfaceMemberType)) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.classMemberNotCompatibleWithInterface(className, interfaceName, memberName, memberType.toString(), interfaceMemberType.toString()),
+                file: classStatement.file,
+                range: range
+            });
+        }
+    }
+
+    /**
+     * Determine if a class member can be used wherever the interface member is expected
+     */
+    private isMemberTypeCompatible(member: ClassMemberStatement, memberType: BscType, interfaceMember: InterfaceFieldStatement | InterfaceMethodStatement, interfaceMemberType: BscType) {
+        if (isInterfaceFieldStatement(interfaceMember)) {
+            return util.isTypeCompatible(memberType, interfaceMemberType);
+        }
+        //a field can hold any function
+        if (isClassFieldStatement(member)) {
+            return isFunctionType(memberType) || isDynamicType(memberType);
+        }
+        const methodType = memberType as FunctionType;
+        const interfaceMethodType = interfaceMemberType as FunctionType;
+        //every argument passed through the interface must be accepted by the class method
+        for (let i = 0; i < interfaceMethodType.params.length; i++) {
+            if (!util.isTypeCompatible(interfaceMethodType.params[i].type, methodType.params[i]?.type)) {
+                return false;
+            }
+        }
+        return util.isTypeCompatible(methodType.returnType, interfaceMethodType.returnType);
+    }
+
+    /**
+     * Get the type of a class or interface member. Methods are represented by a `FunctionType`
+     */
+    private getMemberType(member: ClassMemberStatement | InterfaceFieldStatement | InterfaceMethodStatement): BscType {
+        if (isClassFieldStatement(member)) {
+            return member.getType();
+        } else if (isInterfaceFieldStatement(member)) {
+            return member.type ?? new DynamicType();
+        }
+        let functionType: FunctionType;
+        if (isClassMethodStatement(member)) {
+            functionType = new FunctionType(member.func.returnType ?? new DynamicType()).setName(member.name.text);
+            functionType.isSub = member.func.functionType?.text.toLowerCase() === 'sub';
+            for (const param of member.func.parameters) {
+                functionType.addParameter(param.name.text, param.type, !param.defaultValue);
+            }
+        } else {
+            functionType = new FunctionType(member.returnType ?? new DynamicType()).setName(member.tokens.name.text);
+            functionType.isSub = member.tokens.functionType?.text.toLowerCase() === 'sub';
+            for (const param of member.params) {
+                functionType.addParameter(param.name.text, param.type, !param.defaultValue);
+            }
+        }
+        //subs without a return type never return a value
+        if (functionType.isSub && isDynamicType(functionType.returnType)) {
+            functionType.returnType = new VoidType();
+        }
+        return functionType;
+    }
+
+    /**
+     * Static members are not called on a class instance, so they cannot use `m`
+     */
+    private validateStaticMembers() {
+        for (let key in this.classes) {
+            let classStatement = this.classes[key];
+            for (const member of [...classStatement.staticFields, ...classStatement.staticMethods]) {
+                //nested functions are not walked, since they have their own `m`
+                const node = isClassMethodStatement(member) ? member.func.body : member;
+                node.walk(createVisitor({
+                    VariableExpression: (expression) => {
+                        if (expression.name.text.toLowerCase() === 'm') {
+                            this.diagnostics.push({
+                                ...DiagnosticMessages.cannotUseMInStaticMember(member.name.text),
+                                file: classStatement.file,
+                                range: expression.range
+                            });
+                        }
+                    }
+                }), {
+                    walkMode: WalkMode.visitAll
+                });
+            }
+        }
+    }
+
+    /**
+     * Get the fields and methods of an interface and all of its parent interfaces.
+     * Members of child interfaces take precedence over members with the same name in parent interfaces
+     */
+    private getInterfaceMembers(interfaceStatement: InterfaceStatement) {
+        const members = new Map<string, InterfaceFieldStatement | InterfaceMethodStatement>();
+        //guard against circular interface inheritance
+        const visited = new Set<InterfaceStatement>();
+        let current = interfaceStatement;
+        while (current && !visited.has(current)) {
+            visited.add(current);
+            for (const statement of current.body) {
+                if (isInterfaceFieldStatement(statement) || isInterfaceMethodStatement(statement)) {
+                    const lowerName = statement.tokens.name.text.toLowerCase();
+                    if (!members.has(lowerName)) {
+                        members.set(lowerName, statement);
+                    }
+                }
+            }
+            const parentInterfaceName = current.parentInterfaceName?.getName(ParseMode.BrighterScript);
+            current = parentInterfaceName ? this.scope.getInterface(parentInterfaceName, current.namespaceName?.getName(ParseMode.BrighterScript)) : undefined;
+        }
+        return [...members.values()];
+    }
+
     /**
      * Get the closest member with the specified name (case-insensitive)
      */
@@ -313,6 +618,19 @@ export class BsClassValidator {
         }
     }
 
+    /**
+     * Get the ancestors of a class, starting with its parent class
+     */
+    private getAncestors(classStatement: AugmentedClassStatement) {
+        const ancestors = [] as AugmentedClassStatement[];
+        let ancestor = classStatement.parentClass;
+        while (ancestor) {
+            ancestors.push(ancestor);
+            ancestor = ancestor.parentClass;
+        }
+        return ancestors;
+    }
+
     private cleanUp() {
         //unlink all classes from their parents so it doesn't mess up the next scope
         for (let key in this.classes) {
@@ -0,0 +1,151 @@
+import type { Scope } from '../Scope';
+import { DiagnosticMessages } from '../DiagnosticMessages';
+import type { FunctionExpression } from '../parser/Expression';
+import type { Block, Statement, WhileStatement } from '../parser/Statement';
+import { ParseMode } from '../parser/Parser';
+import { isClassMethodStatement, isDynamicType, isEndStatement, isIfStatement, isLiteralExpression, isReturnStatement, isThrowStatement, isTryCatchStatement, isVoidType, isWhileStatement } from '../astUtils/reflection';
+import type { BsDiagnostic } from '../interfaces';
+import { createVisitor, WalkMode } from '../astUtils';
+import type { BrsFile } from '../files/BrsFile';
+import util from '../util';
+import { TokenKind } from '../lexer';
+
+/**
+ * Validates the `return` statements of every function with an explicit return type (i.e. `function getCount() as integer`)
+ */
+export class BsReturnValidator {
+    private scope: Scope;
+    public diagnostics: BsDiagnostic[];
+
+    public validate(scope: Scope) {
+        this.scope = scope;
+        this.diagnostics = [];
+
+        this.scope.enumerateBrsFiles((file) => {
+            //typedef files only contain function signatures
+            if (file.isTypedef) {
+                return;
+            }
+            for (const func of file.parser.references.functionExpressions) {
+                if (func.returnTypeToken) {
+                    this.validateFunction(file, func);
+                }
+            }
+        });
+
+        this.scope = undefined;
+    }
+
+    private validateFunction(file: BrsFile, func: FunctionExpression) {
+        //abstract methods have no body
+        if (isClassMethodStatement(func.functionStatement) && func.functionStatement.abstract) {
+            return;
+        }
+        //unterminated functions (i.e. while the user is still typing) have no body
+        if (!func.body) {
+            return;
+        }
+        const namespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
+        const returnTypeString = func.returnType.toString();
+        //unknown return types are already flagged by the scope
+        if (this.scope.getUnknownTypeName(func.returnType, namespaceName)) {
+            return;
+        }
+        //type aliases are compared by the type they represent
+        const returnType = this.scope.resolveTypeAliases(func.returnType, namespaceName);
+        //anything (including nothing) can be returned from a dynamic function
+        if (isDynamicType(returnType)) {
+            return;
+        }
+
+        //nested functions are not walked, so these are only the return statements of this function
+        func.body.walk(createVisitor({
+            ReturnStatement: (statement) => {
+                if (!statement.value) {
+                    if (!isVoidType(returnType)) {
+                        this.diagnostics.push({
+                            ...DiagnosticMessages.missingReturnValue(returnTypeString),
+                            range: statement.range,
+                            file: file
+                        });
+                    }
+                    return;
+                }
+                const valueType = this.scope.getExpressionType(file, statement.value);
+                if (isVoidType(returnType) || !util.isTypeCompatible(valueType, returnType)) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.returnTypeMismatch(valueType.toString(), returnTypeString),
+                        range: statement.value.range,
+                        file: file
+                    });
+                }
+            }
+        }), {
+            walkMode: WalkMode.visitStatements
+        });
+
+        if (!isVoidType(returnType) && !this.blockAlwaysReturns(func.body)) {
+            this.diagnostics.push({
+                ...DiagnosticMessages.notAllCodePathsReturnValue(returnTypeString),
+                range: func.returnTypeToken.range,
+                file: file
+            });
+        }
+    }
+
+    /**
+     * Determine if every code path through the block ends with a `return`, `throw` or `end` statement (or a loop that never exits)
+     */
+    private blockAlwaysReturns(block: Block) {
+        return block?.statements.some(x => this.statementAlwaysReturns(x)) ?? false;
+    }
+
+    private statementAlwaysReturns(statement: Statement): boolean {
+        if (isReturnStatement(statement) || isThrowStatement(statement) || isEndStatement(statement)) {
+            return true;
+
+        } else if (isIfStatement(statement)) {
+            //an `if` without an `else` can be skipped entirely
+            if (!statement.elseBranch || !this.blockAlwaysReturns(statement.thenBranch)) {
+                return false;
+            }
+            if (isIfStatement(statement.elseBranch)) {
+                return this.statementAlwaysReturns(statement.elseBranch);
+            }
+            return this.blockAlwaysReturns(statement.elseBranch);
+
+        } else if (isTryCatchStatement(statement)) {
+            return this.blockAlwaysReturns(statement.tryBranch) && this.blockAlwaysReturns(statement.catchBranch);
+
+        } else if (isWhileStatement(statement)) {
+            //the code after a `while true` loop can only be reached with `exit while`
+            return isLiteralExpression(statement.condition) && statement.condition.token.kind === TokenKind.True && !this.hasExitWhile(statement);
+        }
+        return false;
+    }
+
+    /**
+     * Determine if the loop contains an `exit while` that exits this loop (rather than a nested `while` loop)
+     */
+    private hasExitWhile(loop: WhileStatement) {
+        const exitStatements = new Set<Statement>();
+        const nestedExitStatements = new Set<Statement>();
+        loop.body.walk(createVisitor({
+            ExitWhileStatement: (statement) => {
+                exitStatements.add(statement);
+            },
+            WhileStatement: (nestedLoop) => {
+                nestedLoop.body.walk(createVisitor({
+                    ExitWhileStatement: (statement) => {
+                        nestedExitStatements.add(statement);
+                    }
+                }), {
+                    walkMode: WalkMode.visitStatements
+                });
+            }
+        }), {
+            walkMode: WalkMode.visitStatements
+        });
+        return [...exitStatements].some(x => !nestedExitStatements.has(x));
+    }
+}
@@ -0,0 +1,213 @@
+import { DiagnosticMessages } from '../DiagnosticMessages';
+import type { Expression } from '../parser/Expression';
+import type { Block, Statement } from '../parser/Statement';
+import { isAssignmentStatement, isEndStatement, isExitForStatement, isExitWhileStatement, isExpression, isForEachStatement, isForStatement, isIfStatement, isLiteralExpression, isReturnStatement, isThrowStatement, isTryCatchStatement, isWhileStatement } from '../astUtils/reflection';
+import type { BsDiagnostic } from '../interfaces';
+import { createVisitor, WalkMode } from '../astUtils';
+import type { BrsFile } from '../files/BrsFile';
+import type { FunctionScope } from '../FunctionScope';
+import type { Scope } from '../Scope';
+import { ParseMode } from '../parser/Parser';
+import { TokenKind } from '../lexer';
+
+/**
+ * Finds reads of local variables that can happen before the variable has been assigned a value
+ * (i.e. a variable that is only assigned in one branch of an `if` statement, and read after it)
+ */
+export class BsVariableAssignmentValidator {
+    private scope: Scope;
+    private file: BrsFile;
+    /**
+     * The lower case names of the local variables of the function currently being validated
+     */
+    private localNames: Set<string>;
+    /**
+     * The variables that are definitely assigned at each `exit while` of the loops currently being validated (innermost loop last)
+     */
+    private whileExits: Set<string>[][];
+    public diagnostics: BsDiagnostic[];
+
+    public validate(scope: Scope) {
+        this.scope = scope;
+        this.diagnostics = [];
+
+        this.scope.enumerateBrsFiles((file) => {
+            //typedef files have no function bodies
+            if (file.isTypedef) {
+                return;
+            }
+            this.file = file;
+            for (const functionScope of file.functionScopes) {
+                //`goto` can jump anywhere in the function, so functions with labels are skipped
+                if (functionScope.func.body && functionScope.labelStatements.length === 0) {
+                    this.validateFunction(functionScope);
+                }
+            }
+        });
+
+        this.file = undefined;
+        this.scope = undefined;
+    }
+
+    private validateFunction(functionScope: FunctionScope) {
+        const func = functionScope.func;
+        const namespaceName = func.namespaceName?.getName(ParseMode.BrighterScript);
+        this.localNames = new Set();
+        this.whileExits = [];
+        for (const declaration of functionScope.variableDeclarations) {
+            const lowerName = declaration.name.toLowerCase();
+            //classes, enums, consts and namespaces take precedence over local variables with the same name
+            if (
+                !this.scope.hasClass(lowerName, namespaceName) &&
+                !this.scope.getEnum(lowerName, namespaceName) &&
+                !this.scope.getConst(lowerName, namespaceName) &&
+                !this.scope.namespaceLookup[lowerName]
+            ) {
+                this.localNames.add(lowerName);
+            }
+        }
+        //parameters always have a value
+        this.validateBlock(
+            func.body,
+            new Set(func.parameters.map(x => x.name.text.toLowerCase()))
+        );
+        this.localNames = undefined;
+        this.whileExits = undefined;
+    }
+
+    /**
+     * Validate every statement in the block
+     * @param assigned the lower case names of the variables that are definitely assigned when entering the block
+     * @returns the names of the variables that are definitely assigned at the end of the block, or `undefined` if the end of the block is never reached
+     */
+    private validateBlock(block: Block, assigned: Set<string>) {
+        let result = new Set(assigned);
+        for (const statement of block?.statements ?? []) {
+            result = this.validateStatement(statement, result);
+            if (!result) {
+                return undefined;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Validate a single statement. The `assigned` set may be modified
+     * @returns the names of the variables that are definitely assigned after the statement, or `undefined` if execution never continues after it
+     */
+    private validateStatement(statement: Statement, assigned: Set<string>): Set<string> {
+        if (isAssignmentStatement(statement)) {
+            this.validateReads(statement.value, assigned);
+            assigned.add(statement.name.text.toLowerCase());
+            return assigned;
+
+        } else if (isIfStatement(statement)) {
+            this.validateReads(statement.condition, assigned);
+            const thenAssigned = this.validateBlock(statement.thenBranch, assigned);
+            let elseAssigned: Set<string>;
+            if (isIfStatement(statement.elseBranch)) {
+                elseAssigned = this.validateStatement(statement.elseBranch, new Set(assigned));
+            } else if (statement.elseBranch) {
+                elseAssigned = this.validateBlock(statement.elseBranch, assigned);
+            } else {
+                elseAssigned = assigned;
+            }
+            return this.intersect(thenAssigned, elseAssigned);
+
+        } else if (isForStatement(statement)) {
+            this.validateReads(statement.counterDeclaration.value, assigned);
+            assigned.add(statement.counterDeclaration.name.text.toLowerCase());
+            this.validateReads(statement.finalValue, assigned);
+            this.validateReads(statement.increment, assigned);
+            //the loop body might never run, so its assignments are not carried over
+            this.validateBlock(statement.body, assigned);
+            return assigned;
+
+        } else if (isForEachStatement(statement)) {
+            this.validateReads(statement.target, assigned);
+            this.validateBlock(
+                statement.body,
+                new Set([...assigned, statement.item.text.toLowerCase()])
+            );
+            return assigned;
+
+        } else if (isWhileStatement(statement)) {
+            this.validateReads(statement.condition, assigned);
+            this.whileExits.push([]);
+            this.validateBlock(statement.body, assigned);
+            const exits = this.whileExits.pop();
+            //a `while true` loop always runs its body, and can only be left through `exit while`
+            if (isLiteralExpression(statement.condition) && statement.condition.token.kind === TokenKind.True) {
+                return exits.reduce<Set<string>>((result, exitAssigned) => this.intersect(result, exitAssigned), undefined);
+            }
+            //the loop body might never run, so its assignments are not carried over
+            return assigned;
+
+        } else if (isTryCatchStatement(statement)) {
+            const tryAssigned = this.validateBlock(statement.tryBranch, assigned);
+            //the try block can fail before any of its assignments happen
+            const catchAssigned = this.validateBlock(
+                statement.catchBranch,
+                new Set([...assigned, statement.exceptionVariable?.text.toLowerCase()])
+            );
+            return this.intersect(tryAssigned, catchAssigned);
+        }
+
+        this.validateReads(statement, assigned);
+        if (isExitWhileStatement(statement)) {
+            this.whileExits[this.whileExits.length - 1]?.push(new Set(assigned));
+            return undefined;
+        } else if (
+            isReturnStatement(statement) ||
+            isThrowStatement(statement) ||
+            isEndStatement(statement) ||
+            isExitForStatement(statement)
+        ) {
+            return undefined;
+        }
+        return assigned;
+    }
+
+    /**
+     * Flag every local variable read in the statement or expression that is not definitely assigned.
+     * Flagged variables are marked as assigned so that later reads of the same variable are not flagged again
+     */
+    private validateReads(node: Statement | Expression, assigned: Set<string>) {
+        if (!node) {
+            return;
+        }
+        const visitor = createVisitor({
+            VariableExpression: (expression) => {
+                const lowerName = expression.name.text.toLowerCase();
+                if (this.localNames.has(lowerName) && !assigned.has(lowerName)) {
+                    this.diagnostics.push({
+                        ...DiagnosticMessages.variableUsedBeforeAssignment(expression.name.text),
+                        range: expression.range,
+                        file: this.file
+                    });
+                    assigned.add(lowerName);
+                }
+            }
+        });
+        //walkers do not visit the node they start from
+        if (isExpression(node)) {
+            visitor(node, undefined);
+        }
+        //nested functions are not walked, since they have their own variables
+        node.walk(visitor, {
+            walkMode: WalkMode.visitLocalExpressions
+        });
+    }
+
+    /**
+     * Get the variables assigned in both code paths. `undefined` means the code path never reaches this point
+     */
+    private intersect(first: Set<string>, second: Set<string>) {
+        if (!first) {
+            return second;
+        } else if (!second) {
+            return first;
+        }
+        return new Set([...first].filter(x => second.has(x)));
+    }
+}